@@ -6,6 +6,8 @@ import { ErrorModal } from "@/components/App/ErrorModal";
 import { SelectConversation } from "@/components/App/SelectConversation";
 import { Welcome } from "@/components/App/Welcome";
 import { WelcomeLayout } from "@/components/App/WelcomeLayout";
+import { CreateInviteModal } from "@/components/Conversation/CreateInviteModal";
+import { JoinGroupModal } from "@/components/Conversation/JoinGroupModal";
 import { LoadConversation } from "@/components/Conversation/LoadConversation";
 import { LoadDM } from "@/components/Conversation/LoadDM";
 import { ManageConsentModal } from "@/components/Conversation/ManageConsentModal";
@@ -16,6 +18,7 @@ import { CreateDmModal } from "@/components/Conversations/CreateDmModal";
 import { CreateGroupModal } from "@/components/Conversations/CreateGroupModal";
 import { IdentityModal } from "@/components/Identity/IdentityModal";
 import { MessageModal } from "@/components/Messages/MessageModal";
+import { ThreadPanel } from "@/components/Messages/ThreadPanel";
 import { useAnalytics } from "@/hooks/useAnalytics";
 
 export const App: React.FC = () => {
@@ -34,6 +37,7 @@ export const App: React.FC = () => {
         <Route path="/*" element={<AppLayout />}>
           <Route index element={<Navigate to="/conversations" />} />
           <Route path="dm/:address" element={<LoadDM />} />
+          <Route path="join/:token" element={<JoinGroupModal />} />
           <Route path="conversations">
             <Route index element={<SelectConversation />} />
             <Route path="new-dm" element={<CreateDmModal />} />
@@ -44,6 +48,7 @@ export const App: React.FC = () => {
               <Route path="new-group" element={<CreateGroupModal />} />
               <Route path="identity" element={<IdentityModal />} />
               <Route path="message/:messageId" element={<MessageModal />} />
+              <Route path="thread/:messageId" element={<ThreadPanel />} />
               <Route path="manage">
                 <Route path="consent" element={<ManageConsentModal />} />
                 <Route path="members" element={<ManageMembersModal />} />
@@ -52,6 +57,7 @@ export const App: React.FC = () => {
                   element={<ManagePermissionsModal />}
                 />
                 <Route path="metadata" element={<ManageMetadataModal />} />
+                <Route path="invite" element={<CreateInviteModal />} />
               </Route>
             </Route>
           </Route>
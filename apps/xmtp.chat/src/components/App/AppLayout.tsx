@@ -6,6 +6,7 @@ import { AppFooter } from "@/components/App/AppFooter";
 import { AppHeader } from "@/components/App/AppHeader";
 import { ConversationsNavbar } from "@/components/Conversations/ConversationsNavbar";
 import { useXMTP } from "@/contexts/XMTPContext";
+import { useInvites } from "@/hooks/useInvites";
 import { useRedirect } from "@/hooks/useRedirect";
 import { CenteredLayout } from "@/layouts/CenteredLayout";
 import {
@@ -22,6 +23,7 @@ export const AppLayout: React.FC = () => {
   const { client } = useXMTP();
   const { setRedirectUrl } = useRedirect();
   const [opened, { toggle }] = useDisclosure();
+  useInvites(client);
 
   useEffect(() => {
     // For disconnect page, don't do anything - let the Disconnect component handle navigation
@@ -1,57 +1,241 @@
-import { Button, Group, TextInput } from "@mantine/core";
-import type { Conversation } from "@xmtp/browser-sdk";
-import { useRef, useState } from "react";
+import {
+  ActionIcon,
+  Button,
+  Combobox,
+  Group,
+  Stack,
+  Text,
+  TextInput,
+  Tooltip,
+  useCombobox,
+} from "@mantine/core";
+import {
+  IconBold,
+  IconCode,
+  IconItalic,
+  IconLink,
+  IconStrikethrough,
+} from "@tabler/icons-react";
+import {
+  Group as XmtpGroup,
+  type Conversation,
+  type SafeGroupMember,
+} from "@xmtp/browser-sdk";
+import { ContentTypeMarkdown } from "@xmtp/content-type-markdown";
+import {
+  ContentTypeTypingIndicator,
+  TypingThrottle,
+} from "@xmtp/content-type-typing-indicator";
+import { useEffect, useMemo, useRef, useState } from "react";
+import { useXMTP } from "@/contexts/XMTPContext";
+import { hasMarkdownFormatting } from "@/helpers/markdown";
+import { shortAddress } from "@/helpers/strings";
 import { useConversation } from "@/hooks/useConversation";
 import classes from "./Composer.module.css";
 
+const formats = [
+  { label: "Bold", icon: IconBold, before: "**", after: "**" },
+  { label: "Italic", icon: IconItalic, before: "_", after: "_" },
+  {
+    label: "Strikethrough",
+    icon: IconStrikethrough,
+    before: "~~",
+    after: "~~",
+  },
+  { label: "Code", icon: IconCode, before: "`", after: "`" },
+  { label: "Link", icon: IconLink, before: "[", after: "](https://)" },
+];
+
+// `@name` token being typed before the cursor
+const MENTION_QUERY = /(?:^|\s)@([\p{L}\p{N}_.-]*)$/u;
+
+const memberName = (member: SafeGroupMember) =>
+  member.accountIdentifiers[0]?.identifier ?? member.inboxId;
+
 export type ComposerProps = {
   conversation: Conversation;
 };
 
 export const Composer: React.FC<ComposerProps> = ({ conversation }) => {
+  const { client } = useXMTP();
   const { send, sending } = useConversation(conversation);
   const [message, setMessage] = useState("");
+  const [members, setMembers] = useState<SafeGroupMember[]>([]);
+  const [mentionQuery, setMentionQuery] = useState<string | undefined>();
   const inputRef = useRef<HTMLInputElement>(null);
+  const combobox = useCombobox();
+  const typingThrottle = useMemo(
+    () =>
+      new TypingThrottle((indicator) =>
+        conversation.send(indicator, ContentTypeTypingIndicator),
+      ),
+    [conversation.id],
+  );
+
+  // stop typing when leaving the conversation
+  useEffect(() => {
+    return () => {
+      typingThrottle.stop();
+    };
+  }, [typingThrottle]);
+
+  // members that can be mentioned in groups
+  useEffect(() => {
+    setMembers([]);
+    if (!(conversation instanceof XmtpGroup)) {
+      return;
+    }
+    void conversation.members().then((members) => {
+      setMembers(
+        members.filter((member) => member.inboxId !== client?.inboxId),
+      );
+    });
+  }, [conversation.id, client?.inboxId]);
+
+  const suggestions = useMemo(() => {
+    if (mentionQuery === undefined) {
+      return [];
+    }
+    const query = mentionQuery.toLowerCase();
+    return members
+      .filter(
+        (member) =>
+          memberName(member).toLowerCase().includes(query) ||
+          member.inboxId.startsWith(query),
+      )
+      .slice(0, 5);
+  }, [members, mentionQuery]);
+
+  useEffect(() => {
+    if (suggestions.length > 0) {
+      combobox.openDropdown();
+      combobox.selectFirstOption();
+    } else {
+      combobox.closeDropdown();
+    }
+  }, [suggestions]);
+
+  const updateMentionQuery = (value: string, cursor: number | null) => {
+    const match = MENTION_QUERY.exec(value.slice(0, cursor ?? value.length));
+    setMentionQuery(match?.[1]);
+  };
+
+  // replaces the `@name` token before the cursor with a mention
+  const handleMention = (inboxId: string) => {
+    const member = members.find((member) => member.inboxId === inboxId);
+    const input = inputRef.current;
+    if (!member || mentionQuery === undefined) {
+      return;
+    }
+    const cursor = input?.selectionStart ?? message.length;
+    const start = cursor - mentionQuery.length - 1;
+    const mention = `@${memberName(member)} `;
+    setMessage(`${message.slice(0, start)}${mention}${message.slice(cursor)}`);
+    setMentionQuery(undefined);
+    setTimeout(() => {
+      input?.focus();
+      input?.setSelectionRange(start + mention.length, start + mention.length);
+    }, 0);
+  };
 
   const handleSend = async () => {
-    await send(message);
+    typingThrottle.stop();
+    setMentionQuery(undefined);
+    const { mentions } =
+      conversation instanceof XmtpGroup
+        ? await conversation.resolveMentions(message)
+        : { mentions: [] };
+    await send(
+      message,
+      hasMarkdownFormatting(message) ? ContentTypeMarkdown : undefined,
+      { mentions },
+    );
     setMessage("");
     setTimeout(() => {
       inputRef.current?.focus();
     }, 50);
   };
 
+  // wraps the selected text with markdown formatting
+  const handleFormat = (before: string, after: string) => {
+    const input = inputRef.current;
+    const start = input?.selectionStart ?? message.length;
+    const end = input?.selectionEnd ?? message.length;
+    setMessage(
+      `${message.slice(0, start)}${before}${message.slice(start, end)}${after}${message.slice(end)}`,
+    );
+    setTimeout(() => {
+      input?.focus();
+      input?.setSelectionRange(start + before.length, end + before.length);
+    }, 0);
+  };
+
   return (
-    <Group
-      align="center"
-      gap="xs"
-      flex={1}
-      wrap="nowrap"
-      p="md"
-      className={classes.root}>
-      <TextInput
-        ref={inputRef}
-        disabled={sending}
-        size="md"
-        placeholder="Type a message..."
-        flex={1}
-        value={message}
-        onKeyDown={(event) => {
-          if (event.key === "Enter") {
-            void handleSend();
-          }
-        }}
-        onChange={(e) => {
-          setMessage(e.target.value);
-        }}
-      />
-      <Button
-        disabled={message.length === 0}
-        loading={sending}
-        size="md"
-        onClick={() => void handleSend()}>
-        Send
-      </Button>
-    </Group>
+    <Stack gap={4} p="md" className={classes.root}>
+      <Group gap={4}>
+        {formats.map(({ label, icon: Icon, before, after }) => (
+          <Tooltip key={label} label={label} withArrow>
+            <ActionIcon
+              variant="subtle"
+              color="gray"
+              aria-label={label}
+              disabled={sending}
+              onClick={() => {
+                handleFormat(before, after);
+              }}>
+              <Icon size={16} />
+            </ActionIcon>
+          </Tooltip>
+        ))}
+      </Group>
+      <Group align="center" gap="xs" flex={1} wrap="nowrap">
+        <Combobox
+          store={combobox}
+          onOptionSubmit={handleMention}
+          position="top-start">
+          <Combobox.Target>
+            <TextInput
+              ref={inputRef}
+              disabled={sending}
+              size="md"
+              placeholder="Type a message..."
+              flex={1}
+              value={message}
+              onKeyDown={(event) => {
+                // Enter picks a suggestion while they're shown
+                if (event.key === "Enter" && !combobox.dropdownOpened) {
+                  void handleSend();
+                }
+              }}
+              onChange={(e) => {
+                setMessage(e.target.value);
+                updateMentionQuery(e.target.value, e.target.selectionStart);
+                if (e.target.value.length > 0) {
+                  typingThrottle.keystroke();
+                } else {
+                  typingThrottle.stop();
+                }
+              }}
+            />
+          </Combobox.Target>
+          <Combobox.Dropdown>
+            <Combobox.Options>
+              {suggestions.map((member) => (
+                <Combobox.Option value={member.inboxId} key={member.inboxId}>
+                  <Text size="sm">@{shortAddress(memberName(member))}</Text>
+                </Combobox.Option>
+              ))}
+            </Combobox.Options>
+          </Combobox.Dropdown>
+        </Combobox>
+        <Button
+          disabled={message.length === 0}
+          loading={sending}
+          size="md"
+          onClick={() => void handleSend()}>
+          Send
+        </Button>
+      </Group>
+    </Stack>
   );
 };
@@ -14,6 +14,7 @@ import { useConversation } from "@/hooks/useConversation";
 import { useWhiskIdentity } from "@/hooks/useWhiskIdentity";
 import { ContentLayout } from "@/layouts/ContentLayout";
 import { Composer } from "./Composer";
+import { TypingStatus } from "./TypingStatus";
 import { EditableAnonBadge } from "@/components/EditableAnonBadge";
 
 export type ConversationProps = {
@@ -28,10 +29,16 @@ export const Conversation: React.FC<ConversationProps> = ({ conversation }) => {
   const [isLoadingPeer, setIsLoadingPeer] = useState(false);
   const {
     messages,
+    polls,
+    reactions,
     getMessages,
+    markRead,
     loading: conversationLoading,
     syncing: conversationSyncing,
     streamMessages,
+    streamReactions,
+    streamTyping,
+    typingInboxIds,
   } = useConversation(conversation);
   const stopStreamRef = useRef<(() => void) | null>(null);
 
@@ -60,8 +67,15 @@ export const Conversation: React.FC<ConversationProps> = ({ conversation }) => {
   };
 
   const startStream = useCallback(async () => {
-    stopStreamRef.current = await streamMessages();
-  }, [streamMessages]);
+    const stopMessages = await streamMessages();
+    const stopReactions = await streamReactions();
+    const stopTyping = await streamTyping();
+    stopStreamRef.current = () => {
+      stopMessages();
+      stopReactions();
+      stopTyping();
+    };
+  }, [streamMessages, streamReactions, streamTyping]);
 
   const stopStream = useCallback(() => {
     stopStreamRef.current?.();
@@ -77,6 +91,11 @@ export const Conversation: React.FC<ConversationProps> = ({ conversation }) => {
     void loadMessages();
   }, [conversation.id]);
 
+  // read receipts are rate limited by the SDK
+  useEffect(() => {
+    void markRead();
+  }, [conversation.id, messages.length]);
+
   const handleSync = useCallback(async () => {
     stopStream();
     await getMessages(undefined, true);
@@ -277,9 +296,14 @@ export const Conversation: React.FC<ConversationProps> = ({ conversation }) => {
             />
           </Group>
         }
-        footer={<Composer conversation={conversation} />}
+        footer={
+          <>
+            <TypingStatus inboxIds={typingInboxIds} />
+            <Composer conversation={conversation} />
+          </>
+        }
         withScrollArea={false}>
-        <Messages messages={messages} />
+        <Messages messages={messages} polls={polls} reactions={reactions} />
       </ContentLayout>
       <Outlet context={{ conversation, client }} />
     </>
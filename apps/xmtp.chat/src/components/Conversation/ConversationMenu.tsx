@@ -42,6 +42,9 @@ export const ConversationMenu: React.FC<ConversationMenuProps> = ({
             <Menu.Item onClick={() => void navigate("manage/permissions")}>
               Permissions
             </Menu.Item>
+            <Menu.Item onClick={() => void navigate("manage/invite")}>
+              Invite link
+            </Menu.Item>
           </>
         )}
         <Menu.Label>Actions</Menu.Label>
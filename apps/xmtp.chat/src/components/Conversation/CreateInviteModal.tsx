@@ -0,0 +1,125 @@
+import {
+  Box,
+  Button,
+  Group,
+  NativeSelect,
+  NumberInput,
+  Stack,
+} from "@mantine/core";
+import { Group as XmtpGroup, type GroupInvite } from "@xmtp/browser-sdk";
+import { useCallback, useMemo, useState } from "react";
+import { useNavigate, useOutletContext } from "react-router-dom";
+import { CodeWithCopy } from "@/components/CodeWithCopy";
+import { Modal } from "@/components/Modal";
+import { useCollapsedMediaQuery } from "@/hooks/useCollapsedMediaQuery";
+import { ContentLayout } from "@/layouts/ContentLayout";
+import type { ConversationOutletContext } from "./ConversationOutletContext";
+
+const HOUR = 60 * 60 * 1000;
+
+const expirations = [
+  { value: "0", label: "Never expires" },
+  { value: String(HOUR), label: "Expires in 1 hour" },
+  { value: String(24 * HOUR), label: "Expires in 1 day" },
+  { value: String(7 * 24 * HOUR), label: "Expires in 7 days" },
+];
+
+export const CreateInviteModal: React.FC = () => {
+  const { conversation } = useOutletContext<ConversationOutletContext>();
+  const navigate = useNavigate();
+  const fullScreen = useCollapsedMediaQuery();
+  const contentHeight = fullScreen ? "auto" : 400;
+  const [expiresIn, setExpiresIn] = useState(expirations[2].value);
+  const [maxUses, setMaxUses] = useState<number | string>("");
+  const [creating, setCreating] = useState(false);
+  const [invite, setInvite] = useState<GroupInvite | undefined>(undefined);
+
+  const handleClose = useCallback(() => {
+    void navigate(`/conversations/${conversation.id}`);
+  }, [navigate, conversation.id]);
+
+  const handleCreate = useCallback(async () => {
+    if (!(conversation instanceof XmtpGroup)) {
+      return;
+    }
+    setCreating(true);
+    try {
+      const duration = Number(expiresIn);
+      setInvite(
+        await conversation.createInvite({
+          expiresAt: duration ? new Date(Date.now() + duration) : undefined,
+          maxUses: typeof maxUses === "number" ? maxUses : undefined,
+        }),
+      );
+    } finally {
+      setCreating(false);
+    }
+  }, [conversation, expiresIn, maxUses]);
+
+  const footer = useMemo(() => {
+    return (
+      <Group justify="flex-end" flex={1} p="md">
+        <Button variant="default" onClick={handleClose}>
+          {invite ? "Close" : "Cancel"}
+        </Button>
+        {!invite && (
+          <Button
+            variant="filled"
+            loading={creating}
+            onClick={() => void handleCreate()}>
+            Create
+          </Button>
+        )}
+      </Group>
+    );
+  }, [invite, creating, handleClose, handleCreate]);
+
+  return (
+    <Modal
+      closeOnClickOutside={false}
+      closeOnEscape={false}
+      withCloseButton={false}
+      opened
+      centered
+      fullScreen={fullScreen}
+      onClose={handleClose}
+      size="md"
+      padding={0}>
+      <ContentLayout
+        title="Create invite link"
+        maxHeight={contentHeight}
+        footer={footer}
+        withScrollFade={false}
+        withScrollAreaPadding={false}>
+        <Box p="md">
+          {invite ? (
+            <CodeWithCopy
+              code={`${window.location.origin}/join/${invite.token}`}
+            />
+          ) : (
+            <Stack gap="sm">
+              <NativeSelect
+                size="sm"
+                disabled={creating}
+                value={expiresIn}
+                onChange={(event) => {
+                  setExpiresIn(event.currentTarget.value);
+                }}
+                data={expirations}
+              />
+              <NumberInput
+                size="sm"
+                disabled={creating}
+                placeholder="Unlimited uses"
+                min={1}
+                allowDecimal={false}
+                value={maxUses}
+                onChange={setMaxUses}
+              />
+            </Stack>
+          )}
+        </Box>
+      </ContentLayout>
+    </Modal>
+  );
+};
@@ -0,0 +1,100 @@
+import { Box, Button, Group, Stack, Text } from "@mantine/core";
+import { decodeInviteToken, type Client } from "@xmtp/browser-sdk";
+import { formatRelative } from "date-fns";
+import { useCallback, useMemo, useState } from "react";
+import { useNavigate, useOutletContext, useParams } from "react-router-dom";
+import { BadgeWithCopy } from "@/components/BadgeWithCopy";
+import { Modal } from "@/components/Modal";
+import { useCollapsedMediaQuery } from "@/hooks/useCollapsedMediaQuery";
+import { ContentLayout } from "@/layouts/ContentLayout";
+
+export const JoinGroupModal: React.FC = () => {
+  const { token = "" } = useParams();
+  const { client } = useOutletContext<{ client: Client }>();
+  const navigate = useNavigate();
+  const fullScreen = useCollapsedMediaQuery();
+  const contentHeight = fullScreen ? "auto" : 300;
+  const [joining, setJoining] = useState(false);
+  const invite = useMemo(() => decodeInviteToken(token)?.payload, [token]);
+  const expiresAt = invite?.expiresAt ? new Date(invite.expiresAt) : undefined;
+  const expired = !!expiresAt && expiresAt.getTime() <= Date.now();
+  const isInviter = invite?.inviterInboxId === client.inboxId;
+
+  const handleClose = useCallback(() => {
+    void navigate("/conversations");
+  }, [navigate]);
+
+  const handleJoin = useCallback(async () => {
+    setJoining(true);
+    try {
+      // the inviter adds us to the group when it receives the token
+      const dm = await client.invites.join(token);
+      void navigate(`/conversations/${dm.id}`);
+    } finally {
+      setJoining(false);
+    }
+  }, [client, token, navigate]);
+
+  const footer = useMemo(() => {
+    return (
+      <Group justify="flex-end" flex={1} p="md">
+        <Button variant="default" onClick={handleClose}>
+          Cancel
+        </Button>
+        <Button
+          variant="filled"
+          disabled={!invite || expired || isInviter}
+          loading={joining}
+          onClick={() => void handleJoin()}>
+          Request to join
+        </Button>
+      </Group>
+    );
+  }, [invite, expired, isInviter, joining, handleClose, handleJoin]);
+
+  return (
+    <Modal
+      closeOnClickOutside={false}
+      closeOnEscape={false}
+      withCloseButton={false}
+      opened
+      centered
+      fullScreen={fullScreen}
+      onClose={handleClose}
+      size="md"
+      padding={0}>
+      <ContentLayout
+        title="Join group"
+        maxHeight={contentHeight}
+        footer={footer}
+        withScrollFade={false}
+        withScrollAreaPadding={false}>
+        <Box p="md">
+          {!invite ? (
+            <Text size="sm">This invite link is invalid.</Text>
+          ) : (
+            <Stack gap="sm">
+              <Group gap="xs" wrap="nowrap">
+                <Text size="sm" flex="0 0 auto">
+                  Invited by
+                </Text>
+                <BadgeWithCopy value={invite.inviterInboxId} />
+              </Group>
+              {expiresAt && (
+                <Text size="sm" c={expired ? "red" : "dimmed"}>
+                  {expired ? "Expired" : "Expires"}{" "}
+                  {formatRelative(expiresAt, new Date())}
+                </Text>
+              )}
+              <Text size="sm" c="dimmed">
+                {isInviter
+                  ? "You created this invite."
+                  : "Your request is sent to the inviter in a DM, you'll be added to the group once they accept it."}
+              </Text>
+            </Stack>
+          )}
+        </Box>
+      </ContentLayout>
+    </Modal>
+  );
+};
@@ -0,0 +1,31 @@
+import { Text } from "@mantine/core";
+
+export type TypingStatusProps = {
+  inboxIds: string[];
+};
+
+const shortenInboxId = (inboxId: string) =>
+  `${inboxId.substring(0, 6)}...${inboxId.substring(inboxId.length - 4)}`;
+
+/**
+ * Shows which members are typing, above the composer
+ */
+export const TypingStatus: React.FC<TypingStatusProps> = ({ inboxIds }) => {
+  if (inboxIds.length === 0) {
+    return null;
+  }
+
+  const names = inboxIds.map(shortenInboxId);
+  const label =
+    names.length === 1
+      ? `${names[0]} is typing…`
+      : names.length === 2
+        ? `${names[0]} and ${names[1]} are typing…`
+        : `${names.length} people are typing…`;
+
+  return (
+    <Text size="xs" c="dimmed" px="md" pt="xs">
+      {label}
+    </Text>
+  );
+};
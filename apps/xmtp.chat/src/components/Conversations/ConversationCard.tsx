@@ -1,11 +1,20 @@
-import { Box, Card, Flex, Stack, Text, Image, Tooltip, Group } from "@mantine/core";
+import {
+  Badge,
+  Box,
+  Card,
+  Flex,
+  Image,
+  Stack,
+  Text,
+  Tooltip,
+} from "@mantine/core";
 import { Dm, Group as XmtpGroup, type Conversation } from "@xmtp/browser-sdk";
+import makeBlockie from "ethereum-blockies-base64";
 import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
-import makeBlockie from 'ethereum-blockies-base64';
-import { useWhiskIdentity } from "@/hooks/useWhiskIdentity";
-import { useXMTP } from "@/contexts/XMTPContext";
 import { EditableAnonBadge } from "@/components/EditableAnonBadge";
+import { useXMTP } from "@/contexts/XMTPContext";
+import { useWhiskIdentity } from "@/hooks/useWhiskIdentity";
 import styles from "./ConversationCard.module.css";
 
 // This will be enabled when Whisk SDK is installed
@@ -23,15 +32,19 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
   const [name, setName] = useState("");
   const [peerAddress, setPeerAddress] = useState<string | null>(null);
   const [inboxId, setInboxId] = useState<string | null>(null);
+  const [unreadCount, setUnreadCount] = useState(0);
   const navigate = useNavigate();
   const { conversationId } = useParams();
   const { client } = useXMTP();
 
   // Use our Whisk identity hook to resolve the peer address
-  const { identity, isLoading, shortenAddress, whiskAvailable } = useWhiskIdentity(peerAddress);
+  const { identity, isLoading, shortenAddress, whiskAvailable } =
+    useWhiskIdentity(peerAddress);
 
   // Function to extract Ethereum address from any string
-  const extractEthereumAddress = (input: string | null | undefined): string | null => {
+  const extractEthereumAddress = (
+    input: string | null | undefined,
+  ): string | null => {
     if (!input) return null;
 
     // Standard Ethereum address pattern (0x followed by 40 hex chars)
@@ -41,7 +54,7 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
     }
 
     // More lenient pattern for non-standard formats
-    if (input.includes('0x')) {
+    if (input.includes("0x")) {
       const lenientMatch = input.match(/0x[a-fA-F0-9]{6,}/i);
       if (lenientMatch) {
         return lenientMatch[0].toLowerCase();
@@ -57,6 +70,13 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
     });
   }, [conversation.id]);
 
+  // refresh the unread count when switching conversations
+  useEffect(() => {
+    void conversation.unreadCount().then(setUnreadCount);
+  }, [conversation.id, conversationId]);
+
+  const showUnreadBadge = unreadCount > 0 && conversation.id !== conversationId;
+
   useEffect(() => {
     const processPeerIdentity = async () => {
       if (conversation instanceof XmtpGroup) {
@@ -65,12 +85,17 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
         try {
           // Get the peer's inbox ID
           const rawPeerInboxId = await conversation.peerInboxId();
-          console.log('[ConversationCard] Raw peer inbox ID:', rawPeerInboxId);
+          console.log("[ConversationCard] Raw peer inbox ID:", rawPeerInboxId);
           setInboxId(rawPeerInboxId);
 
           // Get all conversation members
           const members = await conversation.members();
-          console.log('[ConversationCard] All conversation members for conversation ' + conversation.id + ':', members);
+          console.log(
+            "[ConversationCard] All conversation members for conversation " +
+              conversation.id +
+              ":",
+            members,
+          );
 
           // Try to find Ethereum addresses from member data
           let peerWalletAddress = null;
@@ -82,26 +107,41 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
             for (const member of members) {
               // Skip our own account
               if (member.inboxId === myInboxId) {
-                console.log('[ConversationCard] Skipping own account:', member.inboxId);
+                console.log(
+                  "[ConversationCard] Skipping own account:",
+                  member.inboxId,
+                );
                 continue;
               }
 
-              console.log('[ConversationCard] Processing peer member:', member);
+              console.log("[ConversationCard] Processing peer member:", member);
 
               // Set the peer's inboxId first as a fallback
               if (!peerWalletAddress && member.inboxId) {
                 peerWalletAddress = extractEthereumAddress(member.inboxId);
-                console.log('[ConversationCard] Extracted address from peer inboxId:', peerWalletAddress);
+                console.log(
+                  "[ConversationCard] Extracted address from peer inboxId:",
+                  peerWalletAddress,
+                );
               }
 
               // Check if member has accountIdentifiers
-              if (member.accountIdentifiers && member.accountIdentifiers.length > 0) {
+              if (member.accountIdentifiers.length > 0) {
                 for (const identifier of member.accountIdentifiers) {
-                  console.log('[ConversationCard] Account identifier:', identifier);
-                  if (identifier.identifierKind === 'Ethereum' && identifier.identifier) {
+                  console.log(
+                    "[ConversationCard] Account identifier:",
+                    identifier,
+                  );
+                  if (
+                    identifier.identifierKind === "Ethereum" &&
+                    identifier.identifier
+                  ) {
                     // Found an Ethereum address
                     const ethAddr = identifier.identifier.toLowerCase();
-                    console.log('[ConversationCard] Found Ethereum identifier:', ethAddr);
+                    console.log(
+                      "[ConversationCard] Found Ethereum identifier:",
+                      ethAddr,
+                    );
 
                     // Use this as the peer wallet address
                     peerWalletAddress = ethAddr;
@@ -115,31 +155,51 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
           // If we didn't find a wallet address from members, try to extract from inbox ID
           if (!peerWalletAddress && rawPeerInboxId) {
             peerWalletAddress = extractEthereumAddress(rawPeerInboxId);
-            console.log('[ConversationCard] Extracted wallet address from inbox ID:', peerWalletAddress);
+            console.log(
+              "[ConversationCard] Extracted wallet address from inbox ID:",
+              peerWalletAddress,
+            );
           }
 
           // If we found a wallet address, use it
           if (peerWalletAddress) {
-            console.log('[ConversationCard] Setting peer address for conversation ' + conversation.id + ':', peerWalletAddress);
+            console.log(
+              "[ConversationCard] Setting peer address for conversation " +
+                conversation.id +
+                ":",
+              peerWalletAddress,
+            );
             setPeerAddress(peerWalletAddress);
             // Use shortenAddress directly here to ensure unique display
             const shortened = shortenAddress(peerWalletAddress);
-            console.log('[ConversationCard] Shortened address:', shortened);
+            console.log("[ConversationCard] Shortened address:", shortened);
             setName(shortened);
           }
           // Last resort - use the inbox ID
           else if (rawPeerInboxId) {
-            console.log('[ConversationCard] Using inbox ID as fallback:', rawPeerInboxId);
-            setName(rawPeerInboxId.substring(0, 6) + '...' + rawPeerInboxId.substring(rawPeerInboxId.length - 4));
+            console.log(
+              "[ConversationCard] Using inbox ID as fallback:",
+              rawPeerInboxId,
+            );
+            setName(
+              rawPeerInboxId.substring(0, 6) +
+                "..." +
+                rawPeerInboxId.substring(rawPeerInboxId.length - 4),
+            );
             // If inbox ID looks like an Ethereum address, use it anyway
-            if (rawPeerInboxId.startsWith('0x')) {
+            if (rawPeerInboxId.startsWith("0x")) {
               setPeerAddress(rawPeerInboxId);
             }
           } else {
             setName("Unknown");
           }
         } catch (error) {
-          console.error('[ConversationCard] Error processing peer identity for conversation ' + conversation.id + ':', error);
+          console.error(
+            "[ConversationCard] Error processing peer identity for conversation " +
+              conversation.id +
+              ":",
+            error,
+          );
           setName("Unknown");
         }
       }
@@ -152,7 +212,8 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
   const displayName = identity?.name || name || "Untitled";
 
   // Generate blockie avatar for the address if no avatar exists
-  const avatarUrl = identity?.avatar || (peerAddress ? makeBlockie(peerAddress) : null);
+  const avatarUrl =
+    identity?.avatar || (peerAddress ? makeBlockie(peerAddress) : null);
 
   // Prepare tooltip text
   const getTooltipText = () => {
@@ -161,7 +222,7 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
       text += `\nInbox: ${inboxId}`;
     }
     if (whiskAvailable) {
-      text += '\nWhisk identity resolution enabled';
+      text += "\nWhisk identity resolution enabled";
     }
     return text;
   };
@@ -197,7 +258,7 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
                   height={24}
                   radius="xl"
                   alt={`${displayName} avatar`}
-                  onError={(e: any) => {
+                  onError={(e) => {
                     // Fallback to blockie if image fails to load
                     e.currentTarget.src = makeBlockie(peerAddress);
                   }}
@@ -216,6 +277,12 @@ export const ConversationCard: React.FC<ConversationCardProps> = ({
                 conversationId={conversation.id}
               />
             )}
+
+            {showUnreadBadge && (
+              <Badge size="sm" circle ml="auto">
+                {unreadCount > 99 ? "99+" : unreadCount}
+              </Badge>
+            )}
           </Flex>
           <Text size="sm">
             {memberCount} member{memberCount !== 1 ? "s" : ""}
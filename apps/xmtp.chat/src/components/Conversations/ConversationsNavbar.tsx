@@ -1,8 +1,19 @@
-import { Badge, Box, Group, Text, Flex, Button } from "@mantine/core";
+import {
+  Badge,
+  Box,
+  Button,
+  CloseButton,
+  Flex,
+  Group,
+  Text,
+  TextInput,
+} from "@mantine/core";
+import { IconSearch } from "@tabler/icons-react";
 import { useCallback, useEffect, useRef, useState } from "react";
 import { ConversationsList } from "@/components/Conversations/ConversationList";
 import { ConversationsMenu } from "@/components/Conversations/ConversationsMenu";
 import { GridOwnerMessages } from "@/components/Conversations/GridOwnerMessages";
+import { MessageSearchResults } from "@/components/Conversations/MessageSearchResults";
 import { useConversations } from "@/hooks/useConversations";
 import { ContentLayout } from "@/layouts/ContentLayout";
 
@@ -11,6 +22,7 @@ export const ConversationsNavbar: React.FC = () => {
     useConversations();
   const stopStreamRef = useRef<(() => void) | null>(null);
   const [isAddressBookBackedUp, setIsAddressBookBackedUp] = useState(false);
+  const [searchQuery, setSearchQuery] = useState("");
 
   const startStream = useCallback(async () => {
     stopStreamRef.current = await stream();
@@ -76,7 +88,32 @@ export const ConversationsNavbar: React.FC = () => {
           <GridOwnerMessages key={`grid-owner-messages-${Date.now()}`} />
         </Box>
         
-        {conversations.length === 0 ? (
+        <Box px="sm" mb="xs">
+          <TextInput
+            placeholder="Search messages"
+            aria-label="Search messages"
+            leftSection={<IconSearch size={16} />}
+            rightSection={
+              searchQuery && (
+                <CloseButton
+                  size="sm"
+                  aria-label="Clear search"
+                  onClick={() => {
+                    setSearchQuery("");
+                  }}
+                />
+              )
+            }
+            value={searchQuery}
+            onChange={(event) => {
+              setSearchQuery(event.currentTarget.value);
+            }}
+          />
+        </Box>
+
+        {searchQuery.trim() ? (
+          <MessageSearchResults query={searchQuery} />
+        ) : conversations.length === 0 ? (
           <Box
             display="flex"
             style={{
@@ -0,0 +1,126 @@
+import { Box, Card, Mark, Stack, Text } from "@mantine/core";
+import { useDebouncedValue } from "@mantine/hooks";
+import type { SearchHighlight, SearchResult } from "@xmtp/browser-sdk";
+import { intlFormat } from "date-fns";
+import { Fragment, useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { nsToDate } from "@/helpers/date";
+import { useConversations } from "@/hooks/useConversations";
+import styles from "./ConversationCard.module.css";
+
+type HighlightedTextProps = {
+  text: string;
+  highlights: SearchHighlight[];
+};
+
+const HighlightedText: React.FC<HighlightedTextProps> = ({
+  text,
+  highlights,
+}) => {
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  highlights.forEach((highlight) => {
+    parts.push(text.slice(position, highlight.start));
+    parts.push(
+      <Mark key={highlight.start}>
+        {text.slice(highlight.start, highlight.end)}
+      </Mark>,
+    );
+    position = highlight.end;
+  });
+  parts.push(text.slice(position));
+
+  return (
+    <Text size="sm" lineClamp={2}>
+      {parts.map((part, index) => (
+        <Fragment key={index}>{part}</Fragment>
+      ))}
+    </Text>
+  );
+};
+
+export type MessageSearchResultsProps = {
+  query: string;
+};
+
+export const MessageSearchResults: React.FC<MessageSearchResultsProps> = ({
+  query,
+}) => {
+  const navigate = useNavigate();
+  const { searchMessages, searching } = useConversations();
+  const [debouncedQuery] = useDebouncedValue(query.trim(), 300);
+  const [results, setResults] = useState<SearchResult[]>([]);
+
+  useEffect(() => {
+    let cancelled = false;
+    const search = async () => {
+      const searchResults = debouncedQuery
+        ? await searchMessages(debouncedQuery)
+        : [];
+      // ignore results of outdated queries
+      if (!cancelled) {
+        setResults(searchResults);
+      }
+    };
+    void search();
+    return () => {
+      cancelled = true;
+    };
+  }, [debouncedQuery]);
+
+  if (results.length === 0) {
+    return (
+      <Box
+        display="flex"
+        style={{
+          flexGrow: 1,
+          alignItems: "center",
+          justifyContent: "center",
+        }}>
+        <Text>{searching ? "Searching..." : "No messages found"}</Text>
+      </Box>
+    );
+  }
+
+  return (
+    <Stack gap="xs" style={{ flexGrow: 1, overflowY: "auto" }} py="xs">
+      {results.map((result) => (
+        <Box px="sm" key={result.message.id}>
+          <Card
+            shadow="sm"
+            padding="sm"
+            radius="md"
+            withBorder
+            tabIndex={0}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                void navigate(
+                  `/conversations/${result.message.conversationId}`,
+                );
+              }
+            }}
+            onClick={() =>
+              void navigate(`/conversations/${result.message.conversationId}`)
+            }
+            className={styles.root}>
+            <Stack gap="xs">
+              <HighlightedText
+                text={result.text}
+                highlights={result.highlights}
+              />
+              <Text size="xs" c="dimmed">
+                {intlFormat(nsToDate(result.message.sentAtNs), {
+                  year: "numeric",
+                  month: "2-digit",
+                  day: "2-digit",
+                  hour: "2-digit",
+                  minute: "2-digit",
+                })}
+              </Text>
+            </Stack>
+          </Card>
+        </Box>
+      ))}
+    </Stack>
+  );
+};
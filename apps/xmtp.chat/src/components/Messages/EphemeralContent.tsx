@@ -0,0 +1,111 @@
+import { Button, Paper, Stack, Text } from "@mantine/core";
+import type { PurgeReason } from "@xmtp/browser-sdk";
+import { isExpired, type Ephemeral } from "@xmtp/content-type-ephemeral";
+import { formatRelative } from "date-fns";
+import { useEffect, useState } from "react";
+import { useXMTP } from "@/contexts/XMTPContext";
+
+export type EphemeralContentProps = {
+  ephemeral: Ephemeral;
+  messageId: string;
+  conversationId: string;
+  renderContent: (ephemeral: Ephemeral) => React.ReactNode;
+};
+
+export type PurgedContentProps = {
+  purged: PurgeReason;
+};
+
+/**
+ * Renders an ephemeral message whose content was purged
+ */
+export const PurgedContent: React.FC<PurgedContentProps> = ({ purged }) => (
+  <Paper withBorder py="xs" px="sm" radius="md">
+    <Text size="sm" c="dimmed" fs="italic">
+      {purged === "viewed" ? "Viewed" : "Expired"}
+    </Text>
+  </Paper>
+);
+
+/**
+ * Renders an ephemeral message, view-once messages are hidden until they're
+ * tapped and purged after they're viewed
+ */
+export const EphemeralContent: React.FC<EphemeralContentProps> = ({
+  ephemeral,
+  messageId,
+  conversationId,
+  renderContent,
+}) => {
+  const { client } = useXMTP();
+  const [viewed, setViewed] = useState<Ephemeral | undefined>(
+    ephemeral.viewOnce ? undefined : ephemeral,
+  );
+  const [viewing, setViewing] = useState(false);
+  const [purged, setPurged] = useState<PurgeReason | undefined>(
+    isExpired(ephemeral) ? "expired" : undefined,
+  );
+
+  // the content is hidden as soon as it expires
+  useEffect(() => {
+    if (!ephemeral.expiresAt || purged) {
+      return;
+    }
+    const timeout = setTimeout(
+      () => {
+        setViewed(undefined);
+        setPurged("expired");
+      },
+      Math.max(ephemeral.expiresAt.getTime() - Date.now(), 0),
+    );
+    return () => {
+      clearTimeout(timeout);
+    };
+  }, [ephemeral.expiresAt, purged]);
+
+  const handleView = async () => {
+    const conversation =
+      await client?.conversations.getConversationById(conversationId);
+    if (!conversation) {
+      return;
+    }
+    setViewing(true);
+    try {
+      const message = await conversation.viewMessage(messageId);
+      if (message.purged) {
+        setPurged(message.purged);
+      } else {
+        setViewed(message.content as Ephemeral);
+      }
+    } finally {
+      setViewing(false);
+    }
+  };
+
+  if (purged) {
+    return <PurgedContent purged={purged} />;
+  }
+
+  if (!viewed) {
+    return (
+      <Button
+        variant="light"
+        radius="md"
+        loading={viewing}
+        onClick={() => void handleView()}>
+        Tap to view
+      </Button>
+    );
+  }
+
+  return (
+    <Stack gap={4}>
+      {renderContent(viewed)}
+      {viewed.expiresAt && (
+        <Text size="xs" c="dimmed">
+          Disappears {formatRelative(viewed.expiresAt, new Date())}
+        </Text>
+      )}
+    </Stack>
+  );
+};
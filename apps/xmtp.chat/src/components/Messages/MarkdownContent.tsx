@@ -0,0 +1,103 @@
+import { Anchor, Blockquote, Code, List, Text } from "@mantine/core";
+import {
+  isSafeUrl,
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from "@xmtp/content-type-markdown";
+import { Fragment, useMemo } from "react";
+import { shortAddress } from "@/helpers/strings";
+
+const renderInline = (nodes: MarkdownInline[]): React.ReactNode =>
+  nodes.map((node, index) => {
+    switch (node.type) {
+      case "text":
+        return <Fragment key={index}>{node.text}</Fragment>;
+      case "break":
+        return <br key={index} />;
+      case "strong":
+        return <strong key={index}>{renderInline(node.children)}</strong>;
+      case "emphasis":
+        return <em key={index}>{renderInline(node.children)}</em>;
+      case "strikethrough":
+        return <s key={index}>{renderInline(node.children)}</s>;
+      case "code":
+        return <Code key={index}>{node.text}</Code>;
+      case "mention":
+        return (
+          <Text key={index} span fw={700} title={node.inboxId}>
+            @{node.label || shortAddress(node.inboxId)}
+          </Text>
+        );
+      case "link":
+        // received links aren't validated by the sender's codec
+        return isSafeUrl(node.url) ? (
+          <Anchor
+            key={index}
+            href={node.url}
+            target="_blank"
+            rel="noopener noreferrer"
+            c="inherit"
+            underline="always">
+            {renderInline(node.children)}
+          </Anchor>
+        ) : (
+          <Fragment key={index}>{renderInline(node.children)}</Fragment>
+        );
+    }
+  });
+
+const renderBlocks = (blocks: MarkdownBlock[]): React.ReactNode =>
+  blocks.map((block, index) => {
+    switch (block.type) {
+      case "paragraph":
+        return (
+          <Text key={index} style={{ wordBreak: "break-word" }}>
+            {renderInline(block.children)}
+          </Text>
+        );
+      case "codeBlock":
+        return (
+          <Code key={index} block style={{ whiteSpace: "pre-wrap" }}>
+            {block.text}
+          </Code>
+        );
+      case "blockquote":
+        return (
+          <Blockquote key={index} color="white" py={4} px="sm">
+            {renderBlocks(block.children)}
+          </Blockquote>
+        );
+      case "list":
+        return (
+          <List
+            key={index}
+            type={block.ordered ? "ordered" : "unordered"}
+            renderRoot={
+              block.ordered
+                ? (props) => <ol {...props} start={block.start} />
+                : undefined
+            }
+            c="inherit">
+            {block.items.map((item, itemIndex) => (
+              <List.Item key={itemIndex}>{renderInline(item)}</List.Item>
+            ))}
+          </List>
+        );
+    }
+  });
+
+export type MarkdownContentProps = {
+  markdown: string;
+};
+
+/**
+ * Renders markdown content as React elements, never as HTML, so that
+ * received markdown can't inject markup or unsafe links
+ */
+export const MarkdownContent: React.FC<MarkdownContentProps> = ({
+  markdown,
+}) => {
+  const blocks = useMemo(() => parseMarkdown(markdown), [markdown]);
+  return <>{renderBlocks(blocks)}</>;
+};
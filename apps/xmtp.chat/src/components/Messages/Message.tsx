@@ -1,5 +1,10 @@
 import { Paper, Text, Group, Tooltip, Flex, Box } from "@mantine/core";
-import type { Client, DecodedMessage } from "@xmtp/browser-sdk";
+import type {
+  Client,
+  DecodedMessage,
+  PollResults,
+  ReactionSummary,
+} from "@xmtp/browser-sdk";
 import {
   ContentTypeTransactionReference,
   type TransactionReference,
@@ -14,15 +19,22 @@ import { nsToDate } from "@/helpers/date";
 import { useWhiskIdentity } from "@/hooks/useWhiskIdentity";
 import classes from "./Message.module.css";
 import { MessageContent } from "./MessageContent";
+import { ReactionChips } from "./ReactionChips";
 import { TransactionReferenceContent } from "./TransactionReferenceContent";
 import { WalletSendCallsContent } from "./WalletSendCallsContent";
 import { EditableAnonBadge } from "@/components/EditableAnonBadge";
 
 export type MessageProps = {
   message: DecodedMessage;
+  pollResults?: PollResults;
+  reactions?: ReactionSummary;
 };
 
-export const Message: React.FC<MessageProps> = ({ message }) => {
+export const Message: React.FC<MessageProps> = ({
+  message,
+  pollResults,
+  reactions,
+}) => {
   const { client } = useOutletContext<{ client: Client }>();
   const isSender = client.inboxId === message.senderInboxId;
   const align = isSender ? "right" : "left";
@@ -98,7 +110,22 @@ export const Message: React.FC<MessageProps> = ({ message }) => {
           )}
         </Flex>
 
-        <MessageContent content={message.content} />
+        <MessageContent
+          content={message.content as unknown}
+          contentType={message.contentType}
+          conversationId={message.conversationId}
+          messageId={message.id}
+          pollResults={pollResults}
+          purged={message.purged}
+        />
+
+        {reactions && reactions.reactions.length > 0 && (
+          <ReactionChips
+            reactions={reactions.reactions}
+            inboxId={client.inboxId}
+            justify={align === "right" ? "flex-end" : "flex-start"}
+          />
+        )}
 
         <Text size="xs" py="xs" c="dimmed" ta={align}>
           {formatRelative(nsToDate(message.sentAtNs), new Date())}
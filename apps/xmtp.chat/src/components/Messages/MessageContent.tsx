@@ -1,14 +1,105 @@
-import { Code, Paper, Text } from "@mantine/core";
+import { Code, Paper, Stack, Text } from "@mantine/core";
+import type { PollResults, PurgeReason } from "@xmtp/browser-sdk";
+import {
+  ContentTypeEphemeral,
+  type Ephemeral,
+} from "@xmtp/content-type-ephemeral";
+import { ContentTypeMarkdown } from "@xmtp/content-type-markdown";
+import { ContentTypePoll, type Poll } from "@xmtp/content-type-poll";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import { ContentTypeReply, type Reply } from "@xmtp/content-type-reply";
+import { EphemeralContent, PurgedContent } from "./EphemeralContent";
+import { MarkdownContent } from "./MarkdownContent";
+import { PollCard } from "./PollCard";
 
 export type MessageContentProps = {
-  content: any;
+  content: unknown;
+  contentType?: ContentTypeId;
+  conversationId?: string;
+  messageId?: string;
+  pollResults?: PollResults;
+  purged?: PurgeReason;
 };
 
 /**
  * Renders the content of a message. This is a simple component for now,
  * but could be extended to handle different content types.
  */
-export const MessageContent: React.FC<MessageContentProps> = ({ content }) => {
+export const MessageContent: React.FC<MessageContentProps> = ({
+  content,
+  contentType,
+  conversationId,
+  messageId,
+  pollResults,
+  purged,
+}) => {
+  if (purged) {
+    return <PurgedContent purged={purged} />;
+  }
+
+  if (
+    contentType?.sameAs(ContentTypeEphemeral) &&
+    content !== undefined &&
+    conversationId &&
+    messageId
+  ) {
+    return (
+      <EphemeralContent
+        ephemeral={content as Ephemeral}
+        messageId={messageId}
+        conversationId={conversationId}
+        renderContent={(ephemeral) => (
+          <MessageContent
+            content={ephemeral.content as unknown}
+            contentType={ephemeral.contentType}
+          />
+        )}
+      />
+    );
+  }
+
+  if (
+    contentType?.sameAs(ContentTypePoll) &&
+    content !== undefined &&
+    conversationId &&
+    messageId
+  ) {
+    return (
+      <PollCard
+        poll={content as Poll}
+        pollId={messageId}
+        conversationId={conversationId}
+        results={pollResults}
+      />
+    );
+  }
+
+  // replies are shown with the content they were sent with
+  if (contentType?.sameAs(ContentTypeReply) && content !== undefined) {
+    const reply = content as Reply;
+    return (
+      <MessageContent
+        content={reply.content as unknown}
+        contentType={reply.contentType}
+      />
+    );
+  }
+
+  if (typeof content === "string" && contentType?.sameAs(ContentTypeMarkdown)) {
+    return (
+      <Paper
+        bg="var(--mantine-color-blue-filled)"
+        c="white"
+        py="xs"
+        px="sm"
+        radius="md">
+        <Stack gap="xs">
+          <MarkdownContent markdown={content} />
+        </Stack>
+      </Paper>
+    );
+  }
+
   return typeof content === "string" ? (
     <Paper
       bg="var(--mantine-color-blue-filled)"
@@ -1,4 +1,8 @@
-import type { DecodedMessage } from "@xmtp/browser-sdk";
+import type {
+  DecodedMessage,
+  PollResults,
+  ReactionSummary,
+} from "@xmtp/browser-sdk";
 import type { ComponentProps } from "react";
 import { Virtuoso } from "react-virtuoso";
 import { Message } from "./Message";
@@ -10,9 +14,15 @@ const List = (props: ComponentProps<"div">) => {
 
 export type MessageListProps = {
   messages: DecodedMessage[];
+  polls?: Map<string, PollResults>;
+  reactions?: Map<string, ReactionSummary>;
 };
 
-export const MessageList: React.FC<MessageListProps> = ({ messages }) => {
+export const MessageList: React.FC<MessageListProps> = ({
+  messages,
+  polls,
+  reactions,
+}) => {
   return (
     <Virtuoso
       alignToBottom
@@ -24,7 +34,12 @@ export const MessageList: React.FC<MessageListProps> = ({ messages }) => {
       initialTopMostItemIndex={messages.length - 1}
       data={messages}
       itemContent={(_, message) => (
-        <Message key={message.id} message={message} />
+        <Message
+          key={message.id}
+          message={message}
+          pollResults={polls?.get(message.id)}
+          reactions={reactions?.get(message.id)}
+        />
       )}
     />
   );
@@ -1,4 +1,12 @@
-import { Center, ScrollArea, Stack, Tabs, Text } from "@mantine/core";
+import {
+  Button,
+  Center,
+  Group,
+  ScrollArea,
+  Stack,
+  Tabs,
+  Text,
+} from "@mantine/core";
 import { type DecodedMessage } from "@xmtp/browser-sdk";
 import { useEffect, useState } from "react";
 import { useNavigate, useParams } from "react-router-dom";
@@ -106,6 +114,19 @@ export const MessageModal: React.FC = () => {
               </ScrollArea>
             </Tabs.Panel>
           </Tabs>
+          <Group justify="flex-end">
+            <Button
+              variant="default"
+              onClick={() =>
+                // the thread panel replaces the modal in the history
+                void navigate(
+                  `/conversations/${message.conversationId}/thread/${message.id}`,
+                  { replace: true },
+                )
+              }>
+              View thread
+            </Button>
+          </Group>
         </Stack>
       )}
     </Modal>
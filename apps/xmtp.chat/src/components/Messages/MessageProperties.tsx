@@ -1,8 +1,10 @@
 import { Stack, Text } from "@mantine/core";
 import { type DecodedMessage } from "@xmtp/browser-sdk";
 import { intlFormat } from "date-fns";
-import { useMemo } from "react";
+import { useEffect, useMemo, useState } from "react";
+import { useOutletContext } from "react-router-dom";
 import { BadgeWithCopy } from "@/components/BadgeWithCopy";
+import type { ConversationOutletContext } from "@/components/Conversation/ConversationOutletContext";
 import { nsToDate } from "@/helpers/date";
 
 export type MessagePropertiesProps = {
@@ -12,6 +14,29 @@ export type MessagePropertiesProps = {
 export const MessageProperties: React.FC<MessagePropertiesProps> = ({
   message,
 }) => {
+  const { conversation } = useOutletContext<ConversationOutletContext>();
+  const [seenBy, setSeenBy] = useState<string[]>([]);
+
+  // members have seen the message when their last read receipt was sent
+  // after it
+  useEffect(() => {
+    const loadSeenBy = async () => {
+      const members = await conversation.members();
+      const readStates = await Promise.all(
+        members
+          .filter((member) => member.inboxId !== message.senderInboxId)
+          .map((member) => conversation.readStateFor(member.inboxId)),
+      );
+      setSeenBy(
+        readStates
+          .filter((readState) => !!readState)
+          .filter((readState) => readState.readAtNs >= message.sentAtNs)
+          .map((readState) => readState.inboxId),
+      );
+    };
+    void loadSeenBy();
+  }, [conversation.id, message.id]);
+
   const deliveryStatus = useMemo(() => {
     switch (message.deliveryStatus) {
       case "published":
@@ -78,6 +103,20 @@ export const MessageProperties: React.FC<MessagePropertiesProps> = ({
           })}
         />
       </Stack>
+      <Stack gap="calc(var(--mantine-spacing-xs) / 2)">
+        <Text size="sm" ml="xs">
+          Seen by
+        </Text>
+        {seenBy.length === 0 ? (
+          <Text size="sm" ml="xs" c="dimmed">
+            No read receipts
+          </Text>
+        ) : (
+          seenBy.map((inboxId) => (
+            <BadgeWithCopy key={inboxId} value={inboxId} />
+          ))
+        )}
+      </Stack>
     </Stack>
   );
 };
@@ -1,12 +1,22 @@
 import { Box, Text } from "@mantine/core";
-import type { DecodedMessage } from "@xmtp/browser-sdk";
+import type {
+  DecodedMessage,
+  PollResults,
+  ReactionSummary,
+} from "@xmtp/browser-sdk";
 import { MessageList } from "./MessageList";
 
 export type ConversationProps = {
   messages: DecodedMessage[];
+  polls?: Map<string, PollResults>;
+  reactions?: Map<string, ReactionSummary>;
 };
 
-export const Messages: React.FC<ConversationProps> = ({ messages }) => {
+export const Messages: React.FC<ConversationProps> = ({
+  messages,
+  polls,
+  reactions,
+}) => {
   return messages.length === 0 ? (
     <Box
       display="flex"
@@ -18,6 +28,6 @@ export const Messages: React.FC<ConversationProps> = ({ messages }) => {
       <Text>No messages</Text>
     </Box>
   ) : (
-    <MessageList messages={messages} />
+    <MessageList messages={messages} polls={polls} reactions={reactions} />
   );
 };
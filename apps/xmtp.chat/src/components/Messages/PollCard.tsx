@@ -0,0 +1,135 @@
+import {
+  Button,
+  Checkbox,
+  Group,
+  Paper,
+  Progress,
+  Radio,
+  Stack,
+  Text,
+} from "@mantine/core";
+import type { PollResults } from "@xmtp/browser-sdk";
+import type { Poll } from "@xmtp/content-type-poll";
+import { ContentTypePollVote } from "@xmtp/content-type-poll-vote";
+import { formatRelative } from "date-fns";
+import { useEffect, useMemo, useState } from "react";
+import { useXMTP } from "@/contexts/XMTPContext";
+
+export type PollCardProps = {
+  poll: Poll;
+  pollId: string;
+  conversationId: string;
+  results?: PollResults;
+};
+
+/**
+ * Renders a poll with its results, members can vote until the deadline
+ */
+export const PollCard: React.FC<PollCardProps> = ({
+  poll,
+  pollId,
+  conversationId,
+  results,
+}) => {
+  const { client } = useXMTP();
+  const [voting, setVoting] = useState(false);
+  const [selected, setSelected] = useState<string[]>([]);
+  const closed =
+    results?.closed ?? (!!poll.deadline && poll.deadline <= new Date());
+
+  // options the current inbox voted for
+  const voted = useMemo(
+    () =>
+      (results?.options ?? []).flatMap((option, index) =>
+        client?.inboxId && option.inboxIds.has(client.inboxId)
+          ? [String(index)]
+          : [],
+      ),
+    [results, client?.inboxId],
+  );
+
+  useEffect(() => {
+    setSelected(voted);
+  }, [voted]);
+
+  const handleVote = async () => {
+    const conversation =
+      await client?.conversations.getConversationById(conversationId);
+    if (!conversation) {
+      return;
+    }
+    setVoting(true);
+    try {
+      await conversation.send(
+        { reference: pollId, options: selected.map(Number) },
+        ContentTypePollVote,
+      );
+    } finally {
+      setVoting(false);
+    }
+  };
+
+  const options = poll.options.map((option, index) => {
+    const count = results?.options[index]?.count ?? 0;
+    const share = results?.voters ? (count / results.voters) * 100 : 0;
+    const label = (
+      <Group justify="space-between" gap="xs" wrap="nowrap">
+        <Text size="sm">{option}</Text>
+        <Text size="xs" c="dimmed">
+          {count}
+        </Text>
+      </Group>
+    );
+    return (
+      <Stack key={index} gap={4}>
+        {poll.multiSelect ? (
+          <Checkbox value={String(index)} label={label} disabled={closed} />
+        ) : (
+          <Radio value={String(index)} label={label} disabled={closed} />
+        )}
+        <Progress value={share} size="sm" />
+      </Stack>
+    );
+  });
+
+  const changed =
+    selected.length !== voted.length ||
+    selected.some((option) => !voted.includes(option));
+
+  return (
+    <Paper withBorder p="sm" radius="md" miw={260}>
+      <Stack gap="sm">
+        <Text fw={700}>{poll.question}</Text>
+        {poll.multiSelect ? (
+          <Checkbox.Group value={selected} onChange={setSelected}>
+            <Stack gap="xs">{options}</Stack>
+          </Checkbox.Group>
+        ) : (
+          <Radio.Group
+            value={selected[0] ?? null}
+            onChange={(value) => {
+              setSelected([value]);
+            }}>
+            <Stack gap="xs">{options}</Stack>
+          </Radio.Group>
+        )}
+        <Group justify="space-between" gap="xs">
+          <Text size="xs" c="dimmed">
+            {results?.voters ?? 0} {results?.voters === 1 ? "vote" : "votes"}
+            {poll.deadline &&
+              ` · ${closed ? "closed" : "closes"} ${formatRelative(poll.deadline, new Date())}`}
+          </Text>
+          {!closed && (
+            <Button
+              size="xs"
+              loading={voting}
+              disabled={!changed}
+              onClick={() => void handleVote()}>
+              {voted.length > 0 && selected.length === 0 ? "Withdraw" : "Vote"}
+            </Button>
+          )}
+        </Group>
+      </Stack>
+    </Paper>
+  );
+};
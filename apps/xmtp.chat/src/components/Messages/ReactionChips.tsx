@@ -0,0 +1,45 @@
+import { Badge, Group, Tooltip } from "@mantine/core";
+import type { ReactionTally } from "@xmtp/browser-sdk";
+
+export type ReactionChipsProps = {
+  reactions: ReactionTally[];
+  inboxId?: string;
+  justify?: "flex-start" | "flex-end";
+};
+
+/**
+ * Renders the reaction tallies of a message as chips, highlighting the
+ * reactions of the current inbox
+ */
+export const ReactionChips: React.FC<ReactionChipsProps> = ({
+  reactions,
+  inboxId,
+  justify,
+}) => {
+  return (
+    <Group gap={4} mt={6} justify={justify}>
+      {reactions.map((reaction) => {
+        const reacted = !!inboxId && reaction.inboxIds.has(inboxId);
+        return (
+          <Tooltip
+            key={`${reaction.schema}:${reaction.content}`}
+            label={[...reaction.inboxIds].join(", ")}
+            withArrow
+            multiline
+            maw={300}>
+            <Badge
+              variant={reacted ? "light" : "default"}
+              radius="xl"
+              size="lg"
+              tt="none">
+              {reaction.schema === "shortcode"
+                ? `:${reaction.content}:`
+                : reaction.content}{" "}
+              {reaction.count}
+            </Badge>
+          </Tooltip>
+        );
+      })}
+    </Group>
+  );
+};
@@ -0,0 +1,118 @@
+import { Center, Divider, Drawer, Stack, Text } from "@mantine/core";
+import type { DecodedMessage, Thread } from "@xmtp/browser-sdk";
+import { useEffect, useState } from "react";
+import { useNavigate, useOutletContext, useParams } from "react-router-dom";
+import type { ConversationOutletContext } from "@/components/Conversation/ConversationOutletContext";
+import { nsToDate } from "@/helpers/date";
+import { useCollapsedMediaQuery } from "@/hooks/useCollapsedMediaQuery";
+import { Message } from "./Message";
+
+/**
+ * Shows a message and its replies, including replies to replies, in a side
+ * panel next to the conversation
+ */
+export const ThreadPanel: React.FC = () => {
+  const { messageId } = useParams();
+  const { conversation } = useOutletContext<ConversationOutletContext>();
+  const navigate = useNavigate();
+  const fullScreen = useCollapsedMediaQuery();
+  const [thread, setThread] = useState<Thread | undefined>(undefined);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!messageId) return;
+    let stopStream: (() => void) | undefined;
+    let cancelled = false;
+
+    const loadThread = async () => {
+      setThread(undefined);
+      setError(null);
+      try {
+        // start streaming before loading so that no replies are missed,
+        // replies streamed before the thread is loaded are included in it
+        const stream = await conversation.streamThread(
+          messageId,
+          (streamError, reply) => {
+            if (streamError || !reply) return;
+            setThread((current) => current && addReply(current, reply));
+          },
+        );
+        stopStream = () => void stream.return(undefined);
+        const loaded = await conversation.thread(messageId);
+        if (!cancelled) {
+          setThread(loaded);
+        }
+      } catch (loadError) {
+        if (!cancelled) {
+          setError((loadError as Error).message);
+        }
+      }
+      // the panel may have closed while the stream was starting
+      if (cancelled) {
+        stopStream?.();
+      }
+    };
+    void loadThread();
+
+    return () => {
+      cancelled = true;
+      stopStream?.();
+    };
+  }, [conversation.id, messageId]);
+
+  return (
+    <Drawer
+      opened
+      position="right"
+      size={fullScreen ? "100%" : "md"}
+      onClose={() => void navigate(`/conversations/${conversation.id}`)}
+      title={
+        <Text size="lg" fw={700} c="text.primary">
+          Thread
+        </Text>
+      }>
+      {error && (
+        <Center>
+          <Text c="red">{error}</Text>
+        </Center>
+      )}
+      {!thread && !error && (
+        <Center>
+          <Text truncate>Loading...</Text>
+        </Center>
+      )}
+      {thread && (
+        <Stack gap={0}>
+          <Message message={thread.root} />
+          <Divider
+            label={
+              thread.replyCount === 1
+                ? "1 reply"
+                : `${thread.replyCount} replies`
+            }
+          />
+          {thread.replies.map((reply) => (
+            <Message key={reply.id} message={reply} />
+          ))}
+        </Stack>
+      )}
+    </Drawer>
+  );
+};
+
+const addReply = (thread: Thread, reply: DecodedMessage): Thread => {
+  if (thread.replies.some((message) => message.id === reply.id)) {
+    return thread;
+  }
+  const replies = [...thread.replies, reply].sort((a, b) =>
+    a.sentAtNs < b.sentAtNs ? -1 : a.sentAtNs > b.sentAtNs ? 1 : 0,
+  );
+  const lastReply = replies[replies.length - 1];
+  return {
+    ...thread,
+    replies,
+    replyCount: replies.length,
+    lastReplyAt: nsToDate(lastReply.sentAtNs),
+    lastReplyAtNs: lastReply.sentAtNs,
+  };
+};
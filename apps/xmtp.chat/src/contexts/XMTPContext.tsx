@@ -1,5 +1,7 @@
 import { Client, type ClientOptions, type Signer } from "@xmtp/browser-sdk";
+import { MarkdownCodec } from "@xmtp/content-type-markdown";
 import { ReactionCodec } from "@xmtp/content-type-reaction";
+import { ReadReceiptCodec } from "@xmtp/content-type-read-receipt";
 import { RemoteAttachmentCodec } from "@xmtp/content-type-remote-attachment";
 import { ReplyCodec } from "@xmtp/content-type-reply";
 import { TransactionReferenceCodec } from "@xmtp/content-type-transaction-reference";
@@ -158,7 +160,7 @@ export const XMTPProvider: React.FC<XMTPProviderProps> = ({
             env: env || 'production',
             loggingLevel: loggingLevel || 'error',
             hasDbEncryptionKey: !!dbEncryptionKey,
-            codecsCount: 5
+            codecsCount: 7,
           });
 
           try {
@@ -224,7 +226,9 @@ export const XMTPProvider: React.FC<XMTPProviderProps> = ({
               loggingLevel: loggingLevel || 'debug', // Use debug for more verbose logs
               dbEncryptionKey,
               codecs: [
+                new MarkdownCodec(),
                 new ReactionCodec(),
+                new ReadReceiptCodec(),
                 new ReplyCodec(),
                 new RemoteAttachmentCodec(),
                 new TransactionReferenceCodec(),
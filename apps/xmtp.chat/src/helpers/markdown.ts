@@ -0,0 +1,17 @@
+import {
+  parseMarkdown,
+  type MarkdownInline,
+} from "@xmtp/content-type-markdown";
+
+const isPlainInline = (node: MarkdownInline) =>
+  node.type === "text" || node.type === "break";
+
+/**
+ * Checks if a message uses any markdown formatting, plain text messages are
+ * sent as text so that every client can display them
+ */
+export const hasMarkdownFormatting = (text: string) =>
+  parseMarkdown(text).some(
+    (block) =>
+      block.type !== "paragraph" || !block.children.every(isPlainInline),
+  );
@@ -1,8 +1,20 @@
 import type {
   Conversation,
   DecodedMessage,
+  PollResults,
+  ReactionSummary,
   SafeListMessagesOptions,
+  SendOptions,
+  TypingEvent,
 } from "@xmtp/browser-sdk";
+import { ContentTypePoll } from "@xmtp/content-type-poll";
+import {
+  ContentTypePollVote,
+  type PollVote,
+} from "@xmtp/content-type-poll-vote";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import { ContentTypeReaction } from "@xmtp/content-type-reaction";
+import { ContentTypeTypingIndicator } from "@xmtp/content-type-typing-indicator";
 import { useState } from "react";
 import { useXMTP } from "@/contexts/XMTPContext";
 
@@ -12,6 +24,11 @@ export const useConversation = (conversation?: Conversation) => {
   const [syncing, setSyncing] = useState(false);
   const [sending, setSending] = useState(false);
   const [messages, setMessages] = useState<DecodedMessage[]>([]);
+  const [reactions, setReactions] = useState<Map<string, ReactionSummary>>(
+    new Map(),
+  );
+  const [polls, setPolls] = useState<Map<string, PollResults>>(new Map());
+  const [typingInboxIds, setTypingInboxIds] = useState<string[]>([]);
 
   const getMessages = async (
     options?: SafeListMessagesOptions,
@@ -28,14 +45,56 @@ export const useConversation = (conversation?: Conversation) => {
     setLoading(true);
 
     try {
-      const msgs = (await conversation?.messages(options)) ?? [];
+      // reactions and poll votes are shown as tallies on the messages they
+      // reference
+      const msgs = ((await conversation?.messages(options)) ?? []).filter(
+        (message) =>
+          !message.contentType.sameAs(ContentTypeReaction) &&
+          !message.contentType.sameAs(ContentTypePollVote),
+      );
       setMessages(msgs);
+      await Promise.all([getReactions(msgs), getPolls(msgs)]);
       return msgs;
     } finally {
       setLoading(false);
     }
   };
 
+  const getReactions = async (msgs: DecodedMessage[]) => {
+    if (!conversation) {
+      return;
+    }
+
+    const summaries = await Promise.all(
+      msgs.map((message) => conversation.reactionsFor(message.id)),
+    );
+    setReactions(
+      new Map(summaries.map((summary) => [summary.messageId, summary])),
+    );
+  };
+
+  const getPolls = async (msgs: DecodedMessage[]) => {
+    if (!conversation) {
+      return;
+    }
+
+    const results = await Promise.all(
+      msgs
+        .filter((message) => message.contentType.sameAs(ContentTypePoll))
+        .map((message) => conversation.pollResults(message.id)),
+    );
+    setPolls(new Map(results.map((result) => [result.pollId, result])));
+  };
+
+  const updatePoll = async (pollId: string) => {
+    if (!conversation) {
+      return;
+    }
+
+    const results = await conversation.pollResults(pollId);
+    setPolls((prev) => new Map(prev).set(pollId, results));
+  };
+
   const sync = async () => {
     if (!client) {
       return;
@@ -50,7 +109,11 @@ export const useConversation = (conversation?: Conversation) => {
     }
   };
 
-  const send = async (message: string) => {
+  const send = async (
+    message: string,
+    contentType?: ContentTypeId,
+    options?: SendOptions,
+  ) => {
     if (!client) {
       return;
     }
@@ -58,12 +121,20 @@ export const useConversation = (conversation?: Conversation) => {
     setSending(true);
 
     try {
-      await conversation?.send(message);
+      await conversation?.send(message, contentType, options);
     } finally {
       setSending(false);
     }
   };
 
+  const markRead = async () => {
+    if (!client) {
+      return;
+    }
+
+    await conversation?.markRead();
+  };
+
   const streamMessages = async () => {
     const noop = () => {};
     if (!client) {
@@ -74,9 +145,22 @@ export const useConversation = (conversation?: Conversation) => {
       error: Error | null,
       message: DecodedMessage | undefined,
     ) => {
-      if (message) {
+      if (!message) {
+        return;
+      }
+      if (message.contentType.sameAs(ContentTypePollVote)) {
+        void updatePoll((message.content as PollVote).reference);
+        return;
+      }
+      if (
+        !message.contentType.sameAs(ContentTypeReaction) &&
+        !message.contentType.sameAs(ContentTypeTypingIndicator)
+      ) {
         setMessages((prev) => [...prev, message]);
       }
+      if (message.contentType.sameAs(ContentTypePoll)) {
+        void updatePoll(message.id);
+      }
     };
 
     const stream = await conversation?.stream(onMessage);
@@ -88,14 +172,69 @@ export const useConversation = (conversation?: Conversation) => {
       : noop;
   };
 
+  const streamReactions = async () => {
+    const noop = () => {};
+    if (!client) {
+      return noop;
+    }
+
+    const onSummary = (
+      error: Error | null,
+      summary: ReactionSummary | undefined,
+    ) => {
+      if (summary) {
+        setReactions((prev) => new Map(prev).set(summary.messageId, summary));
+      }
+    };
+
+    const stream = await conversation?.streamReactionSummaries(onSummary);
+
+    return stream
+      ? () => {
+          void stream.return(undefined);
+        }
+      : noop;
+  };
+
+  const streamTyping = async () => {
+    const noop = () => {};
+    if (!client) {
+      return noop;
+    }
+
+    const onTyping = (error: Error | null, event: TypingEvent | undefined) => {
+      if (event) {
+        setTypingInboxIds((prev) => {
+          const others = prev.filter((inboxId) => inboxId !== event.inboxId);
+          return event.typing ? [...others, event.inboxId] : others;
+        });
+      }
+    };
+
+    const stream = await conversation?.streamTyping(onTyping);
+
+    return stream
+      ? () => {
+          setTypingInboxIds([]);
+          void stream.return(undefined);
+        }
+      : noop;
+  };
+
   return {
     getMessages,
     loading,
+    markRead,
     messages,
+    polls,
+    reactions,
     send,
     sending,
     streamMessages,
+    streamReactions,
+    streamTyping,
     sync,
     syncing,
+    typingInboxIds,
   };
 };
@@ -3,6 +3,7 @@ import type {
   Identifier,
   SafeCreateGroupOptions,
   SafeListConversationsOptions,
+  SearchMessagesOptions,
 } from "@xmtp/browser-sdk";
 import { useState } from "react";
 import { useXMTP } from "@/contexts/XMTPContext";
@@ -11,6 +12,7 @@ export const useConversations = () => {
   const { client } = useXMTP();
   const [loading, setLoading] = useState(false);
   const [syncing, setSyncing] = useState(false);
+  const [searching, setSearching] = useState(false);
   const [conversations, setConversations] = useState<Conversation[]>([]);
 
   if (!client) {
@@ -136,6 +138,19 @@ export const useConversations = () => {
     }
   };
 
+  const searchMessages = async (
+    query: string,
+    options?: SearchMessagesOptions,
+  ) => {
+    setSearching(true);
+
+    try {
+      return await client.conversations.searchMessages(query, options);
+    } finally {
+      setSearching(false);
+    }
+  };
+
   const stream = async () => {
     const onConversation = (
       error: Error | null,
@@ -163,6 +178,8 @@ export const useConversations = () => {
     newDmWithIdentifier,
     newGroup,
     newGroupWithIdentifiers,
+    searchMessages,
+    searching,
     stream,
     sync,
     syncAll,
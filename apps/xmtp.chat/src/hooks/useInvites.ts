@@ -0,0 +1,46 @@
+import { notifications } from "@mantine/notifications";
+import type { Client, DecodedMessage } from "@xmtp/browser-sdk";
+import { useEffect } from "react";
+
+/**
+ * Adds members who send an invite token created by this client in a DM
+ */
+export const useInvites = (client?: Client) => {
+  useEffect(() => {
+    if (!client) {
+      return;
+    }
+
+    const onMessage = async (
+      error: Error | null,
+      message: DecodedMessage | undefined,
+    ) => {
+      if (!message) {
+        return;
+      }
+      try {
+        const redemption = await client.invites.handleMessage(message);
+        if (redemption?.added) {
+          notifications.show({
+            title: "New member",
+            message: `${message.senderInboxId} joined ${redemption.group.name || "a group"} with an invite link`,
+          });
+        }
+      } catch (error) {
+        notifications.show({
+          title: "Invite not redeemed",
+          message: error instanceof Error ? error.message : String(error),
+          color: "red",
+        });
+      }
+    };
+
+    const stream = client.conversations.streamAllDmMessages(
+      (error, message) => void onMessage(error, message),
+    );
+
+    return () => {
+      void stream.then((stream) => stream.return(undefined));
+    };
+  }, [client]);
+};
@@ -0,0 +1,46 @@
+import { ContentTypeDelete, DeleteCodec } from "./Delete";
+
+describe("DeleteContentType", () => {
+  it("has the right content type", () => {
+    expect(ContentTypeDelete.authorityId).toBe("xmtp.org");
+    expect(ContentTypeDelete.typeId).toBe("delete");
+    expect(ContentTypeDelete.versionMajor).toBe(1);
+    expect(ContentTypeDelete.versionMinor).toBe(0);
+  });
+
+  it("encodes and decodes a delete", () => {
+    const codec = new DeleteCodec();
+    const encoded = codec.encode({
+      reference: "message-id",
+      referenceInboxId: "inbox-id",
+    });
+    expect(encoded.parameters).toEqual({
+      reference: "message-id",
+      referenceInboxId: "inbox-id",
+    });
+    expect(codec.decode(encoded)).toEqual({
+      reference: "message-id",
+      referenceInboxId: "inbox-id",
+    });
+
+    const withoutInboxId = codec.encode({ reference: "message-id" });
+    expect(withoutInboxId.parameters).toEqual({ reference: "message-id" });
+  });
+
+  it("throws when the reference is missing", () => {
+    const codec = new DeleteCodec();
+    expect(() =>
+      codec.decode({
+        type: ContentTypeDelete,
+        parameters: { reference: "" },
+        content: new Uint8Array(),
+      }),
+    ).toThrow("missing reference");
+  });
+
+  it("has a fallback and push value", () => {
+    const codec = new DeleteCodec();
+    expect(codec.fallback()).toBe("Deleted an earlier message");
+    expect(codec.shouldPush()).toBe(false);
+  });
+});
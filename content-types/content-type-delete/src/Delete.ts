@@ -0,0 +1,72 @@
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+
+export const ContentTypeDelete = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "delete",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export type Delete = {
+  /**
+   * The message ID for the message that is being deleted
+   */
+  reference: string;
+  /**
+   * The inbox ID of the user who sent the message that is being deleted
+   *
+   * This only applies to group messages
+   */
+  referenceInboxId?: string;
+};
+
+export type DeleteParameters = {
+  reference: string;
+  referenceInboxId?: string;
+};
+
+export class DeleteCodec implements ContentCodec<Delete, DeleteParameters> {
+  get contentType(): ContentTypeId {
+    return ContentTypeDelete;
+  }
+
+  encode(content: Delete) {
+    const parameters: DeleteParameters = {
+      reference: content.reference,
+    };
+
+    // add referenceInboxId if it's present
+    if (content.referenceInboxId) {
+      parameters.referenceInboxId = content.referenceInboxId;
+    }
+
+    return {
+      type: this.contentType,
+      parameters,
+      content: new Uint8Array(),
+    };
+  }
+
+  decode(content: EncodedContent<DeleteParameters>): Delete {
+    if (!content.parameters.reference) {
+      throw new Error("missing reference");
+    }
+
+    return {
+      reference: content.parameters.reference,
+      referenceInboxId: content.parameters.referenceInboxId,
+    };
+  }
+
+  fallback(): string | undefined {
+    return "Deleted an earlier message";
+  }
+
+  shouldPush() {
+    return false;
+  }
+}
@@ -0,0 +1,99 @@
+import { ContentTypeText, TextCodec } from "@xmtp/content-type-text";
+import { ContentTypeEdit, EditCodec, type Edit } from "./Edit";
+
+const registry = {
+  codecFor: () => new TextCodec(),
+};
+
+describe("EditContentType", () => {
+  it("has the right content type", () => {
+    expect(ContentTypeEdit.authorityId).toBe("xmtp.org");
+    expect(ContentTypeEdit.typeId).toBe("edit");
+    expect(ContentTypeEdit.versionMajor).toBe(1);
+    expect(ContentTypeEdit.versionMinor).toBe(0);
+  });
+
+  it("encodes and decodes an edit", () => {
+    const codec = new EditCodec();
+    const edit: Edit = {
+      reference: "message-id",
+      referenceInboxId: "inbox-id",
+      content: "gm!",
+      contentType: ContentTypeText,
+    };
+
+    const encoded = codec.encode(edit, registry);
+    expect(encoded.parameters).toEqual({
+      reference: "message-id",
+      referenceInboxId: "inbox-id",
+    });
+
+    const decoded = codec.decode(encoded, registry);
+    expect(decoded.reference).toBe("message-id");
+    expect(decoded.referenceInboxId).toBe("inbox-id");
+    expect(decoded.content).toBe("gm!");
+    expect(decoded.contentType.sameAs(ContentTypeText)).toBe(true);
+  });
+
+  it("omits the reference inbox ID when it's not set", () => {
+    const codec = new EditCodec();
+    const encoded = codec.encode(
+      { reference: "message-id", content: "gm!", contentType: ContentTypeText },
+      registry,
+    );
+    expect(encoded.parameters).toEqual({ reference: "message-id" });
+  });
+
+  it("throws when the codec of the new content is missing", () => {
+    const codec = new EditCodec();
+    expect(() =>
+      codec.encode(
+        {
+          reference: "message-id",
+          content: "gm!",
+          contentType: ContentTypeText,
+        },
+        { codecFor: () => undefined },
+      ),
+    ).toThrow('missing codec for content type "xmtp.org/text:1.0"');
+  });
+
+  it("partially decodes an edit when the codec of the new content is missing", () => {
+    const codec = new EditCodec();
+    const encoded = codec.encode(
+      { reference: "message-id", content: "gm!", contentType: ContentTypeText },
+      registry,
+    );
+
+    const decoded = codec.decode(encoded, { codecFor: () => undefined });
+    expect(decoded.reference).toBe("message-id");
+    expect(decoded.content).toBeUndefined();
+    expect(decoded.contentType.sameAs(ContentTypeText)).toBe(true);
+    expect(new TextDecoder().decode(decoded.encodedContent?.content)).toBe(
+      "gm!",
+    );
+
+    // partially decoded edits are encoded with their encoded content
+    const reencoded = codec.encode(decoded, { codecFor: () => undefined });
+    expect(codec.decode(reencoded, registry).content).toBe("gm!");
+  });
+
+  it("has a fallback and push value", () => {
+    const codec = new EditCodec();
+    expect(
+      codec.fallback({
+        reference: "message-id",
+        content: "gm!",
+        contentType: ContentTypeText,
+      }),
+    ).toBe("Edited an earlier message to “gm!”");
+    expect(
+      codec.fallback({
+        reference: "message-id",
+        content: { foo: "bar" },
+        contentType: ContentTypeText,
+      }),
+    ).toBe("Edited an earlier message");
+    expect(codec.shouldPush()).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import {
+  ContentTypeId,
+  decodeNestedContent,
+  isUndecodedContent,
+  type CodecRegistry,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+import { content as proto } from "@xmtp/proto";
+
+export const ContentTypeEdit = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "edit",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export type Edit = {
+  /**
+   * The message ID for the message that is being edited
+   */
+  reference: string;
+  /**
+   * The inbox ID of the user who sent the message that is being edited
+   *
+   * This only applies to group messages
+   */
+  referenceInboxId?: string;
+  /**
+   * The new content of the message
+   */
+  content: any;
+  /**
+   * The content type of the new content
+   */
+  contentType: ContentTypeId;
+  /**
+   * The encoded content of the edit, only set when there's no codec for
+   * its content type, in which case `content` is `undefined`
+   */
+  encodedContent?: EncodedContent;
+  /**
+   * The fallback text of the content of the edit, only set when there's no
+   * codec for its content type
+   */
+  fallback?: string;
+};
+
+export type EditParameters = {
+  reference: string;
+  referenceInboxId?: string;
+};
+
+export class EditCodec implements ContentCodec<Edit, EditParameters> {
+  get contentType(): ContentTypeId {
+    return ContentTypeEdit;
+  }
+
+  encode(content: Edit, registry: CodecRegistry) {
+    const codec = registry.codecFor(content.contentType);
+    // content that wasn't decoded is encoded as it was received
+    const encodedContent = codec
+      ? codec.encode(content.content, registry)
+      : content.encodedContent;
+    if (!encodedContent) {
+      throw new Error(
+        `missing codec for content type "${content.contentType.toString()}"`,
+      );
+    }
+    const bytes = proto.EncodedContent.encode(encodedContent).finish();
+
+    const parameters: EditParameters = {
+      reference: content.reference,
+    };
+
+    // add referenceInboxId if it's present
+    if (content.referenceInboxId) {
+      parameters.referenceInboxId = content.referenceInboxId;
+    }
+
+    return {
+      type: this.contentType,
+      parameters,
+      content: bytes,
+    };
+  }
+
+  decode(
+    content: EncodedContent<EditParameters>,
+    registry: CodecRegistry,
+  ): Edit {
+    const decodedContent = proto.EncodedContent.decode(content.content);
+    if (!decodedContent.type) {
+      throw new Error("missing content type");
+    }
+    const contentType = new ContentTypeId(decodedContent.type);
+    const nestedContent: unknown = decodeNestedContent(
+      { ...decodedContent, type: contentType } as EncodedContent,
+      registry,
+    );
+
+    // the edit is partially decoded when there's no codec for its content
+    if (isUndecodedContent(nestedContent)) {
+      return {
+        reference: content.parameters.reference,
+        referenceInboxId: content.parameters.referenceInboxId,
+        contentType,
+        content: undefined,
+        encodedContent: nestedContent.encodedContent,
+        fallback: nestedContent.fallback,
+      };
+    }
+
+    return {
+      reference: content.parameters.reference,
+      referenceInboxId: content.parameters.referenceInboxId,
+      contentType,
+      content: nestedContent,
+    };
+  }
+
+  fallback(content: Edit): string | undefined {
+    if (typeof content.content === "string") {
+      return `Edited an earlier message to “${content.content}”`;
+    }
+    return "Edited an earlier message";
+  }
+
+  shouldPush() {
+    return false;
+  }
+}
@@ -0,0 +1,112 @@
+import { ContentTypeText, TextCodec } from "@xmtp/content-type-text";
+import {
+  ContentTypeEphemeral,
+  EphemeralCodec,
+  isExpired,
+  type Ephemeral,
+} from "./Ephemeral";
+
+const registry = {
+  codecFor: () => new TextCodec(),
+};
+
+describe("EphemeralContentType", () => {
+  it("has the right content type", () => {
+    expect(ContentTypeEphemeral.authorityId).toBe("xmtp.org");
+    expect(ContentTypeEphemeral.typeId).toBe("ephemeral");
+    expect(ContentTypeEphemeral.versionMajor).toBe(1);
+    expect(ContentTypeEphemeral.versionMinor).toBe(0);
+  });
+
+  it("encodes and decodes view-once content", () => {
+    const codec = new EphemeralCodec();
+    const ephemeral: Ephemeral = {
+      content: "gm",
+      contentType: ContentTypeText,
+      viewOnce: true,
+    };
+
+    const encoded = codec.encode(ephemeral, registry);
+    expect(encoded.parameters).toEqual({ viewOnce: "true" });
+
+    const decoded = codec.decode(encoded, registry);
+    expect(decoded.content).toBe("gm");
+    expect(decoded.contentType.sameAs(ContentTypeText)).toBe(true);
+    expect(decoded.viewOnce).toBe(true);
+    expect(decoded.expiresAt).toBeUndefined();
+  });
+
+  it("encodes and decodes expiring content", () => {
+    const codec = new EphemeralCodec();
+    const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+
+    const encoded = codec.encode(
+      { content: "gm", contentType: ContentTypeText, expiresAt },
+      registry,
+    );
+    expect(encoded.parameters).toEqual({
+      expiresAt: "2030-01-01T00:00:00.000Z",
+    });
+
+    const decoded = codec.decode(encoded, registry);
+    expect(decoded.content).toBe("gm");
+    expect(decoded.viewOnce).toBeUndefined();
+    expect(decoded.expiresAt).toEqual(expiresAt);
+    expect(isExpired(decoded, new Date("2029-12-31T23:59:59.999Z"))).toBe(
+      false,
+    );
+    expect(isExpired(decoded, expiresAt)).toBe(true);
+  });
+
+  it("rejects content that is neither view-once nor expiring", () => {
+    const codec = new EphemeralCodec();
+    expect(() =>
+      codec.encode({ content: "gm", contentType: ContentTypeText }, registry),
+    ).toThrow("ephemeral content must be view-once or expire");
+    expect(() => {
+      codec.validate({
+        content: "gm",
+        contentType: ContentTypeText,
+        expiresAt: new Date("invalid"),
+      });
+    }).toThrow("invalid expiry");
+  });
+
+  it("never includes the content in the fallback text", () => {
+    const codec = new EphemeralCodec();
+    expect(
+      codec.fallback({
+        content: "gm",
+        contentType: ContentTypeText,
+        viewOnce: true,
+      }),
+    ).toBe("Sent a view-once message");
+    expect(
+      codec.fallback({
+        content: "gm",
+        contentType: ContentTypeText,
+        expiresAt: new Date(),
+      }),
+    ).toBe("Sent a disappearing message");
+  });
+
+  it("partially decodes content when its codec is missing", () => {
+    const codec = new EphemeralCodec();
+    const encoded = codec.encode(
+      { content: "gm", contentType: ContentTypeText, viewOnce: true },
+      registry,
+    );
+
+    const decoded = codec.decode(encoded, { codecFor: () => undefined });
+    expect(decoded.content).toBeUndefined();
+    expect(decoded.viewOnce).toBe(true);
+    expect(decoded.contentType.sameAs(ContentTypeText)).toBe(true);
+    expect(new TextDecoder().decode(decoded.encodedContent?.content)).toBe(
+      "gm",
+    );
+
+    // partially decoded content is encoded as it was received
+    const reencoded = codec.encode(decoded, { codecFor: () => undefined });
+    expect(codec.decode(reencoded, registry).content).toBe("gm");
+  });
+});
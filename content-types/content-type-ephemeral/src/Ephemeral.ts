@@ -0,0 +1,171 @@
+import {
+  ContentTypeId,
+  decodeNestedContent,
+  isUndecodedContent,
+  type CodecRegistry,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+import { content as proto } from "@xmtp/proto";
+
+export const ContentTypeEphemeral = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "ephemeral",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export type Ephemeral = {
+  /**
+   * The content that can only be viewed once or until it expires
+   */
+  content: any;
+  /**
+   * The content type of the content
+   */
+  contentType: ContentTypeId;
+  /**
+   * Whether the content is purged after it has been viewed
+   */
+  viewOnce?: boolean;
+  /**
+   * When the content is purged, whether it has been viewed or not
+   */
+  expiresAt?: Date;
+  /**
+   * The encoded content, only set when there's no codec for its content
+   * type, in which case `content` is `undefined`
+   */
+  encodedContent?: EncodedContent;
+  /**
+   * The fallback text of the content, only set when there's no codec for
+   * its content type
+   */
+  fallback?: string;
+};
+
+export type EphemeralParameters = {
+  viewOnce?: string;
+  expiresAt?: string;
+};
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validates ephemeral content, it must be view-once, expire or both
+ */
+export const validateEphemeral = (content: Ephemeral) => {
+  const value = content as unknown;
+  if (!isObject(value)) {
+    throw new Error("ephemeral content must be an object");
+  }
+  if (!isObject(value.contentType)) {
+    throw new Error("missing content type");
+  }
+  if (value.viewOnce !== undefined && typeof value.viewOnce !== "boolean") {
+    throw new Error("invalid view-once flag");
+  }
+  if (
+    value.expiresAt !== undefined &&
+    (!(value.expiresAt instanceof Date) || isNaN(value.expiresAt.getTime()))
+  ) {
+    throw new Error("invalid expiry");
+  }
+  if (!value.viewOnce && !value.expiresAt) {
+    throw new Error("ephemeral content must be view-once or expire");
+  }
+};
+
+/**
+ * Checks if ephemeral content has expired
+ */
+export const isExpired = (content: Ephemeral, now = new Date()) =>
+  !!content.expiresAt && content.expiresAt.getTime() <= now.getTime();
+
+export class EphemeralCodec
+  implements ContentCodec<Ephemeral, EphemeralParameters>
+{
+  get contentType(): ContentTypeId {
+    return ContentTypeEphemeral;
+  }
+
+  encode(content: Ephemeral, registry: CodecRegistry) {
+    validateEphemeral(content);
+    const codec = registry.codecFor(content.contentType);
+    // content that wasn't decoded is encoded as it was received
+    const encodedContent = codec
+      ? codec.encode(content.content, registry)
+      : content.encodedContent;
+    if (!encodedContent) {
+      throw new Error(
+        `missing codec for content type "${content.contentType.toString()}"`,
+      );
+    }
+    const bytes = proto.EncodedContent.encode(encodedContent).finish();
+
+    const parameters: EphemeralParameters = {};
+    if (content.viewOnce) {
+      parameters.viewOnce = "true";
+    }
+    if (content.expiresAt) {
+      parameters.expiresAt = content.expiresAt.toISOString();
+    }
+
+    return {
+      type: this.contentType,
+      parameters,
+      content: bytes,
+    };
+  }
+
+  decode(
+    content: EncodedContent<EphemeralParameters>,
+    registry: CodecRegistry,
+  ): Ephemeral {
+    const decodedContent = proto.EncodedContent.decode(content.content);
+    if (!decodedContent.type) {
+      throw new Error("missing content type");
+    }
+    const contentType = new ContentTypeId(decodedContent.type);
+    const ephemeral: Ephemeral = {
+      content: undefined,
+      contentType,
+      viewOnce: content.parameters.viewOnce === "true" || undefined,
+      expiresAt:
+        content.parameters.expiresAt !== undefined
+          ? new Date(content.parameters.expiresAt)
+          : undefined,
+    };
+    validateEphemeral(ephemeral);
+
+    const nestedContent: unknown = decodeNestedContent(
+      { ...decodedContent, type: contentType } as EncodedContent,
+      registry,
+    );
+    // the content is partially decoded when there's no codec for it
+    if (isUndecodedContent(nestedContent)) {
+      ephemeral.encodedContent = nestedContent.encodedContent;
+      ephemeral.fallback = nestedContent.fallback;
+    } else {
+      ephemeral.content = nestedContent;
+    }
+    return ephemeral;
+  }
+
+  validate(content: Ephemeral) {
+    validateEphemeral(content);
+  }
+
+  // the fallback text never includes the content, so that it isn't kept
+  // by clients that don't support ephemeral content
+  fallback(content: Ephemeral): string | undefined {
+    return content.viewOnce
+      ? "Sent a view-once message"
+      : "Sent a disappearing message";
+  }
+
+  shouldPush() {
+    return true;
+  }
+}
@@ -0,0 +1,8 @@
+import { defineConfig } from "vitest/config";
+
+export default defineConfig({
+  test: {
+    globals: true,
+    globalSetup: ["./vitest.setup.ts"],
+  },
+});
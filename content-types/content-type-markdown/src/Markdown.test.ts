@@ -0,0 +1,245 @@
+import {
+  ContentTypeMarkdown,
+  isSafeUrl,
+  MarkdownCodec,
+  MAX_MARKDOWN_LENGTH,
+  toPlainText,
+  validateMarkdown,
+  type Encoding,
+} from "./Markdown";
+import { MAX_URL_LENGTH, parseMarkdown } from "./parser";
+
+const inboxId = "a".repeat(64);
+
+describe("MarkdownContentType", () => {
+  it("has the right content type", () => {
+    expect(ContentTypeMarkdown.authorityId).toBe("xmtp.org");
+    expect(ContentTypeMarkdown.typeId).toBe("markdown");
+    expect(ContentTypeMarkdown.versionMajor).toBe(1);
+    expect(ContentTypeMarkdown.versionMinor).toBe(0);
+  });
+
+  it("encodes and decodes markdown", () => {
+    const codec = new MarkdownCodec();
+    const encoded = codec.encode("**gm** _frens_");
+    expect(encoded.parameters).toEqual({ encoding: "UTF-8" });
+    expect(codec.decode(encoded)).toBe("**gm** _frens_");
+    expect(codec.shouldPush()).toBe(true);
+  });
+
+  it("throws on unknown encoding", () => {
+    const codec = new MarkdownCodec();
+    const encoded = {
+      type: ContentTypeMarkdown,
+      parameters: { encoding: "UTF-16" } as unknown as { encoding: Encoding },
+      content: new Uint8Array(0),
+    };
+    expect(() => codec.decode(encoded)).toThrow("unrecognized encoding UTF-16");
+  });
+
+  it("generates a plain text fallback", () => {
+    const codec = new MarkdownCodec();
+    expect(
+      codec.fallback(
+        `**gm** [@alice](xmtp:${inboxId}), see [the docs](https://docs.xmtp.org)\n\n- one\n- ~~two~~\n\n> quoted`,
+      ),
+    ).toBe(
+      "gm @alice, see the docs (https://docs.xmtp.org)\n\n- one\n- two\n\n> quoted",
+    );
+  });
+
+  it("validates content", () => {
+    const codec = new MarkdownCodec();
+    expect(() => codec.encode("")).toThrow(
+      "markdown content must not be empty",
+    );
+    expect(() => {
+      validateMarkdown(1);
+    }).toThrow("markdown content must be a string");
+    expect(() => codec.encode("[click](javascript:alert(1))")).toThrow(
+      'unsupported link url "javascript:alert(1"',
+    );
+    expect(() => codec.encode("[@bob](xmtp:not-an-inbox)")).toThrow(
+      'invalid mention inbox id "not-an-inbox"',
+    );
+  });
+
+  it("limits the length of content", () => {
+    const codec = new MarkdownCodec();
+    const markdown = "a".repeat(MAX_MARKDOWN_LENGTH + 1);
+    const error = `markdown content must be at most ${MAX_MARKDOWN_LENGTH} characters`;
+    expect(() => codec.encode(markdown)).toThrow(error);
+    expect(() => {
+      codec.validate(markdown);
+    }).toThrow(error);
+    expect(() => {
+      codec.validate("[click](javascript:alert(1))");
+    }).not.toThrow();
+  });
+
+  it("only allows safe link urls", () => {
+    expect(isSafeUrl("https://xmtp.org")).toBe(true);
+    expect(isSafeUrl("mailto:eng@xmtp.com")).toBe(true);
+    expect(isSafeUrl("javascript:alert(1)")).toBe(false);
+    expect(isSafeUrl("data:text/html,hi")).toBe(false);
+  });
+});
+
+describe("parseMarkdown", () => {
+  it("parses inline formatting", () => {
+    expect(
+      parseMarkdown("**bold** *em* ~~gone~~ `a*b` snake_case_name"),
+    ).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "strong", children: [{ type: "text", text: "bold" }] },
+          { type: "text", text: " " },
+          { type: "emphasis", children: [{ type: "text", text: "em" }] },
+          { type: "text", text: " " },
+          {
+            type: "strikethrough",
+            children: [{ type: "text", text: "gone" }],
+          },
+          { type: "text", text: " " },
+          { type: "code", text: "a*b" },
+          { type: "text", text: " snake_case_name" },
+        ],
+      },
+    ]);
+  });
+
+  it("parses nested emphasis", () => {
+    expect(parseMarkdown("*a **b** c*")).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          {
+            type: "emphasis",
+            children: [
+              { type: "text", text: "a " },
+              { type: "strong", children: [{ type: "text", text: "b" }] },
+              { type: "text", text: " c" },
+            ],
+          },
+        ],
+      },
+    ]);
+  });
+
+  it("parses links, autolinks and mentions", () => {
+    expect(
+      parseMarkdown(
+        `[docs](https://docs.xmtp.org) https://xmtp.org. [@alice](xmtp:${inboxId})`,
+      ),
+    ).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          {
+            type: "link",
+            url: "https://docs.xmtp.org",
+            children: [{ type: "text", text: "docs" }],
+          },
+          { type: "text", text: " " },
+          {
+            type: "link",
+            url: "https://xmtp.org",
+            children: [{ type: "text", text: "https://xmtp.org" }],
+          },
+          { type: "text", text: ". " },
+          { type: "mention", inboxId, label: "alice" },
+        ],
+      },
+    ]);
+  });
+
+  it("keeps links with unclosed brackets or long urls as text", () => {
+    const url = `ftp://xmtp.org/${"a".repeat(MAX_URL_LENGTH)}`;
+    expect(
+      parseMarkdown(`[[docs](https://docs.xmtp.org) [long](${url})`),
+    ).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "text", text: "[" },
+          {
+            type: "link",
+            url: "https://docs.xmtp.org",
+            children: [{ type: "text", text: "docs" }],
+          },
+          { type: "text", text: ` [long](${url})` },
+        ],
+      },
+    ]);
+  });
+
+  it("parses unclosed brackets and delimiters in linear time", () => {
+    const length = MAX_MARKDOWN_LENGTH / 4;
+    for (const markdown of [
+      "[".repeat(length),
+      "[a](".repeat(length / 4),
+      "*a ".repeat(length / 3),
+      "_a ".repeat(length / 3),
+    ]) {
+      const start = performance.now();
+      parseMarkdown(markdown);
+      expect(performance.now() - start).toBeLessThan(1000);
+    }
+  });
+
+  it("parses blocks", () => {
+    expect(
+      parseMarkdown(
+        "line one\nline two\n\n```ts\nconst a = 1;\n```\n> quote\n\n3. three\n4. four\n   more",
+      ),
+    ).toEqual([
+      {
+        type: "paragraph",
+        children: [
+          { type: "text", text: "line one" },
+          { type: "break" },
+          { type: "text", text: "line two" },
+        ],
+      },
+      { type: "codeBlock", language: "ts", text: "const a = 1;" },
+      {
+        type: "blockquote",
+        children: [
+          { type: "paragraph", children: [{ type: "text", text: "quote" }] },
+        ],
+      },
+      {
+        type: "list",
+        ordered: true,
+        start: 3,
+        items: [
+          [{ type: "text", text: "three" }],
+          [
+            { type: "text", text: "four" },
+            { type: "break" },
+            {
+              type: "text",
+              text: "more",
+            },
+          ],
+        ],
+      },
+    ]);
+  });
+
+  it("keeps unsupported syntax as text", () => {
+    expect(parseMarkdown("# title <b>hi</b> \\*not em\\*")).toEqual([
+      {
+        type: "paragraph",
+        children: [{ type: "text", text: "# title <b>hi</b> *not em*" }],
+      },
+    ]);
+  });
+
+  it("converts markdown to plain text", () => {
+    expect(toPlainText("1. **one**\n2. [two](https://two.com)")).toBe(
+      "1. one\n2. two (https://two.com)",
+    );
+  });
+});
@@ -0,0 +1,199 @@
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+import {
+  parseMarkdown,
+  type MarkdownBlock,
+  type MarkdownInline,
+} from "./parser";
+
+export const ContentTypeMarkdown = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "markdown",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export enum Encoding {
+  utf8 = "UTF-8",
+  unknown = "unknown",
+}
+
+export type MarkdownParameters = {
+  encoding: Encoding;
+};
+
+/**
+ * Maximum length of markdown content, in characters
+ */
+export const MAX_MARKDOWN_LENGTH = 100_000;
+
+const SAFE_URL = /^(?:https?:\/\/|mailto:)/i;
+const INBOX_ID = /^[0-9a-f]+$/i;
+
+/**
+ * Checks if a link URL is safe to display
+ *
+ * Only `https:`, `http:` and `mailto:` links are supported.
+ */
+export const isSafeUrl = (url: string) => SAFE_URL.test(url);
+
+const inlineToPlainText = (nodes: MarkdownInline[]): string =>
+  nodes
+    .map((node) => {
+      switch (node.type) {
+        case "text":
+        case "code":
+          return node.text;
+        case "break":
+          return "\n";
+        case "mention":
+          return `@${node.label}`;
+        case "link": {
+          const label = inlineToPlainText(node.children);
+          return label === node.url ? label : `${label} (${node.url})`;
+        }
+        default:
+          return inlineToPlainText(node.children);
+      }
+    })
+    .join("");
+
+const blocksToPlainText = (blocks: MarkdownBlock[]): string =>
+  blocks
+    .map((block) => {
+      switch (block.type) {
+        case "paragraph":
+          return inlineToPlainText(block.children);
+        case "codeBlock":
+          return block.text;
+        case "blockquote":
+          return blocksToPlainText(block.children)
+            .split("\n")
+            .map((line) => `> ${line}`)
+            .join("\n");
+        case "list":
+          return block.items
+            .map(
+              (item, index) =>
+                `${block.ordered ? `${block.start + index}.` : "-"} ${inlineToPlainText(item)}`,
+            )
+            .join("\n");
+      }
+    })
+    .join("\n\n");
+
+/**
+ * Converts markdown to plain text without formatting
+ *
+ * Links include their URL when it's different from their text, mentions are
+ * converted to `@label`.
+ */
+export const toPlainText = (markdown: string) =>
+  blocksToPlainText(parseMarkdown(markdown));
+
+const validateInline = (nodes: MarkdownInline[]) => {
+  for (const node of nodes) {
+    switch (node.type) {
+      case "link":
+        if (!isSafeUrl(node.url)) {
+          throw new Error(`unsupported link url "${node.url}"`);
+        }
+        validateInline(node.children);
+        break;
+      case "mention":
+        if (!INBOX_ID.test(node.inboxId)) {
+          throw new Error(`invalid mention inbox id "${node.inboxId}"`);
+        }
+        break;
+      case "strong":
+      case "emphasis":
+      case "strikethrough":
+        validateInline(node.children);
+        break;
+    }
+  }
+};
+
+const validateBlocks = (blocks: MarkdownBlock[]) => {
+  for (const block of blocks) {
+    switch (block.type) {
+      case "paragraph":
+        validateInline(block.children);
+        break;
+      case "blockquote":
+        validateBlocks(block.children);
+        break;
+      case "list":
+        block.items.forEach(validateInline);
+        break;
+    }
+  }
+};
+
+const validateLength = (markdown: string) => {
+  if (markdown.length > MAX_MARKDOWN_LENGTH) {
+    throw new Error(
+      `markdown content must be at most ${MAX_MARKDOWN_LENGTH} characters`,
+    );
+  }
+};
+
+/**
+ * Validates markdown content
+ *
+ * @throws if the content isn't a string, is longer than
+ * `MAX_MARKDOWN_LENGTH`, a link has an unsupported URL or a mention has an
+ * invalid inbox ID
+ */
+export const validateMarkdown = (markdown: unknown) => {
+  if (typeof markdown !== "string") {
+    throw new Error("markdown content must be a string");
+  }
+  if (!markdown.trim()) {
+    throw new Error("markdown content must not be empty");
+  }
+  validateLength(markdown);
+  validateBlocks(parseMarkdown(markdown));
+};
+
+export class MarkdownCodec implements ContentCodec<string, MarkdownParameters> {
+  get contentType(): ContentTypeId {
+    return ContentTypeMarkdown;
+  }
+
+  encode(content: string) {
+    validateMarkdown(content);
+    return {
+      type: this.contentType,
+      parameters: { encoding: Encoding.utf8 },
+      content: new TextEncoder().encode(content),
+    };
+  }
+
+  decode(content: EncodedContent<MarkdownParameters>) {
+    if (content.parameters.encoding !== Encoding.utf8) {
+      throw new Error(`unrecognized encoding ${content.parameters.encoding}`);
+    }
+    return new TextDecoder().decode(content.content);
+  }
+
+  validate(content: string) {
+    // received content is validated too, its links are checked with
+    // `isSafeUrl` when it's rendered
+    if (typeof content !== "string") {
+      throw new Error("markdown content must be a string");
+    }
+    validateLength(content);
+  }
+
+  fallback(content: string): string | undefined {
+    return toPlainText(content);
+  }
+
+  shouldPush() {
+    return true;
+  }
+}
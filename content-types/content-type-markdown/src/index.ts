@@ -0,0 +1,2 @@
+export * from "./Markdown";
+export * from "./parser";
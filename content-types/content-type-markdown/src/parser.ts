@@ -0,0 +1,365 @@
+export type MarkdownInline =
+  | { type: "text"; text: string }
+  | { type: "strong"; children: MarkdownInline[] }
+  | { type: "emphasis"; children: MarkdownInline[] }
+  | { type: "strikethrough"; children: MarkdownInline[] }
+  | { type: "code"; text: string }
+  | { type: "link"; url: string; children: MarkdownInline[] }
+  | { type: "mention"; inboxId: string; label: string }
+  | { type: "break" };
+
+export type MarkdownBlock =
+  | { type: "paragraph"; children: MarkdownInline[] }
+  | { type: "codeBlock"; language?: string; text: string }
+  | { type: "blockquote"; children: MarkdownBlock[] }
+  | {
+      type: "list";
+      ordered: boolean;
+      start: number;
+      items: MarkdownInline[][];
+    };
+
+/**
+ * Prefix of the URLs of mentions, e.g. `[@alice](xmtp:<inbox ID>)`
+ */
+export const MENTION_URL_PREFIX = "xmtp:";
+
+/**
+ * Maximum length of link URLs, longer links are kept as text
+ */
+export const MAX_URL_LENGTH = 2048;
+
+const FENCE = /^```\s*([\w+-]*)\s*$/;
+const QUOTE = /^>\s?(.*)$/;
+const UNORDERED_ITEM = /^[-*+]\s+(.*)$/;
+const ORDERED_ITEM = /^(\d{1,9})[.)]\s+(.*)$/;
+const CONTINUATION = /^\s{2,}(\S.*)$/;
+const AUTOLINK = /^(?:https?:\/\/|mailto:)[^\s<]+/;
+const ESCAPABLE = /^[!"#$%&'()*+,\-./:;<=>?@[\\\]^_`{|}~]$/;
+
+const DELIMITERS = ["**", "__", "~~", "*", "_"] as const;
+
+const isBlockStart = (line: string) =>
+  FENCE.test(line) ||
+  QUOTE.test(line) ||
+  UNORDERED_ITEM.test(line) ||
+  ORDERED_ITEM.test(line);
+
+const isWhitespace = (char: string | undefined) =>
+  char === undefined || /\s/.test(char);
+
+const isWordChar = (char: string | undefined) =>
+  char !== undefined && /[\p{L}\p{N}]/u.test(char);
+
+const pushText = (nodes: MarkdownInline[], text: string) => {
+  const last = nodes.at(-1);
+  if (last?.type === "text") {
+    last.text += text;
+  } else if (text) {
+    nodes.push({ type: "text", text });
+  }
+};
+
+// finds the closing delimiter of an emphasis that starts at `start`
+const findClosingDelimiter = (
+  text: string,
+  delimiter: string,
+  start: number,
+) => {
+  let index = start;
+  while (index < text.length) {
+    if (text[index] === "\\") {
+      index += 2;
+      continue;
+    }
+    if (text[index] === "`") {
+      // delimiters inside code spans don't count
+      const ticks = /^`+/.exec(text.slice(index))?.[0] ?? "`";
+      const end = text.indexOf(ticks, index + ticks.length);
+      index = end === -1 ? index + ticks.length : end + ticks.length;
+      continue;
+    }
+    if (
+      text.startsWith(delimiter, index) &&
+      !isWhitespace(text[index - 1]) &&
+      // intraword underscores are literal
+      !(delimiter[0] === "_" && isWordChar(text[index + delimiter.length])) &&
+      // a single delimiter can't close inside a double delimiter
+      !(
+        delimiter.length === 1 &&
+        (text[index + 1] === delimiter || text[index - 1] === delimiter)
+      )
+    ) {
+      return index;
+    }
+    index++;
+  }
+  return -1;
+};
+
+// matches the brackets of a block of text in one pass, so that unclosed
+// brackets aren't scanned again for every opening bracket
+const matchBrackets = (text: string) => {
+  const matches = new Map<number, number>();
+  const open: number[] = [];
+  for (let index = 0; index < text.length; index++) {
+    const char = text[index];
+    if (char === "\\") {
+      index++;
+    } else if (char === "[") {
+      open.push(index);
+    } else if (char === "]") {
+      const start = open.pop();
+      if (start !== undefined) {
+        matches.set(start, index);
+      }
+    }
+  }
+  return matches;
+};
+
+const parseLink = (
+  text: string,
+  start: number,
+  brackets: Map<number, number>,
+) => {
+  const index = brackets.get(start);
+  if (index === undefined || text[index + 1] !== "(") {
+    return undefined;
+  }
+  // the closing parenthesis is only looked for within the longest URL
+  const urlStart = index + 2;
+  const close = text
+    .slice(urlStart, urlStart + MAX_URL_LENGTH + 1)
+    .indexOf(")");
+  if (close === -1) {
+    return undefined;
+  }
+  const url = text.slice(urlStart, urlStart + close).trim();
+  if (!url || /\s/.test(url)) {
+    return undefined;
+  }
+  return {
+    label: text.slice(start + 1, index),
+    url,
+    end: urlStart + close + 1,
+  };
+};
+
+/**
+ * Parses the inline elements of a block of text
+ *
+ * Line breaks are kept as `break` elements, like in chat messages.
+ */
+export const parseInline = (text: string): MarkdownInline[] => {
+  const nodes: MarkdownInline[] = [];
+  const unclosed = new Set<string>();
+  let brackets: Map<number, number> | undefined;
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+
+    if (char === "\\" && ESCAPABLE.test(text[index + 1] ?? "")) {
+      pushText(nodes, text[index + 1]);
+      index += 2;
+      continue;
+    }
+
+    if (char === "\n") {
+      nodes.push({ type: "break" });
+      index++;
+      continue;
+    }
+
+    if (char === "`") {
+      const ticks = /^`+/.exec(text.slice(index))?.[0] ?? "`";
+      const end = text.indexOf(ticks, index + ticks.length);
+      if (end !== -1) {
+        let code = text.slice(index + ticks.length, end).replace(/\n/g, " ");
+        if (code.length > 2 && code.startsWith(" ") && code.endsWith(" ")) {
+          code = code.slice(1, -1);
+        }
+        nodes.push({ type: "code", text: code });
+        index = end + ticks.length;
+        continue;
+      }
+      pushText(nodes, ticks);
+      index += ticks.length;
+      continue;
+    }
+
+    if (char === "[") {
+      brackets ??= matchBrackets(text);
+      const link = parseLink(text, index, brackets);
+      if (link) {
+        if (
+          link.label.startsWith("@") &&
+          link.url.startsWith(MENTION_URL_PREFIX)
+        ) {
+          nodes.push({
+            type: "mention",
+            inboxId: link.url.slice(MENTION_URL_PREFIX.length),
+            label: link.label.slice(1),
+          });
+        } else {
+          nodes.push({
+            type: "link",
+            url: link.url,
+            children: parseInline(link.label),
+          });
+        }
+        index = link.end;
+        continue;
+      }
+    }
+
+    if (!isWordChar(text[index - 1])) {
+      const autolink = AUTOLINK.exec(text.slice(index))?.[0];
+      if (autolink) {
+        // trailing punctuation isn't part of the link
+        const url = autolink.replace(/[.,;:!?'")\]]+$/, "");
+        nodes.push({
+          type: "link",
+          url,
+          children: [{ type: "text", text: url }],
+        });
+        index += url.length;
+        continue;
+      }
+    }
+
+    const delimiter = DELIMITERS.find((value) => text.startsWith(value, index));
+    if (
+      delimiter &&
+      !isWhitespace(text[index + delimiter.length]) &&
+      !(delimiter[0] === "_" && isWordChar(text[index - 1]))
+    ) {
+      // parsing only moves forward and a delimiter that isn't closed after an
+      // index isn't closed after a later one, so it's only looked for once
+      const end = unclosed.has(delimiter)
+        ? -1
+        : findClosingDelimiter(text, delimiter, index + delimiter.length + 1);
+      if (end !== -1) {
+        const children = parseInline(text.slice(index + delimiter.length, end));
+        nodes.push(
+          delimiter === "~~"
+            ? { type: "strikethrough", children }
+            : delimiter.length === 2
+              ? { type: "strong", children }
+              : { type: "emphasis", children },
+        );
+        index = end + delimiter.length;
+        continue;
+      }
+      unclosed.add(delimiter);
+      pushText(nodes, delimiter);
+      index += delimiter.length;
+      continue;
+    }
+
+    pushText(nodes, char);
+    index++;
+  }
+
+  return nodes;
+};
+
+/**
+ * Parses the supported subset of CommonMark
+ *
+ * Supported blocks are paragraphs, fenced code blocks, blockquotes and
+ * single level lists. Supported inline elements are strong, emphasis,
+ * strikethrough, code spans, links, autolinks and mentions. Anything else,
+ * including HTML, is kept as text.
+ */
+export const parseMarkdown = (markdown: string): MarkdownBlock[] => {
+  const lines = markdown.split(/\r?\n/);
+  const blocks: MarkdownBlock[] = [];
+  let index = 0;
+
+  while (index < lines.length) {
+    const line = lines[index];
+
+    if (!line.trim()) {
+      index++;
+      continue;
+    }
+
+    const fence = FENCE.exec(line);
+    if (fence) {
+      const code: string[] = [];
+      index++;
+      // unclosed code blocks continue to the end of the content
+      while (index < lines.length && !/^```\s*$/.test(lines[index])) {
+        code.push(lines[index]);
+        index++;
+      }
+      index++;
+      blocks.push({
+        type: "codeBlock",
+        language: fence[1] || undefined,
+        text: code.join("\n"),
+      });
+      continue;
+    }
+
+    if (QUOTE.test(line)) {
+      const quoted: string[] = [];
+      while (index < lines.length) {
+        const match = QUOTE.exec(lines[index]);
+        if (!match) {
+          break;
+        }
+        quoted.push(match[1]);
+        index++;
+      }
+      blocks.push({
+        type: "blockquote",
+        children: parseMarkdown(quoted.join("\n")),
+      });
+      continue;
+    }
+
+    const ordered = ORDERED_ITEM.exec(line);
+    if (ordered || UNORDERED_ITEM.test(line)) {
+      const pattern = ordered ? ORDERED_ITEM : UNORDERED_ITEM;
+      const items: string[] = [];
+      while (index < lines.length) {
+        const item = pattern.exec(lines[index]);
+        const continuation = CONTINUATION.exec(lines[index]);
+        if (item) {
+          items.push(item[ordered ? 2 : 1]);
+        } else if (continuation && items.length > 0) {
+          items[items.length - 1] += `\n${continuation[1]}`;
+        } else {
+          break;
+        }
+        index++;
+      }
+      blocks.push({
+        type: "list",
+        ordered: !!ordered,
+        start: ordered ? Number(ordered[1]) : 1,
+        items: items.map((item) => parseInline(item)),
+      });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (
+      index < lines.length &&
+      lines[index].trim() &&
+      (paragraph.length === 0 || !isBlockStart(lines[index]))
+    ) {
+      paragraph.push(lines[index]);
+      index++;
+    }
+    blocks.push({
+      type: "paragraph",
+      children: parseInline(paragraph.join("\n")),
+    });
+  }
+
+  return blocks;
+};
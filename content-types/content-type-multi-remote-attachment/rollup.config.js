@@ -0,0 +1,52 @@
+import terser from "@rollup/plugin-terser";
+import typescript from "@rollup/plugin-typescript";
+import { defineConfig } from "rollup";
+import { dts } from "rollup-plugin-dts";
+import filesize from "rollup-plugin-filesize";
+
+const plugins = [
+  typescript({
+    declaration: false,
+    declarationMap: false,
+  }),
+  filesize({
+    showMinifiedSize: false,
+  }),
+];
+
+const external = [
+  "@noble/secp256k1",
+  "@xmtp/content-type-primitives",
+  "@xmtp/content-type-remote-attachment",
+];
+
+export default defineConfig([
+  {
+    input: "src/index.ts",
+    output: {
+      file: "dist/index.js",
+      format: "es",
+      sourcemap: true,
+    },
+    plugins,
+    external,
+  },
+  {
+    input: "src/index.ts",
+    output: {
+      file: "dist/browser/index.js",
+      format: "es",
+      sourcemap: true,
+    },
+    plugins: [...plugins, terser()],
+    external,
+  },
+  {
+    input: "src/index.ts",
+    output: {
+      file: "dist/index.d.ts",
+      format: "es",
+    },
+    plugins: [dts()],
+  },
+]);
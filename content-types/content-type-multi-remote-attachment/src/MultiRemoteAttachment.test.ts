@@ -0,0 +1,224 @@
+import {
+  AttachmentCodec,
+  RemoteAttachmentCodec,
+  type Attachment,
+  type StorageProvider,
+} from "@xmtp/content-type-remote-attachment";
+import {
+  ContentTypeMultiRemoteAttachment,
+  loadAll,
+  MultiRemoteAttachmentCodec,
+  type MultiRemoteAttachment,
+  type RemoteAttachmentEntry,
+} from "./MultiRemoteAttachment";
+
+const codecs = {
+  codecFor: () => new AttachmentCodec(),
+};
+
+const createAttachment = (index: number): Attachment => ({
+  filename: `photo-${index}.png`,
+  mimeType: "image/png",
+  data: new TextEncoder().encode(`photo ${index}`),
+});
+
+const createEntry = async (
+  attachment: Attachment,
+  segmentSize?: number,
+): Promise<{ entry: RemoteAttachmentEntry; payload: Uint8Array }> => {
+  const encrypted = await RemoteAttachmentCodec.encodeEncrypted(
+    attachment,
+    new AttachmentCodec(),
+    { segmentSize },
+  );
+  return {
+    entry: {
+      url: `https://storage.test/${attachment.filename}`,
+      contentDigest: encrypted.digest,
+      salt: encrypted.salt,
+      nonce: encrypted.nonce,
+      secret: encrypted.secret,
+      scheme: "https://",
+      contentLength: attachment.data.byteLength,
+      filename: attachment.filename,
+      segmentSize: encrypted.segmentSize,
+      mimeType: attachment.mimeType,
+    },
+    payload: encrypted.payload,
+  };
+};
+
+test("content type exists", () => {
+  expect(ContentTypeMultiRemoteAttachment.authorityId).toBe("xmtp.org");
+  expect(ContentTypeMultiRemoteAttachment.typeId).toBe("multiRemoteAttachment");
+  expect(ContentTypeMultiRemoteAttachment.versionMajor).toBe(1);
+  expect(ContentTypeMultiRemoteAttachment.versionMinor).toBe(0);
+});
+
+test("encodes and decodes entries in order", async () => {
+  const codec = new MultiRemoteAttachmentCodec();
+  const first = await createEntry(createAttachment(1));
+  const second = await createEntry(createAttachment(2), 1024);
+  const content: MultiRemoteAttachment = {
+    attachments: [
+      {
+        ...first.entry,
+        width: 640,
+        height: 480,
+        blurhash: "LEHV6nWB2yk8pyo0adR*.7kCMdnj",
+      },
+      second.entry,
+    ],
+  };
+
+  const encoded = codec.encode(content);
+  expect(encoded.type.sameAs(ContentTypeMultiRemoteAttachment)).toBe(true);
+
+  const decoded = codec.decode(encoded);
+  expect(decoded).toEqual(content);
+  expect(decoded.attachments[0].salt).toBeInstanceOf(Uint8Array);
+  expect(decoded.attachments[1].segmentSize).toBe(1024);
+});
+
+test("rejects empty lists and non-https URLs", async () => {
+  const codec = new MultiRemoteAttachmentCodec();
+  expect(() => codec.encode({ attachments: [] })).toThrow(
+    "attachments must not be empty",
+  );
+
+  const { entry } = await createEntry(createAttachment(1));
+  expect(() =>
+    codec.encode({
+      attachments: [{ ...entry, url: "http://storage.test/photo-1.png" }],
+    }),
+  ).toThrow("scheme must be https");
+});
+
+test("has a fallback and push value", async () => {
+  const codec = new MultiRemoteAttachmentCodec();
+  const first = await createEntry(createAttachment(1));
+  const second = await createEntry(createAttachment(2));
+  expect(codec.fallback({ attachments: [first.entry, second.entry] })).toBe(
+    `Can’t display "photo-1.png", "photo-2.png". This app doesn’t support attachments.`,
+  );
+  expect(codec.shouldPush()).toBe(true);
+});
+
+test("loads all attachments in parallel and in order", async () => {
+  const attachments = [1, 2, 3].map(createAttachment);
+  const entries = await Promise.all(
+    attachments.map((attachment, index) =>
+      createEntry(attachment, index === 1 ? 4 : undefined),
+    ),
+  );
+  const payloads = new Map(
+    entries.map(({ entry, payload }) => [entry.url, payload]),
+  );
+
+  // downloads resolve in reverse order once all of them have started
+  const pending: (() => void)[] = [];
+  const provider: StorageProvider = {
+    upload: () => Promise.reject(new Error("not supported")),
+    download: (url) =>
+      new Promise((resolve) => {
+        pending.push(() => {
+          resolve(payloads.get(url) ?? new Uint8Array());
+        });
+        if (pending.length === entries.length) {
+          pending.reverse().forEach((resolvePending) => {
+            resolvePending();
+          });
+        }
+      }),
+  };
+
+  const loaded = await loadAll(
+    { attachments: entries.map(({ entry }) => entry) },
+    codecs,
+    provider,
+  );
+  expect(loaded).toEqual(
+    attachments.map((value) => ({ status: "fulfilled", value })),
+  );
+});
+
+test("rejects decoded entries that are invalid", async () => {
+  const codec = new MultiRemoteAttachmentCodec();
+  const { entry } = await createEntry(createAttachment(1));
+  const encoded = codec.encode({ attachments: [entry] });
+  const serialized = JSON.parse(new TextDecoder().decode(encoded.content)) as {
+    attachments: Record<string, unknown>[];
+  };
+  const decodeWith = (changes: Record<string, unknown>) =>
+    codec.decode({
+      ...encoded,
+      content: new TextEncoder().encode(
+        JSON.stringify({
+          attachments: [{ ...serialized.attachments[0], ...changes }],
+        }),
+      ),
+    });
+
+  expect(() =>
+    codec.decode({
+      ...encoded,
+      content: new TextEncoder().encode(JSON.stringify({ attachments: {} })),
+    }),
+  ).toThrow("invalid multi remote attachment");
+  expect(() =>
+    codec.decode({
+      ...encoded,
+      content: new TextEncoder().encode(JSON.stringify({ attachments: [] })),
+    }),
+  ).toThrow("attachments must not be empty");
+  expect(() => decodeWith({ url: "http://storage.test/photo-1.png" })).toThrow(
+    "attachment 0 URL must be https",
+  );
+  expect(() => decodeWith({ scheme: "ftp://" })).toThrow(
+    "attachment 0 scheme must be https",
+  );
+  expect(() => decodeWith({ contentDigest: "abc" })).toThrow(
+    "attachment 0 has an invalid content digest",
+  );
+  expect(() => decodeWith({ salt: "00" })).toThrow(
+    "attachment 0 has an invalid salt",
+  );
+  expect(() => decodeWith({ nonce: "zz".repeat(12) })).toThrow(
+    "attachment 0 has an invalid nonce",
+  );
+  expect(() => decodeWith({ secret: undefined })).toThrow(
+    "attachment 0 has an invalid secret",
+  );
+  expect(() => decodeWith({ contentLength: -1 })).toThrow(
+    "attachment 0 has an invalid content length",
+  );
+  expect(() => decodeWith({ segmentSize: 0 })).toThrow(
+    "attachment 0 has an invalid segment size",
+  );
+  expect(() => decodeWith({ width: "640" })).toThrow(
+    "attachment 0 has invalid preview metadata",
+  );
+});
+
+test("reports attachments that fail to load separately", async () => {
+  const first = await createEntry(createAttachment(1));
+  const second = await createEntry(createAttachment(2));
+  const provider: StorageProvider = {
+    upload: () => Promise.reject(new Error("not supported")),
+    download: () => Promise.resolve(first.payload),
+  };
+
+  const [loaded, failed] = await loadAll(
+    { attachments: [first.entry, second.entry] },
+    codecs,
+    provider,
+  );
+  expect(loaded).toEqual({
+    status: "fulfilled",
+    value: createAttachment(1),
+  });
+  expect(failed.status).toBe("rejected");
+  expect((failed as PromiseRejectedResult).reason).toEqual(
+    new Error("content digest does not match"),
+  );
+});
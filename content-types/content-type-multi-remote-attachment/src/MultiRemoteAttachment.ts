@@ -0,0 +1,229 @@
+import * as secp from "@noble/secp256k1";
+import {
+  ContentTypeId,
+  type CodecRegistry,
+  type ContentCodec,
+  type EncodedContent,
+  type UndecodedContent,
+} from "@xmtp/content-type-primitives";
+import {
+  RemoteAttachmentCodec,
+  type RemoteAttachment,
+  type StorageProvider,
+} from "@xmtp/content-type-remote-attachment";
+
+export const ContentTypeMultiRemoteAttachment = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "multiRemoteAttachment",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export type RemoteAttachmentEntry = RemoteAttachment & {
+  /**
+   * The MIME type of the attachment, e.g. for choosing a preview
+   */
+  mimeType?: string;
+  /**
+   * The width of an image or video in pixels
+   */
+  width?: number;
+  /**
+   * The height of an image or video in pixels
+   */
+  height?: number;
+  /**
+   * A blurhash of an image or video that can be displayed while it loads
+   */
+  blurhash?: string;
+};
+
+export type MultiRemoteAttachment = {
+  /**
+   * The attachments, in the order they should be displayed
+   */
+  attachments: RemoteAttachmentEntry[];
+};
+
+// keys, salts and nonces are hex encoded
+type SerializedEntry = Omit<
+  RemoteAttachmentEntry,
+  "salt" | "nonce" | "secret"
+> & {
+  salt: string;
+  nonce: string;
+  secret: string;
+};
+
+type SerializedMultiRemoteAttachment = {
+  attachments: SerializedEntry[];
+};
+
+// sizes in bytes of the values used to encrypt remote attachments
+const DIGEST_LENGTH = 32;
+const SALT_LENGTH = 32;
+const NONCE_LENGTH = 12;
+const SECRET_LENGTH = 32;
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isHex = (value: unknown, length: number): value is string =>
+  typeof value === "string" &&
+  value.length === length * 2 &&
+  /^[0-9a-f]*$/i.test(value);
+
+const isOptionalNumber = (value: unknown): value is number | undefined =>
+  value === undefined || (typeof value === "number" && Number.isFinite(value));
+
+const isOptionalString = (value: unknown): value is string | undefined =>
+  value === undefined || typeof value === "string";
+
+/**
+ * Validates a decoded entry, throws an error if it's invalid
+ */
+const parseEntry = (value: unknown, index: number): RemoteAttachmentEntry => {
+  if (!isObject(value)) {
+    throw new Error(`attachment ${index} must be an object`);
+  }
+  if (typeof value.url !== "string" || !value.url.startsWith("https://")) {
+    throw new Error(`attachment ${index} URL must be https`);
+  }
+  if (value.scheme !== "https://") {
+    throw new Error(`attachment ${index} scheme must be https`);
+  }
+  if (!isHex(value.contentDigest, DIGEST_LENGTH)) {
+    throw new Error(`attachment ${index} has an invalid content digest`);
+  }
+  if (!isHex(value.salt, SALT_LENGTH)) {
+    throw new Error(`attachment ${index} has an invalid salt`);
+  }
+  if (!isHex(value.nonce, NONCE_LENGTH)) {
+    throw new Error(`attachment ${index} has an invalid nonce`);
+  }
+  if (!isHex(value.secret, SECRET_LENGTH)) {
+    throw new Error(`attachment ${index} has an invalid secret`);
+  }
+  if (
+    !Number.isInteger(value.contentLength) ||
+    (value.contentLength as number) < 0
+  ) {
+    throw new Error(`attachment ${index} has an invalid content length`);
+  }
+  if (typeof value.filename !== "string") {
+    throw new Error(`attachment ${index} has an invalid filename`);
+  }
+  if (
+    value.segmentSize !== undefined &&
+    (!Number.isInteger(value.segmentSize) || (value.segmentSize as number) <= 0)
+  ) {
+    throw new Error(`attachment ${index} has an invalid segment size`);
+  }
+  if (
+    !isOptionalString(value.mimeType) ||
+    !isOptionalNumber(value.width) ||
+    !isOptionalNumber(value.height) ||
+    !isOptionalString(value.blurhash)
+  ) {
+    throw new Error(`attachment ${index} has invalid preview metadata`);
+  }
+
+  return {
+    url: value.url,
+    contentDigest: value.contentDigest,
+    salt: secp.etc.hexToBytes(value.salt),
+    nonce: secp.etc.hexToBytes(value.nonce),
+    secret: secp.etc.hexToBytes(value.secret),
+    scheme: value.scheme,
+    contentLength: value.contentLength as number,
+    filename: value.filename,
+    segmentSize: value.segmentSize as number | undefined,
+    mimeType: value.mimeType,
+    width: value.width,
+    height: value.height,
+    blurhash: value.blurhash,
+  };
+};
+
+/**
+ * Downloads, decrypts and decodes all attachments in parallel
+ *
+ * The results are returned in the same order as the entries, an attachment
+ * that fails to load is rejected without affecting the others. Content
+ * without a codec in the registry is returned as `UndecodedContent`.
+ */
+export async function loadAll<T>(
+  multiRemoteAttachment: MultiRemoteAttachment,
+  codecRegistry: CodecRegistry<T>,
+  provider?: StorageProvider,
+): Promise<PromiseSettledResult<T | UndecodedContent>[]> {
+  return Promise.allSettled(
+    multiRemoteAttachment.attachments.map((attachment) =>
+      RemoteAttachmentCodec.load(attachment, codecRegistry, provider),
+    ),
+  );
+}
+
+export class MultiRemoteAttachmentCodec
+  implements ContentCodec<MultiRemoteAttachment>
+{
+  get contentType(): ContentTypeId {
+    return ContentTypeMultiRemoteAttachment;
+  }
+
+  encode(content: MultiRemoteAttachment) {
+    if (content.attachments.length === 0) {
+      throw new Error("attachments must not be empty");
+    }
+
+    const serialized: SerializedMultiRemoteAttachment = {
+      attachments: content.attachments.map((attachment) => {
+        if (!attachment.url.startsWith("https")) {
+          throw new Error("scheme must be https");
+        }
+        return {
+          ...attachment,
+          salt: secp.etc.bytesToHex(attachment.salt),
+          nonce: secp.etc.bytesToHex(attachment.nonce),
+          secret: secp.etc.bytesToHex(attachment.secret),
+        };
+      }),
+    };
+
+    return {
+      type: ContentTypeMultiRemoteAttachment,
+      parameters: {},
+      content: new TextEncoder().encode(JSON.stringify(serialized)),
+    };
+  }
+
+  decode(content: EncodedContent): MultiRemoteAttachment {
+    const serialized: unknown = JSON.parse(
+      new TextDecoder().decode(content.content),
+    );
+
+    if (!isObject(serialized) || !Array.isArray(serialized.attachments)) {
+      throw new Error("invalid multi remote attachment");
+    }
+    if (serialized.attachments.length === 0) {
+      throw new Error("attachments must not be empty");
+    }
+
+    return {
+      attachments: serialized.attachments.map((attachment, index) =>
+        parseEntry(attachment, index),
+      ),
+    };
+  }
+
+  fallback(content: MultiRemoteAttachment): string | undefined {
+    const filenames = content.attachments
+      .map((attachment) => `"${attachment.filename}"`)
+      .join(", ");
+    return `Can’t display ${filenames}. This app doesn’t support attachments.`;
+  }
+
+  shouldPush() {
+    return true;
+  }
+}
@@ -0,0 +1,43 @@
+import { ContentTypePollVote, PollVoteCodec } from "./PollVote";
+
+describe("ContentTypePollVote", () => {
+  it("has the right content type", () => {
+    expect(ContentTypePollVote.authorityId).toBe("xmtp.org");
+    expect(ContentTypePollVote.typeId).toBe("pollVote");
+    expect(ContentTypePollVote.versionMajor).toBe(1);
+    expect(ContentTypePollVote.versionMinor).toBe(0);
+  });
+
+  it("encodes and decodes a vote", () => {
+    const codec = new PollVoteCodec();
+    const vote = { reference: "poll-id", options: [0, 2] };
+    expect(codec.decode(codec.encode(vote))).toEqual(vote);
+    expect(codec.fallback(vote)).toBe("Voted in a poll");
+    expect(codec.fallback({ reference: "poll-id", options: [] })).toBe(
+      "Withdrew a vote in a poll",
+    );
+    expect(codec.shouldPush()).toBe(false);
+  });
+
+  it("validates votes", () => {
+    const codec = new PollVoteCodec();
+    expect(() => codec.encode({ reference: "", options: [0] })).toThrow(
+      "missing reference",
+    );
+    expect(() =>
+      codec.encode({ reference: "poll-id", options: [1.5] }),
+    ).toThrow("invalid poll vote option 1.5");
+    expect(() =>
+      codec.encode({ reference: "poll-id", options: [1, 1] }),
+    ).toThrow("duplicate poll vote options");
+    expect(() =>
+      codec.decode({
+        type: ContentTypePollVote,
+        parameters: {},
+        content: new TextEncoder().encode(
+          JSON.stringify({ reference: "poll-id", options: [-1] }),
+        ),
+      }),
+    ).toThrow("invalid poll vote option -1");
+  });
+});
@@ -0,0 +1,80 @@
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+
+export const ContentTypePollVote = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "pollVote",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export type PollVote = {
+  /**
+   * The message ID of the poll that is being voted in
+   */
+  reference: string;
+  /**
+   * The indexes of the selected options of the poll
+   *
+   * A vote without options withdraws an earlier vote.
+   */
+  options: number[];
+};
+
+/**
+ * Validates the content of a poll vote
+ */
+export function validatePollVote(vote: PollVote) {
+  if (typeof vote.reference !== "string" || !vote.reference) {
+    throw new Error("missing reference");
+  }
+  if (!Array.isArray(vote.options)) {
+    throw new Error("poll vote options must be an array");
+  }
+  for (const option of vote.options) {
+    if (!Number.isInteger(option) || option < 0) {
+      throw new Error(`invalid poll vote option ${String(option)}`);
+    }
+  }
+  if (new Set(vote.options).size !== vote.options.length) {
+    throw new Error("duplicate poll vote options");
+  }
+}
+
+export class PollVoteCodec implements ContentCodec<PollVote> {
+  get contentType(): ContentTypeId {
+    return ContentTypePollVote;
+  }
+
+  encode(content: PollVote) {
+    validatePollVote(content);
+    const { reference, options } = content;
+    return {
+      type: this.contentType,
+      parameters: {},
+      content: new TextEncoder().encode(JSON.stringify({ reference, options })),
+    };
+  }
+
+  decode(content: EncodedContent): PollVote {
+    const { reference, options } = JSON.parse(
+      new TextDecoder().decode(content.content),
+    ) as PollVote;
+    const vote = { reference, options };
+    validatePollVote(vote);
+    return vote;
+  }
+
+  fallback(content: PollVote): string | undefined {
+    return content.options.length > 0
+      ? "Voted in a poll"
+      : "Withdrew a vote in a poll";
+  }
+
+  shouldPush() {
+    return false;
+  }
+}
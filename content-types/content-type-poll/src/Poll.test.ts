@@ -0,0 +1,78 @@
+import {
+  ContentTypePoll,
+  MAX_POLL_OPTIONS,
+  PollCodec,
+  type Poll,
+} from "./Poll";
+
+const poll: Poll = {
+  question: "Where should we meet?",
+  options: ["Online", "Berlin", "Lisbon"],
+  multiSelect: true,
+  deadline: new Date("2030-01-01T00:00:00.000Z"),
+};
+
+describe("ContentTypePoll", () => {
+  it("has the right content type", () => {
+    expect(ContentTypePoll.authorityId).toBe("xmtp.org");
+    expect(ContentTypePoll.typeId).toBe("poll");
+    expect(ContentTypePoll.versionMajor).toBe(1);
+    expect(ContentTypePoll.versionMinor).toBe(0);
+  });
+
+  it("encodes and decodes a poll", () => {
+    const codec = new PollCodec();
+    const encoded = codec.encode(poll);
+    expect(encoded.type).toEqual(ContentTypePoll);
+    expect(codec.decode(encoded)).toEqual(poll);
+    expect(
+      codec.decode(codec.encode({ question: "gm?", options: ["gm", "gn"] })),
+    ).toEqual({ question: "gm?", options: ["gm", "gn"] });
+  });
+
+  it("generates a fallback", () => {
+    const codec = new PollCodec();
+    expect(codec.fallback(poll)).toBe(
+      "Poll: Where should we meet?\n1. Online\n2. Berlin\n3. Lisbon",
+    );
+    expect(codec.shouldPush()).toBe(true);
+  });
+
+  it("validates polls", () => {
+    const codec = new PollCodec();
+    expect(() => codec.encode({ ...poll, question: " " })).toThrow(
+      "poll question must not be empty",
+    );
+    expect(() => codec.encode({ ...poll, options: ["Online"] })).toThrow(
+      "poll must have at least 2 options",
+    );
+    expect(() =>
+      codec.encode({
+        ...poll,
+        options: Array.from(
+          { length: MAX_POLL_OPTIONS + 1 },
+          (_, index) => `${index}`,
+        ),
+      }),
+    ).toThrow(`poll must have at most ${MAX_POLL_OPTIONS} options`);
+    expect(() =>
+      codec.encode({ ...poll, options: ["Online", "Online "] }),
+    ).toThrow('duplicate poll option "Online "');
+    expect(() =>
+      codec.encode({ ...poll, deadline: new Date("not a date") }),
+    ).toThrow("invalid poll deadline");
+  });
+
+  it("throws when decoding an invalid poll", () => {
+    const codec = new PollCodec();
+    expect(() =>
+      codec.decode({
+        type: ContentTypePoll,
+        parameters: {},
+        content: new TextEncoder().encode(
+          JSON.stringify({ question: "gm?", options: [] }),
+        ),
+      }),
+    ).toThrow("poll must have at least 2 options");
+  });
+});
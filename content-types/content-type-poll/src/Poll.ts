@@ -0,0 +1,120 @@
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+
+export const ContentTypePoll = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "poll",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+/**
+ * Maximum number of options of a poll
+ */
+export const MAX_POLL_OPTIONS = 20;
+
+export type Poll = {
+  /**
+   * The question that is being asked
+   */
+  question: string;
+  /**
+   * The options that can be voted for, votes reference them by index
+   */
+  options: string[];
+  /**
+   * Whether members can vote for more than one option
+   */
+  multiSelect?: boolean;
+  /**
+   * When voting closes, votes sent after the deadline aren't counted
+   */
+  deadline?: Date;
+};
+
+type EncodedPoll = Omit<Poll, "deadline"> & {
+  deadline?: string;
+};
+
+/**
+ * Validates the content of a poll
+ */
+export function validatePoll(poll: Poll) {
+  if (typeof poll.question !== "string" || !poll.question.trim()) {
+    throw new Error("poll question must not be empty");
+  }
+  if (!Array.isArray(poll.options) || poll.options.length < 2) {
+    throw new Error("poll must have at least 2 options");
+  }
+  if (poll.options.length > MAX_POLL_OPTIONS) {
+    throw new Error(`poll must have at most ${MAX_POLL_OPTIONS} options`);
+  }
+  const options = new Set<string>();
+  for (const option of poll.options) {
+    if (typeof option !== "string" || !option.trim()) {
+      throw new Error("poll options must not be empty");
+    }
+    if (options.has(option.trim())) {
+      throw new Error(`duplicate poll option "${option}"`);
+    }
+    options.add(option.trim());
+  }
+  if (poll.multiSelect !== undefined && typeof poll.multiSelect !== "boolean") {
+    throw new Error("invalid poll multi-select flag");
+  }
+  if (
+    poll.deadline !== undefined &&
+    (!(poll.deadline instanceof Date) || isNaN(poll.deadline.getTime()))
+  ) {
+    throw new Error("invalid poll deadline");
+  }
+}
+
+export class PollCodec implements ContentCodec<Poll> {
+  get contentType(): ContentTypeId {
+    return ContentTypePoll;
+  }
+
+  encode(content: Poll) {
+    validatePoll(content);
+    const encoded: EncodedPoll = {
+      question: content.question,
+      options: content.options,
+      multiSelect: content.multiSelect,
+      deadline: content.deadline?.toISOString(),
+    };
+    return {
+      type: this.contentType,
+      parameters: {},
+      content: new TextEncoder().encode(JSON.stringify(encoded)),
+    };
+  }
+
+  decode(content: EncodedContent): Poll {
+    const { question, options, multiSelect, deadline } = JSON.parse(
+      new TextDecoder().decode(content.content),
+    ) as EncodedPoll;
+    const poll: Poll = {
+      question,
+      options,
+      multiSelect,
+      deadline: deadline !== undefined ? new Date(deadline) : undefined,
+    };
+    validatePoll(poll);
+    return poll;
+  }
+
+  fallback(content: Poll): string | undefined {
+    const options = content.options
+      .map((option, index) => `${index + 1}. ${option}`)
+      .join("\n");
+    return `Poll: ${content.question}\n${options}`;
+  }
+
+  shouldPush() {
+    return true;
+  }
+}
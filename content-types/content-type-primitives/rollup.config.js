@@ -1,5 +1,6 @@
 import terser from "@rollup/plugin-terser";
 import typescript from "@rollup/plugin-typescript";
+import { resolveExtensions } from "@xmtp/rollup-plugin-resolve-extensions";
 import { defineConfig } from "rollup";
 import { dts } from "rollup-plugin-dts";
 import filesize from "rollup-plugin-filesize";
@@ -14,7 +15,7 @@ const plugins = [
   }),
 ];
 
-const external = ["@xmtp/proto"];
+const external = ["@xmtp/proto", "node:crypto"];
 
 export default defineConfig([
   {
@@ -34,7 +35,11 @@ export default defineConfig([
       format: "es",
       sourcemap: true,
     },
-    plugins: [...plugins, terser()],
+    plugins: [
+      resolveExtensions({ extensions: [".browser"] }),
+      ...plugins,
+      terser(),
+    ],
     external,
   },
   {
@@ -0,0 +1,24 @@
+import { describe, expect, it } from "vitest";
+import { Ciphertext, decrypt, encrypt } from ".";
+
+describe("encryption", () => {
+  it("encrypts and decrypts with a secret", async () => {
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+    const plain = new TextEncoder().encode("gm");
+    const encrypted = await encrypt(plain, secret);
+    const decrypted = await decrypt(
+      Ciphertext.fromBytes(encrypted.toBytes()),
+      secret,
+    );
+    expect(decrypted).toEqual(plain);
+  });
+
+  it("fails to decrypt with the wrong additional data", async () => {
+    const secret = crypto.getRandomValues(new Uint8Array(32));
+    const plain = new TextEncoder().encode("gm");
+    const encrypted = await encrypt(plain, secret, new Uint8Array([1]));
+    await expect(
+      decrypt(encrypted, secret, new Uint8Array([2])),
+    ).rejects.toThrow();
+  });
+});
@@ -0,0 +1,128 @@
+import { ciphertext } from "@xmtp/proto";
+import crypto from "./crypto";
+
+export { crypto };
+
+export const AESKeySize = 32; // bytes
+export const KDFSaltSize = 32; // bytes
+// AES-GCM defaults from https://developer.mozilla.org/en-US/docs/Web/API/AesGcmParams
+export const AESGCMNonceSize = 12; // property iv
+export const AESGCMTagLength = 16; // property tagLength
+
+const hkdfNoInfo = new Uint8Array().buffer;
+
+// Ciphertext packages the encrypted ciphertext with the salt and nonce used to produce it.
+// salt and nonce are not secret, and should be transmitted/stored along with the encrypted ciphertext.
+export class Ciphertext implements ciphertext.Ciphertext {
+  aes256GcmHkdfSha256: ciphertext.Ciphertext_Aes256gcmHkdfsha256 | undefined;
+
+  constructor(obj: ciphertext.Ciphertext) {
+    if (!obj.aes256GcmHkdfSha256) {
+      throw new Error("invalid ciphertext");
+    }
+    if (obj.aes256GcmHkdfSha256.payload.length < AESGCMTagLength) {
+      throw new Error(
+        `invalid ciphertext ciphertext length: ${obj.aes256GcmHkdfSha256.payload.length}`,
+      );
+    }
+    if (obj.aes256GcmHkdfSha256.hkdfSalt.length !== KDFSaltSize) {
+      throw new Error(
+        `invalid ciphertext salt length: ${obj.aes256GcmHkdfSha256.hkdfSalt.length}`,
+      );
+    }
+    if (obj.aes256GcmHkdfSha256.gcmNonce.length !== AESGCMNonceSize) {
+      throw new Error(
+        `invalid ciphertext nonce length: ${obj.aes256GcmHkdfSha256.gcmNonce.length}`,
+      );
+    }
+    this.aes256GcmHkdfSha256 = obj.aes256GcmHkdfSha256;
+  }
+
+  toBytes(): Uint8Array {
+    return ciphertext.Ciphertext.encode(this).finish();
+  }
+
+  static fromBytes(bytes: Uint8Array): Ciphertext {
+    return new Ciphertext(ciphertext.Ciphertext.decode(bytes));
+  }
+}
+
+// This is a variation of https://github.com/paulmillr/noble-secp256k1/blob/main/index.ts#L1378-L1388
+// that uses `digest('SHA-256', bytes)` instead of `digest('SHA-256', bytes.buffer)`
+// which seems to produce different results.
+export async function sha256(bytes: Uint8Array): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest("SHA-256", bytes));
+}
+
+// symmetric authenticated encryption of plaintext using the secret;
+// additionalData is used to protect un-encrypted parts of the message (header)
+// in the authentication scope of the encryption.
+export async function encrypt(
+  plain: Uint8Array,
+  secret: Uint8Array,
+  additionalData?: Uint8Array,
+): Promise<Ciphertext> {
+  const salt = crypto.getRandomValues(new Uint8Array(KDFSaltSize));
+  const nonce = crypto.getRandomValues(new Uint8Array(AESGCMNonceSize));
+  const key = await hkdf(secret, salt);
+  const encrypted: ArrayBuffer = await crypto.subtle.encrypt(
+    aesGcmParams(nonce, additionalData),
+    key,
+    plain,
+  );
+  return new Ciphertext({
+    aes256GcmHkdfSha256: {
+      payload: new Uint8Array(encrypted),
+      hkdfSalt: salt,
+      gcmNonce: nonce,
+    },
+  });
+}
+
+// symmetric authenticated decryption of the encrypted ciphertext using the secret and additionalData
+export async function decrypt(
+  encrypted: Ciphertext | ciphertext.Ciphertext,
+  secret: Uint8Array,
+  additionalData?: Uint8Array,
+): Promise<Uint8Array> {
+  if (!encrypted.aes256GcmHkdfSha256) {
+    throw new Error("invalid payload ciphertext");
+  }
+  const key = await hkdf(secret, encrypted.aes256GcmHkdfSha256.hkdfSalt);
+  const decrypted: ArrayBuffer = await crypto.subtle.decrypt(
+    aesGcmParams(encrypted.aes256GcmHkdfSha256.gcmNonce, additionalData),
+    key,
+    encrypted.aes256GcmHkdfSha256.payload,
+  );
+  return new Uint8Array(decrypted);
+}
+
+// helper for building Web Crypto API encryption parameter structure
+function aesGcmParams(
+  nonce: Uint8Array,
+  additionalData?: Uint8Array,
+): AesGcmParams {
+  const spec: AesGcmParams = {
+    name: "AES-GCM",
+    iv: nonce,
+  };
+  if (additionalData) {
+    spec.additionalData = additionalData;
+  }
+  return spec;
+}
+
+// Derive AES-256-GCM key from a shared secret and salt.
+// Returns crypto.CryptoKey suitable for the encrypt/decrypt API
+async function hkdf(secret: Uint8Array, salt: Uint8Array): Promise<CryptoKey> {
+  const key = await crypto.subtle.importKey("raw", secret, "HKDF", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info: hkdfNoInfo },
+    key,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
@@ -60,6 +60,11 @@ export type ContentCodec<
   ): ContentType;
   fallback(content: ContentType): string | undefined;
   shouldPush: (content: ContentType) => boolean;
+  /**
+   * Throws an error if the content doesn't match the schema of the content
+   * type, clients validate content before encoding and after decoding
+   */
+  validate?: (content: ContentType) => void;
 };
 
 /**
@@ -71,3 +76,8 @@ export interface CodecRegistry<T = any> {
 }
 
 export type CodecMap<T = any> = Map<string, ContentCodec<T>>;
+
+export * from "./encryption";
+export * from "./mentions";
+export * from "./nested";
+export * from "./versioning";
@@ -0,0 +1,59 @@
+import { describe, expect, it } from "vitest";
+import {
+  decodeMentions,
+  encodeMentions,
+  MENTIONS_PARAMETER,
+  validateMentions,
+} from ".";
+
+const alice = "a".repeat(64);
+const bob = "b".repeat(64);
+
+describe("mentions", () => {
+  it("encodes and decodes mentions", () => {
+    const text = "gm @alice and @bob";
+    const encoded = encodeMentions(text, [
+      { inboxId: bob, offset: 14, length: 4 },
+      { inboxId: alice.toUpperCase(), offset: 3, length: 6 },
+    ]);
+    expect(decodeMentions({ [MENTIONS_PARAMETER]: encoded })).toEqual([
+      { inboxId: alice, offset: 3, length: 6 },
+      { inboxId: bob, offset: 14, length: 4 },
+    ]);
+    expect(
+      decodeMentions(new Map([[MENTIONS_PARAMETER, encoded]])),
+    ).toHaveLength(2);
+  });
+
+  it("validates mentions", () => {
+    expect(() => {
+      validateMentions("gm @alice", [
+        { inboxId: alice, offset: 3, length: 10 },
+      ]);
+    }).toThrow("mention at offset 3 is outside of the text");
+    expect(() => {
+      validateMentions("gm @alice", [
+        { inboxId: alice, offset: 3, length: 6 },
+        { inboxId: bob, offset: 5, length: 2 },
+      ]);
+    }).toThrow("mention at offset 5 overlaps");
+    expect(() => {
+      validateMentions("gm @alice", [
+        { inboxId: "alice", offset: 3, length: 6 },
+      ]);
+    }).toThrow("invalid mention");
+  });
+
+  it("ignores invalid mentions when decoding", () => {
+    expect(decodeMentions()).toEqual([]);
+    expect(decodeMentions({ [MENTIONS_PARAMETER]: "not json" })).toEqual([]);
+    expect(
+      decodeMentions({
+        [MENTIONS_PARAMETER]: JSON.stringify([
+          { inboxId: alice, offset: -1, length: 6 },
+          { inboxId: bob, offset: 0, length: 4 },
+        ]),
+      }),
+    ).toEqual([{ inboxId: bob, offset: 0, length: 4 }]);
+  });
+});
@@ -0,0 +1,102 @@
+// name of the encoded content parameter that holds the mentions of a message
+export const MENTIONS_PARAMETER = "mentions";
+
+const INBOX_ID = /^[0-9a-f]{1,128}$/i;
+
+/**
+ * A mention of an inbox in the text of a message
+ *
+ * `offset` and `length` are in UTF-16 code units of the text, like string
+ * indexes in JavaScript.
+ */
+export type Mention = {
+  inboxId: string;
+  offset: number;
+  length: number;
+};
+
+const isMention = (value: unknown): value is Mention => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const { inboxId, offset, length } = value as Record<string, unknown>;
+  return (
+    typeof inboxId === "string" &&
+    INBOX_ID.test(inboxId) &&
+    Number.isSafeInteger(offset) &&
+    (offset as number) >= 0 &&
+    Number.isSafeInteger(length) &&
+    (length as number) > 0
+  );
+};
+
+/**
+ * Validates mentions of the text of a message, mentions must be within the
+ * text and must not overlap
+ */
+export function validateMentions(text: string, mentions: Mention[]) {
+  let end = 0;
+  const sorted = [...mentions].sort((a, b) => a.offset - b.offset);
+  for (const mention of sorted) {
+    if (!isMention(mention)) {
+      throw new Error(`invalid mention ${JSON.stringify(mention)}`);
+    }
+    if (mention.offset + mention.length > text.length) {
+      throw new Error(
+        `mention at offset ${mention.offset} is outside of the text`,
+      );
+    }
+    if (mention.offset < end) {
+      throw new Error(`mention at offset ${mention.offset} overlaps`);
+    }
+    end = mention.offset + mention.length;
+  }
+}
+
+/**
+ * Encodes the mentions of the text of a message as an encoded content
+ * parameter
+ */
+export function encodeMentions(text: string, mentions: Mention[]): string {
+  validateMentions(text, mentions);
+  return JSON.stringify(
+    [...mentions]
+      .sort((a, b) => a.offset - b.offset)
+      .map(({ inboxId, offset, length }) => ({
+        inboxId: inboxId.toLowerCase(),
+        offset,
+        length,
+      })),
+  );
+}
+
+/**
+ * Gets the mentions from the parameters of an encoded content
+ *
+ * Mentions are sent by other clients, so invalid mentions are ignored.
+ */
+export function decodeMentions(
+  parameters?: Record<string, string> | Map<string, string>,
+): Mention[] {
+  const value =
+    parameters instanceof Map
+      ? parameters.get(MENTIONS_PARAMETER)
+      : parameters?.[MENTIONS_PARAMETER];
+  if (!value) {
+    return [];
+  }
+  let mentions: unknown;
+  try {
+    mentions = JSON.parse(value);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(mentions)) {
+    return [];
+  }
+  return mentions.filter(isMention).map(({ inboxId, offset, length }) => ({
+    inboxId: inboxId.toLowerCase(),
+    offset,
+    length,
+  }));
+}
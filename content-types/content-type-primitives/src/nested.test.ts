@@ -0,0 +1,64 @@
+import { describe, expect, it } from "vitest";
+import {
+  ContentTypeId,
+  decodeNestedContent,
+  isUndecodedContent,
+  UndecodedContent,
+  type ContentCodec,
+  type EncodedContent,
+} from ".";
+
+const ContentTypeTest = new ContentTypeId({
+  authorityId: "foo",
+  typeId: "bar",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+const encoded: EncodedContent = {
+  type: ContentTypeTest,
+  parameters: {},
+  fallback: "gm",
+  content: new TextEncoder().encode("gm"),
+};
+
+const codec: ContentCodec<string> = {
+  contentType: ContentTypeTest,
+  encode: () => encoded,
+  decode: (content) => new TextDecoder().decode(content.content),
+  fallback: () => undefined,
+  shouldPush: () => false,
+};
+
+describe("decodeNestedContent", () => {
+  it("decodes content with a codec from the registry", () => {
+    expect(decodeNestedContent(encoded, { codecFor: () => codec })).toBe("gm");
+  });
+
+  it("returns content without a codec as undecoded content", () => {
+    const content = decodeNestedContent(encoded, {
+      codecFor: () => undefined,
+    });
+    expect(isUndecodedContent(content)).toBe(true);
+    const undecoded = content as UndecodedContent;
+    expect(undecoded.contentType).toBe(ContentTypeTest);
+    expect(undecoded.encodedContent).toBe(encoded);
+    expect(undecoded.fallback).toBe("gm");
+  });
+});
+
+describe("isUndecodedContent", () => {
+  it("checks for undecoded content from any copy of the package", () => {
+    expect(isUndecodedContent(new UndecodedContent(encoded))).toBe(true);
+    // e.g. undecoded content created by another version of the package
+    expect(
+      isUndecodedContent({
+        [Symbol.for("@xmtp/content-type-primitives/UndecodedContent")]: true,
+        encodedContent: encoded,
+      }),
+    ).toBe(true);
+    expect(isUndecodedContent({ encodedContent: encoded })).toBe(false);
+    expect(isUndecodedContent("gm")).toBe(false);
+    expect(isUndecodedContent(null)).toBe(false);
+  });
+});
@@ -0,0 +1,58 @@
+import type { CodecRegistry, ContentTypeId, EncodedContent } from ".";
+
+// registered so that content from other copies of this package is recognized
+const UNDECODED_CONTENT: unique symbol = Symbol.for(
+  "@xmtp/content-type-primitives/UndecodedContent",
+);
+
+/**
+ * Content that wasn't decoded because there's no codec for its content type
+ *
+ * Use `isUndecodedContent` instead of `instanceof` to check for it, content
+ * types can depend on different copies of this package.
+ */
+export class UndecodedContent {
+  readonly [UNDECODED_CONTENT] = true;
+  readonly encodedContent: EncodedContent;
+
+  constructor(encodedContent: EncodedContent) {
+    this.encodedContent = encodedContent;
+  }
+
+  get contentType(): ContentTypeId {
+    return this.encodedContent.type;
+  }
+
+  get fallback() {
+    return this.encodedContent.fallback;
+  }
+}
+
+/**
+ * Checks if content is `UndecodedContent`, including content that was
+ * created by another copy of this package
+ */
+export const isUndecodedContent = (
+  content: unknown,
+): content is UndecodedContent =>
+  typeof content === "object" &&
+  content !== null &&
+  (content as Partial<Record<symbol, unknown>>)[UNDECODED_CONTENT] === true;
+
+/**
+ * Decodes content that's nested in another content type
+ *
+ * Content without a codec in the registry is returned as `UndecodedContent`
+ * instead of throwing, so that the content it's nested in can still be
+ * partially decoded.
+ */
+export const decodeNestedContent = <T = unknown>(
+  encodedContent: EncodedContent,
+  registry: CodecRegistry<T>,
+): T | UndecodedContent => {
+  const codec = registry.codecFor(encodedContent.type);
+  if (!codec) {
+    return new UndecodedContent(encodedContent);
+  }
+  return codec.decode(encodedContent, registry);
+};
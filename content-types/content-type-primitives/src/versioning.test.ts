@@ -0,0 +1,80 @@
+import { describe, expect, it } from "vitest";
+import { ContentTypeId, createVersionedDecoder, decodeJSON } from ".";
+
+const contentTypeId = (versionMajor: number, versionMinor: number) =>
+  new ContentTypeId({
+    authorityId: "foo",
+    typeId: "bar",
+    versionMajor,
+    versionMinor,
+  });
+
+const encode = (type: ContentTypeId, content: unknown) => ({
+  type,
+  parameters: {},
+  content: new TextEncoder().encode(JSON.stringify(content)),
+});
+
+describe("createVersionedDecoder", () => {
+  const decode = createVersionedDecoder(contentTypeId(2, 2), {
+    decoders: {
+      1: (encoded) => ({ text: String(decodeJSON(encoded)) }),
+      2: decodeJSON,
+    },
+    upgrades: {
+      0: (content: { text: string }) => ({ ...content, tags: [] }),
+      1: (content: { text: string; tags: string[] }) => ({
+        ...content,
+        pinned: false,
+      }),
+    },
+  });
+
+  it("decodes the current version", () => {
+    const content = { text: "gm", tags: ["a"], pinned: true };
+    expect(decode(encode(contentTypeId(2, 2), content))).toEqual(content);
+  });
+
+  it("upgrades older minor versions", () => {
+    expect(decode(encode(contentTypeId(2, 0), { text: "gm" }))).toEqual({
+      text: "gm",
+      tags: [],
+      pinned: false,
+    });
+    expect(
+      decode(encode(contentTypeId(2, 1), { text: "gm", tags: ["a"] })),
+    ).toEqual({ text: "gm", tags: ["a"], pinned: false });
+  });
+
+  it("upgrades older major versions", () => {
+    expect(decode(encode(contentTypeId(1, 3), "gm"))).toEqual({
+      text: "gm",
+      tags: [],
+      pinned: false,
+    });
+  });
+
+  it("decodes newer minor versions as is", () => {
+    const content = { text: "gm", tags: [], pinned: false, color: "red" };
+    expect(decode(encode(contentTypeId(2, 3), content))).toEqual(content);
+  });
+
+  it("throws on unsupported major versions", () => {
+    expect(() => decode(encode(contentTypeId(0, 1), {}))).toThrow(
+      "unsupported content type version 0.1",
+    );
+    expect(() => decode(encode(contentTypeId(3, 0), {}))).toThrow(
+      "unsupported content type version 3.0",
+    );
+  });
+
+  it("throws on invalid JSON", () => {
+    expect(() =>
+      decode({
+        type: contentTypeId(2, 2),
+        parameters: {},
+        content: new TextEncoder().encode("{"),
+      }),
+    ).toThrow("invalid JSON content");
+  });
+});
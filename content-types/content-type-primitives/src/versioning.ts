@@ -0,0 +1,73 @@
+import type { ContentTypeId, EncodedContent } from ".";
+
+/**
+ * Maps content of a minor version to the shape of the next minor version
+ */
+export type ContentUpgrade = (content: any) => any;
+
+export type VersionedDecoderOptions<Parameters> = {
+  /**
+   * Decoders of the supported major versions, keyed by major version
+   *
+   * Decoders of older major versions must return content in the shape of
+   * the first minor version of the current major version.
+   */
+  decoders: Record<number, (content: EncodedContent<Parameters>) => unknown>;
+  /**
+   * Upgrades of the minor versions of the current major version, keyed by
+   * the minor version they upgrade from
+   */
+  upgrades?: Record<number, ContentUpgrade>;
+};
+
+/**
+ * Creates a decoder that dispatches on the version of the encoded content
+ *
+ * Content of older minor versions is upgraded to the shape of the current
+ * version. Content of newer minor versions of the current major version is
+ * decoded as is, minor versions are expected to only add optional fields.
+ * The decoded content isn't validated, codecs should check it in their
+ * `validate` method.
+ */
+export const createVersionedDecoder = <Parameters = Record<string, string>>(
+  contentType: ContentTypeId,
+  options: VersionedDecoderOptions<Parameters>,
+) => {
+  const { decoders, upgrades = {} } = options;
+  return (encoded: EncodedContent<Parameters>): unknown => {
+    const { versionMajor, versionMinor } = encoded.type;
+    const decoder =
+      versionMajor <= contentType.versionMajor
+        ? (decoders[versionMajor] as
+            | ((content: EncodedContent<Parameters>) => unknown)
+            | undefined)
+        : undefined;
+    if (!decoder) {
+      throw new Error(
+        `unsupported content type version ${versionMajor}.${versionMinor}`,
+      );
+    }
+    let content = decoder(encoded);
+    // older major versions are decoded to the first minor version
+    let minor = versionMajor < contentType.versionMajor ? 0 : versionMinor;
+    for (; minor < contentType.versionMinor; minor++) {
+      const upgrade = upgrades[minor] as ContentUpgrade | undefined;
+      if (upgrade) {
+        content = upgrade(content);
+      }
+    }
+    return content;
+  };
+};
+
+/**
+ * Parses the JSON payload of encoded content
+ */
+export const decodeJSON = (encoded: EncodedContent<any>): unknown => {
+  const text = new TextDecoder().decode(encoded.content);
+  try {
+    return JSON.parse(text) as unknown;
+  } catch {
+    throw new Error("invalid JSON content");
+  }
+};
@@ -1,6 +1,5 @@
 import terser from "@rollup/plugin-terser";
 import typescript from "@rollup/plugin-typescript";
-import { resolveExtensions } from "@xmtp/rollup-plugin-resolve-extensions";
 import { defineConfig } from "rollup";
 import { dts } from "rollup-plugin-dts";
 import filesize from "rollup-plugin-filesize";
@@ -19,7 +18,6 @@ const external = [
   "@noble/secp256k1",
   "@xmtp/content-type-primitives",
   "@xmtp/proto",
-  "node:crypto",
 ];
 
 export default defineConfig([
@@ -40,11 +38,7 @@ export default defineConfig([
       format: "es",
       sourcemap: true,
     },
-    plugins: [
-      resolveExtensions({ extensions: [".browser"] }),
-      terser(),
-      ...plugins,
-    ],
+    plugins: [terser(), ...plugins],
     external,
   },
   {
@@ -0,0 +1,168 @@
+import {
+  ContentTypeId,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+import { content as proto } from "@xmtp/proto";
+import { concatBytes } from "./encryption";
+
+/**
+ * Encoded content whose content bytes are streamed
+ */
+export type EncodedContentStream = Omit<EncodedContent, "content"> & {
+  contentLength: number;
+  content: ReadableStream<Uint8Array>;
+};
+
+// field number and wire type of `EncodedContent.content`
+const CONTENT_TAG = (4 << 3) | 2;
+
+const encodeVarint = (value: number) => {
+  const bytes: number[] = [];
+  let remaining = value;
+  while (remaining > 0x7f) {
+    bytes.push(remaining % 0x80 | 0x80);
+    remaining = Math.floor(remaining / 0x80);
+  }
+  bytes.push(remaining);
+  return new Uint8Array(bytes);
+};
+
+// returns undefined when more bytes are needed
+const decodeVarint = (bytes: Uint8Array, offset: number) => {
+  let value = 0;
+  let scale = 1;
+  for (let index = offset; index < bytes.length; index++) {
+    value += (bytes[index] & 0x7f) * scale;
+    scale *= 0x80;
+    if ((bytes[index] & 0x80) === 0) {
+      return { value, end: index + 1 };
+    }
+  }
+  return undefined;
+};
+
+/**
+ * Encodes all fields of an encoded content except for the content bytes,
+ * which must follow the returned bytes
+ */
+export function encodeContentHeader(
+  content: Omit<EncodedContent, "content">,
+  contentLength: number,
+) {
+  const fields = proto.EncodedContent.encode({
+    ...content,
+    content: new Uint8Array(),
+  }).finish();
+  return concatBytes(
+    fields,
+    new Uint8Array([CONTENT_TAG]),
+    encodeVarint(contentLength),
+  );
+}
+
+/**
+ * Reads the fields of an encoded content from a stream, the content bytes
+ * are streamed as they're read
+ */
+export async function readEncodedContent(
+  stream: ReadableStream<Uint8Array>,
+): Promise<EncodedContentStream> {
+  const reader = stream.getReader();
+  const fields: Uint8Array[] = [];
+  let buffer = new Uint8Array();
+  let contentLength = 0;
+
+  const fill = async () => {
+    const result = await reader.read();
+    if (result.done) {
+      return false;
+    }
+    buffer = concatBytes(buffer, result.value);
+    return true;
+  };
+  const needMore = async () => {
+    if (!(await fill())) {
+      throw new Error("invalid encoded content");
+    }
+  };
+
+  for (;;) {
+    if (buffer.length === 0 && !(await fill())) {
+      // empty content isn't encoded
+      break;
+    }
+    const tag = decodeVarint(buffer, 0);
+    if (!tag) {
+      await needMore();
+      continue;
+    }
+    const wireType = tag.value & 0x07;
+    if (wireType === 0) {
+      const value = decodeVarint(buffer, tag.end);
+      if (!value) {
+        await needMore();
+        continue;
+      }
+      fields.push(buffer.slice(0, value.end));
+      buffer = buffer.slice(value.end);
+      continue;
+    }
+    if (wireType !== 2) {
+      throw new Error("invalid encoded content");
+    }
+    const length = decodeVarint(buffer, tag.end);
+    if (!length) {
+      await needMore();
+      continue;
+    }
+    if (tag.value === CONTENT_TAG) {
+      contentLength = length.value;
+      buffer = buffer.slice(length.end);
+      break;
+    }
+    if (buffer.length < length.end + length.value) {
+      await needMore();
+      continue;
+    }
+    fields.push(buffer.slice(0, length.end + length.value));
+    buffer = buffer.slice(length.end + length.value);
+  }
+
+  const encoded = proto.EncodedContent.decode(concatBytes(...fields));
+  if (!encoded.type) {
+    throw new Error("no content type");
+  }
+
+  let remaining = contentLength;
+  const content = new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      if (buffer.length === 0 && remaining > 0 && !(await fill())) {
+        throw new Error("invalid encoded content");
+      }
+      if (remaining > 0) {
+        const chunk = buffer.slice(0, remaining);
+        buffer = buffer.slice(chunk.length);
+        remaining -= chunk.length;
+        controller.enqueue(chunk);
+        return;
+      }
+      // the rest of the stream is read so that it's fully verified
+      while (await fill()) {
+        buffer = new Uint8Array();
+      }
+      controller.close();
+    },
+    async cancel(reason) {
+      await reader.cancel(reason);
+    },
+  });
+
+  return {
+    type: new ContentTypeId(encoded.type),
+    parameters: encoded.parameters,
+    fallback: encoded.fallback,
+    compression: encoded.compression,
+    contentLength,
+    content,
+  };
+}
@@ -9,6 +9,8 @@ import {
   RemoteAttachmentCodec,
   type RemoteAttachment,
 } from "./RemoteAttachment";
+import { sendAttachment } from "./sendAttachment";
+import { HttpStorageProvider } from "./StorageProvider";
 
 const testEncryptionKey = getRandomValues(new Uint8Array(32));
 
@@ -106,10 +108,10 @@ test("can create a remote attachment", async () => {
   expect(messageContent.filename).toBe("test.txt");
   expect(messageContent.contentDigest).toBe(encryptedEncodedContent.digest);
 
-  const content = await RemoteAttachmentCodec.load<Attachment>(
+  const content = (await RemoteAttachmentCodec.load(
     messageContent,
     client2,
-  );
+  )) as Attachment;
   expect(content.filename).toBe("test.txt");
   expect(content.mimeType).toBe("text/plain");
   expect(content.data).toStrictEqual(new TextEncoder().encode("hello world"));
@@ -234,6 +236,48 @@ test("fails if content digest does not match", async () => {
   ).rejects.toThrow("content digest does not match");
 });
 
+test("can send a remote attachment with a storage provider", async () => {
+  const signer1 = createSigner();
+  const client1 = await Client.create(signer1, testEncryptionKey, {
+    codecs: [new AttachmentCodec(), new RemoteAttachmentCodec()],
+    env: "local",
+  });
+
+  const signer2 = createSigner();
+  const client2 = await Client.create(signer2, testEncryptionKey, {
+    codecs: [new AttachmentCodec(), new RemoteAttachmentCodec()],
+    env: "local",
+  });
+
+  const dm = await client1.conversations.newDm(client2.inboxId);
+  const provider = new HttpStorageProvider({
+    baseUrl: "https://localhost:3000",
+    method: "POST",
+  });
+
+  const attachment: Attachment = {
+    filename: "test.txt",
+    mimeType: "text/plain",
+    data: new TextEncoder().encode("hello world"),
+  };
+  const { remoteAttachment } = await sendAttachment(dm, attachment, provider);
+  expect(remoteAttachment.url).toMatch(/^https:\/\/localhost:3000\//);
+
+  await client2.conversations.sync();
+  const dms = client2.conversations.listDms();
+  await dms[0].sync();
+  const messages = await dms[0].messages();
+  expect(messages.length).toBe(1);
+
+  const content = (await RemoteAttachmentCodec.load(
+    messages[0].content as RemoteAttachment,
+    client2,
+    provider,
+  )) as Attachment;
+  expect(content.filename).toBe("test.txt");
+  expect(content.data).toStrictEqual(new TextEncoder().encode("hello world"));
+});
+
 test("has a proper shouldPush value", () => {
   const codec = new RemoteAttachmentCodec();
   expect(codec.shouldPush()).toBe(true);
@@ -1,12 +1,37 @@
 import * as secp from "@noble/secp256k1";
 import {
   ContentTypeId,
+  decodeNestedContent,
   type CodecRegistry,
   type ContentCodec,
   type EncodedContent,
+  type UndecodedContent,
 } from "@xmtp/content-type-primitives";
 import { content as proto } from "@xmtp/proto";
-import { Ciphertext, crypto, decrypt, encrypt } from "./encryption";
+import { ContentTypeAttachment } from "./Attachment";
+import {
+  encodeContentHeader,
+  readEncodedContent,
+  type EncodedContentStream,
+} from "./EncodedContentStream";
+import {
+  Ciphertext,
+  createDecryptStream,
+  createEncryptStream,
+  crypto,
+  decrypt,
+  decryptSegments,
+  DEFAULT_SEGMENT_SIZE,
+  encrypt,
+  encryptSegments,
+  type ProgressCallback,
+  type SegmentParams,
+} from "./encryption";
+import {
+  fetchPayload,
+  fetchPayloadStream,
+  type StorageProvider,
+} from "./StorageProvider";
 
 export const ContentTypeRemoteAttachment = new ContentTypeId({
   authorityId: "xmtp.org",
@@ -21,6 +46,60 @@ export type EncryptedEncodedContent = {
   nonce: Uint8Array;
   secret: Uint8Array;
   payload: Uint8Array;
+  /**
+   * Size of the plaintext segments when the payload is encrypted in segments
+   */
+  segmentSize?: number;
+};
+
+export type EncryptedEncodedContentStream = Omit<
+  EncryptedEncodedContent,
+  "digest" | "payload" | "segmentSize"
+> & {
+  /**
+   * Resolves once the payload has been fully read
+   */
+  digest: Promise<string>;
+  payload: ReadableStream<Uint8Array>;
+  segmentSize: number;
+};
+
+/**
+ * An attachment whose data is streamed, e.g. from `File.stream()`
+ */
+export type AttachmentStream = {
+  filename: string;
+  mimeType: string;
+  data: ReadableStream<Uint8Array>;
+  /**
+   * Size of the data in bytes
+   */
+  size: number;
+};
+
+export type EncodeEncryptedOptions = {
+  /**
+   * Encrypts the payload in segments of this size so that it can be
+   * streamed when it's loaded
+   */
+  segmentSize?: number;
+};
+
+export type EncodeEncryptedStreamOptions = {
+  /**
+   * Size of the plaintext segments (default: 64 KiB)
+   */
+  segmentSize?: number;
+  onProgress?: ProgressCallback;
+};
+
+export type LoadStreamOptions = {
+  provider?: StorageProvider;
+  /**
+   * Number of times an interrupted download is resumed (default: `3`)
+   */
+  retries?: number;
+  onProgress?: ProgressCallback;
 };
 
 export type RemoteAttachment = {
@@ -32,6 +111,10 @@ export type RemoteAttachment = {
   scheme: string;
   contentLength: number;
   filename: string;
+  /**
+   * Size of the plaintext segments when the payload is encrypted in segments
+   */
+  segmentSize?: number;
 };
 
 export type RemoteAttachmentParameters = {
@@ -42,17 +125,62 @@ export type RemoteAttachmentParameters = {
   scheme: string;
   contentLength: string;
   filename: string;
+  segmentSize?: string;
+};
+
+const segmentParams = (
+  remoteAttachment: RemoteAttachment,
+  segmentSize: number,
+): SegmentParams => ({
+  secret: remoteAttachment.secret,
+  salt: remoteAttachment.salt,
+  nonce: remoteAttachment.nonce,
+  segmentSize,
+});
+
+const bytesStream = (bytes: Uint8Array) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      controller.enqueue(bytes);
+      controller.close();
+    },
+  });
+
+const validateSegmentSize = (segmentSize: number) => {
+  if (!Number.isInteger(segmentSize) || segmentSize <= 0) {
+    throw new Error("segment size must be a positive integer");
+  }
+  return segmentSize;
+};
+
+const randomSegmentParams = (segmentSize: number): SegmentParams => {
+  validateSegmentSize(segmentSize);
+  return {
+    secret: crypto.getRandomValues(new Uint8Array(32)),
+    salt: crypto.getRandomValues(new Uint8Array(32)),
+    nonce: crypto.getRandomValues(new Uint8Array(12)),
+    segmentSize,
+  };
 };
 
 export class RemoteAttachmentCodec
   implements ContentCodec<RemoteAttachment, RemoteAttachmentParameters>
 {
+  /**
+   * Downloads, decrypts and decodes a remote attachment
+   *
+   * The payload is downloaded with `provider` when provided, otherwise with
+   * a GET request to the attachment's URL. Content without a codec in the
+   * registry is returned as `UndecodedContent`.
+   */
   static async load<T>(
     remoteAttachment: RemoteAttachment,
     codecRegistry: CodecRegistry<T>,
-  ): Promise<T> {
-    const response = await fetch(remoteAttachment.url);
-    const payload = new Uint8Array(await response.arrayBuffer());
+    provider?: StorageProvider,
+  ): Promise<T | UndecodedContent> {
+    const payload = provider
+      ? await provider.download(remoteAttachment.url)
+      : await fetchPayload(remoteAttachment.url);
 
     if (payload.length === 0) {
       throw new Error(
@@ -60,6 +188,103 @@ export class RemoteAttachmentCodec
       );
     }
 
+    const encodedContent = proto.EncodedContent.decode(
+      await RemoteAttachmentCodec.#decryptPayload(remoteAttachment, payload),
+    );
+
+    if (!encodedContent.type) {
+      throw new Error("no content type");
+    }
+
+    return decodeNestedContent(
+      {
+        ...encodedContent,
+        type: new ContentTypeId(encodedContent.type),
+      } as EncodedContent,
+      codecRegistry,
+    );
+  }
+
+  /**
+   * Downloads and decrypts a remote attachment as a stream
+   *
+   * Attachments that were encrypted in segments are decrypted as they're
+   * downloaded, and interrupted downloads are resumed after the last
+   * segment that was decrypted, unless the provider only supports
+   * `download`.
+   * Other attachments are downloaded in full before they're streamed.
+   *
+   * The content stream errors if the payload was tampered with.
+   */
+  static async loadStream(
+    remoteAttachment: RemoteAttachment,
+    options?: LoadStreamOptions,
+  ): Promise<EncodedContentStream> {
+    const provider = options?.provider;
+
+    if (remoteAttachment.segmentSize === undefined) {
+      const payload = provider
+        ? await provider.download(remoteAttachment.url)
+        : await fetchPayload(remoteAttachment.url);
+      options?.onProgress?.({
+        loaded: payload.length,
+        total: payload.length,
+      });
+      const encodedContent = proto.EncodedContent.decode(
+        await RemoteAttachmentCodec.#decryptPayload(remoteAttachment, payload),
+      );
+      if (!encodedContent.type) {
+        throw new Error("no content type");
+      }
+      return {
+        type: new ContentTypeId(encodedContent.type),
+        parameters: encodedContent.parameters,
+        fallback: encodedContent.fallback,
+        compression: encodedContent.compression,
+        contentLength: encodedContent.content.length,
+        content: bytesStream(encodedContent.content),
+      };
+    }
+
+    const stream = createDecryptStream(
+      segmentParams(remoteAttachment, remoteAttachment.segmentSize),
+      {
+        digest: remoteAttachment.contentDigest,
+        open: async (offset) => {
+          if (!provider) {
+            return fetchPayloadStream(remoteAttachment.url, offset);
+          }
+          if (provider.downloadStream) {
+            return provider.downloadStream(remoteAttachment.url, offset);
+          }
+          const payload = await provider.download(remoteAttachment.url);
+          return {
+            stream: bytesStream(payload.slice(offset)),
+            total: payload.length - offset,
+          };
+        },
+        retries: options?.retries,
+        onProgress: options?.onProgress,
+      },
+    );
+    return readEncodedContent(stream);
+  }
+
+  static async #decryptPayload(
+    remoteAttachment: RemoteAttachment,
+    payload: Uint8Array,
+  ) {
+    if (remoteAttachment.segmentSize !== undefined) {
+      const { plain, digest } = await decryptSegments(
+        payload,
+        segmentParams(remoteAttachment, remoteAttachment.segmentSize),
+      );
+      if (digest !== remoteAttachment.contentDigest) {
+        throw new Error("content digest does not match");
+      }
+      return plain;
+    }
+
     const digestBytes = new Uint8Array(
       await crypto.subtle.digest("SHA-256", payload),
     );
@@ -77,32 +302,14 @@ export class RemoteAttachmentCodec
       },
     });
 
-    const encodedContentData = await decrypt(
-      ciphertext,
-      remoteAttachment.secret,
-    );
-    const encodedContent = proto.EncodedContent.decode(encodedContentData);
-
-    if (!encodedContent.type) {
-      throw new Error("no content type");
-    }
-
-    const codec = codecRegistry.codecFor(
-      new ContentTypeId(encodedContent.type),
-    );
-
-    if (!codec) {
-      throw new Error(`no codec found for ${encodedContent.type.typeId}`);
-    }
-
-    return codec.decode(encodedContent as EncodedContent, codecRegistry);
+    return decrypt(ciphertext, remoteAttachment.secret);
   }
 
   static async encodeEncrypted<T>(
     content: T,
     codec: ContentCodec<T>,
+    options?: EncodeEncryptedOptions,
   ): Promise<EncryptedEncodedContent> {
-    const secret = crypto.getRandomValues(new Uint8Array(32));
     const encodedContent = proto.EncodedContent.encode(
       codec.encode(content, {
         codecFor() {
@@ -110,6 +317,14 @@ export class RemoteAttachmentCodec
         },
       }),
     ).finish();
+
+    if (options?.segmentSize !== undefined) {
+      const params = randomSegmentParams(options.segmentSize);
+      const { payload, digest } = await encryptSegments(encodedContent, params);
+      return { ...params, digest, payload };
+    }
+
+    const secret = crypto.getRandomValues(new Uint8Array(32));
     const ciphertext = await encrypt(encodedContent, secret);
     const salt = ciphertext.aes256GcmHkdfSha256?.hkdfSalt;
     const nonce = ciphertext.aes256GcmHkdfSha256?.gcmNonce;
@@ -133,6 +348,60 @@ export class RemoteAttachmentCodec
     };
   }
 
+  /**
+   * Encrypts an attachment in segments as it's read
+   *
+   * The payload can be uploaded as it's streamed, and the content digest
+   * resolves once the payload has been fully read.
+   */
+  static encodeEncryptedStream(
+    attachment: AttachmentStream,
+    options?: EncodeEncryptedStreamOptions,
+  ): EncryptedEncodedContentStream {
+    const params = randomSegmentParams(
+      options?.segmentSize ?? DEFAULT_SEGMENT_SIZE,
+    );
+    const header = encodeContentHeader(
+      {
+        type: ContentTypeAttachment,
+        parameters: {
+          filename: attachment.filename,
+          mimeType: attachment.mimeType,
+        },
+      },
+      attachment.size,
+    );
+
+    let loaded = 0;
+    const encodedContent = attachment.data.pipeThrough(
+      new TransformStream<Uint8Array, Uint8Array>({
+        start(controller) {
+          controller.enqueue(header);
+        },
+        transform(chunk, controller) {
+          loaded += chunk.length;
+          if (loaded > attachment.size) {
+            throw new Error("attachment size does not match");
+          }
+          options?.onProgress?.({ loaded, total: attachment.size });
+          controller.enqueue(chunk);
+        },
+        flush() {
+          if (loaded !== attachment.size) {
+            throw new Error("attachment size does not match");
+          }
+        },
+      }),
+    );
+    const { stream, digest } = createEncryptStream(params);
+
+    return {
+      ...params,
+      digest,
+      payload: encodedContent.pipeThrough(stream),
+    };
+  }
+
   get contentType(): ContentTypeId {
     return ContentTypeRemoteAttachment;
   }
@@ -142,17 +411,25 @@ export class RemoteAttachmentCodec
       throw new Error("scheme must be https");
     }
 
+    const parameters: RemoteAttachmentParameters = {
+      contentDigest: content.contentDigest,
+      salt: secp.etc.bytesToHex(content.salt),
+      nonce: secp.etc.bytesToHex(content.nonce),
+      secret: secp.etc.bytesToHex(content.secret),
+      scheme: content.scheme,
+      contentLength: String(content.contentLength),
+      filename: content.filename,
+    };
+
+    // only added for segmented payloads so that older clients, which can't
+    // decrypt them, get the same parameters as before
+    if (content.segmentSize !== undefined) {
+      parameters.segmentSize = String(content.segmentSize);
+    }
+
     return {
       type: ContentTypeRemoteAttachment,
-      parameters: {
-        contentDigest: content.contentDigest,
-        salt: secp.etc.bytesToHex(content.salt),
-        nonce: secp.etc.bytesToHex(content.nonce),
-        secret: secp.etc.bytesToHex(content.secret),
-        scheme: content.scheme,
-        contentLength: String(content.contentLength),
-        filename: content.filename,
-      },
+      parameters,
       content: new TextEncoder().encode(content.url),
     };
   }
@@ -160,6 +437,7 @@ export class RemoteAttachmentCodec
   decode(
     content: EncodedContent<RemoteAttachmentParameters>,
   ): RemoteAttachment {
+    const { segmentSize } = content.parameters;
     return {
       url: new TextDecoder().decode(content.content),
       contentDigest: content.parameters.contentDigest,
@@ -169,6 +447,10 @@ export class RemoteAttachmentCodec
       scheme: content.parameters.scheme,
       contentLength: parseInt(content.parameters.contentLength, 10),
       filename: content.parameters.filename,
+      segmentSize:
+        segmentSize !== undefined
+          ? validateSegmentSize(Number(segmentSize))
+          : undefined,
     };
   }
 
@@ -0,0 +1,344 @@
+import {
+  isUndecodedContent,
+  type EncodedContent,
+  type UndecodedContent,
+} from "@xmtp/content-type-primitives";
+import {
+  AttachmentCodec,
+  ContentTypeAttachment,
+  type Attachment,
+  type AttachmentParameters,
+} from "./Attachment";
+import {
+  RemoteAttachmentCodec,
+  type RemoteAttachment,
+} from "./RemoteAttachment";
+import type { StorageProvider } from "./StorageProvider";
+
+const url = "https://storage.test/file";
+const codecs = {
+  codecFor: () => new AttachmentCodec(),
+};
+
+const createData = (size: number) => {
+  const data = new Uint8Array(size);
+  for (let index = 0; index < size; index++) {
+    data[index] = index % 251;
+  }
+  return data;
+};
+
+const toStream = (data: Uint8Array, chunkSize = 1000) =>
+  new ReadableStream<Uint8Array>({
+    start(controller) {
+      for (let offset = 0; offset < data.length; offset += chunkSize) {
+        controller.enqueue(data.slice(offset, offset + chunkSize));
+      }
+      controller.close();
+    },
+  });
+
+const readAll = async (stream: ReadableStream<Uint8Array>) => {
+  const chunks: Uint8Array[] = [];
+  const reader = stream.getReader();
+  for (;;) {
+    const result = await reader.read();
+    if (result.done) {
+      break;
+    }
+    chunks.push(result.value);
+  }
+  const bytes = new Uint8Array(
+    chunks.reduce((length, chunk) => length + chunk.length, 0),
+  );
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.length;
+  }
+  return bytes;
+};
+
+const createProvider = (payload: Uint8Array): StorageProvider => ({
+  upload: () => Promise.resolve(url),
+  download: () => Promise.resolve(payload),
+});
+
+const toRemoteAttachment = (
+  encrypted: Awaited<ReturnType<typeof RemoteAttachmentCodec.encodeEncrypted>>,
+  contentLength: number,
+): RemoteAttachment => ({
+  url,
+  contentDigest: encrypted.digest,
+  salt: encrypted.salt,
+  nonce: encrypted.nonce,
+  secret: encrypted.secret,
+  scheme: "https://",
+  contentLength,
+  filename: "video.mp4",
+  segmentSize: encrypted.segmentSize,
+});
+
+const encodeStream = async (data: Uint8Array, segmentSize: number) => {
+  const encrypted = RemoteAttachmentCodec.encodeEncryptedStream(
+    {
+      filename: "video.mp4",
+      mimeType: "video/mp4",
+      data: toStream(data),
+      size: data.length,
+    },
+    { segmentSize },
+  );
+  const payload = await readAll(encrypted.payload);
+  const remoteAttachment: RemoteAttachment = {
+    url,
+    contentDigest: await encrypted.digest,
+    salt: encrypted.salt,
+    nonce: encrypted.nonce,
+    secret: encrypted.secret,
+    scheme: "https://",
+    contentLength: data.length,
+    filename: "video.mp4",
+    segmentSize: encrypted.segmentSize,
+  };
+  return { payload, remoteAttachment };
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+test("encodes and decodes the segment size", () => {
+  const codec = new RemoteAttachmentCodec();
+  const remoteAttachment: RemoteAttachment = {
+    url,
+    contentDigest: "digest",
+    salt: new Uint8Array([1]),
+    nonce: new Uint8Array([2]),
+    secret: new Uint8Array([3]),
+    scheme: "https://",
+    contentLength: 10,
+    filename: "video.mp4",
+  };
+  const legacy = codec.encode(remoteAttachment);
+  expect(legacy.parameters).not.toHaveProperty("segmentSize");
+  expect(codec.decode(legacy).segmentSize).toBeUndefined();
+
+  const segmented = codec.encode({ ...remoteAttachment, segmentSize: 1024 });
+  expect(segmented.parameters.segmentSize).toBe("1024");
+  expect(codec.decode(segmented).segmentSize).toBe(1024);
+
+  for (const segmentSize of ["0", "-1", "1.5", "12abc", "Infinity"]) {
+    expect(() =>
+      codec.decode({
+        ...segmented,
+        parameters: { ...segmented.parameters, segmentSize },
+      }),
+    ).toThrow("segment size must be a positive integer");
+  }
+});
+
+test("loads attachments encrypted in segments", async () => {
+  const attachment: Attachment = {
+    filename: "video.mp4",
+    mimeType: "video/mp4",
+    data: createData(10_000),
+  };
+  const encrypted = await RemoteAttachmentCodec.encodeEncrypted(
+    attachment,
+    new AttachmentCodec(),
+    { segmentSize: 1024 },
+  );
+  expect(encrypted.segmentSize).toBe(1024);
+
+  const loaded = await RemoteAttachmentCodec.load(
+    toRemoteAttachment(encrypted, attachment.data.length),
+    codecs,
+    createProvider(encrypted.payload),
+  );
+  expect(loaded).toEqual(attachment);
+});
+
+test("loads attachments without a codec as undecoded content", async () => {
+  const attachment: Attachment = {
+    filename: "video.mp4",
+    mimeType: "video/mp4",
+    data: createData(100),
+  };
+  const encrypted = await RemoteAttachmentCodec.encodeEncrypted(
+    attachment,
+    new AttachmentCodec(),
+  );
+
+  const loaded = await RemoteAttachmentCodec.load(
+    toRemoteAttachment(encrypted, attachment.data.length),
+    { codecFor: () => undefined },
+    createProvider(encrypted.payload),
+  );
+  expect(isUndecodedContent(loaded)).toBe(true);
+  const undecoded = loaded as UndecodedContent;
+  expect(undecoded.contentType.sameAs(ContentTypeAttachment)).toBe(true);
+  // attachments are encoded with attachment parameters
+  const encodedContent =
+    undecoded.encodedContent as EncodedContent<AttachmentParameters>;
+  expect(new AttachmentCodec().decode(encodedContent)).toEqual(attachment);
+});
+
+test("loads attachments that weren't encrypted in segments", async () => {
+  const attachment: Attachment = {
+    filename: "video.mp4",
+    mimeType: "video/mp4",
+    data: createData(10_000),
+  };
+  const encrypted = await RemoteAttachmentCodec.encodeEncrypted(
+    attachment,
+    new AttachmentCodec(),
+  );
+  expect(encrypted.segmentSize).toBeUndefined();
+  const remoteAttachment = toRemoteAttachment(
+    encrypted,
+    attachment.data.length,
+  );
+  const provider = createProvider(encrypted.payload);
+
+  expect(
+    await RemoteAttachmentCodec.load(remoteAttachment, codecs, provider),
+  ).toEqual(attachment);
+
+  const stream = await RemoteAttachmentCodec.loadStream(remoteAttachment, {
+    provider,
+  });
+  expect(stream.parameters).toEqual({
+    filename: "video.mp4",
+    mimeType: "video/mp4",
+  });
+  expect(await readAll(stream.content)).toEqual(attachment.data);
+});
+
+test("streams attachments with progress", async () => {
+  const data = createData(10_000);
+  const encodeProgress: number[] = [];
+  const encrypted = RemoteAttachmentCodec.encodeEncryptedStream(
+    {
+      filename: "video.mp4",
+      mimeType: "video/mp4",
+      data: toStream(data),
+      size: data.length,
+    },
+    {
+      segmentSize: 1024,
+      onProgress: ({ loaded }) => encodeProgress.push(loaded),
+    },
+  );
+  const payload = await readAll(encrypted.payload);
+  expect(encodeProgress.at(-1)).toBe(data.length);
+
+  const remoteAttachment: RemoteAttachment = {
+    url,
+    contentDigest: await encrypted.digest,
+    salt: encrypted.salt,
+    nonce: encrypted.nonce,
+    secret: encrypted.secret,
+    scheme: "https://",
+    contentLength: data.length,
+    filename: "video.mp4",
+    segmentSize: encrypted.segmentSize,
+  };
+
+  const loadProgress: { loaded: number; total?: number }[] = [];
+  const stream = await RemoteAttachmentCodec.loadStream(remoteAttachment, {
+    provider: {
+      ...createProvider(payload),
+      downloadStream: () =>
+        Promise.resolve({ stream: toStream(payload), total: payload.length }),
+    },
+    onProgress: (progress) => loadProgress.push(progress),
+  });
+  expect(stream.contentLength).toBe(data.length);
+  expect(stream.parameters.filename).toBe("video.mp4");
+  expect(await readAll(stream.content)).toEqual(data);
+  expect(loadProgress.at(-1)).toEqual({
+    loaded: payload.length,
+    total: payload.length,
+  });
+
+  // streamed payloads can also be loaded in full
+  expect(
+    await RemoteAttachmentCodec.load(
+      remoteAttachment,
+      codecs,
+      createProvider(payload),
+    ),
+  ).toEqual({ filename: "video.mp4", mimeType: "video/mp4", data });
+});
+
+test("resumes interrupted downloads", async () => {
+  const data = createData(10_000);
+  const { payload, remoteAttachment } = await encodeStream(data, 1024);
+  const ranges: (string | null)[] = [];
+  vi.stubGlobal(
+    "fetch",
+    vi.fn((_input: string, init?: RequestInit) => {
+      const range = new Headers(init?.headers).get("Range");
+      ranges.push(range);
+      if (range) {
+        const offset = Number(/bytes=(\d+)-/.exec(range)?.[1]);
+        return Promise.resolve(
+          new Response(payload.slice(offset), { status: 206 }),
+        );
+      }
+      // the first response fails after half of the payload
+      let sent = false;
+      return Promise.resolve(
+        new Response(
+          new ReadableStream<Uint8Array>({
+            pull(controller) {
+              if (sent) {
+                controller.error(new Error("connection reset"));
+                return;
+              }
+              sent = true;
+              controller.enqueue(payload.slice(0, payload.length / 2));
+            },
+          }),
+        ),
+      );
+    }),
+  );
+
+  const stream = await RemoteAttachmentCodec.loadStream(remoteAttachment);
+  expect(await readAll(stream.content)).toEqual(data);
+  expect(ranges).toHaveLength(2);
+  expect(ranges[0]).toBeNull();
+  expect(Number(/bytes=(\d+)-/.exec(ranges[1] ?? "")?.[1]) % 1040).toBe(0);
+});
+
+test("rejects tampered or truncated payloads", async () => {
+  const data = createData(10_000);
+  const { payload, remoteAttachment } = await encodeStream(data, 1024);
+
+  const tampered = payload.slice();
+  tampered[2000] ^= 1;
+  const tamperedStream = await RemoteAttachmentCodec.loadStream(
+    remoteAttachment,
+    { provider: createProvider(tampered) },
+  );
+  await expect(readAll(tamperedStream.content)).rejects.toThrow();
+  await expect(
+    RemoteAttachmentCodec.load(
+      remoteAttachment,
+      codecs,
+      createProvider(tampered),
+    ),
+  ).rejects.toThrow();
+
+  // dropping whole segments is detected because the last segment is marked
+  const truncated = payload.slice(0, 1040 * 4);
+  await expect(
+    RemoteAttachmentCodec.load(
+      remoteAttachment,
+      codecs,
+      createProvider(truncated),
+    ),
+  ).rejects.toThrow();
+});
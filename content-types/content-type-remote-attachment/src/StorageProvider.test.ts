@@ -0,0 +1,130 @@
+import { AttachmentCodec, type Attachment } from "./Attachment";
+import { RemoteAttachmentCodec } from "./RemoteAttachment";
+import { sendAttachment } from "./sendAttachment";
+import {
+  HttpStorageProvider,
+  IpfsStorageProvider,
+  S3StorageProvider,
+  type StorageProvider,
+} from "./StorageProvider";
+
+const createStorage = () => {
+  const files = new Map<string, Uint8Array>();
+  const requests: { url: string; method: string }[] = [];
+  const fetchMock = vi.fn((input: string, init?: RequestInit) => {
+    const method = init?.method ?? "GET";
+    requests.push({ url: input, method });
+    if (method === "GET") {
+      const file = files.get(input);
+      return Promise.resolve(
+        file
+          ? new Response(file)
+          : new Response(null, { status: 404, statusText: "Not Found" }),
+      );
+    }
+    if (init?.body instanceof FormData) {
+      const file = init.body.get("file") as Blob;
+      return file.arrayBuffer().then((buffer) => {
+        files.set("https://gateway.test/ipfs/cid", new Uint8Array(buffer));
+        return Response.json({ Hash: "cid" });
+      });
+    }
+    files.set(input, init?.body as Uint8Array);
+    return Promise.resolve(new Response(null, { status: 200 }));
+  });
+  vi.stubGlobal("fetch", fetchMock);
+  return { files, requests };
+};
+
+const attachment: Attachment = {
+  filename: "test.txt",
+  mimeType: "text/plain",
+  data: new TextEncoder().encode("hello world"),
+};
+
+const codecs = {
+  codecFor: () => new AttachmentCodec(),
+};
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+test("uploads and downloads with HTTP", async () => {
+  const { requests } = createStorage();
+  const provider = new HttpStorageProvider({
+    baseUrl: "https://storage.test/",
+    method: "POST",
+  });
+  const bytes = new Uint8Array([1, 2, 3]);
+  const url = await provider.upload(bytes);
+  expect(url).toMatch(/^https:\/\/storage\.test\/[0-9a-f]{32}$/);
+  expect(requests[0]).toEqual({ url, method: "POST" });
+  expect(await provider.download(url)).toEqual(bytes);
+  await expect(
+    provider.download("https://storage.test/missing"),
+  ).rejects.toThrow("404");
+});
+
+test("uploads with presigned URLs", async () => {
+  const { requests } = createStorage();
+  const provider = new S3StorageProvider({
+    presign: (key) => {
+      const url = `https://bucket.test/${key}`;
+      return Promise.resolve({ uploadUrl: url, downloadUrl: url });
+    },
+  });
+  const bytes = new Uint8Array([1, 2, 3]);
+  const url = await provider.upload(bytes);
+  expect(requests[0].method).toBe("PUT");
+  expect(await provider.download(url)).toEqual(bytes);
+});
+
+test("adds to IPFS and downloads from a gateway", async () => {
+  const { requests } = createStorage();
+  const provider = new IpfsStorageProvider({
+    apiUrl: "https://ipfs.test",
+    gatewayUrl: "https://gateway.test",
+  });
+  const bytes = new Uint8Array([1, 2, 3]);
+  const url = await provider.upload(bytes);
+  expect(url).toBe("https://gateway.test/ipfs/cid");
+  expect(requests[0].url).toBe("https://ipfs.test/api/v0/add?pin=true");
+  expect(await provider.download("ipfs://cid")).toEqual(bytes);
+});
+
+test("sends and loads attachments with a storage provider", async () => {
+  const files = new Map<string, Uint8Array>();
+  const provider: StorageProvider = {
+    upload: (bytes) => {
+      const url = `https://storage.test/${files.size}`;
+      files.set(url, bytes);
+      return Promise.resolve(url);
+    },
+    download: (url) => Promise.resolve(files.get(url) ?? new Uint8Array()),
+  };
+  const sent: unknown[] = [];
+  const conversation = {
+    send: (content: unknown) => {
+      sent.push(content);
+      return Promise.resolve("message");
+    },
+  };
+
+  const { messageId, remoteAttachment } = await sendAttachment(
+    conversation,
+    attachment,
+    provider,
+  );
+  expect(messageId).toBe("message");
+  expect(sent).toEqual([remoteAttachment]);
+  expect(remoteAttachment.url).toBe("https://storage.test/0");
+  expect(remoteAttachment.filename).toBe("test.txt");
+
+  const loaded = await RemoteAttachmentCodec.load<Attachment>(
+    remoteAttachment,
+    codecs,
+    provider,
+  );
+  expect(loaded).toEqual(attachment);
+});
@@ -0,0 +1,244 @@
+import * as secp from "@noble/secp256k1";
+import { crypto } from "./encryption";
+
+/**
+ * Stores encrypted attachment payloads outside of the network
+ */
+export type StorageProvider = {
+  /**
+   * Uploads a payload and returns the URL it can be downloaded from
+   */
+  upload(bytes: Uint8Array): Promise<string>;
+  /**
+   * Downloads a payload that was uploaded by `upload`
+   */
+  download(url: string): Promise<Uint8Array>;
+  /**
+   * Streams a payload that was uploaded by `upload`, starting at a byte
+   * offset, used to load attachments that were encrypted in segments
+   */
+  downloadStream?(url: string, offset: number): Promise<PayloadStream>;
+};
+
+export type PayloadStream = {
+  stream: ReadableStream<Uint8Array>;
+  /**
+   * Size of the payload from the offset, when known
+   */
+  total?: number;
+};
+
+const randomKey = () =>
+  secp.etc.bytesToHex(crypto.getRandomValues(new Uint8Array(16)));
+
+const checkResponse = (response: Response, action: string, url: string) => {
+  if (!response.ok) {
+    throw new Error(
+      `failed to ${action} ${url}: ${response.status} ${response.statusText}`,
+    );
+  }
+};
+
+/**
+ * Downloads a payload with a GET request
+ */
+export const fetchPayload = async (
+  url: string,
+  headers?: Record<string, string>,
+) => {
+  const response = await fetch(url, { headers });
+  checkResponse(response, "download", url);
+  return new Uint8Array(await response.arrayBuffer());
+};
+
+/**
+ * Streams a payload with a GET request, using a range request to start at
+ * an offset
+ */
+export const fetchPayloadStream = async (
+  url: string,
+  offset: number,
+  headers?: Record<string, string>,
+): Promise<PayloadStream> => {
+  const response = await fetch(url, {
+    headers: offset > 0 ? { ...headers, Range: `bytes=${offset}-` } : headers,
+  });
+  checkResponse(response, "download", url);
+  if (offset > 0 && response.status !== 206) {
+    throw new Error(`failed to resume download of ${url}`);
+  }
+  if (!response.body) {
+    throw new Error(`no payload for remote attachment at ${url}`);
+  }
+  const length = response.headers.get("Content-Length");
+  return {
+    stream: response.body,
+    total: length ? Number(length) : undefined,
+  };
+};
+
+export type HttpStorageProviderOptions = {
+  /**
+   * URL that payloads are uploaded to, a random key is appended to it for
+   * each upload
+   */
+  baseUrl: string;
+  /**
+   * HTTP method used to upload payloads (default: `"PUT"`)
+   */
+  method?: "PUT" | "POST";
+  /**
+   * Headers sent with every request, e.g. for authorization
+   */
+  headers?: Record<string, string>;
+};
+
+/**
+ * Uploads payloads to `{baseUrl}/{key}` and downloads them from the same URL
+ *
+ * Use `method: "POST"` with the upload service in `dev/uploadService`.
+ */
+export class HttpStorageProvider implements StorageProvider {
+  #baseUrl: string;
+  #method: "PUT" | "POST";
+  #headers: Record<string, string>;
+
+  constructor(options: HttpStorageProviderOptions) {
+    this.#baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.#method = options.method ?? "PUT";
+    this.#headers = options.headers ?? {};
+  }
+
+  async upload(bytes: Uint8Array) {
+    const url = `${this.#baseUrl}/${randomKey()}`;
+    const response = await fetch(url, {
+      method: this.#method,
+      body: bytes,
+      headers: {
+        "Content-Type": "application/octet-stream",
+        ...this.#headers,
+      },
+    });
+    checkResponse(response, "upload", url);
+    return url;
+  }
+
+  async download(url: string) {
+    return fetchPayload(url, this.#headers);
+  }
+
+  async downloadStream(url: string, offset: number) {
+    return fetchPayloadStream(url, offset, this.#headers);
+  }
+}
+
+export type PresignedUrls = {
+  /**
+   * Presigned URL that the payload is uploaded to with a PUT request
+   */
+  uploadUrl: string;
+  /**
+   * URL that the payload can be downloaded from
+   */
+  downloadUrl: string;
+};
+
+export type S3StorageProviderOptions = {
+  /**
+   * Gets presigned URLs for a new object, usually from the app's backend so
+   * that storage credentials aren't exposed to clients
+   */
+  presign: (key: string) => Promise<PresignedUrls>;
+};
+
+/**
+ * Uploads payloads to S3-compatible storage with presigned URLs
+ */
+export class S3StorageProvider implements StorageProvider {
+  #presign: S3StorageProviderOptions["presign"];
+
+  constructor(options: S3StorageProviderOptions) {
+    this.#presign = options.presign;
+  }
+
+  async upload(bytes: Uint8Array) {
+    const { uploadUrl, downloadUrl } = await this.#presign(randomKey());
+    const response = await fetch(uploadUrl, {
+      method: "PUT",
+      body: bytes,
+      headers: {
+        "Content-Type": "application/octet-stream",
+      },
+    });
+    checkResponse(response, "upload", uploadUrl);
+    return downloadUrl;
+  }
+
+  async download(url: string) {
+    return fetchPayload(url);
+  }
+
+  async downloadStream(url: string, offset: number) {
+    return fetchPayloadStream(url, offset);
+  }
+}
+
+export type IpfsStorageProviderOptions = {
+  /**
+   * URL of an IPFS node's HTTP API, e.g. `http://127.0.0.1:5001`
+   */
+  apiUrl: string;
+  /**
+   * URL of the gateway that payloads are downloaded from, e.g.
+   * `https://ipfs.io`
+   */
+  gatewayUrl: string;
+  /**
+   * Headers sent with API requests, e.g. for authorization
+   */
+  headers?: Record<string, string>;
+};
+
+/**
+ * Adds payloads to IPFS and downloads them from a gateway
+ */
+export class IpfsStorageProvider implements StorageProvider {
+  #apiUrl: string;
+  #gatewayUrl: string;
+  #headers: Record<string, string>;
+
+  constructor(options: IpfsStorageProviderOptions) {
+    this.#apiUrl = options.apiUrl.replace(/\/+$/, "");
+    this.#gatewayUrl = options.gatewayUrl.replace(/\/+$/, "");
+    this.#headers = options.headers ?? {};
+  }
+
+  async upload(bytes: Uint8Array) {
+    const body = new FormData();
+    body.append("file", new Blob([bytes]));
+    const url = `${this.#apiUrl}/api/v0/add?pin=true`;
+    const response = await fetch(url, {
+      method: "POST",
+      body,
+      headers: this.#headers,
+    });
+    checkResponse(response, "upload", url);
+    const { Hash } = (await response.json()) as { Hash: string };
+    return `${this.#gatewayUrl}/ipfs/${Hash}`;
+  }
+
+  async download(url: string) {
+    return fetchPayload(this.#gatewayUrlFor(url));
+  }
+
+  async downloadStream(url: string, offset: number) {
+    return fetchPayloadStream(this.#gatewayUrlFor(url), offset);
+  }
+
+  // ipfs:// URLs are downloaded from the gateway
+  #gatewayUrlFor(url: string) {
+    return url.startsWith("ipfs://")
+      ? `${this.#gatewayUrl}/ipfs/${url.slice("ipfs://".length)}`
+      : url;
+  }
+}
@@ -1,3 +1,4 @@
 export { default as Ciphertext } from "./Ciphertext";
-export { default as crypto } from "./crypto";
+export { crypto } from "@xmtp/content-type-primitives";
 export * from "./encryption";
+export * from "./segments";
@@ -0,0 +1,365 @@
+import * as secp from "@noble/secp256k1";
+import { crypto } from "@xmtp/content-type-primitives";
+import { AESGCMTagLength } from "./Ciphertext";
+
+// Payloads encrypted in segments are split into fixed-size plaintext
+// segments that are encrypted separately with the same key. Each segment
+// has its own nonce, derived from the base nonce and the segment index, and
+// its own authentication tag. The index and whether the segment is the last
+// one are authenticated as additional data, so that segments can't be
+// reordered and the payload can't be truncated.
+
+export const DEFAULT_SEGMENT_SIZE = 64 * 1024; // bytes
+
+export type SegmentParams = {
+  secret: Uint8Array;
+  salt: Uint8Array;
+  nonce: Uint8Array;
+  segmentSize: number;
+};
+
+export type Progress = {
+  /**
+   * Number of bytes processed
+   */
+  loaded: number;
+  /**
+   * Total number of bytes, when known
+   */
+  total?: number;
+};
+
+export type ProgressCallback = (progress: Progress) => void;
+
+const hkdfNoInfo = new Uint8Array().buffer;
+
+export const concatBytes = (...arrays: Uint8Array[]) => {
+  const result = new Uint8Array(
+    arrays.reduce((length, array) => length + array.length, 0),
+  );
+  let offset = 0;
+  for (const array of arrays) {
+    result.set(array, offset);
+    offset += array.length;
+  }
+  return result;
+};
+
+// derives the AES-256-GCM key shared by all segments
+export async function deriveSegmentKey(
+  secret: Uint8Array,
+  salt: Uint8Array,
+): Promise<CryptoKey> {
+  const key = await crypto.subtle.importKey("raw", secret, "HKDF", false, [
+    "deriveKey",
+  ]);
+  return crypto.subtle.deriveKey(
+    { name: "HKDF", hash: "SHA-256", salt, info: hkdfNoInfo },
+    key,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"],
+  );
+}
+
+// the last 4 bytes of the base nonce are XORed with the segment index
+const segmentNonce = (nonce: Uint8Array, index: number) => {
+  const result = nonce.slice();
+  const view = new DataView(result.buffer);
+  view.setUint32(result.length - 4, view.getUint32(result.length - 4) ^ index);
+  return result;
+};
+
+const segmentAdditionalData = (index: number, last: boolean) => {
+  const data = new Uint8Array(5);
+  new DataView(data.buffer).setUint32(0, index);
+  data[4] = last ? 1 : 0;
+  return data;
+};
+
+export async function encryptSegment(
+  key: CryptoKey,
+  nonce: Uint8Array,
+  index: number,
+  last: boolean,
+  plain: Uint8Array,
+): Promise<Uint8Array> {
+  const encrypted: ArrayBuffer = await crypto.subtle.encrypt(
+    {
+      name: "AES-GCM",
+      iv: segmentNonce(nonce, index),
+      additionalData: segmentAdditionalData(index, last),
+    },
+    key,
+    plain,
+  );
+  return new Uint8Array(encrypted);
+}
+
+export async function decryptSegment(
+  key: CryptoKey,
+  nonce: Uint8Array,
+  index: number,
+  last: boolean,
+  segment: Uint8Array,
+): Promise<Uint8Array> {
+  if (segment.length < AESGCMTagLength) {
+    throw new Error("invalid payload segment");
+  }
+  const decrypted: ArrayBuffer = await crypto.subtle.decrypt(
+    {
+      name: "AES-GCM",
+      iv: segmentNonce(nonce, index),
+      additionalData: segmentAdditionalData(index, last),
+    },
+    key,
+    segment,
+  );
+  return new Uint8Array(decrypted);
+}
+
+// the digest of a segmented payload covers the authentication tags of its
+// segments, so that it can be computed while streaming
+export async function segmentsDigest(tags: Uint8Array[]): Promise<string> {
+  const digest = await crypto.subtle.digest("SHA-256", concatBytes(...tags));
+  return secp.etc.bytesToHex(new Uint8Array(digest));
+}
+
+const segmentTag = (segment: Uint8Array) =>
+  segment.slice(segment.length - AESGCMTagLength);
+
+/**
+ * Encrypts a payload in segments
+ */
+export async function encryptSegments(
+  plain: Uint8Array,
+  params: SegmentParams,
+) {
+  const key = await deriveSegmentKey(params.secret, params.salt);
+  const count = Math.max(Math.ceil(plain.length / params.segmentSize), 1);
+  const segments: Uint8Array[] = [];
+  for (let index = 0; index < count; index++) {
+    const start = index * params.segmentSize;
+    segments.push(
+      await encryptSegment(
+        key,
+        params.nonce,
+        index,
+        index === count - 1,
+        plain.subarray(start, start + params.segmentSize),
+      ),
+    );
+  }
+  return {
+    payload: concatBytes(...segments),
+    digest: await segmentsDigest(segments.map(segmentTag)),
+  };
+}
+
+/**
+ * Decrypts a payload that was encrypted in segments
+ */
+export async function decryptSegments(
+  payload: Uint8Array,
+  params: SegmentParams,
+) {
+  const key = await deriveSegmentKey(params.secret, params.salt);
+  const encryptedSize = params.segmentSize + AESGCMTagLength;
+  const count = Math.max(Math.ceil(payload.length / encryptedSize), 1);
+  const segments: Uint8Array[] = [];
+  const tags: Uint8Array[] = [];
+  for (let index = 0; index < count; index++) {
+    const start = index * encryptedSize;
+    const segment = payload.subarray(start, start + encryptedSize);
+    segments.push(
+      await decryptSegment(
+        key,
+        params.nonce,
+        index,
+        index === count - 1,
+        segment,
+      ),
+    );
+    tags.push(segmentTag(segment));
+  }
+  return {
+    plain: concatBytes(...segments),
+    digest: await segmentsDigest(tags),
+  };
+}
+
+/**
+ * Creates a stream that encrypts its input in segments
+ *
+ * The digest resolves once the stream has been fully read.
+ */
+export function createEncryptStream(
+  params: SegmentParams,
+  onProgress?: ProgressCallback,
+  total?: number,
+) {
+  const keyPromise = deriveSegmentKey(params.secret, params.salt);
+  const tags: Uint8Array[] = [];
+  let buffer = new Uint8Array();
+  let index = 0;
+  let loaded = 0;
+  let resolveDigest: (digest: string) => void;
+  let rejectDigest: (error: unknown) => void;
+  const digest = new Promise<string>((resolve, reject) => {
+    resolveDigest = resolve;
+    rejectDigest = reject;
+  });
+
+  const encryptNext = async (
+    controller: TransformStreamDefaultController<Uint8Array>,
+    last: boolean,
+  ) => {
+    const plain = last ? buffer : buffer.slice(0, params.segmentSize);
+    buffer = last ? new Uint8Array() : buffer.slice(params.segmentSize);
+    const segment = await encryptSegment(
+      await keyPromise,
+      params.nonce,
+      index,
+      last,
+      plain,
+    );
+    index++;
+    tags.push(segmentTag(segment));
+    loaded += plain.length;
+    onProgress?.({ loaded, total });
+    controller.enqueue(segment);
+  };
+
+  const stream = new TransformStream<Uint8Array, Uint8Array>({
+    async transform(chunk, controller) {
+      buffer = concatBytes(buffer, chunk);
+      // a full segment is only encrypted once more data follows it, so that
+      // the last segment can be marked
+      while (buffer.length > params.segmentSize) {
+        await encryptNext(controller, false);
+      }
+    },
+    async flush(controller) {
+      try {
+        await encryptNext(controller, true);
+        resolveDigest(await segmentsDigest(tags));
+      } catch (error) {
+        rejectDigest(error);
+        throw error;
+      }
+    },
+  });
+
+  // avoid unhandled rejections when the digest isn't used
+  digest.catch(() => {});
+
+  return { stream, digest };
+}
+
+export type DecryptStreamOptions = {
+  /**
+   * Expected digest of the payload
+   */
+  digest: string;
+  /**
+   * Opens the payload at a byte offset, the offset is only greater than 0
+   * when resuming an interrupted download
+   */
+  open: (offset: number) => Promise<{
+    stream: ReadableStream<Uint8Array>;
+    total?: number;
+  }>;
+  /**
+   * Number of times an interrupted download is resumed (default: `3`)
+   */
+  retries?: number;
+  onProgress?: ProgressCallback;
+};
+
+/**
+ * Creates a stream of the decrypted payload
+ *
+ * When reading the payload fails, it's opened again after the last segment
+ * that was decrypted.
+ */
+export function createDecryptStream(
+  params: SegmentParams,
+  options: DecryptStreamOptions,
+) {
+  const encryptedSize = params.segmentSize + AESGCMTagLength;
+  const retries = options.retries ?? 3;
+  const keyPromise = deriveSegmentKey(params.secret, params.salt);
+  const tags: Uint8Array[] = [];
+  let reader: ReadableStreamDefaultReader<Uint8Array> | undefined;
+  let buffer = new Uint8Array();
+  let index = 0;
+  let attempts = 0;
+  let ended = false;
+  let total: number | undefined;
+
+  const read = async () => {
+    for (;;) {
+      const offset = index * encryptedSize;
+      if (!reader) {
+        const opened = await options.open(offset);
+        // the total size of the payload is only known from the first response
+        total ??= opened.total;
+        reader = opened.stream.getReader();
+      }
+      try {
+        return await reader.read();
+      } catch (error) {
+        if (attempts >= retries) {
+          throw error;
+        }
+        attempts++;
+        reader = undefined;
+        // bytes of the segment that was interrupted are downloaded again
+        buffer = new Uint8Array();
+      }
+    }
+  };
+
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      // a full segment is only decrypted once more data follows it, so that
+      // the last segment can be identified
+      while (!ended && buffer.length <= encryptedSize) {
+        const result = await read();
+        if (result.done) {
+          ended = true;
+        } else {
+          buffer = concatBytes(buffer, result.value);
+          options.onProgress?.({
+            loaded: index * encryptedSize + buffer.length,
+            total,
+          });
+        }
+      }
+
+      const last = ended && buffer.length <= encryptedSize;
+      const segment = buffer.slice(0, last ? buffer.length : encryptedSize);
+      buffer = buffer.slice(segment.length);
+      const plain = await decryptSegment(
+        await keyPromise,
+        params.nonce,
+        index,
+        last,
+        segment,
+      );
+      index++;
+      tags.push(segmentTag(segment));
+      controller.enqueue(plain);
+
+      if (last) {
+        if ((await segmentsDigest(tags)) !== options.digest) {
+          throw new Error("content digest does not match");
+        }
+        controller.close();
+      }
+    },
+    async cancel(reason) {
+      await reader?.cancel(reason);
+    },
+  });
+}
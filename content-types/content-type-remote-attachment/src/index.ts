@@ -1,2 +1,5 @@
 export * from "./Attachment";
+export type { EncodedContentStream } from "./EncodedContentStream";
 export * from "./RemoteAttachment";
+export * from "./sendAttachment";
+export * from "./StorageProvider";
@@ -0,0 +1,55 @@
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import { AttachmentCodec, type Attachment } from "./Attachment";
+import {
+  ContentTypeRemoteAttachment,
+  RemoteAttachmentCodec,
+  type EncodeEncryptedOptions,
+  type RemoteAttachment,
+} from "./RemoteAttachment";
+import type { StorageProvider } from "./StorageProvider";
+
+/**
+ * A conversation that remote attachments can be sent to, such as a
+ * conversation of the node or browser SDK
+ */
+export type AttachmentConversation = {
+  send(content: any, contentType?: ContentTypeId): Promise<string>;
+};
+
+/**
+ * Encrypts an attachment, uploads it with a storage provider and sends it to
+ * a conversation as a remote attachment
+ *
+ * The client of the conversation must have the `RemoteAttachmentCodec`
+ * registered. Pass `segmentSize` to encrypt the attachment in segments so
+ * that it can be loaded with `RemoteAttachmentCodec.loadStream`.
+ */
+export async function sendAttachment(
+  conversation: AttachmentConversation,
+  attachment: Attachment,
+  provider: StorageProvider,
+  options?: EncodeEncryptedOptions,
+) {
+  const encrypted = await RemoteAttachmentCodec.encodeEncrypted(
+    attachment,
+    new AttachmentCodec(),
+    options,
+  );
+  const url = await provider.upload(encrypted.payload);
+  const remoteAttachment: RemoteAttachment = {
+    url,
+    contentDigest: encrypted.digest,
+    salt: encrypted.salt,
+    nonce: encrypted.nonce,
+    secret: encrypted.secret,
+    scheme: "https://",
+    contentLength: attachment.data.byteLength,
+    filename: attachment.filename,
+    segmentSize: encrypted.segmentSize,
+  };
+  const messageId = await conversation.send(
+    remoteAttachment,
+    ContentTypeRemoteAttachment,
+  );
+  return { messageId, remoteAttachment };
+}
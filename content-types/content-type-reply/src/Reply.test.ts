@@ -4,7 +4,7 @@ import {
   ContentTypeAttachment,
   type Attachment,
 } from "@xmtp/content-type-remote-attachment";
-import { ContentTypeText } from "@xmtp/content-type-text";
+import { ContentTypeText, TextCodec } from "@xmtp/content-type-text";
 import { Client, IdentifierKind, type Signer } from "@xmtp/node-sdk";
 import { createWalletClient, http, toBytes } from "viem";
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
@@ -134,6 +134,29 @@ describe("ReplyContentType", () => {
     expect(messageContent.reference).toBe(originalMessage);
   });
 
+  it("partially decodes a reply when the codec of its content is missing", () => {
+    const codec = new ReplyCodec();
+    const encoded = codec.encode(
+      {
+        reference: "message-id",
+        referenceInboxId: "inbox-id",
+        content: "LGTM",
+        contentType: ContentTypeText,
+      },
+      { codecFor: () => new TextCodec() },
+    );
+
+    const decoded = codec.decode(encoded, { codecFor: () => undefined });
+    expect(decoded.reference).toBe("message-id");
+    expect(decoded.referenceInboxId).toBe("inbox-id");
+    expect(decoded.content).toBeUndefined();
+    expect(decoded.contentType.sameAs(ContentTypeText)).toBe(true);
+    expect(new TextDecoder().decode(decoded.encodedContent?.content)).toBe(
+      "LGTM",
+    );
+    expect(codec.fallback(decoded)).toBe("Replied to an earlier message");
+  });
+
   it("has a proper shouldPush value", () => {
     const codec = new ReplyCodec();
     expect(codec.shouldPush()).toBe(true);
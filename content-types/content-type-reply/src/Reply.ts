@@ -1,5 +1,7 @@
 import {
   ContentTypeId,
+  decodeNestedContent,
+  isUndecodedContent,
   type CodecRegistry,
   type ContentCodec,
   type EncodedContent,
@@ -32,6 +34,16 @@ export type Reply = {
    * The content type of the reply
    */
   contentType: ContentTypeId;
+  /**
+   * The encoded content of the reply, only set when there's no codec for
+   * its content type, in which case `content` is `undefined`
+   */
+  encodedContent?: EncodedContent;
+  /**
+   * The fallback text of the content of the reply, only set when there's no
+   * codec for its content type
+   */
+  fallback?: string;
 };
 
 export type ReplyParameters = {
@@ -47,13 +59,15 @@ export class ReplyCodec implements ContentCodec<Reply, ReplyParameters> {
 
   encode(content: Reply, registry: CodecRegistry) {
     const codec = registry.codecFor(content.contentType);
-    if (!codec) {
+    // content that wasn't decoded is encoded as it was received
+    const encodedContent = codec
+      ? codec.encode(content.content, registry)
+      : content.encodedContent;
+    if (!encodedContent) {
       throw new Error(
         `missing codec for content type "${content.contentType.toString()}"`,
       );
     }
-
-    const encodedContent = codec.encode(content.content, registry);
     const bytes = proto.EncodedContent.encode(encodedContent).finish();
 
     const parameters: ReplyParameters = {
@@ -83,19 +97,28 @@ export class ReplyCodec implements ContentCodec<Reply, ReplyParameters> {
       throw new Error("missing content type");
     }
     const contentType = new ContentTypeId(decodedContent.type);
-    const codec = registry.codecFor(contentType);
-    if (!codec) {
-      throw new Error(
-        `missing codec for content type "${contentType.toString()}"`,
-      );
+    const nestedContent: unknown = decodeNestedContent(
+      { ...decodedContent, type: contentType } as EncodedContent,
+      registry,
+    );
+
+    // the reply is partially decoded when there's no codec for its content
+    if (isUndecodedContent(nestedContent)) {
+      return {
+        reference: content.parameters.reference,
+        referenceInboxId: content.parameters.referenceInboxId,
+        contentType,
+        content: undefined,
+        encodedContent: nestedContent.encodedContent,
+        fallback: nestedContent.fallback,
+      };
     }
 
     return {
       reference: content.parameters.reference,
       referenceInboxId: content.parameters.referenceInboxId,
       contentType,
-      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-      content: codec.decode(decodedContent as EncodedContent, registry),
+      content: nestedContent,
     };
   }
 
@@ -1,4 +1,5 @@
 import { getRandomValues } from "node:crypto";
+import { ContentTypeId } from "@xmtp/content-type-primitives";
 import { Client, IdentifierKind, type Signer } from "@xmtp/node-sdk";
 import { createWalletClient, http, toBytes } from "viem";
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
@@ -6,6 +7,7 @@ import { sepolia } from "viem/chains";
 import {
   ContentTypeTransactionReference,
   TransactionReferenceCodec,
+  validateTransactionReference,
   type TransactionReference,
 } from "./TransactionReference";
 
@@ -94,3 +96,52 @@ test("has a proper shouldPush value", () => {
   const codec = new TransactionReferenceCodec();
   expect(codec.shouldPush()).toBe(true);
 });
+
+test("decodes and validates transaction references", () => {
+  const codec = new TransactionReferenceCodec();
+  const transactionReference: TransactionReference = {
+    networkId: 1,
+    reference: "0x1234",
+  };
+  const encoded = codec.encode(transactionReference);
+  const decoded = codec.decode(encoded);
+  expect(decoded).toEqual(transactionReference);
+  expect(() => {
+    codec.validate(decoded);
+  }).not.toThrow();
+
+  expect(() =>
+    codec.decode({ ...encoded, content: new TextEncoder().encode("{") }),
+  ).toThrow("invalid JSON content");
+  expect(() =>
+    codec.decode({
+      ...encoded,
+      type: new ContentTypeId({
+        authorityId: ContentTypeTransactionReference.authorityId,
+        typeId: ContentTypeTransactionReference.typeId,
+        versionMajor: 2,
+        versionMinor: 0,
+      }),
+    }),
+  ).toThrow("unsupported content type version 2.0");
+  expect(() => {
+    validateTransactionReference({
+      networkId: 1,
+    } as TransactionReference);
+  }).toThrow("missing reference");
+  expect(() => {
+    validateTransactionReference({
+      networkId: "",
+      reference: "0x1234",
+    });
+  }).toThrow("invalid network ID");
+  expect(() => {
+    validateTransactionReference({
+      networkId: 1,
+      reference: "0x1234",
+      metadata: {
+        amount: "1337",
+      },
+    } as unknown as TransactionReference);
+  }).toThrow("invalid transaction metadata");
+});
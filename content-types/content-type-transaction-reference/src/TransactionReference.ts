@@ -1,5 +1,7 @@
 import {
   ContentTypeId,
+  createVersionedDecoder,
+  decodeJSON,
   type ContentCodec,
   type EncodedContent,
 } from "@xmtp/content-type-primitives";
@@ -37,6 +39,54 @@ export type TransactionReference = {
   };
 };
 
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+/**
+ * Validates a transaction reference, throws an error if it's invalid
+ */
+export const validateTransactionReference = (content: TransactionReference) => {
+  const value = content as unknown;
+  if (!isObject(value)) {
+    throw new Error("transaction reference must be an object");
+  }
+  if (typeof value.reference !== "string" || !value.reference) {
+    throw new Error("missing reference");
+  }
+  if (
+    !(
+      typeof value.networkId === "number" && Number.isFinite(value.networkId)
+    ) &&
+    !(typeof value.networkId === "string" && value.networkId)
+  ) {
+    throw new Error("invalid network ID");
+  }
+  if (value.namespace !== undefined && typeof value.namespace !== "string") {
+    throw new Error("invalid namespace");
+  }
+  if (value.metadata !== undefined) {
+    const metadata = value.metadata;
+    if (
+      !isObject(metadata) ||
+      typeof metadata.transactionType !== "string" ||
+      typeof metadata.currency !== "string" ||
+      typeof metadata.amount !== "number" ||
+      !Number.isInteger(metadata.decimals) ||
+      (metadata.decimals as number) < 0 ||
+      typeof metadata.fromAddress !== "string" ||
+      typeof metadata.toAddress !== "string"
+    ) {
+      throw new Error("invalid transaction metadata");
+    }
+  }
+};
+
+const decode = createVersionedDecoder(ContentTypeTransactionReference, {
+  decoders: {
+    1: decodeJSON,
+  },
+});
+
 export class TransactionReferenceCodec
   implements ContentCodec<TransactionReference>
 {
@@ -54,11 +104,11 @@ export class TransactionReferenceCodec
   }
 
   decode(encodedContent: EncodedContent): TransactionReference {
-    const uint8Array = encodedContent.content;
-    const contentReceived = JSON.parse(
-      new TextDecoder().decode(uint8Array),
-    ) as TransactionReference;
-    return contentReceived;
+    return decode(encodedContent) as TransactionReference;
+  }
+
+  validate(content: TransactionReference) {
+    validateTransactionReference(content);
   }
 
   fallback(content: TransactionReference): string | undefined {
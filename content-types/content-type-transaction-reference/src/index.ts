@@ -1,5 +1,6 @@
 export {
   TransactionReferenceCodec,
   ContentTypeTransactionReference,
+  validateTransactionReference,
 } from "./TransactionReference";
 export type { TransactionReference } from "./TransactionReference";
@@ -0,0 +1,103 @@
+import {
+  ContentTypeTypingIndicator,
+  TypingIndicatorCodec,
+} from "./TypingIndicator";
+import { TypingThrottle } from "./TypingThrottle";
+
+describe("TypingIndicatorContentType", () => {
+  it("has the right content type", () => {
+    expect(ContentTypeTypingIndicator.authorityId).toBe("xmtp.org");
+    expect(ContentTypeTypingIndicator.typeId).toBe("typingIndicator");
+    expect(ContentTypeTypingIndicator.versionMajor).toBe(1);
+    expect(ContentTypeTypingIndicator.versionMinor).toBe(0);
+  });
+
+  it("encodes and decodes a typing indicator", () => {
+    const codec = new TypingIndicatorCodec();
+    const started = codec.encode({ state: "started", ttl: 5000 });
+    expect(codec.decode(started)).toEqual({ state: "started", ttl: 5000 });
+
+    const stopped = codec.encode({ state: "stopped" });
+    expect(codec.decode(stopped)).toEqual({
+      state: "stopped",
+      ttl: undefined,
+    });
+  });
+
+  it("throws when the typing indicator is invalid", () => {
+    const codec = new TypingIndicatorCodec();
+    const encode = (content: unknown) => ({
+      type: ContentTypeTypingIndicator,
+      parameters: {},
+      content: new TextEncoder().encode(JSON.stringify(content)),
+    });
+    expect(() => codec.decode(encode({ state: "typing" }))).toThrow(
+      "invalid typing indicator state",
+    );
+    expect(() => codec.decode(encode({ state: "started", ttl: -1 }))).toThrow(
+      "invalid typing indicator ttl",
+    );
+  });
+
+  it("has no fallback and doesn't push", () => {
+    const codec = new TypingIndicatorCodec();
+    expect(codec.fallback()).toBeUndefined();
+    expect(codec.shouldPush()).toBe(false);
+  });
+});
+
+describe("TypingThrottle", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("throttles started indicators while typing", async () => {
+    const send = vi.fn();
+    const throttle = new TypingThrottle(send, {
+      ttl: 4000,
+      idleTimeout: 10_000,
+    });
+    throttle.keystroke();
+    throttle.keystroke();
+    await vi.advanceTimersByTimeAsync(1000);
+    throttle.keystroke();
+    expect(send).toHaveBeenCalledTimes(1);
+    expect(send).toHaveBeenCalledWith({ state: "started", ttl: 4000 });
+
+    // refreshes the indicator before it expires
+    await vi.advanceTimersByTimeAsync(1000);
+    throttle.keystroke();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(throttle.typing).toBe(true);
+  });
+
+  it("sends a stopped indicator when typing stops", async () => {
+    const send = vi.fn();
+    const throttle = new TypingThrottle(send, { idleTimeout: 3000 });
+    throttle.keystroke();
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(send).toHaveBeenLastCalledWith({ state: "stopped" });
+    expect(throttle.typing).toBe(false);
+
+    throttle.keystroke();
+    throttle.stop();
+    throttle.stop();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(4);
+    expect(send).toHaveBeenLastCalledWith({ state: "stopped" });
+  });
+
+  it("ignores failures to send indicators", async () => {
+    const send = vi.fn().mockRejectedValue(new Error("failed"));
+    const throttle = new TypingThrottle(send);
+    throttle.keystroke();
+    throttle.stop();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(send).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,71 @@
+import {
+  ContentTypeId,
+  type ContentCodec,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+
+export const ContentTypeTypingIndicator = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "typingIndicator",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+/**
+ * How long a typing indicator is valid for when it doesn't have a TTL
+ */
+export const DEFAULT_TYPING_TTL_MS = 10_000;
+
+export type TypingIndicator = {
+  /**
+   * Whether the sender started or stopped typing
+   */
+  state: "started" | "stopped";
+  /**
+   * How long a `started` indicator is valid for after it was sent, in
+   * milliseconds
+   *
+   * Receivers should consider the sender to have stopped typing when no
+   * other indicator is received in this time.
+   */
+  ttl?: number;
+};
+
+export class TypingIndicatorCodec implements ContentCodec<TypingIndicator> {
+  get contentType(): ContentTypeId {
+    return ContentTypeTypingIndicator;
+  }
+
+  encode(content: TypingIndicator) {
+    const { state, ttl } = content;
+    return {
+      type: this.contentType,
+      parameters: {},
+      content: new TextEncoder().encode(JSON.stringify({ state, ttl })),
+    };
+  }
+
+  decode(content: EncodedContent): TypingIndicator {
+    const { state, ttl } = JSON.parse(
+      new TextDecoder().decode(content.content),
+    ) as Partial<TypingIndicator>;
+
+    if (state !== "started" && state !== "stopped") {
+      throw new Error("invalid typing indicator state");
+    }
+
+    if (ttl !== undefined && (typeof ttl !== "number" || ttl <= 0)) {
+      throw new Error("invalid typing indicator ttl");
+    }
+
+    return { state, ttl };
+  }
+
+  fallback(): string | undefined {
+    return undefined;
+  }
+
+  shouldPush() {
+    return false;
+  }
+}
@@ -0,0 +1,91 @@
+import { DEFAULT_TYPING_TTL_MS, type TypingIndicator } from "./TypingIndicator";
+
+export type TypingThrottleOptions = {
+  /**
+   * TTL of the `started` indicators, in milliseconds
+   * (default: `DEFAULT_TYPING_TTL_MS`)
+   */
+  ttl?: number;
+  /**
+   * Minimum time between `started` indicators while typing, in milliseconds
+   * (default: half of the TTL)
+   */
+  interval?: number;
+  /**
+   * Time without keystrokes after which a `stopped` indicator is sent, in
+   * milliseconds (default: 3000)
+   */
+  idleTimeout?: number;
+};
+
+export type SendTypingIndicator = (indicator: TypingIndicator) => unknown;
+
+/**
+ * Throttles the typing indicators sent while typing
+ *
+ * Call `keystroke` on every keystroke and `stop` when the message is sent or
+ * the composer is closed. A `started` indicator is sent on the first
+ * keystroke and refreshed before it expires, a `stopped` indicator is sent
+ * when typing stops.
+ */
+export class TypingThrottle {
+  #send: SendTypingIndicator;
+  #ttl: number;
+  #interval: number;
+  #idleTimeout: number;
+  #lastStartedAt?: number;
+  #idleTimer?: ReturnType<typeof setTimeout>;
+
+  constructor(send: SendTypingIndicator, options?: TypingThrottleOptions) {
+    this.#send = send;
+    this.#ttl = options?.ttl ?? DEFAULT_TYPING_TTL_MS;
+    this.#interval = options?.interval ?? this.#ttl / 2;
+    this.#idleTimeout = options?.idleTimeout ?? 3000;
+  }
+
+  /**
+   * Whether a `started` indicator was sent without a `stopped` indicator
+   */
+  get typing() {
+    return this.#lastStartedAt !== undefined;
+  }
+
+  /**
+   * Records a keystroke, sending a `started` indicator if needed
+   */
+  keystroke() {
+    clearTimeout(this.#idleTimer);
+    this.#idleTimer = setTimeout(() => {
+      this.stop();
+    }, this.#idleTimeout);
+
+    const now = Date.now();
+    if (
+      this.#lastStartedAt === undefined ||
+      now - this.#lastStartedAt >= this.#interval
+    ) {
+      this.#lastStartedAt = now;
+      this.#deliver({ state: "started", ttl: this.#ttl });
+    }
+  }
+
+  /**
+   * Sends a `stopped` indicator if a `started` indicator was sent
+   */
+  stop() {
+    clearTimeout(this.#idleTimer);
+    this.#idleTimer = undefined;
+    if (this.#lastStartedAt === undefined) {
+      return;
+    }
+    this.#lastStartedAt = undefined;
+    this.#deliver({ state: "stopped" });
+  }
+
+  #deliver(indicator: TypingIndicator) {
+    // typing indicators are best effort, so failures are ignored
+    void Promise.resolve()
+      .then(() => this.#send(indicator))
+      .catch(() => {});
+  }
+}
@@ -0,0 +1,2 @@
+export * from "./TypingIndicator";
+export * from "./TypingThrottle";
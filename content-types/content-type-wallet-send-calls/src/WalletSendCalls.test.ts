@@ -5,6 +5,7 @@ import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { sepolia } from "viem/chains";
 import {
   ContentTypeWalletSendCalls,
+  validateWalletSendCalls,
   WalletSendCallsCodec,
   type WalletSendCallsParams,
 } from "./WalletSendCalls";
@@ -111,3 +112,47 @@ test("has a proper shouldPush value", () => {
   const codec = new WalletSendCallsCodec();
   expect(codec.shouldPush()).toBe(true);
 });
+
+test("decodes and validates wallet send calls", () => {
+  const codec = new WalletSendCallsCodec();
+  const walletSendCalls: WalletSendCallsParams = {
+    version: "1.0",
+    from: "0x123",
+    chainId: "0x2105",
+    calls: [{ to: "0x456", value: "0x1" }],
+  };
+  const encoded = codec.encode(walletSendCalls);
+  const decoded = codec.decode(encoded);
+  expect(decoded).toEqual(walletSendCalls);
+  expect(() => {
+    codec.validate(decoded);
+  }).not.toThrow();
+
+  expect(() =>
+    codec.decode({ ...encoded, content: new TextEncoder().encode("[") }),
+  ).toThrow("invalid JSON content");
+  expect(() => {
+    validateWalletSendCalls({
+      ...walletSendCalls,
+      chainId: 8453,
+    } as unknown as WalletSendCallsParams);
+  }).toThrow("invalid chain ID");
+  expect(() => {
+    validateWalletSendCalls({
+      ...walletSendCalls,
+      calls: undefined,
+    } as unknown as WalletSendCallsParams);
+  }).toThrow("wallet send calls must have an array of calls");
+  expect(() => {
+    validateWalletSendCalls({
+      ...walletSendCalls,
+      calls: [{ to: 1 }],
+    } as unknown as WalletSendCallsParams);
+  }).toThrow("invalid call at index 0");
+  expect(() => {
+    validateWalletSendCalls({
+      ...walletSendCalls,
+      calls: [{ metadata: { description: "Send" } }],
+    } as unknown as WalletSendCallsParams);
+  }).toThrow("invalid call metadata at index 0");
+});
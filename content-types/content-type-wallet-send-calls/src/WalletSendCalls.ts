@@ -1,6 +1,8 @@
 /* eslint-disable @typescript-eslint/no-explicit-any */
 import {
   ContentTypeId,
+  createVersionedDecoder,
+  decodeJSON,
   type ContentCodec,
   type EncodedContent,
 } from "@xmtp/content-type-primitives";
@@ -29,6 +31,64 @@ export type WalletSendCallsParams = {
   capabilities?: Record<string, any> | undefined;
 };
 
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isHex = (value: unknown): value is `0x${string}` =>
+  typeof value === "string" && value.startsWith("0x");
+
+const isOptionalHex = (value: unknown) => value === undefined || isHex(value);
+
+/**
+ * Validates wallet send calls, throws an error if they're invalid
+ */
+export const validateWalletSendCalls = (content: WalletSendCallsParams) => {
+  const value = content as unknown;
+  if (!isObject(value)) {
+    throw new Error("wallet send calls must be an object");
+  }
+  if (typeof value.version !== "string") {
+    throw new Error("invalid wallet send calls version");
+  }
+  if (!isHex(value.chainId)) {
+    throw new Error("invalid chain ID");
+  }
+  if (!isHex(value.from)) {
+    throw new Error("invalid from address");
+  }
+  if (!Array.isArray(value.calls)) {
+    throw new Error("wallet send calls must have an array of calls");
+  }
+  value.calls.forEach((call: unknown, index) => {
+    if (
+      !isObject(call) ||
+      !isOptionalHex(call.to) ||
+      !isOptionalHex(call.data) ||
+      !isOptionalHex(call.value) ||
+      !isOptionalHex(call.gas)
+    ) {
+      throw new Error(`invalid call at index ${index}`);
+    }
+    if (
+      call.metadata !== undefined &&
+      (!isObject(call.metadata) ||
+        typeof call.metadata.description !== "string" ||
+        typeof call.metadata.transactionType !== "string")
+    ) {
+      throw new Error(`invalid call metadata at index ${index}`);
+    }
+  });
+  if (value.capabilities !== undefined && !isObject(value.capabilities)) {
+    throw new Error("invalid capabilities");
+  }
+};
+
+const decode = createVersionedDecoder(ContentTypeWalletSendCalls, {
+  decoders: {
+    1: decodeJSON,
+  },
+});
+
 export class WalletSendCallsCodec
   implements ContentCodec<WalletSendCallsParams>
 {
@@ -46,11 +106,11 @@ export class WalletSendCallsCodec
   }
 
   decode(encodedContent: EncodedContent): WalletSendCallsParams {
-    const uint8Array = encodedContent.content;
-    const contentReceived = JSON.parse(
-      new TextDecoder().decode(uint8Array),
-    ) as WalletSendCallsParams;
-    return contentReceived;
+    return decode(encodedContent) as WalletSendCallsParams;
+  }
+
+  validate(content: WalletSendCallsParams) {
+    validateWalletSendCalls(content);
   }
 
   fallback(content: WalletSendCallsParams): string | undefined {
@@ -1,5 +1,6 @@
 export {
   WalletSendCallsCodec,
   ContentTypeWalletSendCalls,
+  validateWalletSendCalls,
 } from "./WalletSendCalls";
 export type { WalletSendCallsParams } from "./WalletSendCalls";
@@ -0,0 +1,45 @@
+import typescript from "@rollup/plugin-typescript";
+import { defineConfig } from "rollup";
+import { dts } from "rollup-plugin-dts";
+import filesize from "rollup-plugin-filesize";
+import tsConfigPaths from "rollup-plugin-tsconfig-paths";
+
+const external = [
+  "@xmtp/content-type-primitives",
+  "@xmtp/content-type-reaction",
+  "@xmtp/content-type-reply",
+  "@xmtp/content-type-text",
+  "@xmtp/node-sdk",
+];
+
+const plugins = [
+  tsConfigPaths(),
+  typescript({
+    declaration: false,
+    declarationMap: false,
+  }),
+  filesize({
+    showMinifiedSize: false,
+  }),
+];
+
+export default defineConfig([
+  {
+    input: "src/index.ts",
+    output: {
+      file: "dist/index.js",
+      format: "es",
+      sourcemap: true,
+    },
+    plugins,
+    external,
+  },
+  {
+    input: "src/index.ts",
+    output: {
+      file: "dist/index.d.ts",
+      format: "es",
+    },
+    plugins: [tsConfigPaths(), dts()],
+  },
+]);
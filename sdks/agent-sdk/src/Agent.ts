@@ -0,0 +1,438 @@
+import { ReactionCodec } from "@xmtp/content-type-reaction";
+import { ReplyCodec } from "@xmtp/content-type-reply";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import {
+  Client,
+  ConsentState,
+  type ClientOptions,
+  type Conversation,
+  type Conversations,
+  type DecodedMessage,
+  type InviteRedemption,
+  type Signer,
+} from "@xmtp/node-sdk";
+import {
+  formatUsage,
+  parseArgs,
+  parseCommand,
+  validateCommand,
+  type ArgsDefinition,
+  type CommandArgs,
+  type CommandDefinition,
+} from "@/commands";
+import { MessageContext } from "@/MessageContext";
+import { RequestQueue, type ConversationRequest } from "@/RequestQueue";
+import type { AgentOptions } from "@/types";
+import {
+  AgentAlreadyRunningError,
+  CommandArgumentError,
+  DuplicateCommandError,
+} from "@/utils/errors";
+
+type MessageStream = Awaited<ReturnType<Conversations["streamAllMessages"]>>;
+
+export type MessageHandler = (context: MessageContext) => void | Promise<void>;
+
+export type CommandHandler<T extends ArgsDefinition> = (
+  context: MessageContext<CommandArgs<T>>,
+) => void | Promise<void>;
+
+export type RequestHandler = (
+  request: ConversationRequest,
+) => void | Promise<void>;
+
+export type InviteHandler = (
+  redemption: InviteRedemption,
+  context: MessageContext,
+) => void | Promise<void>;
+
+export type ErrorHandler = (
+  error: Error,
+  context?: MessageContext<unknown>,
+) => void | Promise<void>;
+
+type Command = {
+  definition: CommandDefinition;
+  usage: string;
+  handler: CommandHandler<ArgsDefinition>;
+};
+
+export class Agent {
+  #client: Client;
+  #commandPrefix: string;
+  #allowUnknown: boolean;
+  #retry: AgentOptions["retry"];
+  #acceptInvites: boolean;
+  #commands = new Map<string, Command>();
+  #messageHandlers: MessageHandler[] = [];
+  #conversationHandlers = new Map<string, MessageHandler>();
+  #requestHandlers: RequestHandler[] = [];
+  #inviteHandlers: InviteHandler[] = [];
+  #errorHandlers: ErrorHandler[] = [];
+  #requests: RequestQueue;
+  #streams = new Set<MessageStream>();
+  // messages are handled in order within each conversation
+  #queues = new Map<string, Promise<void>>();
+  #loop: Promise<void> | undefined;
+
+  constructor(client: Client, options?: AgentOptions) {
+    this.#client = client;
+    this.#commandPrefix = options?.commandPrefix ?? "/";
+    this.#allowUnknown = options?.allowUnknown ?? false;
+    this.#retry = options?.retry ?? true;
+    this.#acceptInvites = options?.acceptInvites ?? true;
+    this.#requests = new RequestQueue((request) => {
+      request.messages.forEach((message) => {
+        void this.#enqueue(request.conversation, message);
+      });
+    }, options?.requests);
+  }
+
+  /**
+   * Creates an agent with a new client that can send replies and reactions
+   */
+  static async create(
+    signer: Signer,
+    encryptionKey: Uint8Array,
+    options?: ClientOptions & AgentOptions,
+  ) {
+    const client = await Client.create(signer, encryptionKey, {
+      ...options,
+      codecs: [
+        new ReplyCodec(),
+        new ReactionCodec(),
+        ...(options?.codecs ?? []),
+      ],
+    });
+    return new Agent(client, options);
+  }
+
+  get client() {
+    return this.#client;
+  }
+
+  /**
+   * Conversations waiting to be allowed or denied
+   */
+  get requests() {
+    return this.#requests;
+  }
+
+  get isRunning() {
+    return this.#loop !== undefined;
+  }
+
+  /**
+   * Registers a handler for a command
+   */
+  command(name: string, handler: CommandHandler<Record<never, never>>): this;
+  command<T extends ArgsDefinition>(
+    name: string,
+    definition: CommandDefinition<T>,
+    handler: CommandHandler<T>,
+  ): this;
+  command<T extends ArgsDefinition>(
+    name: string,
+    definitionOrHandler: CommandDefinition<T> | CommandHandler<T>,
+    handler?: CommandHandler<T>,
+  ) {
+    const commandName = name.toLowerCase();
+    const definition =
+      typeof definitionOrHandler === "function" ? {} : definitionOrHandler;
+    const commandHandler = (
+      typeof definitionOrHandler === "function" ? definitionOrHandler : handler
+    ) as CommandHandler<ArgsDefinition>;
+
+    if (this.#commands.has(commandName)) {
+      throw new DuplicateCommandError(commandName);
+    }
+    validateCommand(commandName, definition);
+
+    this.#commands.set(commandName, {
+      definition,
+      usage: formatUsage(this.#commandPrefix, commandName, definition),
+      handler: commandHandler,
+    });
+
+    return this;
+  }
+
+  /**
+   * Gets the usage of all registered commands
+   */
+  usage() {
+    return Array.from(this.#commands.values())
+      .map((command) => command.usage)
+      .join("\n");
+  }
+
+  /**
+   * Registers a handler for messages that aren't commands
+   */
+  onMessage(handler: MessageHandler) {
+    this.#messageHandlers.push(handler);
+    return this;
+  }
+
+  /**
+   * Registers a handler for messages in a specific conversation that aren't
+   * commands, replacing the `onMessage` handlers for that conversation
+   */
+  onConversation(conversationId: string, handler: MessageHandler) {
+    this.#conversationHandlers.set(conversationId, handler);
+    return this;
+  }
+
+  /**
+   * Removes the handler for a specific conversation
+   */
+  offConversation(conversationId: string) {
+    this.#conversationHandlers.delete(conversationId);
+    return this;
+  }
+
+  /**
+   * Registers a handler for new requests from conversations with an unknown
+   * consent state
+   */
+  onRequest(handler: RequestHandler) {
+    this.#requestHandlers.push(handler);
+    return this;
+  }
+
+  /**
+   * Registers a handler for members who joined a group with an invite token
+   * sent in a DM, see `Group.createInvite`
+   */
+  onInvite(handler: InviteHandler) {
+    this.#inviteHandlers.push(handler);
+    return this;
+  }
+
+  /**
+   * Registers a handler for errors thrown while handling messages
+   *
+   * Without error handlers, errors are logged to the console. Errors are
+   * never rethrown, so that a message that fails to be handled doesn't stop
+   * the agent, errors thrown by error handlers are logged as well.
+   */
+  onError(handler: ErrorHandler) {
+    this.#errorHandlers.push(handler);
+    return this;
+  }
+
+  /**
+   * Starts streaming and handling messages
+   */
+  async start() {
+    if (this.#loop) {
+      throw new AgentAlreadyRunningError();
+    }
+
+    const stream = await this.#client.conversations.streamAllMessages(
+      undefined,
+      { retry: this.#retry },
+    );
+    this.#streams.add(stream);
+
+    this.#loop = (async () => {
+      try {
+        for await (const message of stream) {
+          if (message) {
+            // wait for the message to be queued, but not handled, so that
+            // messages are handled in the order they were received
+            await this.#receive(message);
+          }
+        }
+      } catch (error) {
+        await this.#reportError(error as Error);
+      } finally {
+        this.#streams.delete(stream);
+        // the agent can be started again once the stream has ended
+        this.#loop = undefined;
+      }
+    })();
+  }
+
+  /**
+   * Ends all streams and waits for messages being handled to finish
+   */
+  async stop() {
+    const loop = this.#loop;
+    await Promise.all(
+      Array.from(this.#streams).map((stream) => stream.return(undefined)),
+    );
+    await loop;
+    // errors of messages being handled were already reported
+    await Promise.allSettled(this.#queues.values());
+  }
+
+  /**
+   * Handles a message as if it was received from the stream
+   *
+   * Resolves when the message and all previous messages in its conversation
+   * have been handled.
+   */
+  async handleMessage(message: DecodedMessage) {
+    await this.#receive(message);
+    await this.#queues.get(message.conversationId);
+  }
+
+  async #receive(message: DecodedMessage) {
+    if (
+      message.senderInboxId === this.#client.inboxId ||
+      message.kind !== "application"
+    ) {
+      return;
+    }
+
+    try {
+      const conversation = await this.#client.conversations.getConversationById(
+        message.conversationId,
+      );
+      if (!conversation) {
+        return;
+      }
+
+      // invite tokens can only be redeemed when they were signed by this
+      // installation, so they're redeemed whatever the consent state
+      if (
+        this.#acceptInvites &&
+        (await this.#redeemInvite(conversation, message))
+      ) {
+        return;
+      }
+
+      switch (conversation.consentState) {
+        case ConsentState.Denied:
+          return;
+        case ConsentState.Unknown:
+          if (!this.#allowUnknown) {
+            await this.#addRequest(conversation, message);
+            return;
+          }
+          break;
+      }
+
+      void this.#enqueue(conversation, message);
+    } catch (error) {
+      await this.#reportError(error as Error);
+    }
+  }
+
+  // returns whether the message was an invite token
+  async #redeemInvite(conversation: Conversation, message: DecodedMessage) {
+    const context = new MessageContext(this, conversation, message, undefined);
+    let redemption: InviteRedemption | undefined;
+    try {
+      redemption = await this.#client.invites.handleMessage(message);
+    } catch (error) {
+      // anyone can send a forged, expired or used up token, so failed
+      // redemptions are ignored unless there's an error handler
+      if (this.#errorHandlers.length > 0) {
+        await this.#reportError(error as Error, context);
+      }
+      return true;
+    }
+    if (!redemption) {
+      return false;
+    }
+    try {
+      for (const handler of this.#inviteHandlers) {
+        await handler(redemption, context);
+      }
+    } catch (error) {
+      await this.#reportError(error as Error, context);
+    }
+    return true;
+  }
+
+  async #addRequest(conversation: Conversation, message: DecodedMessage) {
+    if (!this.#requests.add(conversation, message)) {
+      return;
+    }
+    const request = this.#requests.get(conversation.id);
+    if (request) {
+      for (const handler of this.#requestHandlers) {
+        await handler(request);
+      }
+    }
+  }
+
+  #enqueue(conversation: Conversation, message: DecodedMessage) {
+    const previous = this.#queues.get(conversation.id) ?? Promise.resolve();
+    // messages are handled even when handling a previous message failed
+    const next = previous
+      .catch(() => undefined)
+      .then(() => this.#dispatch(conversation, message));
+    this.#queues.set(conversation.id, next);
+    void next.finally(() => {
+      if (this.#queues.get(conversation.id) === next) {
+        this.#queues.delete(conversation.id);
+      }
+    });
+    return next;
+  }
+
+  async #dispatch(conversation: Conversation, message: DecodedMessage) {
+    const context = new MessageContext(this, conversation, message, undefined);
+
+    try {
+      const command =
+        message.contentType?.sameAs(ContentTypeText) &&
+        typeof message.content === "string"
+          ? parseCommand(message.content, this.#commandPrefix)
+          : undefined;
+      const registered = command && this.#commands.get(command.name);
+
+      if (command && registered) {
+        let args: CommandArgs<ArgsDefinition>;
+        try {
+          args = parseArgs(
+            registered.definition,
+            command.input,
+            registered.usage,
+          );
+        } catch (error) {
+          if (error instanceof CommandArgumentError) {
+            await context.reply(`${error.message}\nUsage: ${error.usage}`);
+            return;
+          }
+          throw error;
+        }
+        await registered.handler(
+          new MessageContext(this, conversation, message, args),
+        );
+        return;
+      }
+
+      const conversationHandler = this.#conversationHandlers.get(
+        conversation.id,
+      );
+      if (conversationHandler) {
+        await conversationHandler(context);
+        return;
+      }
+
+      for (const handler of this.#messageHandlers) {
+        await handler(context);
+      }
+    } catch (error) {
+      await this.#reportError(error as Error, context);
+    }
+  }
+
+  async #reportError(error: Error, context?: MessageContext<unknown>) {
+    if (this.#errorHandlers.length === 0) {
+      console.error(error);
+      return;
+    }
+    for (const handler of this.#errorHandlers) {
+      try {
+        await handler(error, context);
+      } catch (handlerError) {
+        console.error(handlerError);
+      }
+    }
+  }
+}
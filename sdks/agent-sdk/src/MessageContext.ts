@@ -0,0 +1,93 @@
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import {
+  ContentTypeReaction,
+  type Reaction,
+} from "@xmtp/content-type-reaction";
+import { ContentTypeReply, type Reply } from "@xmtp/content-type-reply";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import type { Conversation, DecodedMessage } from "@xmtp/node-sdk";
+import type { Agent } from "@/Agent";
+
+/**
+ * Message passed to agent handlers, with helpers for responding to it
+ */
+export class MessageContext<Args = undefined> {
+  #agent: Agent;
+  #conversation: Conversation;
+  #message: DecodedMessage;
+  #args: Args;
+
+  constructor(
+    agent: Agent,
+    conversation: Conversation,
+    message: DecodedMessage,
+    args: Args,
+  ) {
+    this.#agent = agent;
+    this.#conversation = conversation;
+    this.#message = message;
+    this.#args = args;
+  }
+
+  get agent() {
+    return this.#agent;
+  }
+
+  get client() {
+    return this.#agent.client;
+  }
+
+  get conversation() {
+    return this.#conversation;
+  }
+
+  get message() {
+    return this.#message;
+  }
+
+  /**
+   * Parsed command arguments, only set for command handlers
+   */
+  get args() {
+    return this.#args;
+  }
+
+  /**
+   * Sends a message to the conversation
+   */
+  async send(content: any, contentType?: ContentTypeId) {
+    return this.#conversation.send(content, contentType);
+  }
+
+  /**
+   * Sends a reply to the message
+   */
+  async reply(content: any, contentType: ContentTypeId = ContentTypeText) {
+    const reply: Reply = {
+      reference: this.#message.id,
+      referenceInboxId: this.#message.senderInboxId,
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      content,
+      contentType,
+    };
+    return this.#conversation.send(reply, ContentTypeReply);
+  }
+
+  /**
+   * Adds or removes a reaction to the message
+   */
+  async react(
+    content: string,
+    action: Reaction["action"] = "added",
+    schema: Reaction["schema"] = "unicode",
+  ) {
+    const reaction: Reaction = {
+      reference: this.#message.id,
+      referenceInboxId: this.#message.senderInboxId,
+      action,
+      content,
+      schema,
+    };
+    return this.#conversation.send(reaction, ContentTypeReaction);
+  }
+}
@@ -0,0 +1,118 @@
+import {
+  ConsentState,
+  type Conversation,
+  type DecodedMessage,
+} from "@xmtp/node-sdk";
+import { RequestNotFoundError } from "@/utils/errors";
+
+/**
+ * Conversation with an unknown consent state and the messages received
+ * from it
+ */
+export type ConversationRequest = {
+  conversation: Conversation;
+  messages: DecodedMessage[];
+  receivedAt: Date;
+};
+
+export type RequestQueueOptions = {
+  /**
+   * Maximum number of requests to hold, the oldest request is discarded when
+   * a new one is added (default: `1000`)
+   */
+  maxRequests?: number;
+  /**
+   * Maximum number of messages to hold per request, the oldest message is
+   * discarded when a new one is added (default: `100`)
+   */
+  maxMessagesPerRequest?: number;
+};
+
+/**
+ * Holds messages from conversations that haven't been allowed or denied
+ *
+ * Requests and their messages are bounded so that unknown senders can't
+ * grow the queue without limit.
+ */
+export class RequestQueue {
+  #requests = new Map<string, ConversationRequest>();
+  #onAccept: (request: ConversationRequest) => void;
+  #maxRequests: number;
+  #maxMessagesPerRequest: number;
+
+  constructor(
+    onAccept: (request: ConversationRequest) => void,
+    options?: RequestQueueOptions,
+  ) {
+    this.#onAccept = onAccept;
+    this.#maxRequests = options?.maxRequests ?? 1000;
+    this.#maxMessagesPerRequest = options?.maxMessagesPerRequest ?? 100;
+  }
+
+  get size() {
+    return this.#requests.size;
+  }
+
+  /**
+   * Adds a message to the request for its conversation
+   *
+   * @returns `true` if the message started a new request
+   */
+  add(conversation: Conversation, message: DecodedMessage) {
+    const request = this.#requests.get(conversation.id);
+    if (request) {
+      request.messages.push(message);
+      if (request.messages.length > this.#maxMessagesPerRequest) {
+        request.messages.shift();
+      }
+      return false;
+    }
+    if (this.#requests.size >= this.#maxRequests) {
+      // requests are kept in the order they were added
+      const oldest = this.#requests.keys().next().value;
+      if (oldest !== undefined) {
+        this.#requests.delete(oldest);
+      }
+    }
+    this.#requests.set(conversation.id, {
+      conversation,
+      messages: [message],
+      receivedAt: new Date(),
+    });
+    return true;
+  }
+
+  get(conversationId: string) {
+    return this.#requests.get(conversationId);
+  }
+
+  list() {
+    return Array.from(this.#requests.values());
+  }
+
+  /**
+   * Allows the conversation and handles its queued messages
+   */
+  accept(conversationId: string) {
+    const request = this.#take(conversationId);
+    request.conversation.updateConsentState(ConsentState.Allowed);
+    this.#onAccept(request);
+  }
+
+  /**
+   * Denies the conversation and discards its queued messages
+   */
+  deny(conversationId: string) {
+    const request = this.#take(conversationId);
+    request.conversation.updateConsentState(ConsentState.Denied);
+  }
+
+  #take(conversationId: string) {
+    const request = this.#requests.get(conversationId);
+    if (!request) {
+      throw new RequestNotFoundError(conversationId);
+    }
+    this.#requests.delete(conversationId);
+    return request;
+  }
+}
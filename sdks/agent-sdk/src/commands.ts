@@ -0,0 +1,227 @@
+import { CommandArgumentError, InvalidCommandError } from "@/utils/errors";
+
+/**
+ * Argument types
+ *
+ * - `string`: a single word or a quoted string
+ * - `number`: a finite number
+ * - `boolean`: `true`, `false`, `yes`, `no`, `on`, or `off`
+ * - `rest`: all remaining text, must be the last argument
+ *
+ * Add a `?` suffix to make an argument optional.
+ */
+export type ArgType = "string" | "number" | "boolean" | "rest";
+
+export type ArgDefinition = ArgType | `${ArgType}?`;
+
+export type ArgsDefinition = Record<string, ArgDefinition>;
+
+type ArgValue<T> = T extends "number"
+  ? number
+  : T extends "boolean"
+    ? boolean
+    : string;
+
+export type CommandArgs<T extends ArgsDefinition> = {
+  [K in keyof T]: T[K] extends `${infer U}?`
+    ? ArgValue<U> | undefined
+    : ArgValue<T[K]>;
+};
+
+export type CommandDefinition<T extends ArgsDefinition = ArgsDefinition> = {
+  /**
+   * Description shown in the command usage
+   */
+  description?: string;
+  /**
+   * Arguments of the command, parsed in order
+   */
+  args?: T;
+};
+
+export type ParsedCommand = {
+  name: string;
+  input: string;
+};
+
+const COMMAND_NAME_REGEX = /^[a-z0-9][a-z0-9_-]*$/;
+
+const parseArgDefinition = (definition: ArgDefinition) => {
+  const optional = definition.endsWith("?");
+  return {
+    type: (optional ? definition.slice(0, -1) : definition) as ArgType,
+    optional,
+  };
+};
+
+/**
+ * Checks that a command name and its arguments can be parsed
+ *
+ * @throws {InvalidCommandError} if the command is invalid
+ */
+export const validateCommand = (
+  name: string,
+  definition: CommandDefinition,
+) => {
+  if (!COMMAND_NAME_REGEX.test(name)) {
+    throw new InvalidCommandError(
+      name,
+      "names must be lowercase letters, numbers, dashes, or underscores",
+    );
+  }
+
+  const args = Object.values(definition.args ?? {}).map(parseArgDefinition);
+  args.forEach((arg, index) => {
+    if (arg.type === "rest" && index !== args.length - 1) {
+      throw new InvalidCommandError(name, "`rest` must be the last argument");
+    }
+    if (!arg.optional && args.slice(0, index).some((prev) => prev.optional)) {
+      throw new InvalidCommandError(
+        name,
+        "required arguments must come before optional arguments",
+      );
+    }
+  });
+};
+
+/**
+ * Parses the command name from a message, if it starts with the prefix
+ */
+export const parseCommand = (
+  text: string,
+  prefix: string,
+): ParsedCommand | undefined => {
+  if (!text.startsWith(prefix)) {
+    return undefined;
+  }
+  const match = /^(\S+)\s*([\s\S]*)$/.exec(text.slice(prefix.length));
+  if (!match) {
+    return undefined;
+  }
+  return {
+    name: match[1].toLowerCase(),
+    input: match[2].trim(),
+  };
+};
+
+/**
+ * Splits input into words, keeping quoted strings together
+ */
+export const tokenize = (input: string) => {
+  const tokens: { value: string; start: number }[] = [];
+  const regex = /"((?:[^"\\]|\\.)*)"|(\S+)/g;
+  let match: RegExpExecArray | null;
+  while ((match = regex.exec(input)) !== null) {
+    // the quoted group is undefined when an unquoted word matched
+    const quoted = match[1] as string | undefined;
+    tokens.push({
+      value: quoted !== undefined ? quoted.replace(/\\(.)/g, "$1") : match[2],
+      start: match.index,
+    });
+  }
+  return tokens;
+};
+
+/**
+ * Formats the usage of a command
+ */
+export const formatUsage = (
+  prefix: string,
+  name: string,
+  definition: CommandDefinition,
+) => {
+  const args = Object.entries(definition.args ?? {}).map(([argName, arg]) => {
+    const { type, optional } = parseArgDefinition(arg);
+    const label =
+      type === "string"
+        ? argName
+        : type === "rest"
+          ? `${argName}...`
+          : `${argName}:${type}`;
+    return optional ? `[${label}]` : `<${label}>`;
+  });
+  const usage = [`${prefix}${name}`, ...args].join(" ");
+  return definition.description
+    ? `${usage} - ${definition.description}`
+    : usage;
+};
+
+const BOOLEAN_VALUES: Record<string, boolean> = {
+  true: true,
+  yes: true,
+  on: true,
+  false: false,
+  no: false,
+  off: false,
+};
+
+/**
+ * Parses command input into typed arguments
+ *
+ * @throws {CommandArgumentError} if the input doesn't match the arguments
+ */
+export const parseArgs = <T extends ArgsDefinition>(
+  definition: CommandDefinition<T>,
+  input: string,
+  usage: string,
+) => {
+  const tokens = tokenize(input);
+  const args: Record<string, string | number | boolean | undefined> = {};
+  const entries = Object.entries(definition.args ?? {});
+
+  for (const [index, [name, arg]] of entries.entries()) {
+    const { type, optional } = parseArgDefinition(arg);
+    const token = tokens.at(index);
+
+    if (!token) {
+      if (!optional) {
+        throw new CommandArgumentError(`Missing argument "${name}"`, usage);
+      }
+      args[name] = undefined;
+      continue;
+    }
+
+    switch (type) {
+      case "string":
+        args[name] = token.value;
+        break;
+      case "rest":
+        args[name] = input.slice(token.start);
+        break;
+      case "number": {
+        const value = Number(token.value);
+        if (token.value === "" || !Number.isFinite(value)) {
+          throw new CommandArgumentError(
+            `Argument "${name}" must be a number`,
+            usage,
+          );
+        }
+        args[name] = value;
+        break;
+      }
+      case "boolean": {
+        const value = BOOLEAN_VALUES[token.value.toLowerCase()] as
+          | boolean
+          | undefined;
+        if (value === undefined) {
+          throw new CommandArgumentError(
+            `Argument "${name}" must be true or false`,
+            usage,
+          );
+        }
+        args[name] = value;
+        break;
+      }
+    }
+  }
+
+  const last = entries.at(-1);
+  if (
+    tokens.length > entries.length &&
+    (!last || parseArgDefinition(last[1]).type !== "rest")
+  ) {
+    throw new CommandArgumentError("Too many arguments", usage);
+  }
+
+  return args as CommandArgs<T>;
+};
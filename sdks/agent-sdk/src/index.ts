@@ -0,0 +1,28 @@
+export type { AgentOptions } from "./types";
+export { Agent } from "./Agent";
+export type {
+  CommandHandler,
+  ErrorHandler,
+  InviteHandler,
+  MessageHandler,
+  RequestHandler,
+} from "./Agent";
+export { MessageContext } from "./MessageContext";
+export { RequestQueue } from "./RequestQueue";
+export type { ConversationRequest, RequestQueueOptions } from "./RequestQueue";
+export { formatUsage, parseArgs, parseCommand, tokenize } from "./commands";
+export type {
+  ArgDefinition,
+  ArgsDefinition,
+  ArgType,
+  CommandArgs,
+  CommandDefinition,
+  ParsedCommand,
+} from "./commands";
+export {
+  AgentAlreadyRunningError,
+  CommandArgumentError,
+  DuplicateCommandError,
+  InvalidCommandError,
+  RequestNotFoundError,
+} from "./utils/errors";
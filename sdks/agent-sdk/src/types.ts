@@ -0,0 +1,28 @@
+import type { StreamOptions } from "@xmtp/node-sdk";
+import type { RequestQueueOptions } from "@/RequestQueue";
+
+export type AgentOptions = {
+  /**
+   * Prefix that marks a text message as a command (default: `/`)
+   */
+  commandPrefix?: string;
+  /**
+   * Handle messages from conversations with an unknown consent state
+   * instead of adding them to the request queue (default: `false`)
+   */
+  allowUnknown?: boolean;
+  /**
+   * Retry options for the message stream (default: `true`)
+   */
+  retry?: StreamOptions["retry"];
+  /**
+   * Redeem group invite tokens sent in DMs, adding their senders to the
+   * group (default: `true`)
+   */
+  acceptInvites?: boolean;
+  /**
+   * Limits of the request queue for conversations with an unknown consent
+   * state
+   */
+  requests?: RequestQueueOptions;
+};
@@ -0,0 +1,32 @@
+export class InvalidCommandError extends Error {
+  constructor(name: string, reason: string) {
+    super(`Invalid command "${name}": ${reason}`);
+  }
+}
+
+export class DuplicateCommandError extends Error {
+  constructor(name: string) {
+    super(`Command "${name}" is already registered`);
+  }
+}
+
+export class CommandArgumentError extends Error {
+  usage: string;
+
+  constructor(message: string, usage: string) {
+    super(message);
+    this.usage = usage;
+  }
+}
+
+export class AgentAlreadyRunningError extends Error {
+  constructor() {
+    super("Agent is already running");
+  }
+}
+
+export class RequestNotFoundError extends Error {
+  constructor(conversationId: string) {
+    super(`No pending request for conversation ${conversationId}`);
+  }
+}
@@ -0,0 +1,221 @@
+import {
+  ContentTypeReaction,
+  type Reaction,
+} from "@xmtp/content-type-reaction";
+import { ContentTypeReply, type Reply } from "@xmtp/content-type-reply";
+import {
+  ConsentState,
+  type Conversation,
+  type InviteRedemption,
+} from "@xmtp/node-sdk";
+import { describe, expect, it } from "vitest";
+import type { ConversationRequest } from "@/RequestQueue";
+import { AgentAlreadyRunningError } from "@/utils/errors";
+import { createAgent, createSigner, createUser, sleep } from "@test/helpers";
+
+const waitForMessages = async (conversation: Conversation, count: number) => {
+  for (let i = 0; i < 20; i++) {
+    await conversation.sync();
+    const messages = await conversation.messages();
+    if (messages.length >= count) {
+      return messages;
+    }
+    await sleep(250);
+  }
+  throw new Error(`Timed out waiting for ${count} messages`);
+};
+
+describe.concurrent("Agent", () => {
+  it("should route commands with typed arguments", async () => {
+    const agent = await createAgent(createSigner(createUser()), {
+      allowUnknown: true,
+    });
+    const user = await createAgent(createSigner(createUser()));
+    const tips: { amount: number; to: string; note?: string }[] = [];
+    agent.command(
+      "tip",
+      { args: { amount: "number", to: "string", note: "rest?" } },
+      async (ctx) => {
+        tips.push(ctx.args);
+        await ctx.reply(`tipped ${ctx.args.amount}`);
+      },
+    );
+    await agent.start();
+
+    const dm = await user.client.conversations.newDm(agent.client.inboxId);
+    await dm.send("/tip 10 bob thanks a lot");
+    await dm.send("/tip ten bob");
+
+    const messages = await waitForMessages(dm, 4);
+    await agent.stop();
+
+    expect(tips).toEqual([{ amount: 10, to: "bob", note: "thanks a lot" }]);
+    const replies = messages.filter((message) =>
+      message.contentType?.sameAs(ContentTypeReply),
+    ) as { content: Reply }[];
+    expect(replies.map((reply) => reply.content.content as string)).toEqual([
+      "tipped 10",
+      'Argument "amount" must be a number\nUsage: /tip <amount:number> <to> [note...]',
+    ]);
+  });
+
+  it("should queue messages from unknown conversations", async () => {
+    const agent = await createAgent(createSigner(createUser()));
+    const user = await createAgent(createSigner(createUser()));
+    const requests: ConversationRequest[] = [];
+    const handled: string[] = [];
+    agent
+      .onRequest((request) => {
+        requests.push(request);
+      })
+      .onMessage((ctx) => {
+        handled.push(ctx.message.content as string);
+      });
+
+    const dm = await user.client.conversations.newDm(agent.client.inboxId);
+    await dm.send("hello");
+    await dm.send("anyone there?");
+    await agent.client.conversations.sync();
+    const [message1, message2] =
+      await (await agent.client.conversations.getConversationById(
+        dm.id,
+      ))!.messages();
+
+    await agent.handleMessage(message1);
+    await agent.handleMessage(message2);
+    expect(requests.length).toBe(1);
+    expect(agent.requests.get(dm.id)?.messages.length).toBe(2);
+    expect(handled).toEqual([]);
+
+    agent.requests.accept(dm.id);
+    await sleep(100);
+    expect(handled).toEqual(["hello", "anyone there?"]);
+    expect(agent.requests.size).toBe(0);
+    const conversation = await agent.client.conversations.getConversationById(
+      dm.id,
+    );
+    expect(conversation?.consentState).toBe(ConsentState.Allowed);
+  });
+
+  it("should add members who send invite tokens", async () => {
+    const agent = await createAgent(createSigner(createUser()));
+    const user = await createAgent(createSigner(createUser()));
+    const redemptions: InviteRedemption[] = [];
+    const handled: string[] = [];
+    agent
+      .onInvite((redemption) => {
+        redemptions.push(redemption);
+      })
+      .onMessage((ctx) => {
+        handled.push(ctx.message.content as string);
+      });
+
+    const group = await agent.client.conversations.newGroup([]);
+    const invite = await group.createInvite({ maxUses: 1 });
+    const dm = await user.client.invites.join(invite.token);
+    await agent.client.conversations.sync();
+    const [message] =
+      await (await agent.client.conversations.getConversationById(
+        dm.id,
+      ))!.messages();
+
+    // invites are redeemed even though the DM is a request
+    await agent.handleMessage(message);
+    expect(redemptions.length).toBe(1);
+    expect(redemptions[0].added).toBe(true);
+    expect(agent.requests.size).toBe(0);
+    expect(handled).toEqual([]);
+    const members = await group.members();
+    expect(members.map((member) => member.inboxId)).toContain(
+      user.client.inboxId,
+    );
+  });
+
+  it("should ignore invalid invite tokens", async () => {
+    const agent = await createAgent(createSigner(createUser()));
+    const user = await createAgent(createSigner(createUser()));
+    const errors: Error[] = [];
+    await agent.start();
+
+    // tokens are only valid when they were signed by the agent
+    const group = await user.client.conversations.newGroup([]);
+    const invite = await group.createInvite();
+    const dm = await user.client.invites.join(invite.token);
+    await sleep(2000);
+    expect(agent.isRunning).toBe(true);
+
+    agent.onError((error) => {
+      errors.push(error);
+    });
+    await dm.send(invite.token);
+    await sleep(2000);
+    await agent.stop();
+
+    expect(errors.map((error) => error.message)).toEqual([
+      "Invite token is invalid",
+    ]);
+  });
+
+  it("should use per-conversation handlers and react", async () => {
+    const agent = await createAgent(createSigner(createUser()), {
+      allowUnknown: true,
+    });
+    const user = await createAgent(createSigner(createUser()));
+    const defaultHandled: string[] = [];
+    agent.onMessage((ctx) => {
+      defaultHandled.push(ctx.message.id);
+    });
+
+    const dm = await user.client.conversations.newDm(agent.client.inboxId);
+    agent.onConversation(dm.id, async (ctx) => {
+      await ctx.react("👍");
+    });
+    await agent.start();
+    await dm.send("gm");
+
+    const messages = await waitForMessages(dm, 2);
+    await agent.stop();
+
+    expect(defaultHandled).toEqual([]);
+    const reaction = messages.find((message) =>
+      message.contentType?.sameAs(ContentTypeReaction),
+    ) as { content: Reaction } | undefined;
+    expect(reaction?.content.content).toBe("👍");
+    expect(reaction?.content.action).toBe("added");
+  });
+
+  it("should keep running when handling a message fails", async () => {
+    const agent = await createAgent(createSigner(createUser()), {
+      allowUnknown: true,
+    });
+    const user = await createAgent(createSigner(createUser()));
+    const handled: string[] = [];
+    agent.onMessage((ctx) => {
+      handled.push(ctx.message.content as string);
+      if (ctx.message.content === "fail") {
+        throw new Error("handler failed");
+      }
+    });
+    await agent.start();
+
+    const dm = await user.client.conversations.newDm(agent.client.inboxId);
+    await dm.send("fail");
+    await dm.send("gm");
+    await sleep(2000);
+
+    expect(handled).toEqual(["fail", "gm"]);
+    expect(agent.isRunning).toBe(true);
+    await agent.stop();
+  });
+
+  it("should start and stop gracefully", async () => {
+    const agent = await createAgent(createSigner(createUser()));
+    await agent.start();
+    expect(agent.isRunning).toBe(true);
+    await expect(agent.start()).rejects.toThrow(AgentAlreadyRunningError);
+    await agent.stop();
+    expect(agent.isRunning).toBe(false);
+    // stopping twice is a no-op
+    await agent.stop();
+  });
+});
@@ -0,0 +1,36 @@
+import type { Conversation, DecodedMessage } from "@xmtp/node-sdk";
+import { describe, expect, it } from "vitest";
+import { RequestQueue } from "@/RequestQueue";
+
+const createConversation = (id: string) => ({ id }) as Conversation;
+
+const createMessage = (id: string) => ({ id }) as DecodedMessage;
+
+describe("RequestQueue", () => {
+  it("should limit the messages of a request", () => {
+    const queue = new RequestQueue(() => undefined, {
+      maxMessagesPerRequest: 2,
+    });
+    const conversation = createConversation("conversation");
+
+    expect(queue.add(conversation, createMessage("1"))).toBe(true);
+    expect(queue.add(conversation, createMessage("2"))).toBe(false);
+    expect(queue.add(conversation, createMessage("3"))).toBe(false);
+    expect(
+      queue.get("conversation")?.messages.map((message) => message.id),
+    ).toEqual(["2", "3"]);
+  });
+
+  it("should limit the number of requests", () => {
+    const queue = new RequestQueue(() => undefined, { maxRequests: 2 });
+
+    queue.add(createConversation("1"), createMessage("1"));
+    queue.add(createConversation("2"), createMessage("2"));
+    queue.add(createConversation("3"), createMessage("3"));
+    expect(queue.size).toBe(2);
+    expect(queue.list().map((request) => request.conversation.id)).toEqual([
+      "2",
+      "3",
+    ]);
+  });
+});
@@ -0,0 +1,100 @@
+import { describe, expect, it } from "vitest";
+import {
+  formatUsage,
+  parseArgs,
+  parseCommand,
+  tokenize,
+  validateCommand,
+} from "@/commands";
+import { CommandArgumentError, InvalidCommandError } from "@/utils/errors";
+
+describe("commands", () => {
+  it("should parse a command", () => {
+    expect(parseCommand("/tip 10 alice", "/")).toEqual({
+      name: "tip",
+      input: "10 alice",
+    });
+    expect(parseCommand("/Help", "/")).toEqual({ name: "help", input: "" });
+    expect(parseCommand("!ping", "!")).toEqual({ name: "ping", input: "" });
+    expect(parseCommand("gm", "/")).toBeUndefined();
+    expect(parseCommand("/", "/")).toBeUndefined();
+  });
+
+  it("should tokenize quoted strings", () => {
+    expect(
+      tokenize('one "two three" "say \\"hi\\""').map((token) => token.value),
+    ).toEqual(["one", "two three", 'say "hi"']);
+  });
+
+  it("should parse typed arguments", () => {
+    const definition = {
+      args: {
+        amount: "number",
+        to: "string",
+        private: "boolean?",
+        note: "rest?",
+      },
+    } as const;
+    const usage = formatUsage("/", "tip", definition);
+
+    expect(
+      parseArgs(definition, '10 "alice b" yes thanks a lot', usage),
+    ).toEqual({
+      amount: 10,
+      to: "alice b",
+      private: true,
+      note: "thanks a lot",
+    });
+    expect(parseArgs(definition, "1.5 bob", usage)).toEqual({
+      amount: 1.5,
+      to: "bob",
+      private: undefined,
+      note: undefined,
+    });
+  });
+
+  it("should reject invalid arguments", () => {
+    const definition = {
+      args: {
+        amount: "number",
+        private: "boolean?",
+      },
+    } as const;
+    const usage = formatUsage("/", "tip", definition);
+
+    expect(() => parseArgs(definition, "", usage)).toThrow(
+      CommandArgumentError,
+    );
+    expect(() => parseArgs(definition, "ten", usage)).toThrow(
+      'Argument "amount" must be a number',
+    );
+    expect(() => parseArgs(definition, "10 maybe", usage)).toThrow(
+      'Argument "private" must be true or false',
+    );
+    expect(() => parseArgs(definition, "10 yes extra", usage)).toThrow(
+      "Too many arguments",
+    );
+  });
+
+  it("should format usage", () => {
+    expect(
+      formatUsage("/", "tip", {
+        description: "Send a tip",
+        args: { amount: "number", to: "string", note: "rest?" },
+      }),
+    ).toBe("/tip <amount:number> <to> [note...] - Send a tip");
+    expect(formatUsage("/", "ping", {})).toBe("/ping");
+  });
+
+  it("should validate commands", () => {
+    expect(() => {
+      validateCommand("Tip!", {});
+    }).toThrow(InvalidCommandError);
+    expect(() => {
+      validateCommand("tip", { args: { note: "rest", to: "string" } });
+    }).toThrow("`rest` must be the last argument");
+    expect(() => {
+      validateCommand("tip", { args: { to: "string?", amount: "number" } });
+    }).toThrow("required arguments must come before optional arguments");
+  });
+});
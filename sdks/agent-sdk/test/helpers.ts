@@ -0,0 +1,69 @@
+import { getRandomValues } from "node:crypto";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  generateInboxId,
+  HistorySyncUrls,
+  IdentifierKind,
+  type ClientOptions,
+  type Signer,
+} from "@xmtp/node-sdk";
+import { createWalletClient, http, toBytes } from "viem";
+import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
+import { sepolia } from "viem/chains";
+import { Agent } from "@/Agent";
+import type { AgentOptions } from "@/types";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+const testEncryptionKey = getRandomValues(new Uint8Array(32));
+
+export const sleep = (ms: number) =>
+  new Promise((resolve) => setTimeout(resolve, ms));
+
+export const createUser = (key?: `0x${string}`) => {
+  const accountKey = key ?? generatePrivateKey();
+  const account = privateKeyToAccount(accountKey);
+  return {
+    key: accountKey,
+    account,
+    wallet: createWalletClient({
+      account,
+      chain: sepolia,
+      transport: http(),
+    }),
+  };
+};
+
+export type User = ReturnType<typeof createUser>;
+
+export const createSigner = (user: User): Signer => {
+  return {
+    type: "EOA",
+    getIdentifier: () => ({
+      identifierKind: IdentifierKind.Ethereum,
+      identifier: user.account.address.toLowerCase(),
+    }),
+    signMessage: async (message: string) => {
+      const signature = await user.wallet.signMessage({
+        message,
+      });
+      return toBytes(signature);
+    },
+  };
+};
+
+export const createAgent = async (
+  signer: Signer,
+  options?: ClientOptions & AgentOptions,
+) => {
+  const opts = {
+    ...options,
+    env: options?.env ?? "local",
+  };
+  const inboxId = generateInboxId(await signer.getIdentifier());
+  return Agent.create(signer, testEncryptionKey, {
+    ...opts,
+    dbPath: join(__dirname, opts.dbPath ?? `./test-${inboxId}.db3`),
+    historySyncUrl: HistorySyncUrls.local,
+  });
+};
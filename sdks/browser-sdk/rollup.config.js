@@ -21,7 +21,13 @@ const external = [
   "@xmtp/content-type-text",
   "@xmtp/wasm-bindings",
   "@xmtp/content-type-primitives",
+  "@xmtp/content-type-delete",
+  "@xmtp/content-type-edit",
+  "@xmtp/content-type-ephemeral",
   "@xmtp/content-type-group-updated",
+  "@xmtp/content-type-poll",
+  "@xmtp/content-type-poll-vote",
+  "@xmtp/content-type-typing-indicator",
   "@xmtp/proto",
   "uuid",
 ];
@@ -0,0 +1,646 @@
+import {
+  AESKeySize,
+  Ciphertext,
+  ContentTypeId,
+  decrypt,
+  encrypt,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+import {
+  ConsentState,
+  ContentType,
+  DeliveryStatus,
+  GroupMessageKind,
+  PermissionLevel,
+  SortDirection,
+} from "@xmtp/wasm-bindings";
+import type { Client } from "@/Client";
+import type { Conversation } from "@/Conversation";
+import type { DecodedMessage, MessageKind } from "@/DecodedMessage";
+import { Dm } from "@/Dm";
+import { Group } from "@/Group";
+import {
+  toSafeContentTypeId,
+  type SafeGroupMember,
+  type SafeListMessagesOptions,
+  type SafeMessage,
+} from "@/utils/conversions";
+import { dateToNs } from "@/utils/date";
+import {
+  ArchiveDecryptionError,
+  InvalidArchiveError,
+  InvalidArchiveKeyError,
+  UnsupportedArchiveVersionError,
+} from "@/utils/errors";
+import { getAll, openDatabase, put } from "@/utils/indexedDb";
+
+export const ARCHIVE_VERSION = 1;
+
+/**
+ * Secret used to encrypt an archive, either a password or a 32 byte key
+ */
+export type ArchiveSecret =
+  | { password: string; key?: undefined }
+  | { key: Uint8Array; password?: undefined };
+
+export type ExportArchiveOptions = ArchiveSecret & {
+  /**
+   * Only export these conversations
+   */
+  conversationIds?: string[];
+  /**
+   * Only export messages sent at or after this date
+   */
+  since?: Date;
+  /**
+   * Only export messages with these content types
+   */
+  contentTypes?: ContentTypeId[];
+};
+
+export type ArchivedConsentState = "unknown" | "allowed" | "denied";
+
+export type ArchivedMember = {
+  inboxId: string;
+  permissionLevel: "member" | "admin" | "super_admin";
+  consentState: ArchivedConsentState;
+};
+
+export type ArchivedConversation = {
+  id: string;
+  type: "group" | "dm";
+  createdAtNs: string;
+  consentState: ArchivedConsentState;
+  /**
+   * Inbox ID of the other member of a DM
+   */
+  peerInboxId?: string;
+  name?: string;
+  imageUrl?: string;
+  description?: string;
+  members: ArchivedMember[];
+};
+
+export type ArchivedMessage = {
+  id: string;
+  conversationId: string;
+  senderInboxId: string;
+  sentAtNs: string;
+  kind: MessageKind;
+  content: EncodedContent;
+};
+
+export type ArchiveContents = {
+  version: number;
+  inboxId: string;
+  exportedAt: Date;
+  conversations: ArchivedConversation[];
+  messages: ArchivedMessage[];
+};
+
+export type ImportArchiveResult = {
+  /**
+   * Archived conversations that were found in the local database, or
+   * created for archived DMs that weren't found
+   */
+  conversations: Conversation[];
+  /**
+   * IDs of archived groups that this installation isn't a member of
+   */
+  missingConversationIds: string[];
+  /**
+   * Archived messages, oldest first
+   *
+   * Messages are stored with the imported messages and listed with the
+   * messages of their conversation, see `ImportedMessages`.
+   */
+  messages: DecodedMessage[];
+};
+
+// content bytes are base64 encoded in the archive
+type SerializedMessage = Omit<ArchivedMessage, "content"> & {
+  content: Omit<EncodedContent, "content"> & { content: string };
+};
+
+type SerializedContents = Omit<ArchiveContents, "exportedAt" | "messages"> & {
+  exportedAt: string;
+  messages: SerializedMessage[];
+};
+
+// "XARC"
+const MAGIC = new Uint8Array([0x58, 0x41, 0x52, 0x43]);
+const SECRET_KEY = 0;
+const SECRET_PASSWORD = 1;
+const PASSWORD_SALT_SIZE = 16;
+const PASSWORD_ITERATIONS = 600_000;
+// the iteration count is read from the header before it can be authenticated,
+// so it is bounded to reject weak keys and excessive work
+const MIN_PASSWORD_ITERATIONS = 100_000;
+const MAX_PASSWORD_ITERATIONS = 10_000_000;
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+const fromBase64 = (base64: string) =>
+  Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const toArchivedConsentState = (state: ConsentState): ArchivedConsentState => {
+  switch (state) {
+    case ConsentState.Allowed:
+      return "allowed";
+    case ConsentState.Denied:
+      return "denied";
+    default:
+      return "unknown";
+  }
+};
+
+/**
+ * Converts an archived consent state to a consent state
+ *
+ * @param state - The archived consent state
+ * @returns The consent state
+ */
+export const fromArchivedConsentState = (state: ArchivedConsentState) => {
+  switch (state) {
+    case "allowed":
+      return ConsentState.Allowed;
+    case "denied":
+      return ConsentState.Denied;
+    default:
+      return ConsentState.Unknown;
+  }
+};
+
+const toArchivedMember = (member: SafeGroupMember): ArchivedMember => ({
+  inboxId: member.inboxId,
+  permissionLevel:
+    member.permissionLevel === PermissionLevel.SuperAdmin
+      ? "super_admin"
+      : member.permissionLevel === PermissionLevel.Admin
+        ? "admin"
+        : "member",
+  consentState: toArchivedConsentState(member.consentState),
+});
+
+const toArchivedMessage = (message: SafeMessage): ArchivedMessage => ({
+  id: message.id,
+  conversationId: message.convoId,
+  senderInboxId: message.senderInboxId,
+  sentAtNs: message.sentAtNs.toString(),
+  kind:
+    message.kind === GroupMessageKind.MembershipChange
+      ? "membership_change"
+      : "application",
+  content: {
+    type: new ContentTypeId(message.content.type),
+    parameters: message.content.parameters,
+    fallback: message.content.fallback,
+    compression: message.content.compression,
+    content: message.content.content,
+  },
+});
+
+/**
+ * Converts an archived message to a message that can be decoded
+ *
+ * @param message - The archived message
+ * @param conversationId - ID of the conversation on this installation
+ * @returns The message
+ */
+export const fromArchivedMessage = (
+  message: ArchivedMessage,
+  conversationId = message.conversationId,
+): SafeMessage => ({
+  id: message.id,
+  convoId: conversationId,
+  senderInboxId: message.senderInboxId,
+  sentAtNs: BigInt(message.sentAtNs),
+  kind:
+    message.kind === "membership_change"
+      ? GroupMessageKind.MembershipChange
+      : GroupMessageKind.Application,
+  deliveryStatus: DeliveryStatus.Published,
+  content: {
+    ...message.content,
+    type: toSafeContentTypeId(message.content.type),
+  },
+});
+
+/**
+ * Gets the metadata, members and messages of a conversation for an archive
+ *
+ * @param client - The client that the conversation belongs to
+ * @param conversation - The conversation to archive
+ * @param options - Optional message filters
+ * @returns Promise that resolves with the archived conversation and its
+ * messages, oldest first
+ */
+export const archiveConversation = async (
+  client: Client,
+  conversation: Conversation,
+  options?: Omit<ExportArchiveOptions, keyof ArchiveSecret>,
+) => {
+  const archived: ArchivedConversation = {
+    id: conversation.id,
+    type: conversation instanceof Dm ? "dm" : "group",
+    createdAtNs: (conversation.createdAtNs ?? 0n).toString(),
+    consentState: toArchivedConsentState(await conversation.consentState()),
+    members: (await conversation.members()).map(toArchivedMember),
+  };
+  if (conversation instanceof Dm) {
+    archived.peerInboxId = await conversation.peerInboxId();
+  }
+  if (conversation instanceof Group) {
+    archived.name = conversation.name;
+    archived.imageUrl = conversation.imageUrl;
+    archived.description = conversation.description;
+  }
+
+  const contentTypes = options?.contentTypes;
+  const messages: ArchivedMessage[] = [];
+  const seen = new Set<string>();
+  const limit = 100n;
+  let sentAfterNs = options?.since ? dateToNs(options.since) - 1n : undefined;
+  let done = false;
+  while (!done) {
+    const listOptions = {
+      sentAfterNs,
+      direction: SortDirection.Ascending,
+      limit,
+    };
+    // messages imported from other archives are archived too
+    const page = client.importedMessages.merge(
+      conversation.id,
+      await client.sendMessage("getGroupMessages", {
+        id: conversation.id,
+        options: listOptions,
+      }),
+      listOptions,
+    );
+    // messages at the cursor are fetched again, but only archived once
+    const unseen = page.filter((message) => !seen.has(message.id));
+    for (const message of unseen) {
+      seen.add(message.id);
+      const contentType = new ContentTypeId(message.content.type);
+      if (
+        !contentTypes ||
+        contentTypes.some((type) => type.sameAs(contentType))
+      ) {
+        messages.push(toArchivedMessage(message));
+      }
+    }
+    const last = page.at(-1);
+    if (last) {
+      sentAfterNs = last.sentAtNs - 1n;
+    }
+    // stop when all messages were fetched or no new messages were returned
+    done = BigInt(page.length) < limit || unseen.length === 0;
+  }
+
+  return { conversation: archived, messages };
+};
+
+const deriveSecret = async (
+  secret: ArchiveSecret,
+  salt: Uint8Array,
+  iterations: number,
+) => {
+  if (secret.key !== undefined) {
+    if (secret.key.length !== AESKeySize) {
+      throw new InvalidArchiveKeyError(AESKeySize);
+    }
+    return secret.key;
+  }
+  const password = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret.password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    password,
+    AESKeySize * 8,
+  );
+  return new Uint8Array(bits);
+};
+
+/**
+ * Encrypts the contents of an archive
+ *
+ * The archive starts with an unencrypted header that describes how the
+ * secret is derived, followed by the AES-GCM encrypted contents. The header
+ * is authenticated as additional data.
+ *
+ * @param contents - The contents of the archive
+ * @param secret - The password or key to encrypt the archive with
+ * @returns Promise that resolves with the encrypted archive
+ * @throws {InvalidArchiveKeyError} if the key isn't 32 bytes
+ */
+export const encryptArchive = async (
+  contents: ArchiveContents,
+  secret: ArchiveSecret,
+) => {
+  const usePassword = secret.key === undefined;
+  const header = new Uint8Array(
+    MAGIC.length + 2 + (usePassword ? PASSWORD_SALT_SIZE + 4 : 0),
+  );
+  header.set(MAGIC);
+  header[MAGIC.length] = ARCHIVE_VERSION;
+  header[MAGIC.length + 1] = usePassword ? SECRET_PASSWORD : SECRET_KEY;
+  const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_SIZE));
+  if (usePassword) {
+    header.set(salt, MAGIC.length + 2);
+    new DataView(header.buffer).setUint32(
+      MAGIC.length + 2 + PASSWORD_SALT_SIZE,
+      PASSWORD_ITERATIONS,
+    );
+  }
+
+  const serialized: SerializedContents = {
+    ...contents,
+    exportedAt: contents.exportedAt.toISOString(),
+    messages: contents.messages.map((message) => ({
+      ...message,
+      content: {
+        ...message.content,
+        content: toBase64(message.content.content),
+      },
+    })),
+  };
+  const ciphertext = await encrypt(
+    new TextEncoder().encode(JSON.stringify(serialized)),
+    await deriveSecret(secret, salt, PASSWORD_ITERATIONS),
+    header,
+  );
+  const payload = ciphertext.toBytes();
+
+  const archive = new Uint8Array(header.length + payload.length);
+  archive.set(header);
+  archive.set(payload, header.length);
+  return archive;
+};
+
+/**
+ * Decrypts an archive created by `encryptArchive`
+ *
+ * @param archive - The encrypted archive
+ * @param secret - The password or key the archive was encrypted with
+ * @returns Promise that resolves with the contents of the archive
+ * @throws {InvalidArchiveError} if the archive is malformed
+ * @throws {UnsupportedArchiveVersionError} if the archive was created by a
+ * newer version
+ * @throws {ArchiveDecryptionError} if the password or key is incorrect
+ */
+export const decryptArchive = async (
+  archive: Uint8Array,
+  secret: ArchiveSecret,
+): Promise<ArchiveContents> => {
+  if (
+    archive.length < MAGIC.length + 2 ||
+    MAGIC.some((byte, index) => archive[index] !== byte)
+  ) {
+    throw new InvalidArchiveError();
+  }
+  const version = archive[MAGIC.length];
+  if (version !== ARCHIVE_VERSION) {
+    throw new UnsupportedArchiveVersionError(version);
+  }
+  const usePassword = archive[MAGIC.length + 1] === SECRET_PASSWORD;
+  if (usePassword !== (secret.key === undefined)) {
+    throw new ArchiveDecryptionError();
+  }
+
+  let headerLength = MAGIC.length + 2;
+  let salt = new Uint8Array();
+  let iterations = 0;
+  if (usePassword) {
+    if (archive.length < headerLength + PASSWORD_SALT_SIZE + 4) {
+      throw new InvalidArchiveError();
+    }
+    salt = archive.slice(headerLength, headerLength + PASSWORD_SALT_SIZE);
+    iterations = new DataView(
+      archive.buffer,
+      archive.byteOffset,
+      archive.byteLength,
+    ).getUint32(headerLength + PASSWORD_SALT_SIZE);
+    headerLength += PASSWORD_SALT_SIZE + 4;
+    if (
+      iterations < MIN_PASSWORD_ITERATIONS ||
+      iterations > MAX_PASSWORD_ITERATIONS
+    ) {
+      throw new InvalidArchiveError();
+    }
+  }
+
+  let ciphertext: Ciphertext;
+  try {
+    ciphertext = Ciphertext.fromBytes(archive.slice(headerLength));
+  } catch {
+    throw new InvalidArchiveError();
+  }
+
+  let plain: Uint8Array;
+  try {
+    plain = await decrypt(
+      ciphertext,
+      await deriveSecret(secret, salt, iterations),
+      archive.slice(0, headerLength),
+    );
+  } catch (error) {
+    if (error instanceof InvalidArchiveKeyError) {
+      throw error;
+    }
+    throw new ArchiveDecryptionError();
+  }
+
+  let serialized: SerializedContents;
+  try {
+    serialized = JSON.parse(
+      new TextDecoder().decode(plain),
+    ) as SerializedContents;
+  } catch {
+    throw new InvalidArchiveError();
+  }
+
+  return {
+    ...serialized,
+    exportedAt: new Date(serialized.exportedAt),
+    messages: serialized.messages.map((message) => ({
+      ...message,
+      content: {
+        ...message.content,
+        type: new ContentTypeId(message.content.type),
+        content: fromBase64(message.content.content),
+      },
+    })),
+  };
+};
+
+// type IDs of the content types that messages can be listed by
+const LISTED_TYPE_IDS: Partial<Record<ContentType, string>> = {
+  [ContentType.Text]: "text",
+  [ContentType.GroupMembershipChange]: "group_membership_change",
+  [ContentType.GroupUpdated]: "group_updated",
+  [ContentType.Reaction]: "reaction",
+  [ContentType.ReadReceipt]: "readReceipt",
+  [ContentType.Reply]: "reply",
+  [ContentType.Attachment]: "attachment",
+  [ContentType.RemoteAttachment]: "remoteStaticAttachment",
+  [ContentType.TransactionReference]: "transactionReference",
+};
+
+/**
+ * Orders messages as they would be listed by the worker, leaving out
+ * imported messages that are also in the local DB
+ *
+ * @param messages - Messages listed from the local DB
+ * @param imported - Imported messages that match the options
+ * @param options - The options the messages were listed with
+ * @returns The merged messages
+ */
+const mergeMessages = (
+  messages: SafeMessage[],
+  imported: SafeMessage[],
+  options?: SafeListMessagesOptions,
+) => {
+  if (imported.length === 0) {
+    return messages;
+  }
+  const ids = new Set(messages.map((message) => message.id));
+  const descending = options?.direction === SortDirection.Descending;
+  const merged = messages
+    .concat(imported.filter((message) => !ids.has(message.id)))
+    .sort((a, b) => {
+      const order =
+        a.sentAtNs < b.sentAtNs ? -1 : a.sentAtNs > b.sentAtNs ? 1 : 0;
+      return descending ? -order : order;
+    });
+  return options?.limit ? merged.slice(0, Number(options.limit)) : merged;
+};
+
+/**
+ * Gets the name of the imported messages store of a local DB
+ *
+ * @param dbPath - The path of the local DB
+ * @returns The name of the IndexedDB database
+ */
+export const importedStoreNameFor = (dbPath: string) => `${dbPath}.imported`;
+
+/**
+ * Keeps the messages imported with `Client.importArchive`
+ *
+ * Messages can only be written to the local DB when they're received from
+ * the network, so imported messages are stored in an IndexedDB database
+ * named after the local DB and listed with the messages of their
+ * conversation. Without a local DB, imported messages are only kept in
+ * memory.
+ */
+export class ImportedMessages {
+  #messages = new Map<string, ArchivedMessage>();
+  #database: Promise<IDBDatabase | undefined> | undefined;
+
+  /**
+   * Loads the stored imported messages
+   *
+   * @param storeName - The name of the IndexedDB database, `null` to only
+   * keep imported messages in memory
+   */
+  load(storeName: string | null) {
+    this.#database ??= (async () => {
+      if (storeName === null) {
+        return undefined;
+      }
+
+      const database = await openDatabase(storeName);
+      const stored = await getAll<ArchivedMessage>(database);
+      for (const message of stored) {
+        // content type IDs are stored without their prototype
+        this.#messages.set(message.id, {
+          ...message,
+          content: {
+            ...message.content,
+            type: new ContentTypeId(message.content.type),
+          },
+        });
+      }
+
+      return database;
+    })().catch((error: unknown) => {
+      // failed loads are retried the next time the store is loaded
+      this.#database = undefined;
+      throw error;
+    });
+    return this.#database;
+  }
+
+  /**
+   * Gets an imported message
+   *
+   * @param id - The ID of the message
+   * @returns The message, if found
+   */
+  get(id: string) {
+    const message = this.#messages.get(id);
+    return message ? fromArchivedMessage(message) : undefined;
+  }
+
+  /**
+   * Adds the imported messages of a conversation to messages listed from the
+   * local DB, using the same options
+   *
+   * @param conversationId - The ID of the conversation
+   * @param messages - Messages listed from the local DB
+   * @param options - The options the messages were listed with
+   * @returns The messages together with the imported messages
+   */
+  merge(
+    conversationId: string,
+    messages: SafeMessage[],
+    options?: SafeListMessagesOptions,
+  ) {
+    const typeIds = options?.contentTypes?.map(
+      (contentType) => LISTED_TYPE_IDS[contentType],
+    );
+    const imported: SafeMessage[] = [];
+    for (const archived of this.#messages.values()) {
+      const message = fromArchivedMessage(archived);
+      const type = archived.content.type;
+      if (
+        message.convoId !== conversationId ||
+        (options?.sentBeforeNs !== undefined &&
+          message.sentAtNs >= options.sentBeforeNs) ||
+        (options?.sentAfterNs !== undefined &&
+          message.sentAtNs <= options.sentAfterNs) ||
+        // imported messages have been published
+        (options?.deliveryStatus !== undefined &&
+          options.deliveryStatus !== DeliveryStatus.Published) ||
+        (typeIds &&
+          (type.authorityId !== "xmtp.org" || !typeIds.includes(type.typeId)))
+      ) {
+        continue;
+      }
+      imported.push(message);
+    }
+    return mergeMessages(messages, imported, options);
+  }
+
+  /**
+   * Stores imported messages, replacing messages with the same ID
+   *
+   * @param messages - The archived messages to store
+   */
+  async add(messages: ArchivedMessage[]) {
+    for (const message of messages) {
+      this.#messages.set(message.id, message);
+    }
+    const database = await this.#database;
+    if (database) {
+      for (const message of messages) {
+        await put(database, message);
+      }
+    }
+  }
+}
@@ -1,3 +1,6 @@
+import { StreamIterator } from "@/StreamIterator";
+import { StreamOverflowError } from "@/utils/errors";
+
 type ResolveValue<T> = {
   value: T | undefined;
   done: boolean;
@@ -10,28 +13,156 @@ export type StreamCallback<T> = (
   value: T | undefined,
 ) => void | Promise<void>;
 
+export type StreamOverflowStrategy =
+  | "drop-oldest"
+  | "drop-newest"
+  | "error"
+  | "pause";
+
+export type StreamOptions = {
+  /**
+   * Maximum number of values to buffer while waiting for the consumer
+   * (default: unbounded)
+   */
+  highWaterMark?: number;
+  /**
+   * What to do when the buffer is full (default: `"drop-oldest"`)
+   *
+   * - `drop-oldest`: discard the oldest buffered value
+   * - `drop-newest`: discard the incoming value
+   * - `error`: end the underlying stream, buffered values are delivered
+   *   before a `StreamOverflowError`
+   * - `pause`: pause the underlying stream until the buffer is half empty
+   */
+  overflow?: StreamOverflowStrategy;
+};
+
+export type StreamMetrics = {
+  /**
+   * Number of values waiting for the consumer
+   */
+  queued: number;
+  /**
+   * Number of values discarded because the buffer was full
+   */
+  dropped: number;
+};
+
 export class AsyncStream<T> {
   #done = false;
   #resolveNext: ResolveNext<T> | null;
   #rejectNext: ((error: Error) => void) | null;
   #queue: (T | undefined)[];
   #error: Error | null;
+  #highWaterMark: number;
+  #overflow: StreamOverflowStrategy;
+  #dropped = 0;
+  #paused = false;
+  #errorReported = false;
   onReturn: (() => void) | undefined = undefined;
   onError: ((error: Error) => void) | undefined = undefined;
+  /**
+   * Pauses the underlying stream, called when the buffer is full and the
+   * overflow strategy is `pause`
+   */
+  onPause: (() => void) | undefined = undefined;
+  /**
+   * Resumes the underlying stream, called when a paused stream's buffer is
+   * half empty
+   */
+  onResume: (() => Promise<void>) | undefined = undefined;
 
-  constructor() {
+  constructor(options?: StreamOptions) {
     this.#queue = [];
     this.#resolveNext = null;
     this.#rejectNext = null;
     this.#error = null;
     this.#done = false;
+    this.#highWaterMark = options?.highWaterMark ?? Infinity;
+    this.#overflow = options?.overflow ?? "drop-oldest";
   }
 
   #endStream() {
+    // settle a pending `next` call so that consumers waiting on it can finish
+    this.#resolveNext?.({
+      done: true,
+      value: undefined,
+    });
     this.#queue = [];
     this.#resolveNext = null;
     this.#rejectNext = null;
     this.#done = true;
+    this.#paused = false;
+  }
+
+  #fail(error: Error) {
+    this.#error = error;
+    if (this.#rejectNext) {
+      this.#rejectNext(error);
+      this.#endStream();
+      this.#reportError(error);
+    }
+  }
+
+  #reportError(error: Error) {
+    if (!this.#errorReported) {
+      this.#errorReported = true;
+      this.onError?.(error);
+    }
+  }
+
+  // the buffer is only full when no `next` call is pending, so the error is
+  // delivered once the consumer has read the buffered values
+  #overflowed() {
+    const error = new StreamOverflowError(this.#highWaterMark);
+    this.#error = error;
+    this.onReturn?.();
+    this.#reportError(error);
+  }
+
+  #enqueue(value: T | undefined) {
+    if (this.#queue.length >= this.#highWaterMark) {
+      switch (this.#overflow) {
+        case "drop-oldest":
+          this.#queue.shift();
+          this.#dropped++;
+          break;
+        case "drop-newest":
+          this.#dropped++;
+          return;
+        case "error":
+          this.#overflowed();
+          return;
+        case "pause":
+          // values already in flight are buffered while the stream pauses
+          break;
+      }
+    }
+
+    this.#queue.push(value);
+
+    if (
+      this.#overflow === "pause" &&
+      !this.#paused &&
+      this.#queue.length >= this.#highWaterMark
+    ) {
+      this.#paused = true;
+      this.onPause?.();
+    }
+  }
+
+  #resumeIfDrained() {
+    if (
+      !this.#paused ||
+      this.#queue.length > Math.floor(this.#highWaterMark / 2)
+    ) {
+      return;
+    }
+
+    this.#paused = false;
+    this.onResume?.().catch((error: unknown) => {
+      void this.callback(error as Error, undefined);
+    });
   }
 
   get error() {
@@ -42,18 +173,30 @@ export class AsyncStream<T> {
     return this.#done;
   }
 
+  get isPaused() {
+    return this.#paused;
+  }
+
+  get metrics(): StreamMetrics {
+    return {
+      queued: this.#queue.length,
+      dropped: this.#dropped,
+    };
+  }
+
   callback: StreamCallback<T> = (error, value) => {
     if (error) {
-      this.#error = error;
-      if (this.#rejectNext) {
-        this.#rejectNext(error);
-        this.#endStream();
-        this.onError?.(error);
+      // the stream already failed, e.g. the underlying stream was ended
+      // because the buffer overflowed
+      if (this.#error) {
+        return;
       }
+      this.#fail(error);
       return;
     }
 
-    if (this.#done) {
+    // values received after the stream failed are discarded
+    if (this.#done || this.#error) {
       return;
     }
 
@@ -64,24 +207,27 @@ export class AsyncStream<T> {
       });
       this.#resolveNext = null;
     } else {
-      this.#queue.push(value);
+      this.#enqueue(value);
     }
   };
 
   next = (): Promise<ResolveValue<T>> => {
-    if (this.#error) {
-      this.#endStream();
-      this.onError?.(this.#error);
-      return Promise.reject(this.#error);
-    }
-
+    // values received before an error are delivered first
     if (this.#queue.length > 0) {
+      const value = this.#queue.shift();
+      this.#resumeIfDrained();
       return Promise.resolve({
         done: false,
-        value: this.#queue.shift(),
+        value,
       });
     }
 
+    if (this.#error) {
+      this.#endStream();
+      this.#reportError(this.#error);
+      return Promise.reject(this.#error);
+    }
+
     if (this.#done) {
       return Promise.resolve({
         done: true,
@@ -107,4 +253,72 @@ export class AsyncStream<T> {
   [Symbol.asyncIterator]() {
     return this;
   }
+
+  async *#values() {
+    try {
+      let result = await this.next();
+      while (!result.done) {
+        yield result.value;
+        result = await this.next();
+      }
+    } finally {
+      if (!this.#done) {
+        await this.return(undefined);
+      }
+    }
+  }
+
+  #iterator() {
+    return new StreamIterator(this.#values(), () => {
+      void this.return(undefined);
+    });
+  }
+
+  /**
+   * Transforms each value of the stream
+   *
+   * @param fn - Function that transforms a value
+   * @returns Iterator of transformed values
+   */
+  map<U>(fn: (value: T | undefined) => U | Promise<U>) {
+    return this.#iterator().map(fn);
+  }
+
+  /**
+   * Skips values of the stream that don't match the predicate
+   *
+   * @param predicate - Function that returns `true` for values to keep
+   * @returns Iterator of matching values
+   */
+  filter<S extends T | undefined>(
+    predicate: (value: T | undefined) => value is S,
+  ): StreamIterator<S>;
+  filter(
+    predicate: (value: T | undefined) => boolean | Promise<boolean>,
+  ): StreamIterator<T | undefined>;
+  filter(predicate: (value: T | undefined) => boolean | Promise<boolean>) {
+    return this.#iterator().filter(predicate);
+  }
+
+  /**
+   * Ends the stream after `count` values
+   *
+   * @param count - Number of values to take
+   * @returns Iterator of up to `count` values
+   */
+  take(count: number) {
+    return this.#iterator().take(count);
+  }
+
+  /**
+   * Groups values of the stream into arrays of up to `size` values, emitting
+   * a partial batch when `ms` milliseconds have passed since its first value
+   *
+   * @param size - Maximum number of values in a batch
+   * @param ms - Maximum time to wait for a batch to fill, in milliseconds
+   * @returns Iterator of batches
+   */
+  batch(size: number, ms: number) {
+    return this.#iterator().batch(size, ms);
+  }
 }
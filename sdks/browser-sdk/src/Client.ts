@@ -1,20 +1,46 @@
+import { DeleteCodec } from "@xmtp/content-type-delete";
+import { EditCodec } from "@xmtp/content-type-edit";
+import { EphemeralCodec } from "@xmtp/content-type-ephemeral";
 import {
   ContentTypeGroupUpdated,
   GroupUpdatedCodec,
 } from "@xmtp/content-type-group-updated";
+import { PollCodec } from "@xmtp/content-type-poll";
+import { PollVoteCodec } from "@xmtp/content-type-poll-vote";
 import type {
   ContentCodec,
   ContentTypeId,
 } from "@xmtp/content-type-primitives";
 import { TextCodec } from "@xmtp/content-type-text";
+import { TypingIndicatorCodec } from "@xmtp/content-type-typing-indicator";
 import {
+  ConsentState,
   GroupMessageKind,
   SignatureRequestType,
   type Identifier,
 } from "@xmtp/wasm-bindings";
+import {
+  ARCHIVE_VERSION,
+  archiveConversation,
+  decryptArchive,
+  encryptArchive,
+  fromArchivedConsentState,
+  fromArchivedMessage,
+  ImportedMessages,
+  importedStoreNameFor,
+  type ArchiveContents,
+  type ArchiveSecret,
+  type ExportArchiveOptions,
+  type ImportArchiveResult,
+} from "@/Archive";
 import { ClientWorkerClass } from "@/ClientWorkerClass";
 import { Conversations } from "@/Conversations";
+import { DecodedMessage } from "@/DecodedMessage";
+import { Invites, invitesStoreNameFor } from "@/Invites";
+import { MiddlewarePipeline } from "@/Middleware";
+import { Outbox } from "@/Outbox";
 import { Preferences } from "@/Preferences";
+import { Scheduler } from "@/Scheduler";
 import type { ClientOptions, XmtpEnv } from "@/types";
 import { Utils } from "@/Utils";
 import {
@@ -22,11 +48,15 @@ import {
   toSafeEncodedContent,
   type SafeMessage,
 } from "@/utils/conversions";
+import { getDbPath } from "@/utils/createClient";
+import { ViewedMessages, viewedStoreNameFor } from "@/utils/ephemeral";
 import {
   AccountAlreadyAssociatedError,
+  ClientNotInitializedError,
   CodecNotFoundError,
   GenerateSignatureError,
   InboxReassignError,
+  InvalidContentError,
   InvalidGroupMembershipChangeError,
   SignerUnavailableError,
 } from "@/utils/errors";
@@ -42,10 +72,16 @@ export class Client extends ClientWorkerClass {
   #inboxId: string | undefined;
   #installationId: string | undefined;
   #installationIdBytes: Uint8Array | undefined;
+  #invites: Invites;
   #isReady = false;
+  #middleware: MiddlewarePipeline;
+  #outbox: Outbox;
   #preferences: Preferences;
+  #scheduler: Scheduler;
   #signer?: Signer;
   #options?: ClientOptions;
+  #viewedMessages = new ViewedMessages();
+  #importedMessages = new ImportedMessages();
 
   /**
    * Creates a new XMTP client instance
@@ -66,14 +102,24 @@ export class Client extends ClientWorkerClass {
     this.#options = options;
     this.#conversations = new Conversations(this);
     this.#preferences = new Preferences(this);
+    this.#scheduler = new Scheduler(this);
+    this.#invites = new Invites(this);
     const codecs = [
       new GroupUpdatedCodec(),
       new TextCodec(),
+      new EditCodec(),
+      new DeleteCodec(),
+      new TypingIndicatorCodec(),
+      new PollCodec(),
+      new PollVoteCodec(),
+      new EphemeralCodec(),
       ...(options?.codecs ?? []),
     ];
     this.#codecs = new Map(
       codecs.map((codec) => [codec.contentType.toString(), codec]),
     );
+    this.#middleware = new MiddlewarePipeline(options?.middleware);
+    this.#outbox = new Outbox(options?.outbox, this.#middleware);
   }
 
   /**
@@ -85,14 +131,30 @@ export class Client extends ClientWorkerClass {
    * @param identifier - The identifier to initialize the client with
    */
   async init(identifier: Identifier) {
+    // middleware functions can't be sent to the worker
+    const { middleware: _middleware, ...options } = this.#options ?? {};
     const result = await this.sendMessage("init", {
       identifier,
-      options: this.#options,
+      options,
     });
     this.#identifier = identifier;
     this.#inboxId = result.inboxId;
     this.#installationId = result.installationId;
     this.#installationIdBytes = result.installationIdBytes;
+    // view-once messages must be known before messages are decoded
+    const dbPath = getDbPath(result.inboxId, options);
+    await this.#viewedMessages.load(
+      dbPath === null ? null : viewedStoreNameFor(dbPath),
+    );
+    await this.#importedMessages.load(
+      dbPath === null ? null : importedStoreNameFor(dbPath),
+    );
+    await this.#invites.load(
+      dbPath === null ? null : invitesStoreNameFor(dbPath),
+    );
+    // scheduled messages are decoded and reported to middleware, so they're
+    // sent once codecs and stores are ready
+    await this.#scheduler.start();
     this.#isReady = true;
   }
 
@@ -113,6 +175,8 @@ export class Client extends ClientWorkerClass {
       await client.register();
     }
 
+    await client.#resumeOutbox();
+
     return client;
   }
 
@@ -132,9 +196,17 @@ export class Client extends ClientWorkerClass {
       disableAutoRegister: true,
     });
     await client.init(identifier);
+    await client.#resumeOutbox();
     return client;
   }
 
+  // publishes messages that were stored but not published before a reload
+  async #resumeOutbox() {
+    if (await this.isRegistered()) {
+      await this.#outbox.resume(await this.#conversations.list());
+    }
+  }
+
   /**
    * Gets the client options
    */
@@ -142,6 +214,65 @@ export class Client extends ClientWorkerClass {
     return this.#options;
   }
 
+  /**
+   * Gets the middleware pipeline
+   */
+  get middleware() {
+    return this.#middleware;
+  }
+
+  /**
+   * Gets how messages that can't be decoded are handled
+   */
+  get decodeErrorMode() {
+    return this.#options?.decodeErrorMode ?? "throw";
+  }
+
+  /**
+   * Gets the outbox for sending messages in the background
+   */
+  get outbox() {
+    return this.#outbox;
+  }
+
+  /**
+   * Gets the scheduler for listing, rescheduling and cancelling scheduled
+   * messages
+   */
+  get scheduler() {
+    return this.#scheduler;
+  }
+
+  /**
+   * Invites to groups, see `Group.createInvite`
+   */
+  get invites() {
+    return this.#invites;
+  }
+
+  /**
+   * Gets the view-once messages that have been viewed, see
+   * `Conversation.viewMessage`
+   */
+  get viewedMessages() {
+    return this.#viewedMessages;
+  }
+
+  /**
+   * Gets the messages imported with `importArchive`
+   */
+  get importedMessages() {
+    return this.#importedMessages;
+  }
+
+  /**
+   * Stops sending outbox messages and terminates the worker
+   */
+  close() {
+    this.#outbox.close();
+    super.close();
+  }
+
   /**
    * Gets whether the client has been initialized
    */
@@ -612,14 +743,143 @@ export class Client extends ClientWorkerClass {
     return this.sendMessage("findInboxIdByIdentifier", { identifier });
   }
 
+  /**
+   * Exports conversations, their members and messages to an encrypted
+   * archive that can be imported by another installation
+   *
+   * @param options - The password or key to encrypt the archive with and
+   * optional filters
+   * @returns Promise that resolves with the encrypted archive
+   * @throws {ClientNotInitializedError} if the client isn't initialized
+   * @throws {InvalidArchiveKeyError} if the key isn't 32 bytes
+   */
+  async exportArchive(options: ExportArchiveOptions) {
+    if (!this.#inboxId) {
+      throw new ClientNotInitializedError();
+    }
+
+    const { conversationIds } = options;
+    const conversations = (await this.#conversations.list()).filter(
+      (conversation) =>
+        !conversationIds || conversationIds.includes(conversation.id),
+    );
+
+    const contents: ArchiveContents = {
+      version: ARCHIVE_VERSION,
+      inboxId: this.#inboxId,
+      exportedAt: new Date(),
+      conversations: [],
+      messages: [],
+    };
+    for (const conversation of conversations) {
+      const archived = await archiveConversation(this, conversation, options);
+      contents.conversations.push(archived.conversation);
+      contents.messages.push(...archived.messages);
+    }
+
+    return encryptArchive(contents, options);
+  }
+
+  /**
+   * Imports an archive created by `exportArchive`
+   *
+   * Archived conversations are matched with the conversations of this
+   * installation and their consent state is restored, unless it was already
+   * set. Archived DMs that aren't found are created with the same peer,
+   * archived groups can only be joined when a member adds this installation
+   * and are reported as missing.
+   *
+   * The local database only stores messages received from the network, so
+   * archived messages are stored with the imported messages next to it and
+   * listed with the messages of their conversation, including the messages
+   * of missing groups once this installation is added to them. They are
+   * decoded with the codecs of this client and returned, messages that can't
+   * be decoded are left out of the result unless `decodeErrorMode` is
+   * `"fallback"`.
+   *
+   * @param archive - The encrypted archive
+   * @param secret - The password or key the archive was encrypted with
+   * @returns Promise that resolves with the matched conversations and the
+   * archived messages
+   * @throws {InvalidArchiveError} if the archive is malformed
+   * @throws {UnsupportedArchiveVersionError} if the archive was created by a
+   * newer version
+   * @throws {ArchiveDecryptionError} if the password or key is incorrect
+   */
+  async importArchive(
+    archive: Uint8Array,
+    secret: ArchiveSecret,
+  ): Promise<ImportArchiveResult> {
+    const contents = await decryptArchive(archive, secret);
+    await this.#conversations.sync();
+
+    const result: ImportArchiveResult = {
+      conversations: [],
+      missingConversationIds: [],
+      messages: [],
+    };
+    // archived conversation ID -> local conversation ID
+    const conversationIds = new Map<string, string>();
+    for (const archived of contents.conversations) {
+      // DMs with the same peer may have a different ID on this installation
+      let conversation =
+        archived.type === "dm" && archived.peerInboxId
+          ? await this.#conversations.getDmByInboxId(archived.peerInboxId)
+          : await this.#conversations.getConversationById(archived.id);
+      if (!conversation && archived.type === "dm" && archived.peerInboxId) {
+        conversation = await this.#conversations.newDm(archived.peerInboxId);
+      }
+      if (!conversation) {
+        result.missingConversationIds.push(archived.id);
+        continue;
+      }
+      if ((await conversation.consentState()) === ConsentState.Unknown) {
+        await conversation.updateConsentState(
+          fromArchivedConsentState(archived.consentState),
+        );
+      }
+      conversationIds.set(archived.id, conversation.id);
+      result.conversations.push(conversation);
+    }
+
+    const messages = contents.messages.map((message) => ({
+      ...message,
+      conversationId:
+        conversationIds.get(message.conversationId) ?? message.conversationId,
+    }));
+    await this.#importedMessages.add(messages);
+
+    for (const message of messages) {
+      try {
+        result.messages.push(
+          new DecodedMessage(this, fromArchivedMessage(message)),
+        );
+      } catch {
+        // messages that can't be decoded are left out
+      }
+    }
+
+    return result;
+  }
+
   /**
    * Gets the codec for a given content type
    *
+   * Codecs decode other minor versions of their major version, content of
+   * other major versions has no codec.
+   *
    * @param contentType - The content type to get the codec for
    * @returns The codec, if found
    */
   codecFor(contentType: ContentTypeId) {
-    return this.#codecs.get(contentType.toString());
+    return (
+      this.#codecs.get(contentType.toString()) ??
+      [...this.#codecs.values()].find(
+        (codec) =>
+          codec.contentType.sameAs(contentType) &&
+          codec.contentType.versionMajor === contentType.versionMajor,
+      )
+    );
   }
 
   /**
@@ -629,12 +889,18 @@ export class Client extends ClientWorkerClass {
    * @param contentType - The content type to encode for
    * @returns The encoded content
    * @throws {CodecNotFoundError} if no codec is found for the content type
+   * @throws {InvalidContentError} if the content fails the codec's validation
    */
   encodeContent(content: any, contentType: ContentTypeId) {
     const codec = this.codecFor(contentType);
     if (!codec) {
       throw new CodecNotFoundError(contentType);
     }
+    try {
+      codec.validate?.(content);
+    } catch (error) {
+      throw new InvalidContentError(contentType, error);
+    }
     const encoded = codec.encode(content, this);
     const fallback = codec.fallback(content);
     if (fallback) {
@@ -651,6 +917,7 @@ export class Client extends ClientWorkerClass {
    * @returns The decoded content
    * @throws {CodecNotFoundError} if no codec is found for the content type
    * @throws {InvalidGroupMembershipChangeError} if the message is an invalid group membership change
+   * @throws {InvalidContentError} if the content can't be decoded or fails the codec's validation
    */
   decodeContent(message: SafeMessage, contentType: ContentTypeId) {
     const codec = this.codecFor(contentType);
@@ -667,8 +934,16 @@ export class Client extends ClientWorkerClass {
     }
 
     const encodedContent = fromSafeEncodedContent(message.content);
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-return
-    return codec.decode(encodedContent, this);
+    // malformed payloads are reported as invalid content
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const content = codec.decode(encodedContent, this);
+      codec.validate?.(content);
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+      return content;
+    } catch (error) {
+      throw new InvalidContentError(contentType, error);
+    }
   }
 
   /**
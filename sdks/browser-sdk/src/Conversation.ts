@@ -1,17 +1,66 @@
+import type { Ephemeral } from "@xmtp/content-type-ephemeral";
 import type { ContentTypeId } from "@xmtp/content-type-primitives";
 import { ContentTypeText } from "@xmtp/content-type-text";
-import type { ConsentState } from "@xmtp/wasm-bindings";
+import {
+  ContentType,
+  SortDirection,
+  type ConsentState,
+} from "@xmtp/wasm-bindings";
 import { v4 } from "uuid";
-import { AsyncStream, type StreamCallback } from "@/AsyncStream";
+import {
+  AsyncStream,
+  type StreamCallback,
+  type StreamOptions,
+} from "@/AsyncStream";
 import type { Client } from "@/Client";
 import { DecodedMessage } from "@/DecodedMessage";
-import type {
-  SafeConversation,
-  SafeListMessagesOptions,
-  SafeMessage,
+import type { SendContent } from "@/Middleware";
+import {
+  fromSafeContentTypeId,
+  type SafeConversation,
+  type SafeListMessagesOptions,
+  type SafeMessage,
 } from "@/utils/conversions";
 import { nsToDate } from "@/utils/date";
-import { MissingContentTypeError } from "@/utils/errors";
+import { isEphemeral } from "@/utils/ephemeral";
+import {
+  ClientNotInitializedError,
+  EphemeralMessageNotFoundError,
+  MissingContentTypeError,
+  PollNotFoundError,
+  ThreadNotFoundError,
+} from "@/utils/errors";
+import { withMentions, type SendOptions } from "@/utils/mentions";
+import { isPoll, isPollVote, tallyPoll, type PollResults } from "@/utils/polls";
+import {
+  isReaction,
+  ReactionAggregator,
+  type ReactionSummary,
+} from "@/utils/reactions";
+import {
+  ContentTypeReadReceipt,
+  isUnread,
+  READ_RECEIPT_INTERVAL_MS,
+  readStates,
+  type ReadState,
+} from "@/utils/readState";
+import {
+  isMessageUpdate,
+  reconcileMessages,
+  type ReconcileOptions,
+} from "@/utils/reconcile";
+import { StreamCursor } from "@/utils/streams";
+import {
+  isReply,
+  ThreadIndex,
+  type Thread,
+  type ThreadSummary,
+} from "@/utils/threads";
+import {
+  isTypingIndicator,
+  TypingTracker,
+  type TypingEvent,
+} from "@/utils/typing";
 
 /**
  * Represents a conversation
@@ -108,66 +157,314 @@ export class Conversation {
   /**
    * Sends a message optimistically
    *
+   * The message is stored locally without publishing it, see
+   * `publishMessages`. The `beforeSend` and `onSendError` middleware hooks
+   * run before the message is stored.
+   *
    * @param content - The content to send
    * @param contentType - Optional content type of the message content
+   * @param options - Optional mentions of inboxes in text content
    * @returns Promise that resolves with the message ID
    * @throws {MissingContentTypeError} When content type is required but not provided
+   * @throws {MentionsRequireTextError} When mentions are sent with content other than text
+   * @throws {SendCancelledError} When a middleware cancels the send
    */
-  async sendOptimistic(content: any, contentType?: ContentTypeId) {
+  async sendOptimistic(
+    content: any,
+    contentType?: ContentTypeId,
+    options?: SendOptions,
+  ) {
     if (typeof content !== "string" && !contentType) {
       throw new MissingContentTypeError();
     }
 
-    const safeEncodedContent =
-      typeof content === "string"
-        ? this.#client.encodeContent(content, contentType ?? ContentTypeText)
-        : // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          this.#client.encodeContent(content, contentType!);
+    const middleware = this.#client.middleware;
+    let sendContent: SendContent = {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      content,
+      contentType: contentType ?? ContentTypeText,
+    };
 
-    return this.#client.sendMessage("sendOptimisticGroupMessage", {
-      id: this.#id,
-      content: safeEncodedContent,
-    });
+    try {
+      sendContent = await middleware.beforeSend(
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      const safeEncodedContent = withMentions(
+        this.#client.encodeContent(
+          sendContent.content,
+          sendContent.contentType,
+        ),
+        sendContent.content,
+        options?.mentions,
+      );
+      return await this.#client.sendMessage("sendOptimisticGroupMessage", {
+        id: this.#id,
+        content: safeEncodedContent,
+      });
+    } catch (error) {
+      await middleware.sendError(
+        error as Error,
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      throw error;
+    }
   }
 
   /**
    * Sends a message
    *
+   * Mentions of inboxes in text content are sent with the message as an
+   * encoded content parameter, so any text-like content type can have
+   * mentions.
+   *
    * @param content - The content to send
    * @param contentType - Optional content type of the message content
+   * @param options - Optional mentions of inboxes in text content
    * @returns Promise that resolves with the message ID after it has been sent
    * @throws {MissingContentTypeError} When content type is required but not provided
+   * @throws {MentionsRequireTextError} When mentions are sent with content other than text
+   * @throws {SendCancelledError} When a middleware cancels the send
    */
-  async send(content: any, contentType?: ContentTypeId) {
+  async send(content: any, contentType?: ContentTypeId, options?: SendOptions) {
     if (typeof content !== "string" && !contentType) {
       throw new MissingContentTypeError();
     }
 
-    const safeEncodedContent =
-      typeof content === "string"
-        ? this.#client.encodeContent(content, contentType ?? ContentTypeText)
-        : // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          this.#client.encodeContent(content, contentType!);
+    const middleware = this.#client.middleware;
+    let sendContent: SendContent = {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      content,
+      contentType: contentType ?? ContentTypeText,
+    };
+    let messageId: string;
 
-    return this.#client.sendMessage("sendGroupMessage", {
+    try {
+      sendContent = await middleware.beforeSend(
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      const safeEncodedContent = withMentions(
+        this.#client.encodeContent(
+          sendContent.content,
+          sendContent.contentType,
+        ),
+        sendContent.content,
+        options?.mentions,
+      );
+      messageId = await this.#client.sendMessage("sendGroupMessage", {
+        id: this.#id,
+        content: safeEncodedContent,
+      });
+    } catch (error) {
+      await middleware.sendError(
+        error as Error,
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      throw error;
+    }
+
+    await middleware.afterSend(messageId, this);
+
+    return messageId;
+  }
+
+  /**
+   * Schedules a message to be sent at a later time
+   *
+   * The message is stored and sent by the client worker when it's due, see
+   * `Client.scheduler` for listing, rescheduling and cancelling scheduled
+   * messages. The `beforeSend` middleware hooks run when the message is
+   * scheduled, the other send hooks run when it's sent.
+   *
+   * @param content - The content to send
+   * @param contentType - Content type of the message content, optional for text
+   * @param sendAt - When to send the message
+   * @returns Promise that resolves with the scheduled message
+   * @throws {MissingContentTypeError} When content type is required but not provided
+   * @throws {SendCancelledError} When a middleware cancels the send
+   */
+  async schedule(
+    content: any,
+    contentType: ContentTypeId | undefined,
+    sendAt: Date,
+  ) {
+    if (typeof content !== "string" && !contentType) {
+      throw new MissingContentTypeError();
+    }
+
+    const middleware = this.#client.middleware;
+    let sendContent: SendContent = {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      content,
+      contentType: contentType ?? ContentTypeText,
+    };
+
+    try {
+      // middleware can't run in the client worker that sends the message
+      sendContent = await middleware.beforeSend(
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+    } catch (error) {
+      await middleware.sendError(
+        error as Error,
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      throw error;
+    }
+
+    const message = await this.#client.sendMessage("scheduleGroupMessage", {
       id: this.#id,
-      content: safeEncodedContent,
+      content: this.#client.encodeContent(
+        sendContent.content,
+        sendContent.contentType,
+      ),
+      sendAt,
     });
+    return this.#client.scheduler.fromSafeScheduledMessage(message);
+  }
+
+  /**
+   * Views an ephemeral message in this conversation
+   *
+   * The message is returned with its content, after which the content of a
+   * view-once message is purged: the message is decoded without content and
+   * with `purged` set from then on, including in streams and `messages`.
+   * Messages that were already purged are returned without content.
+   *
+   * @param messageId - The ID of the ephemeral message
+   * @returns Promise that resolves with the message
+   * @throws {EphemeralMessageNotFoundError} When the message isn't an ephemeral message in this conversation
+   */
+  async viewMessage(messageId: string) {
+    const message = await this.#client.conversations.getMessageById(messageId);
+    if (
+      !message ||
+      message.conversationId !== this.#id ||
+      !isEphemeral(message.contentType)
+    ) {
+      throw new EphemeralMessageNotFoundError(messageId);
+    }
+    if ((message.content as Ephemeral | undefined)?.viewOnce) {
+      await this.#client.viewedMessages.add(messageId);
+    }
+    return message;
   }
 
   /**
    * Lists messages in this conversation
    *
-   * @param options - Optional filtering and pagination options
+   * Typing indicators are ephemeral and left out of the results. With
+   * `reconcile`, edits and deletes are applied to the messages they
+   * reference and left out of the results too, so fewer than `limit`
+   * messages may be returned. Ephemeral messages that have been viewed or
+   * have expired are listed without content, see `viewMessage`.
+   *
+   * @param options - Optional filtering, pagination and reconcile options
    * @returns Promise that resolves with an array of decoded messages
    */
-  async messages(options?: SafeListMessagesOptions) {
-    const messages = await this.#client.sendMessage("getGroupMessages", {
-      id: this.#id,
+  async messages(options?: SafeListMessagesOptions & ReconcileOptions) {
+    const { reconcile, includeOriginal, ...listOptions } = options ?? {};
+    const messages = (await this.#findMessages(listOptions))
+      .map((message) => new DecodedMessage(this.#client, message))
+      .filter((message) => !isTypingIndicator(message.contentType));
+
+    if (!reconcile || messages.length === 0) {
+      return messages;
+    }
+
+    // updates are always sent after the messages they reference
+    const oldestNs = messages.reduce(
+      (oldest, message) =>
+        message.sentAtNs < oldest ? message.sentAtNs : oldest,
+      messages[0].sentAtNs,
+    );
+    return reconcileMessages(
+      messages,
+      await this.#findUpdates(oldestNs),
+      includeOriginal,
+    );
+  }
+
+  /**
+   * Lists messages of the local DB together with imported messages
+   *
+   * @param options - Optional filtering and pagination options
+   * @returns Promise that resolves with the messages
+   */
+  async #findMessages(options?: SafeListMessagesOptions) {
+    return this.#client.importedMessages.merge(
+      this.#id,
+      await this.#client.sendMessage("getGroupMessages", {
+        id: this.#id,
+        options,
+      }),
       options,
+    );
+  }
+
+  /**
+   * Finds edits and deletes sent after a timestamp
+   *
+   * @param sentAfterNs - The timestamp to find updates after (in nanoseconds)
+   * @returns Promise that resolves with the decoded updates
+   */
+  async #findUpdates(sentAfterNs: bigint) {
+    const messages = await this.#findMessages({
+      sentAfterNs,
+      direction: SortDirection.Ascending,
     });
+    const updates: DecodedMessage[] = [];
+    for (const message of messages) {
+      if (!isMessageUpdate(fromSafeContentTypeId(message.content.type))) {
+        continue;
+      }
+      try {
+        updates.push(new DecodedMessage(this.#client, message));
+      } catch {
+        // updates that can't be decoded are ignored
+      }
+    }
+    return updates;
+  }
 
-    return messages.map((message) => new DecodedMessage(this.#client, message));
+  /**
+   * Gets the message referenced by an update with all of its updates
+   * applied
+   *
+   * @param update - The edit or delete message
+   * @param includeOriginal - Whether to keep the original content
+   * @returns Promise that resolves with the updated message, or `undefined`
+   * if the update doesn't apply
+   */
+  async #reconcileUpdate(update: DecodedMessage, includeOriginal?: boolean) {
+    if (update.content === undefined) {
+      return undefined;
+    }
+    const { reference } = update.content as { reference: string };
+    const target = await this.#client.conversations.getMessageById(reference);
+    if (
+      !target ||
+      target.conversationId !== this.#id ||
+      target.senderInboxId !== update.senderInboxId
+    ) {
+      return undefined;
+    }
+    const updates = await this.#findUpdates(target.sentAtNs);
+    if (!updates.some((message) => message.id === update.id)) {
+      updates.push(update);
+    }
+    return reconcileMessages([target], updates, includeOriginal)[0];
   }
 
   /**
@@ -245,41 +542,518 @@ export class Conversation {
   /**
    * Creates a stream for new messages in this conversation
    *
+   * With `reconcile`, edits and deletes are streamed as the updated message
+   * they reference instead of as separate messages.
+   *
    * @param callback - Optional callback function for handling new stream values
+   * @param options - Optional buffering and reconcile options for the stream
    * @returns AsyncStream instance for new messages
    */
-  async stream(callback?: StreamCallback<DecodedMessage>) {
-    const streamId = v4();
-    const asyncStream = new AsyncStream<DecodedMessage>();
-    const endStream = this.#client.handleStreamMessage<SafeMessage>(
-      streamId,
-      (error, value) => {
+  async stream(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions & ReconcileOptions,
+  ) {
+    const asyncStream = new AsyncStream<DecodedMessage>(options);
+    const cursor = new StreamCursor();
+
+    const emit = (error: Error | null, decodedMessage?: DecodedMessage) => {
+      void asyncStream.callback(error, decodedMessage);
+      void callback?.(error, decodedMessage);
+    };
+
+    // messages are reconciled in order so that updates don't overtake the
+    // messages that were streamed before them
+    let reconciling = Promise.resolve();
+
+    const deliver = (decodedMessage: DecodedMessage | undefined) => {
+      // skip messages that were already delivered before pausing
+      if (decodedMessage && !cursor.track(decodedMessage)) {
+        return;
+      }
+      if (!options?.reconcile) {
+        emit(null, decodedMessage);
+        return;
+      }
+      reconciling = reconciling.then(async () => {
+        if (!decodedMessage || !isMessageUpdate(decodedMessage.contentType)) {
+          emit(null, decodedMessage);
+          return;
+        }
+        try {
+          const updated = await this.#reconcileUpdate(
+            decodedMessage,
+            options.includeOriginal,
+          );
+          if (updated) {
+            emit(null, updated);
+          }
+        } catch (error) {
+          emit(error as Error);
+        }
+      });
+    };
+
+    const startStream = async () => {
+      const streamId = v4();
+      const endStream = this.#client.handleStreamMessage<SafeMessage>(
+        streamId,
+        (error, value) => {
+          if (error) {
+            emit(error);
+            return;
+          }
+
+          deliver(value ? new DecodedMessage(this.#client, value) : undefined);
+        },
+      );
+      await this.#client.sendMessage("streamGroupMessages", {
+        groupId: this.#id,
+        streamId,
+      });
+      let ended = false;
+      return () => {
+        if (ended) {
+          return;
+        }
+        ended = true;
+        void this.#client.sendMessage("endStream", {
+          streamId,
+        });
+        endStream();
+      };
+    };
+
+    let stopStream = await startStream();
+
+    asyncStream.onReturn = () => {
+      stopStream();
+    };
+    asyncStream.onPause = () => {
+      stopStream();
+    };
+    asyncStream.onResume = async () => {
+      // start streaming before catching up so that no messages are missed
+      stopStream = await startStream();
+      await this.sync();
+      const messages = await this.messages({
+        sentAfterNs: cursor.after(this.#id),
+        direction: SortDirection.Ascending,
+      });
+      messages.forEach(deliver);
+    };
+    return asyncStream;
+  }
+
+  /**
+   * Tallies the votes of a poll in this conversation
+   *
+   * Only the latest vote of each member is counted. Votes sent after the
+   * deadline of the poll and votes from inboxes that aren't members of this
+   * conversation are ignored.
+   *
+   * @param pollId - The message ID of the poll
+   * @returns Promise that resolves with the results of the poll
+   * @throws {PollNotFoundError} When the poll isn't a poll in this conversation
+   */
+  async pollResults(pollId: string): Promise<PollResults> {
+    const poll = await this.#client.conversations.getMessageById(pollId);
+    if (
+      !poll ||
+      poll.conversationId !== this.#id ||
+      !isPoll(poll.contentType) ||
+      poll.content === undefined
+    ) {
+      throw new PollNotFoundError(pollId);
+    }
+    const messages = await this.#findMessages({
+      // votes are always sent after the polls they reference
+      sentAfterNs: poll.sentAtNs,
+    });
+    const votes: DecodedMessage[] = [];
+    for (const message of messages) {
+      try {
+        const decoded = new DecodedMessage(this.#client, message);
+        if (isPollVote(decoded.contentType)) {
+          votes.push(decoded);
+        }
+      } catch {
+        // votes that can't be decoded are ignored
+      }
+    }
+    const members = await this.members();
+    return tallyPoll(
+      poll,
+      votes,
+      members.map((member) => member.inboxId),
+    );
+  }
+
+  /**
+   * Gets the reaction tallies of a message in this conversation
+   *
+   * Reactions are decoded with the client's codecs, so the `ReactionCodec`
+   * must be registered.
+   *
+   * @param messageId - The ID of the message
+   * @returns Promise that resolves with the reaction summary of the message
+   */
+  async reactionsFor(messageId: string): Promise<ReactionSummary> {
+    const aggregator = new ReactionAggregator();
+    await this.#loadReactions(aggregator, messageId);
+    return aggregator.summary(messageId);
+  }
+
+  /**
+   * Adds the existing reactions to a message to an aggregator
+   *
+   * @param aggregator - The aggregator to add the reactions to
+   * @param messageId - The ID of the message
+   */
+  async #loadReactions(aggregator: ReactionAggregator, messageId: string) {
+    const target = await this.#client.conversations.getMessageById(messageId);
+    const messages = await this.#findMessages({
+      contentTypes: [ContentType.Reaction],
+      // reactions are always sent after the messages they reference
+      sentAfterNs: target?.sentAtNs,
+    });
+    for (const message of messages) {
+      let decoded: DecodedMessage;
+      try {
+        decoded = new DecodedMessage(this.#client, message);
+      } catch {
+        // reactions that can't be decoded are ignored
+        continue;
+      }
+      const content = decoded.content as { reference: string } | undefined;
+      if (content?.reference === messageId) {
+        aggregator.add(decoded);
+      }
+    }
+  }
+
+  /**
+   * Creates a stream for the reaction tallies of messages in this
+   * conversation
+   *
+   * A summary is emitted whenever the reactions to a message change. The
+   * first summary of a message includes the reactions it had before the
+   * stream started.
+   *
+   * @param callback - Optional callback function for handling new summaries
+   * @param options - Optional buffering options for the stream
+   * @returns AsyncStream instance for reaction summaries
+   */
+  async streamReactionSummaries(
+    callback?: StreamCallback<ReactionSummary>,
+    options?: StreamOptions,
+  ) {
+    const asyncStream = new AsyncStream<ReactionSummary>(options);
+    const aggregator = new ReactionAggregator();
+    const loaded = new Set<string>();
+
+    const deliver = (error: Error | null, summary?: ReactionSummary) => {
+      void asyncStream.callback(error, summary);
+      void callback?.(error, summary);
+    };
+
+    // reactions are aggregated in order so that summaries aren't emitted
+    // out of order while existing reactions are loaded
+    let aggregating = Promise.resolve();
+
+    const stream = await this.stream(
+      (error, message) => {
         if (error) {
-          void asyncStream.callback(error, undefined);
-          void callback?.(error, undefined);
+          deliver(error);
           return;
         }
+        if (
+          !message ||
+          !isReaction(message.contentType) ||
+          message.content === undefined
+        ) {
+          return;
+        }
+        aggregating = aggregating.then(async () => {
+          const { reference } = message.content as { reference: string };
+          try {
+            if (!loaded.has(reference)) {
+              loaded.add(reference);
+              // the streamed reaction is included in the loaded reactions
+              await this.#loadReactions(aggregator, reference);
+              aggregator.add(message);
+              deliver(null, aggregator.summary(reference));
+              return;
+            }
+            if (aggregator.add(message)) {
+              deliver(null, aggregator.summary(reference));
+            }
+          } catch (loadError) {
+            deliver(loadError as Error);
+          }
+        });
+      },
+      // messages are only handled in the callback, so they aren't buffered
+      { highWaterMark: 0, overflow: "drop-newest" },
+    );
+
+    asyncStream.onReturn = () => {
+      void stream.return(undefined);
+    };
+
+    return asyncStream;
+  }
+
+  /**
+   * Adds the replies sent after a timestamp to a thread index
+   *
+   * @param index - The index to add the replies to
+   * @param sentAfterNs - Optional timestamp to find replies after (in nanoseconds)
+   */
+  async #loadReplies(index: ThreadIndex, sentAfterNs?: bigint) {
+    const messages = await this.#findMessages({
+      contentTypes: [ContentType.Reply],
+      sentAfterNs,
+    });
+    for (const message of messages) {
+      try {
+        index.add(new DecodedMessage(this.#client, message));
+      } catch {
+        // replies that can't be decoded are ignored
+      }
+    }
+  }
 
-        const decodedMessage = value
-          ? new DecodedMessage(this.#client, value)
-          : undefined;
-        void asyncStream.callback(null, decodedMessage);
-        void callback?.(null, decodedMessage);
+  /**
+   * Gets a message of this conversation that can start a thread
+   *
+   * @param rootId - The ID of the message
+   * @returns Promise that resolves with the message
+   * @throws {ThreadNotFoundError} When the message isn't in this conversation
+   */
+  async #threadRoot(rootId: string) {
+    const root = await this.#client.conversations.getMessageById(rootId);
+    if (!root || root.conversationId !== this.#id) {
+      throw new ThreadNotFoundError(rootId);
+    }
+    return root;
+  }
+
+  /**
+   * Gets a message in this conversation and its replies, including replies
+   * to replies
+   *
+   * Replies are decoded with the client's codecs, so the `ReplyCodec` must
+   * be registered.
+   *
+   * @param rootMessageId - The ID of the message that started the thread
+   * @returns Promise that resolves with the thread
+   * @throws {ThreadNotFoundError} When the message isn't in this conversation
+   */
+  async thread(rootMessageId: string): Promise<Thread> {
+    const root = await this.#threadRoot(rootMessageId);
+    const index = new ThreadIndex();
+    // replies are always sent after the messages they reference
+    await this.#loadReplies(index, root.sentAtNs);
+    return {
+      ...index.summary(root.id),
+      root,
+      replies: index.repliesTo(root.id),
+    };
+  }
+
+  /**
+   * Gets the reply counts and last reply times of the threads in this
+   * conversation
+   *
+   * @returns Promise that resolves with the thread summaries, keyed by the
+   * ID of the message that started each thread
+   */
+  async threadSummaries(): Promise<Map<string, ThreadSummary>> {
+    const index = new ThreadIndex();
+    await this.#loadReplies(index);
+    return index.summaries();
+  }
+
+  /**
+   * Creates a stream for new replies in the thread of a message in this
+   * conversation, including replies to replies
+   *
+   * @param rootMessageId - The ID of the message that started the thread
+   * @param callback - Optional callback function for handling new replies
+   * @param options - Optional buffering options for the stream
+   * @returns AsyncStream instance for new replies
+   * @throws {ThreadNotFoundError} When the message isn't in this conversation
+   */
+  async streamThread(
+    rootMessageId: string,
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
+    const root = await this.#threadRoot(rootMessageId);
+    const asyncStream = new AsyncStream<DecodedMessage>(options);
+    const index = new ThreadIndex();
+
+    const deliver = (error: Error | null, message?: DecodedMessage) => {
+      void asyncStream.callback(error, message);
+      void callback?.(error, message);
+    };
+
+    // existing replies are loaded first so that replies to them are
+    // recognized as part of the thread
+    let indexing = this.#loadReplies(index, root.sentAtNs).catch(
+      (error: unknown) => {
+        deliver(error as Error);
+      },
+    );
+
+    const stream = await this.stream(
+      (error, message) => {
+        if (error) {
+          deliver(error);
+          return;
+        }
+        if (!message || !isReply(message.contentType)) {
+          return;
+        }
+        indexing = indexing.then(() => {
+          if (index.add(message) && index.inThread(message.id, root.id)) {
+            deliver(null, message);
+          }
+        });
       },
+      // messages are only handled in the callback, so they aren't buffered
+      { highWaterMark: 0, overflow: "drop-newest" },
     );
-    await this.#client.sendMessage("streamGroupMessages", {
-      groupId: this.#id,
-      streamId,
+
+    asyncStream.onReturn = () => {
+      void stream.return(undefined);
+    };
+
+    return asyncStream;
+  }
+
+  /**
+   * Creates a stream for when other members start and stop typing in this
+   * conversation
+   *
+   * Members are considered to have stopped typing when they send a message
+   * or when their last typing indicator expires.
+   *
+   * @param callback - Optional callback function for handling typing events
+   * @param options - Optional buffering options for the stream
+   * @returns AsyncStream instance for typing events
+   */
+  async streamTyping(
+    callback?: StreamCallback<TypingEvent>,
+    options?: StreamOptions,
+  ) {
+    const asyncStream = new AsyncStream<TypingEvent>(options);
+
+    const deliver = (error: Error | null, event?: TypingEvent) => {
+      void asyncStream.callback(error, event);
+      void callback?.(error, event);
+    };
+
+    const tracker = new TypingTracker((event) => {
+      deliver(null, event);
     });
+
+    const stream = await this.stream(
+      (error, message) => {
+        if (error) {
+          deliver(error);
+          return;
+        }
+        if (message && message.senderInboxId !== this.#client.inboxId) {
+          tracker.add(message);
+        }
+      },
+      // messages are only handled in the callback, so they aren't buffered
+      { highWaterMark: 0, overflow: "drop-newest" },
+    );
+
     asyncStream.onReturn = () => {
-      void this.#client.sendMessage("endStream", {
-        streamId,
-      });
-      endStream();
+      tracker.clear();
+      void stream.return(undefined);
     };
+
     return asyncStream;
   }
 
+  /**
+   * Gets the latest read receipt of each member
+   *
+   * @returns Promise that resolves with the read states by inbox ID
+   */
+  async #readStates() {
+    const messages = await this.#findMessages({
+      contentTypes: [ContentType.ReadReceipt],
+    });
+    return readStates(messages);
+  }
+
+  /**
+   * Sends a read receipt to this conversation
+   *
+   * Read receipts are encoded with the client's codecs, so the
+   * `ReadReceiptCodec` must be registered. No receipt is sent when there are
+   * no messages from other members since the last receipt, or when the last
+   * receipt was sent less than 5 seconds ago.
+   *
+   * @returns Promise that resolves with the ID of the read receipt message,
+   * or `undefined` if no receipt was sent
+   * @throws {ClientNotInitializedError} if the client isn't initialized
+   */
+  async markRead(): Promise<string | undefined> {
+    const inboxId = this.#client.inboxId;
+    if (!inboxId) {
+      throw new ClientNotInitializedError();
+    }
+    const readState = (await this.#readStates()).get(inboxId);
+    if (readState) {
+      if (Date.now() - readState.readAt.getTime() < READ_RECEIPT_INTERVAL_MS) {
+        return undefined;
+      }
+      const messages = await this.#findMessages({
+        sentAfterNs: readState.readAtNs,
+      });
+      if (!messages.some((message) => isUnread(message, inboxId))) {
+        return undefined;
+      }
+    }
+    return this.send({}, ContentTypeReadReceipt);
+  }
+
+  /**
+   * Gets when a member last sent a read receipt to this conversation
+   *
+   * @param inboxId - The inbox ID of the member
+   * @returns Promise that resolves with the read state of the member, or
+   * `undefined` if they haven't sent a read receipt
+   */
+  async readStateFor(inboxId: string): Promise<ReadState | undefined> {
+    return (await this.#readStates()).get(inboxId);
+  }
+
+  /**
+   * Counts the messages from other members that were sent after the last
+   * read receipt of the client
+   *
+   * @returns Promise that resolves with the number of unread messages
+   * @throws {ClientNotInitializedError} if the client isn't initialized
+   */
+  async unreadCount() {
+    const inboxId = this.#client.inboxId;
+    if (!inboxId) {
+      throw new ClientNotInitializedError();
+    }
+    const readState = (await this.#readStates()).get(inboxId);
+    const messages = await this.#findMessages({
+      sentAfterNs: readState?.readAtNs,
+    });
+    return messages.filter((message) => isUnread(message, inboxId)).length;
+  }
+
   async pausedForVersion() {
     return this.#client.sendMessage("getGroupPausedForVersion", {
       id: this.#id,
@@ -1,14 +1,20 @@
 import {
   ConversationType,
+  SortDirection,
   type ConsentState,
   type Identifier,
 } from "@xmtp/wasm-bindings";
 import { v4 } from "uuid";
-import { AsyncStream, type StreamCallback } from "@/AsyncStream";
+import {
+  AsyncStream,
+  type StreamCallback,
+  type StreamOptions,
+} from "@/AsyncStream";
 import type { Client } from "@/Client";
 import { DecodedMessage } from "@/DecodedMessage";
 import { Dm } from "@/Dm";
 import { Group } from "@/Group";
+import { SearchIndex, type SearchMessagesOptions } from "@/SearchIndex";
 import type {
   SafeConversation,
   SafeCreateDmOptions,
@@ -16,6 +22,8 @@ import type {
   SafeListConversationsOptions,
   SafeMessage,
 } from "@/utils/conversions";
+import { mentionsInbox } from "@/utils/mentions";
+import { StreamCursor } from "@/utils/streams";
 
 /**
  * Manages conversations
@@ -24,6 +32,7 @@ import type {
  */
 export class Conversations {
   #client: Client;
+  #searchIndex = new SearchIndex();
 
   /**
    * Creates a new conversations instance
@@ -82,9 +91,12 @@ export class Conversations {
    * @returns Promise that resolves with the decoded message, if found
    */
   async getMessageById(id: string) {
-    const data = await this.#client.sendMessage("getMessageById", {
-      id,
-    });
+    const data =
+      (await this.#client.sendMessage("getMessageById", {
+        id,
+      })) ??
+      // messages imported from an archive aren't in the local DB
+      this.#client.importedMessages.get(id);
     return data ? new DecodedMessage(this.#client, data) : undefined;
   }
 
@@ -119,6 +131,27 @@ export class Conversations {
     );
   }
 
+  /**
+   * Counts the unread messages of each conversation
+   *
+   * Messages are unread when they were sent by other members after the last
+   * read receipt of the client.
+   *
+   * @param options - Optional filtering and pagination options
+   * @returns Promise that resolves with the number of unread messages by
+   * conversation ID
+   */
+  async unreadCounts(options?: SafeListConversationsOptions) {
+    const conversations = await this.list(options);
+    const counts = await Promise.all(
+      conversations.map(
+        async (conversation) =>
+          [conversation.id, await conversation.unreadCount()] as const,
+      ),
+    );
+    return Object.fromEntries(counts) as Record<string, number>;
+  }
+
   /**
    * Lists all group conversations with optional filtering
    *
@@ -313,39 +346,87 @@ export class Conversations {
    *
    * @param callback - Optional callback function for handling new stream value
    * @param conversationType - Optional conversation type to filter messages
+   * @param options - Optional buffering options for the stream
    * @returns AsyncStream instance for new messages
    */
   async streamAllMessages(
     callback?: StreamCallback<DecodedMessage>,
     conversationType?: ConversationType,
+    options?: StreamOptions,
   ) {
-    const streamId = v4();
-    const asyncStream = new AsyncStream<DecodedMessage>();
-    const endStream = this.#client.handleStreamMessage<SafeMessage>(
-      streamId,
-      (error, value) => {
-        if (error) {
-          void asyncStream.callback(error, undefined);
-          void callback?.(error, undefined);
+    const asyncStream = new AsyncStream<DecodedMessage>(options);
+    const cursor = new StreamCursor();
+
+    const deliver = (decodedMessage: DecodedMessage | undefined) => {
+      // skip messages that were already delivered before pausing
+      if (decodedMessage && !cursor.track(decodedMessage)) {
+        return;
+      }
+      void asyncStream.callback(null, decodedMessage);
+      void callback?.(null, decodedMessage);
+    };
+
+    const startStream = async () => {
+      const streamId = v4();
+      const endStream = this.#client.handleStreamMessage<SafeMessage>(
+        streamId,
+        (error, value) => {
+          if (error) {
+            void asyncStream.callback(error, undefined);
+            void callback?.(error, undefined);
+            return;
+          }
+
+          deliver(value ? new DecodedMessage(this.#client, value) : undefined);
+        },
+      );
+      await this.#client.sendMessage("streamAllMessages", {
+        streamId,
+        conversationType,
+      });
+      let ended = false;
+      return () => {
+        if (ended) {
           return;
         }
+        ended = true;
+        void this.#client.sendMessage("endStream", {
+          streamId,
+        });
+        endStream();
+      };
+    };
+
+    let stopStream = await startStream();
 
-        const decodedMessage = value
-          ? new DecodedMessage(this.#client, value)
-          : undefined;
-        void asyncStream.callback(null, decodedMessage);
-        void callback?.(null, decodedMessage);
-      },
-    );
-    await this.#client.sendMessage("streamAllMessages", {
-      streamId,
-      conversationType,
-    });
     asyncStream.onReturn = () => {
-      void this.#client.sendMessage("endStream", {
-        streamId,
-      });
-      endStream();
+      stopStream();
+    };
+    asyncStream.onPause = () => {
+      stopStream();
+    };
+    asyncStream.onResume = async () => {
+      // start streaming before catching up so that no messages are missed
+      stopStream = await startStream();
+      await this.syncAll();
+      let conversations: (Group | Dm)[];
+      switch (conversationType) {
+        case ConversationType.Group:
+          conversations = await this.listGroups();
+          break;
+        case ConversationType.Dm:
+          conversations = await this.listDms();
+          break;
+        default:
+          conversations = await this.list();
+      }
+      for (const conversation of conversations) {
+        const messages = await conversation.messages({
+          sentAfterNs: cursor.after(conversation.id),
+          direction: SortDirection.Ascending,
+        });
+        messages.forEach(deliver);
+      }
     };
     return asyncStream;
   }
@@ -354,19 +435,123 @@ export class Conversations {
    * Creates a stream for all new group messages
    *
    * @param callback - Optional callback function for handling new stream value
+   * @param options - Optional buffering options for the stream
    * @returns AsyncStream instance for new group messages
    */
-  async streamAllGroupMessages(callback?: StreamCallback<DecodedMessage>) {
-    return this.streamAllMessages(callback, ConversationType.Group);
+  async streamAllGroupMessages(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
+    return this.streamAllMessages(callback, ConversationType.Group, options);
   }
 
   /**
    * Creates a stream for all new DM messages
    *
    * @param callback - Optional callback function for handling new stream value
+   * @param options - Optional buffering options for the stream
    * @returns AsyncStream instance for new DM messages
    */
-  async streamAllDmMessages(callback?: StreamCallback<DecodedMessage>) {
-    return this.streamAllMessages(callback, ConversationType.Dm);
+  async streamAllDmMessages(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
+    return this.streamAllMessages(callback, ConversationType.Dm, options);
+  }
+
+  /**
+   * Creates a stream for new messages from all conversations that mention
+   * this client's inbox
+   *
+   * @param callback - Optional callback function for handling new stream value
+   * @param options - Optional buffering options for the stream
+   * @returns AsyncStream instance for new messages that mention this inbox
+   */
+  async streamMentions(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
+    const asyncStream = new AsyncStream<DecodedMessage>(options);
+
+    const deliver = (error: Error | null, message?: DecodedMessage) => {
+      void asyncStream.callback(error, message);
+      void callback?.(error, message);
+    };
+
+    const stream = await this.streamAllMessages(
+      (error, message) => {
+        if (error) {
+          deliver(error);
+          return;
+        }
+        const inboxId = this.#client.inboxId;
+        if (message && inboxId && mentionsInbox(message, inboxId)) {
+          deliver(null, message);
+        }
+      },
+      undefined,
+      // messages are only handled in the callback, so they aren't buffered
+      { highWaterMark: 0, overflow: "drop-newest" },
+    );
+
+    asyncStream.onReturn = () => {
+      void stream.return(undefined);
+    };
+
+    return asyncStream;
+  }
+
+  /**
+   * Searches the text of local messages
+   *
+   * Messages are added to a local index when they're first searched, later
+   * searches only index new messages. Edits and deletes are applied to the
+   * messages they reference. Sync conversations first to include messages
+   * from the network.
+   *
+   * @param query - The text to search for, each word is matched as a prefix
+   * @param options - Optional filters and result limit
+   * @returns Promise that resolves with the matching messages, best matches
+   * first
+   */
+  async searchMessages(query: string, options?: SearchMessagesOptions) {
+    const conversationIds =
+      options?.conversationIds ??
+      (await this.list()).map((conversation) => conversation.id);
+
+    for (const conversationId of conversationIds) {
+      await this.#indexMessages(conversationId);
+    }
+
+    return this.#searchIndex.search(query, options);
+  }
+
+  async #indexMessages(conversationId: string) {
+    const limit = 100n;
+    let done = false;
+    while (!done) {
+      const cursor = this.#searchIndex.cursor(conversationId);
+      const messages = await this.#client.sendMessage("getGroupMessages", {
+        id: conversationId,
+        options: {
+          // messages at the cursor are fetched again, but only indexed once
+          sentAfterNs: cursor !== undefined ? cursor - 1n : undefined,
+          direction: SortDirection.Ascending,
+          limit,
+        },
+      });
+      for (const message of messages) {
+        try {
+          this.#searchIndex.add(new DecodedMessage(this.#client, message));
+        } catch {
+          // messages that can't be decoded aren't searchable
+          this.#searchIndex.advance(conversationId, message.sentAtNs);
+        }
+      }
+      // stop when all messages were fetched or the cursor didn't move
+      done =
+        BigInt(messages.length) < limit ||
+        this.#searchIndex.cursor(conversationId) === cursor;
+    }
   }
 }
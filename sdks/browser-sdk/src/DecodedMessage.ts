@@ -1,7 +1,9 @@
+import type { Ephemeral } from "@xmtp/content-type-ephemeral";
 import type { ContentTypeId } from "@xmtp/content-type-primitives";
 import { DeliveryStatus, GroupMessageKind } from "@xmtp/wasm-bindings";
 import type { Client } from "@/Client";
 import { fromSafeContentTypeId, type SafeMessage } from "@/utils/conversions";
+import { isEphemeral, purgeReason, type PurgeReason } from "@/utils/ephemeral";
 
 export type MessageKind = "application" | "membership_change";
 export type MessageDeliveryStatus = "unpublished" | "published" | "failed";
@@ -16,12 +18,20 @@ export type MessageDeliveryStatus = "unpublished" | "published" | "failed";
  * @property {any} content - The decoded content of the message
  * @property {ContentTypeId} contentType - The content type of the message content
  * @property {string} conversationId - Unique identifier for the conversation
+ * @property {Date} [deletedAt] - When the message was deleted, only set when messages are reconciled, deleted messages have no content
+ * @property {bigint} [deletedAtNs] - When the message was deleted (in nanoseconds)
  * @property {MessageDeliveryStatus} deliveryStatus - Current delivery status of the message ("unpublished" | "published" | "failed")
+ * @property {Date} [editedAt] - When the message was last edited, only set when messages are reconciled
+ * @property {bigint} [editedAtNs] - When the message was last edited (in nanoseconds)
+ * @property {Error} [decodeError] - Error thrown while decoding the content, only set when the client's `decodeErrorMode` is `"fallback"`
  * @property {string} [fallback] - Optional fallback text for the message
  * @property {number} [compression] - Optional compression level applied to the message
  * @property {string} id - Unique identifier for the message
  * @property {MessageKind} kind - Type of message ("application" | "membership_change")
+ * @property {any} [originalContent] - Content of an edited message before its first edit, only set when messages are reconciled with `includeOriginal`
+ * @property {ContentTypeId} [originalContentType] - Content type of the original content
  * @property {Map<string, string>} parameters - Additional parameters associated with the message
+ * @property {PurgeReason} [purged] - Why the content of an ephemeral message was purged, only set when it has been viewed or has expired, purged messages have no content
  * @property {SafeMessage["content"]} encodedContent - Raw encoded content of the message
  * @property {string} senderInboxId - Identifier for the sender's inbox
  * @property {bigint} sentAtNs - Timestamp when the message was sent (in nanoseconds)
@@ -31,12 +41,20 @@ export class DecodedMessage {
   content: any;
   contentType: ContentTypeId;
   conversationId: string;
+  decodeError?: Error;
+  deletedAt?: Date;
+  deletedAtNs?: bigint;
   deliveryStatus: MessageDeliveryStatus;
+  editedAt?: Date;
+  editedAtNs?: bigint;
   fallback?: string;
   compression?: number;
   id: string;
   kind: MessageKind;
+  originalContent?: any;
+  originalContentType?: ContentTypeId;
   parameters: Map<string, string>;
+  purged?: PurgeReason;
   encodedContent: SafeMessage["content"];
   senderInboxId: string;
   sentAtNs: bigint;
@@ -76,7 +94,33 @@ export class DecodedMessage {
     this.parameters = new Map(Object.entries(message.content.parameters));
     this.fallback = message.content.fallback;
     this.compression = message.content.compression;
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-    this.content = this.#client.decodeContent(message, this.contentType);
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      this.content = this.#client.decodeContent(message, this.contentType);
+    } catch (error) {
+      this.#client.middleware.decodeError(error as Error, this);
+      if (this.#client.decodeErrorMode === "throw") {
+        throw error;
+      }
+      this.content = undefined;
+      this.decodeError = error as Error;
+      return;
+    }
+    // purged content is dropped before it reaches the decode middleware
+    if (isEphemeral(this.contentType) && this.content !== undefined) {
+      this.purged = purgeReason(
+        this.id,
+        this.content as Ephemeral,
+        this.#client.viewedMessages,
+      );
+      if (this.purged) {
+        this.content = undefined;
+        this.encodedContent = {
+          ...this.encodedContent,
+          content: new Uint8Array(),
+        };
+      }
+    }
+    this.#client.middleware.decode(this);
   }
 }
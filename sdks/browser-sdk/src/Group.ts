@@ -6,7 +6,13 @@ import type {
 } from "@xmtp/wasm-bindings";
 import type { Client } from "@/Client";
 import { Conversation } from "@/Conversation";
+import type { CreateInviteOptions } from "@/Invites";
 import type { SafeConversation } from "@/utils/conversions";
+import {
+  findMentions,
+  type MentionCandidate,
+  type ResolvedMentions,
+} from "@/utils/mentions";
 
 /**
  * Represents a group conversation between multiple inboxes
@@ -303,4 +309,55 @@ export class Group extends Conversation {
       inboxId,
     });
   }
+
+  /**
+   * Creates an invite link to this group
+   *
+   * The returned token can be shared with prospective members, who send it
+   * to this client in a DM to join, see `Client.invites`.
+   *
+   * @param options - Optional expiration and maximum number of uses
+   * @returns Promise that resolves with the invite
+   */
+  async createInvite(options?: CreateInviteOptions) {
+    return this.#client.invites.create(this, options);
+  }
+
+  /**
+   * Resolves `@name` tokens in a text to mentions of the members of this
+   * group
+   *
+   * Members are mentioned by their inbox ID or any of their identifiers,
+   * e.g. `@0x1234…`, or by the names in `names`, keyed by inbox ID. Names
+   * that match more than one member aren't resolved.
+   *
+   * @param text - The text to resolve mentions in
+   * @param names - Optional display names of members by inbox ID
+   * @returns Promise that resolves with the text and its mentions
+   */
+  async resolveMentions(
+    text: string,
+    names?: Record<string, string>,
+  ): Promise<ResolvedMentions> {
+    const members = await this.members();
+    const inboxStates = await this.#client.preferences.inboxStateFromInboxIds(
+      members.map((member) => member.inboxId),
+    );
+    const identifiers = new Map(
+      inboxStates.map((state) => [
+        state.inboxId,
+        state.accountIdentifiers.map(({ identifier }) => identifier),
+      ]),
+    );
+    const candidates: MentionCandidate[] = members.map((member) => ({
+      inboxId: member.inboxId,
+      names: [
+        member.inboxId,
+        ...member.accountIdentifiers.map(({ identifier }) => identifier),
+        ...(identifiers.get(member.inboxId) ?? []),
+        ...(names?.[member.inboxId] ? [names[member.inboxId]] : []),
+      ],
+    }));
+    return { text, mentions: findMentions(text, candidates) };
+  }
 }
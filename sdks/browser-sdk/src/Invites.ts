@@ -0,0 +1,352 @@
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { v4 } from "uuid";
+import type { Client } from "@/Client";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { Dm } from "@/Dm";
+import { Group } from "@/Group";
+import {
+  ClientNotInitializedError,
+  GroupNotFoundError,
+  InvalidInviteError,
+  InvalidInviteMaxUsesError,
+  InviteExpiredError,
+  InviteNotFoundError,
+  InvitePermissionError,
+  InviteUsedUpError,
+} from "@/utils/errors";
+import { getAll, openDatabase, put, remove } from "@/utils/indexedDb";
+import {
+  canAddMembers,
+  decodeInviteToken,
+  encodeInvitePayload,
+  encodeInviteToken,
+  INVITE_TOKEN_VERSION,
+  inviteSignatureText,
+} from "@/utils/invites";
+
+export type CreateInviteOptions = {
+  /**
+   * When the invite can no longer be redeemed
+   */
+  expiresAt?: Date;
+  /**
+   * How many members can join with the invite
+   */
+  maxUses?: number;
+};
+
+export type GroupInvite = {
+  /**
+   * Local ID of the invite
+   */
+  id: string;
+  groupId: string;
+  /**
+   * Signed token that prospective members send to redeem the invite
+   */
+  token: string;
+  expiresAt?: Date;
+  maxUses?: number;
+  /**
+   * How many members joined with the invite
+   */
+  uses: number;
+  createdAt: Date;
+};
+
+export type InviteRedemption = {
+  invite: GroupInvite;
+  group: Group;
+  /**
+   * Whether the inbox was added, `false` when it already was a member
+   */
+  added: boolean;
+};
+
+/**
+ * Gets the name of the invites store of a local DB
+ *
+ * @param dbPath - The path of the local DB
+ * @returns The name of the IndexedDB database
+ */
+export const invitesStoreNameFor = (dbPath: string) => `${dbPath}.invites`;
+
+/**
+ * Manages invite links to groups
+ *
+ * Invites are created with `Group.createInvite` and stored in an IndexedDB
+ * database named after the local DB. Without a local DB, invites are only
+ * kept in memory. Their tokens are signed with the installation key, so they
+ * can only be redeemed by the installation that created them. Prospective
+ * members send a token in a DM with `join`, and the inviter redeems it with
+ * `handleMessage` or `redeem`.
+ */
+export class Invites {
+  #client: Client;
+  #invites = new Map<string, GroupInvite>();
+  #database: Promise<IDBDatabase | undefined> | undefined;
+
+  /**
+   * Creates a new invites instance
+   *
+   * @param client - The client instance
+   */
+  constructor(client: Client) {
+    this.#client = client;
+  }
+
+  /**
+   * Loads the stored invites
+   *
+   * @param storeName - The name of the IndexedDB database, `null` to only
+   * keep invites in memory
+   */
+  load(storeName: string | null) {
+    this.#database ??= (async () => {
+      if (storeName === null) {
+        return undefined;
+      }
+
+      const database = await openDatabase(storeName);
+      const stored = await getAll<GroupInvite>(database);
+      for (const invite of stored) {
+        this.#invites.set(invite.id, invite);
+      }
+
+      return database;
+    })();
+    return this.#database;
+  }
+
+  /**
+   * Creates an invite to a group
+   *
+   * Members are only added with the invite while the group's permission
+   * policy allows this inbox to add members.
+   *
+   * @param group - The group to invite members to
+   * @param options - Optional expiration and maximum number of uses
+   * @returns Promise that resolves with the invite
+   * @throws {InvalidInviteMaxUsesError} When `maxUses` isn't a positive integer
+   */
+  async create(group: Group, options?: CreateInviteOptions) {
+    if (
+      options?.maxUses !== undefined &&
+      (!Number.isInteger(options.maxUses) || options.maxUses < 1)
+    ) {
+      throw new InvalidInviteMaxUsesError(options.maxUses);
+    }
+
+    const database = await this.#loaded();
+    const id = v4();
+    const encodedPayload = encodeInvitePayload({
+      version: INVITE_TOKEN_VERSION,
+      id,
+      groupId: group.id,
+      inviterInboxId: this.#client.inboxId as string,
+      expiresAt: options?.expiresAt?.toISOString(),
+      maxUses: options?.maxUses,
+    });
+    const signature = await this.#client.signWithInstallationKey(
+      inviteSignatureText(encodedPayload),
+    );
+    const invite: GroupInvite = {
+      id,
+      groupId: group.id,
+      token: encodeInviteToken(encodedPayload, signature),
+      expiresAt: options?.expiresAt,
+      maxUses: options?.maxUses,
+      uses: 0,
+      createdAt: new Date(),
+    };
+    this.#invites.set(id, invite);
+    await this.#save(database, invite);
+
+    return { ...invite };
+  }
+
+  /**
+   * Gets an invite
+   *
+   * @param id - The ID of the invite
+   * @returns Promise that resolves with the invite, if it exists
+   */
+  async get(id: string) {
+    await this.#loaded();
+    const invite = this.#invites.get(id);
+    return invite ? { ...invite } : undefined;
+  }
+
+  /**
+   * Lists invites
+   *
+   * @param groupId - Optional group ID to only list the invites to a group
+   * @returns Promise that resolves with the invites, oldest first
+   */
+  async list(groupId?: string) {
+    await this.#loaded();
+    return Array.from(this.#invites.values())
+      .filter((invite) => groupId === undefined || invite.groupId === groupId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((invite) => ({ ...invite }));
+  }
+
+  /**
+   * Revokes an invite, its token can no longer be redeemed
+   *
+   * @param id - The ID of the invite
+   * @throws {InviteNotFoundError} When the invite doesn't exist
+   */
+  async revoke(id: string) {
+    const database = await this.#loaded();
+    if (!this.#invites.delete(id)) {
+      throw new InviteNotFoundError(id);
+    }
+    if (database) {
+      await remove(database, id);
+    }
+  }
+
+  /**
+   * Sends an invite token to the inviter in a DM, asking to join the group
+   *
+   * @param token - The invite token or a join link that ends with one
+   * @returns Promise that resolves with the DM with the inviter
+   * @throws {InvalidInviteError} When the text isn't an invite token
+   */
+  async join(token: string) {
+    const decoded = decodeInviteToken(token);
+    if (!decoded) {
+      throw new InvalidInviteError();
+    }
+    const dm = await this.#client.conversations.newDm(
+      decoded.payload.inviterInboxId,
+    );
+    await dm.send(token.trim());
+    return dm;
+  }
+
+  /**
+   * Redeems an invite token, adding an inbox to the group
+   *
+   * @param token - The invite token or a join link that ends with one
+   * @param inboxId - The inbox ID to add to the group
+   * @returns Promise that resolves with the redemption
+   * @throws {InvalidInviteError} When the token wasn't signed by this
+   * installation
+   * @throws {InviteNotFoundError} When the invite was revoked
+   * @throws {InviteExpiredError} When the invite has expired
+   * @throws {InviteUsedUpError} When the invite has no uses left
+   * @throws {InvitePermissionError} When the group's permission policy
+   * doesn't allow this inbox to add members
+   */
+  async redeem(token: string, inboxId: string): Promise<InviteRedemption> {
+    const decoded = decodeInviteToken(token);
+    if (
+      !decoded ||
+      !(await this.#client.verifySignedWithInstallationKey(
+        decoded.signatureText,
+        decoded.signature,
+      ))
+    ) {
+      throw new InvalidInviteError();
+    }
+
+    const database = await this.#loaded();
+    const { id } = decoded.payload;
+    const invite = this.#invites.get(id);
+    if (!invite) {
+      throw new InviteNotFoundError(id);
+    }
+    if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+      throw new InviteExpiredError(id);
+    }
+
+    const group = await this.#client.conversations.getConversationById(
+      invite.groupId,
+    );
+    if (!(group instanceof Group)) {
+      throw new GroupNotFoundError(invite.groupId);
+    }
+    await group.sync();
+
+    const members = await group.members();
+    if (members.some((member) => member.inboxId === inboxId)) {
+      return { invite: { ...invite }, group, added: false };
+    }
+
+    const self = this.#client.inboxId as string;
+    const [permissions, isAdmin, isSuperAdmin] = await Promise.all([
+      group.permissions(),
+      group.isAdmin(self),
+      group.isSuperAdmin(self),
+    ]);
+    if (
+      !canAddMembers(
+        permissions.policySet.addMemberPolicy,
+        isAdmin,
+        isSuperAdmin,
+      )
+    ) {
+      throw new InvitePermissionError(group.id);
+    }
+
+    // the use is counted before adding the member so that concurrent
+    // redemptions can't exceed the maximum
+    if (invite.maxUses !== undefined && invite.uses >= invite.maxUses) {
+      throw new InviteUsedUpError(id);
+    }
+    invite.uses += 1;
+    await this.#save(database, invite);
+    try {
+      await group.addMembers([inboxId]);
+    } catch (error) {
+      invite.uses -= 1;
+      await this.#save(database, invite);
+      throw error;
+    }
+
+    return { invite: { ...invite }, group, added: true };
+  }
+
+  /**
+   * Redeems an invite token sent by another inbox in a DM
+   *
+   * @param message - The message to handle
+   * @returns Promise that resolves with the redemption, or `undefined` when
+   * the message isn't an invite token sent in a DM
+   */
+  async handleMessage(
+    message: DecodedMessage,
+  ): Promise<InviteRedemption | undefined> {
+    if (
+      message.senderInboxId === this.#client.inboxId ||
+      !message.contentType.sameAs(ContentTypeText) ||
+      typeof message.content !== "string" ||
+      !decodeInviteToken(message.content)
+    ) {
+      return undefined;
+    }
+    const conversation = await this.#client.conversations.getConversationById(
+      message.conversationId,
+    );
+    if (!(conversation instanceof Dm)) {
+      return undefined;
+    }
+    return this.redeem(message.content, message.senderInboxId);
+  }
+
+  // invites are loaded when the client is initialized
+  #loaded() {
+    if (!this.#database) {
+      throw new ClientNotInitializedError();
+    }
+    return this.#database;
+  }
+
+  async #save(database: IDBDatabase | undefined, invite: GroupInvite) {
+    if (database) {
+      await put(database, invite);
+    }
+  }
+}
@@ -0,0 +1,199 @@
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import type { Conversation } from "@/Conversation";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { SendCancelledError } from "@/utils/errors";
+
+export type SendContent = {
+  content: any;
+  contentType: ContentTypeId;
+};
+
+/**
+ * Result of a `beforeSend` hook
+ *
+ * - `undefined`: send the content unchanged
+ * - `SendContent`: send the returned content instead
+ * - `false`: cancel the send, skipping the remaining middleware
+ */
+export type BeforeSendResult = SendContent | false | undefined;
+
+/**
+ * Hooks that run around sending and decoding messages
+ *
+ * Middleware runs in the order it was registered. The `beforeSend` and
+ * `onSendError` hooks run for messages sent with `Conversation.send` and
+ * stored with `Conversation.sendOptimistic`, including messages sent with the
+ * outbox. The `afterSend` hooks run once a message was published by
+ * `Conversation.send` or the outbox, not when messages stored with
+ * `Conversation.sendOptimistic` are published with `publishMessages`.
+ * The `beforeSend` hooks of scheduled messages run when they are scheduled,
+ * see `Scheduler`.
+ */
+export type Middleware = {
+  /**
+   * Called before content is encoded and sent, can rewrite the content or
+   * cancel the send
+   */
+  beforeSend?: (
+    content: any,
+    contentType: ContentTypeId,
+    conversation: Conversation,
+    // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+  ) => BeforeSendResult | void | Promise<BeforeSendResult | void>;
+  /**
+   * Called after a message was sent, errors don't fail the send and are
+   * passed to the `onAfterSendError` hooks
+   */
+  afterSend?: (
+    messageId: string,
+    conversation: Conversation,
+  ) => void | Promise<void>;
+  /**
+   * Called when an `afterSend` hook fails
+   */
+  onAfterSendError?: (
+    error: Error,
+    messageId: string,
+    conversation: Conversation,
+  ) => void;
+  /**
+   * Called when sending fails, including when the send was cancelled
+   */
+  onSendError?: (
+    error: Error,
+    content: any,
+    contentType: ContentTypeId,
+    conversation: Conversation,
+  ) => void | Promise<void>;
+  /**
+   * Called after a message was decoded, can modify the message
+   */
+  onDecode?: (message: DecodedMessage) => void;
+  /**
+   * Called when decoding a message fails, before its content is set
+   */
+  onDecodeError?: (error: Error, message: DecodedMessage) => void;
+};
+
+/**
+ * Runs registered middleware hooks in order
+ *
+ * This class is not intended to be initialized directly.
+ */
+export class MiddlewarePipeline {
+  #middleware: Middleware[];
+
+  /**
+   * Creates a new middleware pipeline
+   *
+   * @param middleware - Middleware to run, in order
+   */
+  constructor(middleware: Middleware[] = []) {
+    this.#middleware = middleware;
+  }
+
+  /**
+   * Runs the `beforeSend` hooks
+   *
+   * @param content - The content to send
+   * @param contentType - The content type of the content
+   * @param conversation - The conversation the content is sent to
+   * @returns Promise that resolves with the content to send
+   * @throws {SendCancelledError} if a middleware cancels the send
+   */
+  async beforeSend(
+    content: any,
+    contentType: ContentTypeId,
+    conversation: Conversation,
+  ): Promise<SendContent> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    let result: SendContent = { content, contentType };
+    for (const middleware of this.#middleware) {
+      if (!middleware.beforeSend) {
+        continue;
+      }
+      const next = await middleware.beforeSend(
+        result.content,
+        result.contentType,
+        conversation,
+      );
+      if (next === false) {
+        throw new SendCancelledError();
+      }
+      if (next) {
+        result = next;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Runs the `afterSend` hooks
+   *
+   * @param messageId - The ID of the sent message
+   * @param conversation - The conversation the message was sent to
+   */
+  async afterSend(messageId: string, conversation: Conversation) {
+    for (const middleware of this.#middleware) {
+      try {
+        await middleware.afterSend?.(messageId, conversation);
+      } catch (error) {
+        // the message was already sent, failing the send would invite
+        // sending it again
+        this.#afterSendError(error as Error, messageId, conversation);
+      }
+    }
+  }
+
+  /**
+   * Runs the `onSendError` hooks
+   *
+   * @param error - The error that caused the send to fail
+   * @param content - The content that was being sent
+   * @param contentType - The content type of the content
+   * @param conversation - The conversation the content was sent to
+   */
+  async sendError(
+    error: Error,
+    content: any,
+    contentType: ContentTypeId,
+    conversation: Conversation,
+  ) {
+    for (const middleware of this.#middleware) {
+      await middleware.onSendError?.(error, content, contentType, conversation);
+    }
+  }
+
+  /**
+   * Runs the `onDecode` hooks
+   *
+   * @param message - The decoded message
+   */
+  decode(message: DecodedMessage) {
+    for (const middleware of this.#middleware) {
+      middleware.onDecode?.(message);
+    }
+  }
+
+  /**
+   * Runs the `onDecodeError` hooks
+   *
+   * @param error - The error that caused decoding to fail
+   * @param message - The message that failed to decode
+   */
+  decodeError(error: Error, message: DecodedMessage) {
+    for (const middleware of this.#middleware) {
+      middleware.onDecodeError?.(error, message);
+    }
+  }
+
+  #afterSendError(error: Error, messageId: string, conversation: Conversation) {
+    for (const middleware of this.#middleware) {
+      try {
+        middleware.onAfterSendError?.(error, messageId, conversation);
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
@@ -0,0 +1,224 @@
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import { v4 } from "uuid";
+import type { Client } from "@/Client";
+import { fromSafeEncodedContent } from "@/utils/conversions";
+import type {
+  SafeScheduledMessage,
+  ScheduledMessageStatus,
+} from "@/WorkerScheduler";
+
+export type ScheduledMessage = {
+  /**
+   * Local ID of the scheduled message, this is not the message ID
+   */
+  id: string;
+  conversationId: string;
+  /**
+   * Content of the message, `undefined` when there's no codec for its
+   * content type or when it can't be decoded
+   */
+  content: any;
+  contentType: ContentTypeId;
+  sendAt: Date;
+  status: ScheduledMessageStatus;
+  /**
+   * ID of the message, available once it has been sent
+   */
+  messageId?: string;
+  /**
+   * Error of the failed send
+   */
+  error?: Error;
+  createdAt: Date;
+};
+
+export type ScheduledMessageStatusListener = (
+  message: ScheduledMessage,
+) => void;
+
+/**
+ * Manages messages scheduled with `Conversation.schedule`
+ *
+ * Scheduled messages are stored and sent by the client worker, so they are
+ * sent while the client is open, and after it's opened again when they
+ * became due in the meantime.
+ *
+ * Middleware can't run in the worker, so the `beforeSend` hooks run when a
+ * message is scheduled, and the `afterSend` and `onSendError` hooks run when
+ * the worker reports that it was sent or that sending it failed.
+ *
+ * This class is not intended to be initialized directly.
+ */
+export class Scheduler {
+  #client: Client;
+  #listeners = new Set<ScheduledMessageStatusListener>();
+
+  /**
+   * Creates a new scheduler instance
+   *
+   * @param client - The client instance that sends scheduled messages
+   */
+  constructor(client: Client) {
+    this.#client = client;
+  }
+
+  /**
+   * Starts sending scheduled messages from the client worker, including
+   * messages that became due while the client wasn't running
+   *
+   * This is not meant to be called directly, it's called when the client is
+   * initialized.
+   */
+  async start() {
+    const streamId = v4();
+    this.#client.handleStreamMessage<SafeScheduledMessage>(
+      streamId,
+      (error, value) => {
+        if (!error && value) {
+          void this.#handleStatusChange(value);
+        }
+      },
+    );
+    await this.#client.sendMessage("startScheduler", { streamId });
+  }
+
+  /**
+   * Converts a scheduled message from the worker, decoding its content
+   *
+   * @param message - The scheduled message from the worker
+   * @returns The scheduled message with decoded content
+   */
+  fromSafeScheduledMessage(message: SafeScheduledMessage): ScheduledMessage {
+    const encodedContent = fromSafeEncodedContent(message.content);
+    const codec = this.#client.codecFor(encodedContent.type);
+    let content: unknown;
+    try {
+      content = codec?.decode(encodedContent, this.#client);
+    } catch {
+      // the worker sends the encoded content, so the message is still sent
+    }
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      content,
+      contentType: encodedContent.type,
+      sendAt: message.sendAt,
+      status: message.status,
+      messageId: message.messageId,
+      error: message.error ? new Error(message.error) : undefined,
+      createdAt: message.createdAt,
+    };
+  }
+
+  /**
+   * Gets a scheduled message
+   *
+   * @param id - The ID of the scheduled message
+   * @returns Promise that resolves with the scheduled message, if found
+   */
+  async get(id: string) {
+    const message = await this.#client.sendMessage("getScheduledMessage", {
+      id,
+    });
+    return message ? this.fromSafeScheduledMessage(message) : undefined;
+  }
+
+  /**
+   * Lists messages that haven't been sent, in the order they will be sent
+   *
+   * @returns Promise that resolves with the scheduled messages
+   */
+  async list() {
+    const messages = await this.#client.sendMessage(
+      "getScheduledMessages",
+      undefined,
+    );
+    return messages.map((message) => this.fromSafeScheduledMessage(message));
+  }
+
+  /**
+   * Changes when a scheduled or failed message is sent
+   *
+   * @param id - The ID of the scheduled message
+   * @param sendAt - When to send the message
+   * @returns Promise that resolves with the rescheduled message
+   * @throws When the message is being sent
+   */
+  async reschedule(id: string, sendAt: Date) {
+    const message = await this.#client.sendMessage("rescheduleMessage", {
+      id,
+      sendAt,
+    });
+    return message ? this.fromSafeScheduledMessage(message) : undefined;
+  }
+
+  /**
+   * Removes a scheduled or failed message from the schedule
+   *
+   * @param id - The ID of the scheduled message
+   * @throws When the message is being sent
+   */
+  async cancel(id: string) {
+    return this.#client.sendMessage("cancelScheduledMessage", { id });
+  }
+
+  /**
+   * Sends scheduled messages that are due
+   */
+  async flush() {
+    return this.#client.sendMessage("flushScheduledMessages", undefined);
+  }
+
+  /**
+   * Registers a listener that is called whenever the status of a scheduled
+   * message changes
+   *
+   * @param listener - The function to call with the changed message
+   * @returns A function that removes the listener
+   */
+  onStatusChange(listener: ScheduledMessageStatusListener) {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  async #handleStatusChange(safeMessage: SafeScheduledMessage) {
+    const message = this.fromSafeScheduledMessage(safeMessage);
+    for (const listener of this.#listeners) {
+      // errors thrown by listeners don't affect sending
+      try {
+        listener(message);
+      } catch {
+        // ignore
+      }
+    }
+
+    if (message.status !== "sent" && message.status !== "failed") {
+      return;
+    }
+    // the message is already sent or failed, so errors of the hooks are
+    // ignored
+    try {
+      const conversation = await this.#client.conversations.getConversationById(
+        message.conversationId,
+      );
+      if (!conversation) {
+        return;
+      }
+      const middleware = this.#client.middleware;
+      if (message.messageId) {
+        await middleware.afterSend(message.messageId, conversation);
+      } else if (message.error) {
+        await middleware.sendError(
+          message.error,
+          message.content,
+          message.contentType,
+          conversation,
+        );
+      }
+    } catch {
+      // ignore
+    }
+  }
+}
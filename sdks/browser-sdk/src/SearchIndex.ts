@@ -0,0 +1,342 @@
+import type { Delete } from "@xmtp/content-type-delete";
+import type { Edit } from "@xmtp/content-type-edit";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { dateToNs } from "@/utils/date";
+import { isMessageUpdate, reconcileMessages } from "@/utils/reconcile";
+
+export type SearchMessagesOptions = {
+  /**
+   * Only search messages in these conversations
+   */
+  conversationIds?: string[];
+  /**
+   * Only search messages with these content types
+   */
+  contentTypes?: ContentTypeId[];
+  /**
+   * Only search messages from these senders
+   */
+  senders?: string[];
+  /**
+   * Only search messages sent at or after this date
+   */
+  from?: Date;
+  /**
+   * Only search messages sent at or before this date
+   */
+  to?: Date;
+  /**
+   * Maximum number of results (default: `50`)
+   */
+  limit?: number;
+};
+
+/**
+ * Range of matched text, `end` is exclusive
+ */
+export type SearchHighlight = {
+  start: number;
+  end: number;
+};
+
+export type SearchResult = {
+  message: DecodedMessage;
+  /**
+   * Text of the message that was searched
+   */
+  text: string;
+  /**
+   * Ranges of `text` that matched the query
+   */
+  highlights: SearchHighlight[];
+  score: number;
+};
+
+type Token = SearchHighlight & {
+  term: string;
+};
+
+type Document = {
+  message: DecodedMessage;
+  text: string;
+};
+
+type Match = {
+  score: number;
+  highlights: SearchHighlight[];
+};
+
+const getString = (value: unknown, key: string) => {
+  if (typeof value === "object" && value !== null && key in value) {
+    const field = (value as Record<string, unknown>)[key];
+    return typeof field === "string" ? field : undefined;
+  }
+  return undefined;
+};
+
+/**
+ * Gets the searchable text of a message
+ *
+ * Text messages are searched by their content, replies by their text content
+ * and attachments by their filename. Ephemeral messages aren't searchable, so
+ * their content can't be found after it's purged.
+ *
+ * @param message - The message to get the text of
+ * @returns The searchable text, if any
+ */
+export const extractSearchText = (message: DecodedMessage) => {
+  const contentType = message.contentType;
+  if (contentType.authorityId !== "xmtp.org") {
+    return undefined;
+  }
+  const content = message.content as unknown;
+  switch (contentType.typeId) {
+    case "text":
+      return typeof content === "string" ? content : undefined;
+    case "reply":
+      return getString(content, "content");
+    case "attachment":
+    case "remoteStaticAttachment":
+      return getString(content, "filename");
+    default:
+      return undefined;
+  }
+};
+
+/**
+ * Splits text into lowercase terms without diacritics, keeping the position
+ * of each term in the original text
+ *
+ * @param text - The text to split
+ * @returns Array of terms with their positions
+ */
+export const tokenize = (text: string): Token[] =>
+  Array.from(text.matchAll(/[\p{L}\p{N}]+/gu), (match) => ({
+    term: match[0].normalize("NFKD").replace(/\p{M}/gu, "").toLowerCase(),
+    start: match.index,
+    end: match.index + match[0].length,
+  }));
+
+const mergeHighlights = (highlights: SearchHighlight[]) =>
+  highlights
+    .sort((a, b) => a.start - b.start)
+    .reduce<SearchHighlight[]>((merged, highlight) => {
+      const last = merged.at(-1);
+      if (last && highlight.start <= last.end) {
+        last.end = Math.max(last.end, highlight.end);
+      } else {
+        merged.push({ ...highlight });
+      }
+      return merged;
+    }, []);
+
+/**
+ * In-memory full-text index of decoded messages
+ *
+ * Every term of a query must match a term of the message, either exactly or
+ * as a prefix. Exact matches and rare terms rank higher, ties are broken by
+ * the most recent message.
+ */
+export class SearchIndex {
+  #documents = new Map<string, Document>();
+  // term -> message ID -> positions of the term in the message text
+  #terms = new Map<string, Map<string, SearchHighlight[]>>();
+  // messages that no longer have searchable text after an edit or delete
+  #removed = new Set<string>();
+  // latest indexed message per conversation
+  #cursors = new Map<string, bigint>();
+
+  /**
+   * Gets the number of indexed messages
+   */
+  get size() {
+    return this.#documents.size;
+  }
+
+  /**
+   * Gets the sent time of the latest indexed message of a conversation
+   *
+   * @param conversationId - The ID of the conversation
+   * @returns The sent time in nanoseconds, if any messages were indexed
+   */
+  cursor(conversationId: string) {
+    return this.#cursors.get(conversationId);
+  }
+
+  /**
+   * Moves the cursor of a conversation past a message that wasn't indexed
+   *
+   * @param conversationId - The ID of the conversation
+   * @param sentAtNs - The sent time of the message in nanoseconds
+   */
+  advance(conversationId: string, sentAtNs: bigint) {
+    const cursor = this.#cursors.get(conversationId) ?? 0n;
+    if (sentAtNs > cursor) {
+      this.#cursors.set(conversationId, sentAtNs);
+    }
+  }
+
+  /**
+   * Adds a message to the index, messages without searchable text only
+   * advance the conversation's cursor
+   *
+   * Edits and deletes are applied to the indexed message they reference, so
+   * that text that was edited or deleted can't be found anymore.
+   *
+   * @param message - The message to add
+   */
+  add(message: DecodedMessage) {
+    this.advance(message.conversationId, message.sentAtNs);
+
+    if (isMessageUpdate(message.contentType)) {
+      this.#update(message);
+      return;
+    }
+    if (this.#documents.has(message.id) || this.#removed.has(message.id)) {
+      return;
+    }
+    this.#index(message);
+  }
+
+  #index(message: DecodedMessage) {
+    const text = extractSearchText(message);
+    if (text === undefined) {
+      return;
+    }
+
+    this.#documents.set(message.id, { message, text });
+    for (const { term, start, end } of tokenize(text)) {
+      let postings = this.#terms.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.#terms.set(term, postings);
+      }
+      const positions = postings.get(message.id) ?? [];
+      positions.push({ start, end });
+      postings.set(message.id, positions);
+    }
+  }
+
+  #remove(messageId: string) {
+    const document = this.#documents.get(messageId);
+    if (!document) {
+      return;
+    }
+
+    this.#documents.delete(messageId);
+    for (const { term } of tokenize(document.text)) {
+      const postings = this.#terms.get(term);
+      postings?.delete(messageId);
+      if (postings?.size === 0) {
+        this.#terms.delete(term);
+      }
+    }
+  }
+
+  #update(update: DecodedMessage) {
+    const reference = (update.content as Edit | Delete | undefined)?.reference;
+    const document = reference ? this.#documents.get(reference) : undefined;
+    if (!document) {
+      return;
+    }
+
+    const [message] = reconcileMessages([document.message], [update]);
+    this.#remove(message.id);
+    this.#index(message);
+    // messages fetched again at the cursor mustn't bring back removed text
+    if (!this.#documents.has(message.id)) {
+      this.#removed.add(message.id);
+    }
+  }
+
+  /**
+   * Searches indexed messages
+   *
+   * @param query - The text to search for
+   * @param options - Optional filters and result limit
+   * @returns Array of results, best matches first
+   */
+  search(query: string, options?: SearchMessagesOptions): SearchResult[] {
+    const queryTerms = Array.from(
+      new Set(tokenize(query).map((token) => token.term)),
+    );
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const fromNs = options?.from ? dateToNs(options.from) : undefined;
+    const toNs = options?.to ? dateToNs(options.to) : undefined;
+    const matches = (document: Document) => {
+      const { message } = document;
+      return (
+        (!options?.conversationIds ||
+          options.conversationIds.includes(message.conversationId)) &&
+        (!options?.senders ||
+          options.senders.includes(message.senderInboxId)) &&
+        (!options?.contentTypes ||
+          options.contentTypes.some((contentType) =>
+            message.contentType.sameAs(contentType),
+          )) &&
+        (fromNs === undefined || message.sentAtNs >= fromNs) &&
+        (toNs === undefined || message.sentAtNs <= toNs)
+      );
+    };
+
+    // messages that matched every query term so far
+    let candidates: Map<string, Match> | undefined;
+    for (const queryTerm of queryTerms) {
+      // best score of this query term for each message
+      const termMatches = new Map<string, Match>();
+      for (const [term, postings] of this.#terms) {
+        if (!term.startsWith(queryTerm)) {
+          continue;
+        }
+        const idf = Math.log(1 + this.#documents.size / postings.size);
+        const weight =
+          term === queryTerm ? 1 : (queryTerm.length / term.length) * 0.5;
+        for (const [messageId, positions] of postings) {
+          const score = weight * idf * (1 + Math.log(positions.length));
+          const current = termMatches.get(messageId);
+          termMatches.set(messageId, {
+            score: Math.max(current?.score ?? 0, score),
+            highlights: [...(current?.highlights ?? []), ...positions],
+          });
+        }
+      }
+
+      const next = new Map<string, Match>();
+      for (const [messageId, match] of termMatches) {
+        const previous = candidates ? candidates.get(messageId) : undefined;
+        if (candidates && !previous) {
+          continue;
+        }
+        next.set(messageId, {
+          score: (previous?.score ?? 0) + match.score,
+          highlights: [...(previous?.highlights ?? []), ...match.highlights],
+        });
+      }
+      candidates = next;
+    }
+
+    const results: SearchResult[] = [];
+    for (const [messageId, match] of candidates ?? []) {
+      const document = this.#documents.get(messageId);
+      if (document && matches(document)) {
+        results.push({
+          message: document.message,
+          text: document.text,
+          highlights: mergeHighlights(match.highlights),
+          score: match.score,
+        });
+      }
+    }
+
+    return results
+      .sort(
+        (a, b) =>
+          b.score - a.score || Number(b.message.sentAtNs - a.message.sentAtNs),
+      )
+      .slice(0, options?.limit ?? 50);
+  }
+}
@@ -6,20 +6,26 @@ import {
   type SignatureRequestType,
 } from "@xmtp/wasm-bindings";
 import type { ClientOptions } from "@/types";
-import { createClient } from "@/utils/createClient";
+import { createClient, getDbPath } from "@/utils/createClient";
 import { WorkerConversations } from "@/WorkerConversations";
 import { WorkerPreferences } from "@/WorkerPreferences";
+import { scheduleStoreNameFor, WorkerScheduler } from "@/WorkerScheduler";
 
 export class WorkerClient {
   #client: Client;
   #conversations: WorkerConversations;
   #preferences: WorkerPreferences;
+  #scheduler: WorkerScheduler;
 
-  constructor(client: Client) {
+  constructor(client: Client, dbPath: string | null) {
     this.#client = client;
     const conversations = client.conversations();
     this.#conversations = new WorkerConversations(this, conversations);
     this.#preferences = new WorkerPreferences(client, conversations);
+    this.#scheduler = new WorkerScheduler(
+      this.#conversations,
+      dbPath === null ? null : scheduleStoreNameFor(dbPath),
+    );
   }
 
   static async create(
@@ -27,7 +33,8 @@ export class WorkerClient {
     options?: Omit<ClientOptions, "codecs">,
   ) {
     const client = await createClient(identifier, options);
-    return new WorkerClient(client);
+    // scheduled messages are sent once the main thread starts the scheduler
+    return new WorkerClient(client, getDbPath(client.inboxId, options));
   }
 
   get accountIdentifier() {
@@ -58,6 +65,10 @@ export class WorkerClient {
     return this.#preferences;
   }
 
+  get scheduler() {
+    return this.#scheduler;
+  }
+
   createInboxSignatureText() {
     try {
       return this.#client.createInboxSignatureText();
@@ -0,0 +1,342 @@
+import { v4 } from "uuid";
+import {
+  fromEncodedContent,
+  fromSafeEncodedContent,
+  type SafeEncodedContent,
+} from "@/utils/conversions";
+import {
+  GroupNotFoundError,
+  ScheduledMessageInterruptedError,
+  ScheduledMessageLockedError,
+  ScheduledMessageNotFoundError,
+} from "@/utils/errors";
+import { getAll, openDatabase, put, remove } from "@/utils/indexedDb";
+import type { WorkerConversations } from "@/WorkerConversations";
+
+/**
+ * Status of a scheduled message
+ *
+ * - `scheduled`: waiting to be sent, can be rescheduled or cancelled
+ * - `sending`: being sent by the client worker
+ * - `sent`: sent to the conversation
+ * - `failed`: sending failed, can be rescheduled or cancelled
+ * - `cancelled`: removed from the schedule before it was sent
+ *
+ * Sent and cancelled messages are removed from the schedule.
+ */
+export type ScheduledMessageStatus =
+  | "scheduled"
+  | "sending"
+  | "sent"
+  | "failed"
+  | "cancelled";
+
+export type SafeScheduledMessage = {
+  id: string;
+  conversationId: string;
+  content: SafeEncodedContent;
+  sendAt: Date;
+  status: ScheduledMessageStatus;
+  /**
+   * ID of the message, available once it has been sent
+   */
+  messageId?: string;
+  /**
+   * Error message of the failed send
+   */
+  error?: string;
+  createdAt: Date;
+};
+
+export type SafeScheduledMessageStatusListener = (
+  message: SafeScheduledMessage,
+) => void;
+
+// longer timeouts fire immediately, so long delays are waited in steps
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+/**
+ * Gets the name of the scheduled messages store of a local DB
+ */
+export const scheduleStoreNameFor = (dbPath: string) => `${dbPath}.schedule`;
+
+/**
+ * Sends messages at a later time from the client worker
+ *
+ * Scheduled messages are stored in an IndexedDB database named after the
+ * local DB, so they are sent after a restart, including messages that became
+ * due while the client wasn't running. Without a local DB, scheduled messages
+ * are only kept in memory.
+ */
+export class WorkerScheduler {
+  #conversations: WorkerConversations;
+  #storeName: string | null;
+  #messages = new Map<string, SafeScheduledMessage>();
+  #listeners = new Set<SafeScheduledMessageStatusListener>();
+  #database: Promise<IDBDatabase | undefined> | undefined;
+  #timeout: ReturnType<typeof setTimeout> | undefined;
+  #running: Promise<void> | undefined;
+  #rerun = false;
+
+  constructor(conversations: WorkerConversations, storeName: string | null) {
+    this.#conversations = conversations;
+    this.#storeName = storeName;
+  }
+
+  /**
+   * Loads the stored scheduled messages and starts waiting for the next one
+   * that's due
+   */
+  async start() {
+    await this.#load();
+    this.#schedule();
+  }
+
+  async schedule(
+    conversationId: string,
+    content: SafeEncodedContent,
+    sendAt: Date,
+  ) {
+    await this.#load();
+    const message: SafeScheduledMessage = {
+      id: v4(),
+      conversationId,
+      content,
+      sendAt,
+      status: "scheduled",
+      createdAt: new Date(),
+    };
+    await this.#save(message);
+    this.#emit(message);
+    this.#schedule();
+    return message;
+  }
+
+  async get(id: string) {
+    await this.#load();
+    return this.#messages.get(id);
+  }
+
+  /**
+   * Lists messages that haven't been sent, in the order they will be sent
+   */
+  async list() {
+    await this.#load();
+    return this.#sorted();
+  }
+
+  async reschedule(id: string, sendAt: Date) {
+    const message = await this.#getUnlocked(id);
+    const rescheduled: SafeScheduledMessage = {
+      ...message,
+      sendAt,
+      status: "scheduled",
+      error: undefined,
+    };
+    await this.#save(rescheduled);
+    this.#emit(rescheduled);
+    this.#schedule();
+    return rescheduled;
+  }
+
+  async cancel(id: string) {
+    const message = await this.#getUnlocked(id);
+    await this.#remove(id);
+    this.#emit({ ...message, status: "cancelled" });
+    this.#schedule();
+  }
+
+  /**
+   * Sends scheduled messages that are due
+   */
+  async flush() {
+    await this.#load();
+    await this.#run();
+  }
+
+  /**
+   * Registers a listener that is called whenever the status of a scheduled
+   * message changes
+   *
+   * @returns A function that removes the listener
+   */
+  onStatusChange(listener: SafeScheduledMessageStatusListener) {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  #emit(message: SafeScheduledMessage) {
+    for (const listener of this.#listeners) {
+      // errors thrown by listeners don't affect sending
+      try {
+        listener(message);
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  async #getUnlocked(id: string) {
+    await this.#load();
+    const message = this.#messages.get(id);
+    if (!message) {
+      throw new ScheduledMessageNotFoundError(id);
+    }
+    if (message.status === "sending") {
+      throw new ScheduledMessageLockedError(id, message.status);
+    }
+    return message;
+  }
+
+  #sorted() {
+    return Array.from(this.#messages.values()).sort(
+      (a, b) => a.sendAt.getTime() - b.sendAt.getTime(),
+    );
+  }
+
+  #load() {
+    this.#database ??= (async () => {
+      if (this.#storeName === null) {
+        return undefined;
+      }
+
+      const database = await openDatabase(this.#storeName);
+      const stored = await getAll<SafeScheduledMessage>(database);
+      for (const message of stored) {
+        // the message may have been sent before the worker stopped, so it's
+        // not sent again automatically
+        if (message.status === "sending") {
+          message.status = "failed";
+          message.error = new ScheduledMessageInterruptedError(
+            message.id,
+          ).message;
+          await put(database, message);
+        }
+        this.#messages.set(message.id, message);
+      }
+
+      return database;
+    })().catch((error: unknown) => {
+      // failed loads are retried the next time the schedule is used
+      this.#database = undefined;
+      throw error;
+    });
+    return this.#database;
+  }
+
+  async #save(message: SafeScheduledMessage) {
+    this.#messages.set(message.id, message);
+    const database = await this.#database;
+    if (database) {
+      await put(database, message);
+    }
+  }
+
+  async #remove(id: string) {
+    this.#messages.delete(id);
+    const database = await this.#database;
+    if (database) {
+      await remove(database, id);
+    }
+  }
+
+  #schedule() {
+    clearTimeout(this.#timeout);
+    this.#timeout = undefined;
+
+    const next = this.#sorted().find(
+      (message) => message.status === "scheduled",
+    );
+    if (!next) {
+      return;
+    }
+
+    const delay = next.sendAt.getTime() - Date.now();
+    this.#timeout = setTimeout(
+      () => {
+        void this.#run();
+      },
+      Math.min(Math.max(delay, 0), MAX_TIMEOUT),
+    );
+  }
+
+  async #run() {
+    // runs requested while sending are handled by the running loop
+    this.#rerun = true;
+    if (this.#running) {
+      return this.#running;
+    }
+
+    clearTimeout(this.#timeout);
+    this.#running = (async () => {
+      while (this.#rerun) {
+        this.#rerun = false;
+        // sending errors are recorded on the messages, so runs never reject
+        // and the timer can't leave a rejection unhandled
+        await this.#process().catch(() => undefined);
+      }
+    })().finally(() => {
+      this.#running = undefined;
+      this.#schedule();
+    });
+
+    return this.#running;
+  }
+
+  async #process() {
+    const due = () =>
+      this.#sorted().find(
+        (message) =>
+          message.status === "scheduled" &&
+          message.sendAt.getTime() <= Date.now(),
+      );
+
+    // messages may be rescheduled or cancelled while sending the messages
+    // before them
+    for (let message = due(); message; message = due()) {
+      const sending: SafeScheduledMessage = { ...message, status: "sending" };
+      try {
+        await this.#save(sending);
+      } catch (error) {
+        // the message isn't sent when it can't be locked, as it would be
+        // sent again after a restart
+        const failed: SafeScheduledMessage = {
+          ...message,
+          status: "failed",
+          error: (error as Error).message,
+        };
+        this.#messages.set(message.id, failed);
+        this.#emit(failed);
+        continue;
+      }
+      this.#emit(sending);
+      let result: SafeScheduledMessage;
+      try {
+        const conversation = this.#conversations.getConversationById(
+          message.conversationId,
+        );
+        if (!conversation) {
+          throw new GroupNotFoundError(message.conversationId);
+        }
+        const messageId = await conversation.send(
+          fromEncodedContent(fromSafeEncodedContent(message.content)),
+        );
+        result = { ...message, status: "sent", messageId };
+      } catch (error) {
+        result = {
+          ...message,
+          status: "failed",
+          error: (error as Error).message,
+        };
+      }
+      // a stored message that can't be updated stays locked, so it fails
+      // after a restart instead of being sent again
+      await (
+        result.status === "sent" ? this.#remove(message.id) : this.#save(result)
+      ).catch(() => undefined);
+      this.#emit(result);
+    }
+  }
+}
@@ -1,11 +1,66 @@
 export { Client } from "./Client";
 export { Conversations } from "./Conversations";
 export { Conversation } from "./Conversation";
+export type {
+  ArchiveSecret,
+  ExportArchiveOptions,
+  ImportArchiveResult,
+} from "./Archive";
 export { Dm } from "./Dm";
 export { Group } from "./Group";
 export type { MessageDeliveryStatus, MessageKind } from "./DecodedMessage";
 export { DecodedMessage } from "./DecodedMessage";
+export type {
+  SearchHighlight,
+  SearchMessagesOptions,
+  SearchResult,
+} from "./SearchIndex";
 export { Utils } from "./Utils";
+export type {
+  StreamCallback,
+  StreamMetrics,
+  StreamOptions,
+  StreamOverflowStrategy,
+} from "./AsyncStream";
+export type { StreamIterator } from "./StreamIterator";
+export type {
+  Outbox,
+  OutboxItem,
+  OutboxItemStatus,
+  OutboxOptions,
+  OutboxStatusListener,
+} from "./Outbox";
+export type {
+  CreateInviteOptions,
+  GroupInvite,
+  InviteRedemption,
+  Invites,
+} from "./Invites";
+export type {
+  ScheduledMessage,
+  ScheduledMessageStatusListener,
+  Scheduler,
+} from "./Scheduler";
+export type {
+  SafeScheduledMessage,
+  ScheduledMessageStatus,
+} from "./WorkerScheduler";
+export type { PurgeReason } from "./utils/ephemeral";
+export { decodeInviteToken } from "./utils/invites";
+export type { DecodedInviteToken, InvitePayload } from "./utils/invites";
+export type { ResolvedMentions, SendOptions } from "./utils/mentions";
+export type { PollOptionResult, PollResults } from "./utils/polls";
+export type { ReadState } from "./utils/readState";
+export type {
+  ReactionSchema,
+  ReactionSummary,
+  ReactionTally,
+} from "./utils/reactions";
+export type { ReconcileOptions } from "./utils/reconcile";
+export type { RetryOptions } from "./utils/retry";
+export type { Thread, ThreadSummary } from "./utils/threads";
+export type { TypingEvent } from "./utils/typing";
+export type { BeforeSendResult, Middleware, SendContent } from "./Middleware";
 export { ApiUrls, HistorySyncUrls } from "./constants";
 export type * from "./types";
 export * from "./utils/conversions";
@@ -34,6 +34,7 @@ import type {
   SafeMessage,
   SafeMessageDisappearingSettings,
 } from "@/utils/conversions";
+import type { SafeScheduledMessage } from "@/WorkerScheduler";
 
 export type ClientEvents =
   /**
@@ -379,6 +380,54 @@ export type ClientEvents =
         streamId: string;
       };
     }
+  /**
+   * Scheduler actions
+   */
+  | {
+      action: "startScheduler";
+      id: string;
+      result: undefined;
+      data: {
+        streamId: string;
+      };
+    }
+  | {
+      action: "getScheduledMessages";
+      id: string;
+      result: SafeScheduledMessage[];
+      data: undefined;
+    }
+  | {
+      action: "getScheduledMessage";
+      id: string;
+      result: SafeScheduledMessage | undefined;
+      data: {
+        id: string;
+      };
+    }
+  | {
+      action: "rescheduleMessage";
+      id: string;
+      result: SafeScheduledMessage | undefined;
+      data: {
+        id: string;
+        sendAt: Date;
+      };
+    }
+  | {
+      action: "cancelScheduledMessage";
+      id: string;
+      result: undefined;
+      data: {
+        id: string;
+      };
+    }
+  | {
+      action: "flushScheduledMessages";
+      id: string;
+      result: undefined;
+      data: undefined;
+    }
   /**
    * Group actions
    */
@@ -408,6 +457,16 @@ export type ClientEvents =
         content: SafeEncodedContent;
       };
     }
+  | {
+      action: "scheduleGroupMessage";
+      id: string;
+      result: SafeScheduledMessage;
+      data: {
+        id: string;
+        content: SafeEncodedContent;
+        sendAt: Date;
+      };
+    }
   | {
       action: "publishGroupMessages";
       id: string;
@@ -9,6 +9,7 @@ import type {
   SafeConversation,
   SafeMessage,
 } from "@/utils/conversions";
+import type { SafeScheduledMessage } from "@/WorkerScheduler";
 
 export type ClientStreamEvents =
   | {
@@ -30,6 +31,11 @@ export type ClientStreamEvents =
       type: "preferences";
       streamId: string;
       result: UserPreference[] | undefined;
+    }
+  | {
+      type: "scheduledMessage";
+      streamId: string;
+      result: SafeScheduledMessage | undefined;
     };
 
 export type ClientStreamEventsTypes = ClientStreamEvents["type"];
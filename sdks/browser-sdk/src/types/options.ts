@@ -1,5 +1,7 @@
 import type { ContentCodec } from "@xmtp/content-type-primitives";
 import type { ApiUrls } from "@/constants";
+import type { Middleware } from "@/Middleware";
+import type { OutboxOptions } from "@/Outbox";
 
 export type XmtpEnv = keyof typeof ApiUrls;
 
@@ -23,11 +25,24 @@ export type NetworkOptions = {
   historySyncUrl?: string;
 };
 
+/**
+ * How to handle messages that can't be decoded
+ *
+ * - `throw`: throw the error when the message is created
+ * - `fallback`: leave the content undefined and set `decodeError`, so that
+ *   the `fallback` text provided by the sender can be shown instead
+ */
+export type DecodeErrorMode = "throw" | "fallback";
+
 export type ContentOptions = {
   /**
    * Allow configuring codecs for additional content types
    */
   codecs?: ContentCodec[];
+  /**
+   * How to handle messages that can't be decoded (default: `"throw"`)
+   */
+  decodeErrorMode?: DecodeErrorMode;
 };
 
 /**
@@ -44,6 +59,13 @@ export type StorageOptions = {
   dbEncryptionKey?: Uint8Array;
 };
 
+export type MiddlewareOptions = {
+  /**
+   * Middleware that runs around sending and decoding messages
+   */
+  middleware?: Middleware[];
+};
+
 export type OtherOptions = {
   /**
    * Enable structured JSON logging
@@ -61,9 +83,14 @@ export type OtherOptions = {
    * Disable automatic registration when creating a client
    */
   disableAutoRegister?: boolean;
+  /**
+   * Configure how the outbox sends and retries messages
+   */
+  outbox?: OutboxOptions;
 };
 
 export type ClientOptions = NetworkOptions &
   ContentOptions &
   StorageOptions &
+  MiddlewareOptions &
   OtherOptions;
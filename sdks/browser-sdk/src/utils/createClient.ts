@@ -8,6 +8,18 @@ import {
 import { ApiUrls, HistorySyncUrls } from "@/constants";
 import type { ClientOptions } from "@/types";
 
+/**
+ * Gets the path of the local DB of an inbox, `null` when the local DB is
+ * only kept in memory
+ */
+export const getDbPath = (
+  inboxId: string,
+  options?: Omit<ClientOptions, "codecs">,
+) =>
+  options?.dbPath === undefined
+    ? `xmtp-${options?.env || "dev"}-${inboxId}.db3`
+    : options.dbPath;
+
 export const createClient = async (
   identifier: Identifier,
   options?: Omit<ClientOptions, "codecs">,
@@ -16,10 +28,7 @@ export const createClient = async (
   const inboxId =
     (await getInboxIdForIdentifier(host, identifier)) ||
     generateInboxId(identifier);
-  const dbPath =
-    options?.dbPath === undefined
-      ? `xmtp-${options?.env || "dev"}-${inboxId}.db3`
-      : options.dbPath;
+  const dbPath = getDbPath(inboxId, options);
   const isLogging =
     options &&
     (options.loggingLevel !== undefined ||
@@ -1,3 +1,7 @@
 export function nsToDate(ns: bigint): Date {
   return new Date(Number(ns / 1_000_000n));
 }
+
+export function dateToNs(date: Date): bigint {
+  return BigInt(date.getTime()) * 1_000_000n;
+}
@@ -0,0 +1,118 @@
+import {
+  ContentTypeEphemeral,
+  isExpired,
+  type Ephemeral,
+} from "@xmtp/content-type-ephemeral";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import { getAll, openDatabase, put } from "@/utils/indexedDb";
+
+/**
+ * Why the content of an ephemeral message was purged
+ *
+ * - `viewed`: the message is view-once and has been viewed
+ * - `expired`: the message has expired
+ */
+export type PurgeReason = "viewed" | "expired";
+
+type ViewedMessage = {
+  id: string;
+};
+
+/**
+ * Checks if a content type is ephemeral
+ *
+ * @param contentType - The content type to check
+ * @returns Whether the content type is ephemeral
+ */
+export const isEphemeral = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypeEphemeral);
+
+/**
+ * Gets the name of the viewed messages store of a local DB
+ *
+ * @param dbPath - The path of the local DB
+ * @returns The name of the IndexedDB database
+ */
+export const viewedStoreNameFor = (dbPath: string) => `${dbPath}.viewed`;
+
+/**
+ * Keeps track of the view-once messages that have been viewed
+ *
+ * Viewed messages are stored in an IndexedDB database named after the local
+ * DB, so their content stays purged after a restart. Without a local DB,
+ * viewed messages are only kept in memory.
+ */
+export class ViewedMessages {
+  #messageIds = new Set<string>();
+  #database: Promise<IDBDatabase | undefined> | undefined;
+
+  /**
+   * Loads the stored viewed messages
+   *
+   * @param storeName - The name of the IndexedDB database, `null` to only
+   * keep viewed messages in memory
+   */
+  load(storeName: string | null) {
+    this.#database ??= (async () => {
+      if (storeName === null) {
+        return undefined;
+      }
+
+      const database = await openDatabase(storeName);
+      const stored = await getAll<ViewedMessage>(database);
+      for (const message of stored) {
+        this.#messageIds.add(message.id);
+      }
+
+      return database;
+    })();
+    return this.#database;
+  }
+
+  /**
+   * Checks if a message has been viewed
+   *
+   * @param messageId - The ID of the message
+   * @returns Whether the message has been viewed
+   */
+  has(messageId: string) {
+    return this.#messageIds.has(messageId);
+  }
+
+  /**
+   * Marks a message as viewed
+   *
+   * @param messageId - The ID of the message
+   */
+  async add(messageId: string) {
+    this.#messageIds.add(messageId);
+    const database = await this.#database;
+    if (database) {
+      await put(database, { id: messageId });
+    }
+  }
+}
+
+/**
+ * Gets why the content of an ephemeral message is purged, if it is
+ *
+ * @param messageId - The ID of the message
+ * @param content - The decoded ephemeral content of the message
+ * @param viewed - The view-once messages that have been viewed
+ * @param now - The current time
+ * @returns Why the content is purged, `undefined` when it isn't
+ */
+export const purgeReason = (
+  messageId: string,
+  content: Ephemeral,
+  viewed: ViewedMessages,
+  now = new Date(),
+): PurgeReason | undefined => {
+  if (isExpired(content, now)) {
+    return "expired";
+  }
+  if (content.viewOnce && viewed.has(messageId)) {
+    return "viewed";
+  }
+  return undefined;
+};
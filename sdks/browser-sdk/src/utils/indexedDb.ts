@@ -0,0 +1,45 @@
+// the IndexedDB databases of the SDK have a single store of records keyed by
+// their `id`
+const STORE_NAME = "messages";
+
+const toPromise = <T>(request: IDBRequest<T>) =>
+  new Promise<T>((resolve, reject) => {
+    request.onsuccess = () => {
+      resolve(request.result);
+    };
+    request.onerror = () => {
+      reject(request.error ?? new Error("IndexedDB request failed"));
+    };
+  });
+
+export const openDatabase = (name: string) => {
+  const request = indexedDB.open(name, 1);
+  request.onupgradeneeded = () => {
+    request.result.createObjectStore(STORE_NAME, { keyPath: "id" });
+  };
+  return toPromise(request);
+};
+
+export const getAll = <T>(database: IDBDatabase) =>
+  toPromise(
+    database
+      .transaction(STORE_NAME)
+      .objectStore(STORE_NAME)
+      .getAll() as IDBRequest<T[]>,
+  );
+
+export const put = (database: IDBDatabase, record: { id: string }) =>
+  toPromise(
+    database
+      .transaction(STORE_NAME, "readwrite")
+      .objectStore(STORE_NAME)
+      .put(record),
+  );
+
+export const remove = (database: IDBDatabase, id: string) =>
+  toPromise(
+    database
+      .transaction(STORE_NAME, "readwrite")
+      .objectStore(STORE_NAME)
+      .delete(id),
+  );
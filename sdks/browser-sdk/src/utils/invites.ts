@@ -0,0 +1,153 @@
+import { PermissionPolicy } from "@xmtp/wasm-bindings";
+
+export type InvitePayload = {
+  version: number;
+  /**
+   * Local ID of the invite on the installation that created it
+   */
+  id: string;
+  groupId: string;
+  inviterInboxId: string;
+  expiresAt?: string;
+  maxUses?: number;
+};
+
+export type DecodedInviteToken = {
+  payload: InvitePayload;
+  /**
+   * The text that was signed with the installation key of the inviter
+   */
+  signatureText: string;
+  signature: Uint8Array;
+};
+
+export const INVITE_TOKEN_VERSION = 1;
+
+// tokens are shared on their own or at the end of a join link
+const INVITE_TOKEN_PATTERN = /^(?:\S*\/join\/)?([\w-]+)\.([\w-]+)$/;
+
+const toBase64Url = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""))
+    .replace(/\+/g, "-")
+    .replace(/\//g, "_")
+    .replace(/=+$/, "");
+
+const fromBase64Url = (base64Url: string) =>
+  Uint8Array.from(
+    atob(base64Url.replace(/-/g, "+").replace(/_/g, "/")),
+    (char) => char.charCodeAt(0),
+  );
+
+/**
+ * Gets the text that is signed to create an invite token
+ *
+ * @param encodedPayload - The encoded invite payload
+ * @returns The text to sign
+ */
+export const inviteSignatureText = (encodedPayload: string) =>
+  `XMTP group invite: ${encodedPayload}`;
+
+/**
+ * Encodes a signed invite payload as a URL-safe token
+ *
+ * @param encodedPayload - The encoded invite payload
+ * @param signature - The signature of the payload's signature text
+ * @returns The invite token
+ */
+export const encodeInviteToken = (
+  encodedPayload: string,
+  signature: Uint8Array,
+) => `${encodedPayload}.${toBase64Url(signature)}`;
+
+/**
+ * Encodes an invite payload to be signed
+ *
+ * @param payload - The invite payload
+ * @returns The URL-safe encoded payload
+ */
+export const encodeInvitePayload = (payload: InvitePayload) =>
+  toBase64Url(new TextEncoder().encode(JSON.stringify(payload)));
+
+/**
+ * Checks if a parsed value has the shape of an invite payload
+ *
+ * @param value - The parsed value
+ * @returns Whether the value is an invite payload
+ */
+const isInvitePayload = (value: unknown): value is InvitePayload => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const payload = value as Record<string, unknown>;
+  return (
+    payload.version === INVITE_TOKEN_VERSION &&
+    typeof payload.id === "string" &&
+    typeof payload.groupId === "string" &&
+    typeof payload.inviterInboxId === "string" &&
+    (payload.expiresAt === undefined ||
+      typeof payload.expiresAt === "string") &&
+    (payload.maxUses === undefined || typeof payload.maxUses === "number")
+  );
+};
+
+/**
+ * Decodes an invite token, or a join link that ends with one, without
+ * verifying its signature
+ *
+ * @param text - The invite token or join link
+ * @returns The decoded token, `undefined` when the text isn't an invite token
+ */
+export const decodeInviteToken = (
+  text: string,
+): DecodedInviteToken | undefined => {
+  const match = INVITE_TOKEN_PATTERN.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, encodedPayload, encodedSignature] = match;
+
+  let payload: unknown;
+  let signature: Uint8Array;
+  try {
+    payload = JSON.parse(
+      new TextDecoder().decode(fromBase64Url(encodedPayload)),
+    ) as unknown;
+    signature = fromBase64Url(encodedSignature);
+  } catch {
+    return undefined;
+  }
+  if (!isInvitePayload(payload)) {
+    return undefined;
+  }
+
+  return {
+    payload,
+    signatureText: inviteSignatureText(encodedPayload),
+    signature,
+  };
+};
+
+/**
+ * Checks if an inbox can add members to a group with its add member policy
+ *
+ * @param policy - The add member policy of the group
+ * @param isAdmin - Whether the inbox is an admin of the group
+ * @param isSuperAdmin - Whether the inbox is a super admin of the group
+ * @returns Whether the inbox can add members
+ */
+export const canAddMembers = (
+  policy: PermissionPolicy,
+  isAdmin: boolean,
+  isSuperAdmin: boolean,
+) => {
+  switch (policy) {
+    case PermissionPolicy.Allow:
+      return true;
+    case PermissionPolicy.Admin:
+      return isAdmin || isSuperAdmin;
+    case PermissionPolicy.SuperAdmin:
+      return isSuperAdmin;
+    default:
+      return false;
+  }
+};
@@ -0,0 +1,109 @@
+import {
+  decodeMentions,
+  encodeMentions,
+  MENTIONS_PARAMETER,
+  type EncodedContent,
+  type Mention,
+} from "@xmtp/content-type-primitives";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { MentionsRequireTextError } from "@/utils/errors";
+
+export type SendOptions = {
+  /**
+   * Mentions of inboxes in the text of the message
+   */
+  mentions?: Mention[];
+};
+
+export type MentionCandidate = {
+  inboxId: string;
+  /**
+   * Names that mention the inbox, e.g. its identifiers, matched without
+   * case sensitivity
+   */
+  names: string[];
+};
+
+export type ResolvedMentions = {
+  text: string;
+  mentions: Mention[];
+};
+
+// `@name` tokens at the start of the text or after whitespace
+const MENTION_TOKEN = /(?<=^|[\s([])@([\p{L}\p{N}_.-]+)/gu;
+
+/**
+ * Finds `@name` tokens in a text that mention a single candidate
+ *
+ * Names that match more than one inbox are ambiguous and aren't mentions.
+ *
+ * @param text - The text to find mentions in
+ * @param candidates - The inboxes that can be mentioned and their names
+ * @returns The mentions of the candidates in the text
+ */
+export const findMentions = (text: string, candidates: MentionCandidate[]) => {
+  const inboxIdsByName = new Map<string, Set<string>>();
+  for (const candidate of candidates) {
+    for (const name of candidate.names) {
+      const key = name.toLowerCase();
+      const inboxIds = inboxIdsByName.get(key) ?? new Set<string>();
+      inboxIds.add(candidate.inboxId);
+      inboxIdsByName.set(key, inboxIds);
+    }
+  }
+
+  const mentions: Mention[] = [];
+  for (const match of text.matchAll(MENTION_TOKEN)) {
+    // trailing punctuation isn't part of the name
+    const name = match[1].replace(/[.-]+$/, "");
+    const inboxIds = inboxIdsByName.get(name.toLowerCase());
+    if (inboxIds?.size !== 1) {
+      continue;
+    }
+    mentions.push({
+      inboxId: [...inboxIds][0],
+      offset: match.index,
+      length: name.length + 1,
+    });
+  }
+  return mentions;
+};
+
+/**
+ * Checks if a message mentions an inbox
+ *
+ * @param message - The message to check
+ * @param inboxId - The inbox ID to look for
+ * @returns Whether the message mentions the inbox
+ */
+export const mentionsInbox = (message: DecodedMessage, inboxId: string) =>
+  decodeMentions(message.parameters).some(
+    (mention) => mention.inboxId === inboxId.toLowerCase(),
+  );
+
+/**
+ * Adds mentions to the encoded content of a text-like message
+ *
+ * @param encodedContent - The encoded content to add the mentions to
+ * @param content - The content that was encoded
+ * @param mentions - Optional mentions of inboxes in the content
+ * @returns The encoded content with its mentions
+ * @throws {MentionsRequireTextError} When the content isn't text
+ */
+export const withMentions = <T extends Pick<EncodedContent, "parameters">>(
+  encodedContent: T,
+  content: unknown,
+  mentions?: Mention[],
+) => {
+  if (!mentions?.length) {
+    return encodedContent;
+  }
+  if (typeof content !== "string") {
+    throw new MentionsRequireTextError();
+  }
+  encodedContent.parameters[MENTIONS_PARAMETER] = encodeMentions(
+    content,
+    mentions,
+  );
+  return encodedContent;
+};
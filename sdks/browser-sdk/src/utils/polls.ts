@@ -0,0 +1,143 @@
+import { ContentTypePoll, type Poll } from "@xmtp/content-type-poll";
+import {
+  ContentTypePollVote,
+  type PollVote,
+} from "@xmtp/content-type-poll-vote";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import type { DecodedMessage } from "@/DecodedMessage";
+
+export type PollOptionResult = {
+  /**
+   * The text of the option
+   */
+  option: string;
+  /**
+   * Number of members that voted for the option
+   */
+  count: number;
+  /**
+   * Inbox IDs of the members that voted for the option
+   */
+  inboxIds: Set<string>;
+};
+
+export type PollResults = {
+  /**
+   * ID of the poll message
+   */
+  pollId: string;
+  question: string;
+  multiSelect: boolean;
+  deadline?: Date;
+  /**
+   * Whether the deadline of the poll has passed
+   */
+  closed: boolean;
+  /**
+   * Results of the options, in the order of the poll's options
+   */
+  options: PollOptionResult[];
+  /**
+   * Number of members whose votes were counted
+   */
+  voters: number;
+};
+
+/**
+ * Checks if a content type is a poll
+ *
+ * @param contentType - The content type to check
+ * @returns Whether the content type is a poll
+ */
+export const isPoll = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypePoll);
+
+/**
+ * Checks if a content type is a vote in a poll
+ *
+ * @param contentType - The content type to check
+ * @returns Whether the content type is a vote in a poll
+ */
+export const isPollVote = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypePollVote);
+
+/**
+ * Tallies the votes of a poll
+ *
+ * Only the latest vote of each inbox is counted. Votes sent after the
+ * deadline, votes from inboxes that aren't in `memberInboxIds` and votes
+ * with options that the poll doesn't allow are ignored. A vote without
+ * options withdraws an earlier vote.
+ *
+ * @param poll - The poll message
+ * @param votes - Messages of the conversation, only votes in the poll are counted
+ * @param memberInboxIds - Optional inbox IDs of the members of the conversation
+ * @param now - Optional time to check the deadline against
+ * @returns The results of the poll
+ */
+export const tallyPoll = (
+  poll: DecodedMessage,
+  votes: DecodedMessage[],
+  memberInboxIds?: string[],
+  now = new Date(),
+): PollResults => {
+  const {
+    question,
+    options,
+    deadline,
+    multiSelect = false,
+  } = poll.content as Poll;
+  const deadlineNs = deadline
+    ? BigInt(deadline.getTime()) * 1_000_000n
+    : undefined;
+  const members = memberInboxIds ? new Set(memberInboxIds) : undefined;
+
+  const latest = new Map<string, { sentAtNs: bigint; options: number[] }>();
+  for (const vote of votes) {
+    const content = vote.content as PollVote | undefined;
+    if (
+      !isPollVote(vote.contentType) ||
+      content === undefined ||
+      content.reference !== poll.id ||
+      (deadlineNs !== undefined && vote.sentAtNs > deadlineNs) ||
+      (members && !members.has(vote.senderInboxId)) ||
+      (!multiSelect && content.options.length > 1) ||
+      content.options.some((option) => option >= options.length)
+    ) {
+      continue;
+    }
+    const current = latest.get(vote.senderInboxId);
+    if (!current || current.sentAtNs < vote.sentAtNs) {
+      latest.set(vote.senderInboxId, {
+        sentAtNs: vote.sentAtNs,
+        options: content.options,
+      });
+    }
+  }
+
+  const results: PollOptionResult[] = options.map((option) => ({
+    option,
+    count: 0,
+    inboxIds: new Set<string>(),
+  }));
+  let voters = 0;
+  for (const [inboxId, vote] of latest) {
+    if (vote.options.length > 0) {
+      voters++;
+    }
+    for (const option of vote.options) {
+      results[option].inboxIds.add(inboxId);
+      results[option].count = results[option].inboxIds.size;
+    }
+  }
+
+  return {
+    pollId: poll.id,
+    question,
+    multiSelect,
+    deadline,
+    closed: !!deadline && deadline.getTime() <= now.getTime(),
+    options: results,
+    voters,
+  };
+};
@@ -0,0 +1,142 @@
+import { ContentTypeId } from "@xmtp/content-type-primitives";
+import type { DecodedMessage } from "@/DecodedMessage";
+
+// the SDK can't depend on the reaction content type package, reactions are
+// decoded with the `ReactionCodec` registered with the client
+const ContentTypeReaction = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "reaction",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export type ReactionSchema = "unicode" | "shortcode" | "custom";
+
+type ReactionContent = {
+  reference: string;
+  action: "added" | "removed";
+  content: string;
+  schema: ReactionSchema;
+};
+
+export type ReactionTally = {
+  /**
+   * The content of the reaction, e.g. an emoji
+   */
+  content: string;
+  schema: ReactionSchema;
+  /**
+   * Number of inboxes that reacted
+   */
+  count: number;
+  /**
+   * Inbox IDs of the members that reacted
+   */
+  inboxIds: Set<string>;
+};
+
+export type ReactionSummary = {
+  /**
+   * ID of the message that was reacted to
+   */
+  messageId: string;
+  /**
+   * Tallies of the reactions, in the order they were first added
+   */
+  reactions: ReactionTally[];
+};
+
+type ReactionState = {
+  action: ReactionContent["action"];
+  content: string;
+  schema: ReactionSchema;
+  inboxId: string;
+  sentAtNs: bigint;
+};
+
+/**
+ * Checks if a content type is a reaction
+ *
+ * @param contentType - The content type to check
+ * @returns Whether the content type is a reaction
+ */
+export const isReaction = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypeReaction);
+
+/**
+ * Folds reaction messages into tallies for the messages they reference
+ *
+ * The latest reaction of each inbox for each content wins, so reactions can
+ * be added in any order.
+ */
+export class ReactionAggregator {
+  // message ID => reaction key => latest reaction
+  #states = new Map<string, Map<string, ReactionState>>();
+
+  /**
+   * Adds a reaction message
+   *
+   * @param message - The reaction message to add
+   * @returns The ID of the referenced message when the reactions to it
+   * changed, otherwise `undefined`
+   */
+  add(message: DecodedMessage) {
+    if (!isReaction(message.contentType) || message.content === undefined) {
+      return undefined;
+    }
+    const { reference, action, content, schema } =
+      message.content as ReactionContent;
+    const key = JSON.stringify([schema, content, message.senderInboxId]);
+    let states = this.#states.get(reference);
+    if (!states) {
+      states = new Map();
+      this.#states.set(reference, states);
+    }
+    const current = states.get(key);
+    // removals win over additions sent at the same time
+    if (
+      current &&
+      (current.sentAtNs > message.sentAtNs ||
+        (current.sentAtNs === message.sentAtNs && current.action === "removed"))
+    ) {
+      return undefined;
+    }
+    states.set(key, {
+      action,
+      content,
+      schema,
+      inboxId: message.senderInboxId,
+      sentAtNs: message.sentAtNs,
+    });
+    // a reaction that wasn't added is the same as a removed one
+    return (current?.action ?? "removed") === action ? undefined : reference;
+  }
+
+  /**
+   * Gets the reaction tallies of a message
+   *
+   * @param messageId - The ID of the message
+   * @returns The reaction summary of the message
+   */
+  summary(messageId: string): ReactionSummary {
+    const tallies = new Map<string, ReactionTally>();
+    const states = [...(this.#states.get(messageId)?.values() ?? [])]
+      .filter((state) => state.action === "added")
+      .sort((a, b) =>
+        a.sentAtNs < b.sentAtNs ? -1 : a.sentAtNs > b.sentAtNs ? 1 : 0,
+      );
+    for (const state of states) {
+      const key = JSON.stringify([state.schema, state.content]);
+      const tally = tallies.get(key) ?? {
+        content: state.content,
+        schema: state.schema,
+        count: 0,
+        inboxIds: new Set<string>(),
+      };
+      tally.inboxIds.add(state.inboxId);
+      tally.count = tally.inboxIds.size;
+      tallies.set(key, tally);
+    }
+    return { messageId, reactions: [...tallies.values()] };
+  }
+}
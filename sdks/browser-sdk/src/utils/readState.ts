@@ -0,0 +1,87 @@
+import { ContentTypeId } from "@xmtp/content-type-primitives";
+import { GroupMessageKind } from "@xmtp/wasm-bindings";
+import { fromSafeContentTypeId, type SafeMessage } from "@/utils/conversions";
+import { nsToDate } from "@/utils/date";
+import { isReaction } from "@/utils/reactions";
+import { isMessageUpdate } from "@/utils/reconcile";
+
+// the SDK can't depend on the read receipt content type package, read
+// receipts are encoded with the `ReadReceiptCodec` registered with the client
+export const ContentTypeReadReceipt = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "readReceipt",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+/**
+ * Minimum time between read receipts sent to a conversation
+ */
+export const READ_RECEIPT_INTERVAL_MS = 5000;
+
+export type ReadState = {
+  inboxId: string;
+  /**
+   * When the inbox last sent a read receipt
+   */
+  readAt: Date;
+  readAtNs: bigint;
+};
+
+/**
+ * Checks if a content type is a read receipt
+ *
+ * @param contentType - The content type to check
+ * @returns Whether the content type is a read receipt
+ */
+export const isReadReceipt = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypeReadReceipt);
+
+/**
+ * Gets the latest read receipt of each inbox
+ *
+ * @param messages - Messages that may include read receipts
+ * @returns The read state of each inbox by inbox ID
+ */
+export const readStates = (messages: SafeMessage[]) => {
+  const states = new Map<string, ReadState>();
+  for (const message of messages) {
+    if (!isReadReceipt(fromSafeContentTypeId(message.content.type))) {
+      continue;
+    }
+    const current = states.get(message.senderInboxId);
+    if (!current || current.readAtNs < message.sentAtNs) {
+      states.set(message.senderInboxId, {
+        inboxId: message.senderInboxId,
+        readAt: nsToDate(message.sentAtNs),
+        readAtNs: message.sentAtNs,
+      });
+    }
+  }
+  return states;
+};
+
+/**
+ * Checks if a message counts towards the unread messages of an inbox
+ *
+ * Only application messages sent by other inboxes count, except for read
+ * receipts, reactions, edits and deletes.
+ *
+ * @param message - The message to check
+ * @param inboxId - The inbox ID to check the message for
+ * @returns Whether the message is unread
+ */
+export const isUnread = (message: SafeMessage, inboxId: string) => {
+  if (
+    message.kind !== GroupMessageKind.Application ||
+    message.senderInboxId === inboxId
+  ) {
+    return false;
+  }
+  const contentType = fromSafeContentTypeId(message.content.type);
+  return !(
+    isReadReceipt(contentType) ||
+    isReaction(contentType) ||
+    isMessageUpdate(contentType)
+  );
+};
@@ -0,0 +1,55 @@
+import type { DecodedMessage } from "@/DecodedMessage";
+
+// number of recently delivered message IDs to remember for de-duplication
+const SEEN_MESSAGES_LIMIT = 1000;
+
+/**
+ * Tracks the messages delivered by a stream so that it can resume from where
+ * it left off after being paused
+ */
+export class StreamCursor {
+  #startedAtNs: bigint;
+  #cursors = new Map<string, bigint>();
+  #seen = new Set<string>();
+
+  constructor() {
+    this.#startedAtNs = BigInt(Date.now()) * 1_000_000n;
+  }
+
+  /**
+   * Records a message as delivered
+   *
+   * @param message - The delivered message
+   * @returns `false` if the message was already delivered
+   */
+  track(message: DecodedMessage) {
+    if (this.#seen.has(message.id)) {
+      return false;
+    }
+
+    this.#seen.add(message.id);
+    if (this.#seen.size > SEEN_MESSAGES_LIMIT) {
+      // sets iterate in insertion order, drop the oldest ID
+      const [oldest] = this.#seen;
+      this.#seen.delete(oldest);
+    }
+
+    const cursor = this.#cursors.get(message.conversationId);
+    if (cursor === undefined || message.sentAtNs > cursor) {
+      this.#cursors.set(message.conversationId, message.sentAtNs);
+    }
+
+    return true;
+  }
+
+  /**
+   * Gets the timestamp of the last delivered message in a conversation, or
+   * when the stream started if no messages were delivered
+   *
+   * @param conversationId - The conversation ID
+   * @returns Timestamp in nanoseconds
+   */
+  after(conversationId: string) {
+    return this.#cursors.get(conversationId) ?? this.#startedAtNs;
+  }
+}
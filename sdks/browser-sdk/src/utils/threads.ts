@@ -0,0 +1,167 @@
+import { ContentTypeId } from "@xmtp/content-type-primitives";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { nsToDate } from "@/utils/date";
+
+// replies are decoded with the `ReplyCodec` registered with the client
+const ContentTypeReply = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "reply",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export type ThreadSummary = {
+  /**
+   * ID of the message that started the thread
+   */
+  rootId: string;
+  /**
+   * Number of replies in the thread, including replies to replies
+   */
+  replyCount: number;
+  lastReplyAt?: Date;
+  lastReplyAtNs?: bigint;
+};
+
+export type Thread = ThreadSummary & {
+  root: DecodedMessage;
+  /**
+   * Replies in the thread, including replies to replies, in the order they
+   * were sent
+   */
+  replies: DecodedMessage[];
+};
+
+/**
+ * Checks if a content type is a reply
+ *
+ * @param contentType - The content type to check
+ * @returns Whether the content type is a reply
+ */
+export const isReply = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypeReply);
+
+/**
+ * Groups reply messages into threads
+ *
+ * Replies to replies belong to the thread of the message at the start of
+ * their reply chain, so replies can be added in any order.
+ */
+export class ThreadIndex {
+  // reply ID => reply
+  #replies = new Map<string, DecodedMessage>();
+  // reply ID => ID of the message it references
+  #references = new Map<string, string>();
+
+  /**
+   * Adds a reply message
+   *
+   * @param message - The reply message to add
+   * @returns Whether the reply wasn't added before
+   */
+  add(message: DecodedMessage) {
+    if (
+      !isReply(message.contentType) ||
+      message.content === undefined ||
+      this.#replies.has(message.id)
+    ) {
+      return false;
+    }
+    const { reference } = message.content as { reference: string };
+    this.#replies.set(message.id, message);
+    this.#references.set(message.id, reference);
+    return true;
+  }
+
+  /**
+   * Gets the IDs of the messages referenced by a reply chain
+   *
+   * @param messageId - The ID of the message at the end of the chain
+   * @returns The IDs of the referenced messages, nearest first
+   */
+  #ancestors(messageId: string) {
+    const ancestors: string[] = [];
+    let reference = this.#references.get(messageId);
+    // reply chains can't reference themselves, but guard against it anyway
+    while (reference !== undefined && !ancestors.includes(reference)) {
+      ancestors.push(reference);
+      reference = this.#references.get(reference);
+    }
+    return ancestors;
+  }
+
+  /**
+   * Gets the ID of the message at the start of a reply chain
+   *
+   * @param messageId - The ID of the message at the end of the chain
+   * @returns The ID of the message that started the thread
+   */
+  rootOf(messageId: string) {
+    return this.#ancestors(messageId).at(-1) ?? messageId;
+  }
+
+  /**
+   * Checks if a message is a reply in the thread of another message
+   *
+   * @param messageId - The ID of the message to check
+   * @param rootId - The ID of the message that started the thread
+   * @returns Whether the message is in the thread
+   */
+  inThread(messageId: string, rootId: string) {
+    return this.#ancestors(messageId).includes(rootId);
+  }
+
+  /**
+   * Gets the replies in the thread of a message, in the order they were sent
+   *
+   * @param rootId - The ID of the message that started the thread
+   * @returns The replies in the thread
+   */
+  repliesTo(rootId: string) {
+    return [...this.#replies.values()]
+      .filter((reply) => this.inThread(reply.id, rootId))
+      .sort((a, b) =>
+        a.sentAtNs < b.sentAtNs ? -1 : a.sentAtNs > b.sentAtNs ? 1 : 0,
+      );
+  }
+
+  /**
+   * Gets the reply count and last reply time of the thread of a message
+   *
+   * @param rootId - The ID of the message that started the thread
+   * @returns The summary of the thread
+   */
+  summary(rootId: string): ThreadSummary {
+    const replies = this.repliesTo(rootId);
+    const lastReply = replies.at(-1);
+    return {
+      rootId,
+      replyCount: replies.length,
+      lastReplyAt: lastReply ? nsToDate(lastReply.sentAtNs) : undefined,
+      lastReplyAtNs: lastReply?.sentAtNs,
+    };
+  }
+
+  /**
+   * Gets the summaries of all threads
+   *
+   * @returns The thread summaries, keyed by the ID of their root message
+   */
+  summaries() {
+    const summaries = new Map<string, ThreadSummary>();
+    for (const reply of this.#replies.values()) {
+      const rootId = this.rootOf(reply.id);
+      const summary = summaries.get(rootId) ?? { rootId, replyCount: 0 };
+      summary.replyCount += 1;
+      if (
+        summary.lastReplyAtNs === undefined ||
+        reply.sentAtNs > summary.lastReplyAtNs
+      ) {
+        summary.lastReplyAt = nsToDate(reply.sentAtNs);
+        summary.lastReplyAtNs = reply.sentAtNs;
+      }
+      summaries.set(rootId, summary);
+    }
+    return summaries;
+  }
+}
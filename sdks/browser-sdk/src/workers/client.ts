@@ -38,7 +38,7 @@ import { WorkerConversation } from "@/WorkerConversation";
 let maybeClient: WorkerClient | undefined;
 let enableLogging = false;
 
-const streamClosers = new Map<string, StreamCloser>();
+const streamClosers = new Map<string, Pick<StreamCloser, "end">>();
 
 /**
  * Type-safe postMessage
@@ -513,6 +513,49 @@ self.onmessage = async (event: MessageEvent<ClientEventsClientMessageData>) => {
         postMessage({ id, action, result });
         break;
       }
+      /**
+       * Scheduler actions
+       */
+      case "startScheduler": {
+        // messages are only sent once their status changes are streamed, so
+        // that send middleware runs for all of them
+        const end = client.scheduler.onStatusChange((message) => {
+          postStreamMessage({
+            type: "scheduledMessage",
+            streamId: data.streamId,
+            result: message,
+          });
+        });
+        streamClosers.set(data.streamId, { end });
+        await client.scheduler.start();
+        postMessage({ id, action, result: undefined });
+        break;
+      }
+      case "getScheduledMessages": {
+        const result = await client.scheduler.list();
+        postMessage({ id, action, result });
+        break;
+      }
+      case "getScheduledMessage": {
+        const result = await client.scheduler.get(data.id);
+        postMessage({ id, action, result });
+        break;
+      }
+      case "rescheduleMessage": {
+        const result = await client.scheduler.reschedule(data.id, data.sendAt);
+        postMessage({ id, action, result });
+        break;
+      }
+      case "cancelScheduledMessage": {
+        await client.scheduler.cancel(data.id);
+        postMessage({ id, action, result: undefined });
+        break;
+      }
+      case "flushScheduledMessages": {
+        await client.scheduler.flush();
+        postMessage({ id, action, result: undefined });
+        break;
+      }
       /**
        * Group actions
        */
@@ -557,6 +600,16 @@ self.onmessage = async (event: MessageEvent<ClientEventsClientMessageData>) => {
         postMessage({ id, action, result });
         break;
       }
+      case "scheduleGroupMessage": {
+        const group = getGroup(data.id);
+        const result = await client.scheduler.schedule(
+          group.id,
+          data.content,
+          data.sendAt,
+        );
+        postMessage({ id, action, result });
+        break;
+      }
       case "publishGroupMessages": {
         const group = getGroup(data.id);
         await group.publishMessages();
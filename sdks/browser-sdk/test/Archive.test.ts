@@ -0,0 +1,174 @@
+import { ContentTypeText } from "@xmtp/content-type-text";
+import {
+  ContentType,
+  DeliveryStatus,
+  GroupMessageKind,
+  SortDirection,
+} from "@xmtp/wasm-bindings";
+import { describe, expect, it } from "vitest";
+import {
+  ARCHIVE_VERSION,
+  decryptArchive,
+  encryptArchive,
+  fromArchivedMessage,
+  ImportedMessages,
+  type ArchiveContents,
+  type ArchivedMessage,
+} from "@/Archive";
+import type { SafeListMessagesOptions } from "@/utils/conversions";
+import {
+  ArchiveDecryptionError,
+  InvalidArchiveError,
+  InvalidArchiveKeyError,
+  UnsupportedArchiveVersionError,
+} from "@/utils/errors";
+
+const contents: ArchiveContents = {
+  version: ARCHIVE_VERSION,
+  inboxId: "inbox",
+  exportedAt: new Date("2025-01-01T00:00:00Z"),
+  conversations: [
+    {
+      id: "conversation",
+      type: "group",
+      createdAtNs: "1735689600000000000",
+      consentState: "allowed",
+      name: "Group",
+      imageUrl: "",
+      description: "",
+      members: [
+        {
+          inboxId: "inbox",
+          permissionLevel: "super_admin",
+          consentState: "allowed",
+        },
+      ],
+    },
+  ],
+  messages: [
+    {
+      id: "message",
+      conversationId: "conversation",
+      senderInboxId: "inbox",
+      sentAtNs: "1735689600000000001",
+      kind: "application",
+      content: {
+        type: ContentTypeText,
+        parameters: { encoding: "UTF-8" },
+        content: new TextEncoder().encode("gm"),
+      },
+    },
+  ],
+};
+
+describe("Archive", () => {
+  it("should encrypt and decrypt an archive with a key", async () => {
+    const key = crypto.getRandomValues(new Uint8Array(32));
+    const archive = await encryptArchive(contents, { key });
+    const decrypted = await decryptArchive(archive, { key });
+    expect(decrypted).toEqual(contents);
+    expect(decrypted.messages[0].content.type.sameAs(ContentTypeText)).toBe(
+      true,
+    );
+  });
+
+  it("should encrypt and decrypt an archive with a password", async () => {
+    const archive = await encryptArchive(contents, { password: "hunter2" });
+    expect(await decryptArchive(archive, { password: "hunter2" })).toEqual(
+      contents,
+    );
+    await expect(
+      decryptArchive(archive, { password: "hunter3" }),
+    ).rejects.toThrow(ArchiveDecryptionError);
+    await expect(
+      decryptArchive(archive, { key: new Uint8Array(32) }),
+    ).rejects.toThrow(ArchiveDecryptionError);
+  });
+
+  it("should reject archives with out of range password iterations", async () => {
+    const archive = await encryptArchive(contents, { password: "hunter2" });
+    const view = new DataView(archive.buffer);
+    // magic, version, secret type and salt come before the iterations
+    view.setUint32(22, 1);
+    await expect(
+      decryptArchive(archive, { password: "hunter2" }),
+    ).rejects.toThrow(InvalidArchiveError);
+    view.setUint32(22, 0xffffffff);
+    await expect(
+      decryptArchive(archive, { password: "hunter2" }),
+    ).rejects.toThrow(InvalidArchiveError);
+  });
+
+  it("should reject invalid archives and keys", async () => {
+    const key = crypto.getRandomValues(new Uint8Array(32));
+    await expect(
+      encryptArchive(contents, { key: new Uint8Array(16) }),
+    ).rejects.toThrow(InvalidArchiveKeyError);
+    await expect(decryptArchive(new Uint8Array(8), { key })).rejects.toThrow(
+      InvalidArchiveError,
+    );
+
+    const archive = await encryptArchive(contents, { key });
+    const future = archive.slice();
+    future[4] = ARCHIVE_VERSION + 1;
+    await expect(decryptArchive(future, { key })).rejects.toThrow(
+      UnsupportedArchiveVersionError,
+    );
+
+    // the header is authenticated
+    const tampered = archive.slice();
+    tampered[5] = 2;
+    await expect(decryptArchive(tampered, { key })).rejects.toThrow(
+      ArchiveDecryptionError,
+    );
+  });
+
+  it("should convert archived messages to messages", () => {
+    const message = fromArchivedMessage(contents.messages[0], "local");
+    expect(message.convoId).toBe("local");
+    expect(message.kind).toBe(GroupMessageKind.Application);
+    expect(message.sentAtNs).toBe(1735689600000000001n);
+    expect(message.content.content).toEqual(new TextEncoder().encode("gm"));
+  });
+});
+
+describe("ImportedMessages", () => {
+  const archived = (id: string, sentAtNs: number): ArchivedMessage => ({
+    ...contents.messages[0],
+    id,
+    sentAtNs: sentAtNs.toString(),
+  });
+  const local = fromArchivedMessage(archived("local", 2));
+
+  it("should list imported messages with local messages", async () => {
+    const imported = new ImportedMessages();
+    await imported.load(null);
+    await imported.add([
+      archived("a", 1),
+      archived("local", 2),
+      archived("b", 3),
+    ]);
+
+    const ids = (options?: SafeListMessagesOptions) =>
+      imported
+        .merge("conversation", [local], options)
+        .map((message) => message.id);
+    expect(ids()).toEqual(["a", "local", "b"]);
+    expect(ids({ direction: SortDirection.Descending, limit: 2n })).toEqual([
+      "b",
+      "local",
+    ]);
+    expect(ids({ sentAfterNs: 1n, sentBeforeNs: 3n })).toEqual(["local"]);
+    expect(ids({ contentTypes: [ContentType.Text] })).toEqual([
+      "a",
+      "local",
+      "b",
+    ]);
+    expect(ids({ contentTypes: [ContentType.Reaction] })).toEqual(["local"]);
+    expect(ids({ deliveryStatus: DeliveryStatus.Unpublished })).toEqual([
+      "local",
+    ]);
+    expect(imported.get("a")?.sentAtNs).toBe(1n);
+    expect(imported.get("c")).toBeUndefined();
+  });
+});
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
 import { AsyncStream } from "@/AsyncStream";
+import { StreamOverflowError } from "@/utils/errors";
 
 const testError = new Error("test");
 
@@ -92,4 +93,159 @@ describe("AsyncStream", () => {
     expect(stream.isDone).toBe(true);
     expect(stream.error).toBe(testError);
   });
+  it("should drop the oldest values when the buffer is full", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 2,
+      overflow: "drop-oldest",
+    });
+    void stream.callback(null, 1);
+    void stream.callback(null, 2);
+    void stream.callback(null, 3);
+    expect(stream.metrics).toEqual({ queued: 2, dropped: 1 });
+    expect(await stream.next()).toEqual({ done: false, value: 2 });
+    expect(await stream.next()).toEqual({ done: false, value: 3 });
+    expect(stream.metrics).toEqual({ queued: 0, dropped: 1 });
+  });
+
+  it("should drop the newest values when the buffer is full", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 2,
+      overflow: "drop-newest",
+    });
+    void stream.callback(null, 1);
+    void stream.callback(null, 2);
+    void stream.callback(null, 3);
+    expect(stream.metrics).toEqual({ queued: 2, dropped: 1 });
+    expect(await stream.next()).toEqual({ done: false, value: 1 });
+    expect(await stream.next()).toEqual({ done: false, value: 2 });
+  });
+
+  it("should error when the buffer is full", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 1,
+      overflow: "error",
+    });
+    let returned = false;
+    let error: Error | undefined;
+    stream.onReturn = () => {
+      returned = true;
+    };
+    stream.onError = (streamError) => {
+      error = streamError;
+    };
+    void stream.callback(null, 1);
+    void stream.callback(null, 2);
+    // the underlying stream is ended right away
+    expect(returned).toBe(true);
+    expect(error).toBeInstanceOf(StreamOverflowError);
+    void stream.callback(null, 3);
+    // buffered values are delivered before the error
+    expect(await stream.next()).toEqual({ done: false, value: 1 });
+    await expect(stream.next()).rejects.toThrow(StreamOverflowError);
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should pause and resume when the buffer is full", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 4,
+      overflow: "pause",
+    });
+    let pauseCount = 0;
+    let resumeCount = 0;
+    stream.onPause = () => {
+      pauseCount++;
+    };
+    stream.onResume = () => {
+      resumeCount++;
+      return Promise.resolve();
+    };
+    for (let i = 1; i <= 5; i++) {
+      void stream.callback(null, i);
+    }
+    expect(stream.isPaused).toBe(true);
+    expect(pauseCount).toBe(1);
+    // values received while pausing are not dropped
+    expect(stream.metrics).toEqual({ queued: 5, dropped: 0 });
+
+    await stream.next();
+    await stream.next();
+    expect(resumeCount).toBe(0);
+    await stream.next();
+    expect(resumeCount).toBe(1);
+    expect(stream.isPaused).toBe(false);
+  });
+
+  it("should end the stream when resuming fails", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 1,
+      overflow: "pause",
+    });
+    stream.onResume = () => Promise.reject(testError);
+    void stream.callback(null, 1);
+    expect(await stream.next()).toEqual({ done: false, value: 1 });
+    await expect(stream.next()).rejects.toBe(testError);
+  });
+
+  it("should settle a pending value when the stream is returned", async () => {
+    const stream = new AsyncStream<number>();
+    const pending = stream.next();
+    await stream.return(undefined);
+    expect(await pending).toEqual({ done: true, value: undefined });
+  });
+
+  it("should map, filter, and take values", async () => {
+    const stream = new AsyncStream<number>();
+    let onReturnCalled = false;
+    stream.onReturn = () => {
+      onReturnCalled = true;
+    };
+    for (let i = 1; i <= 10; i++) {
+      void stream.callback(null, i);
+    }
+
+    const values: string[] = [];
+    for await (const value of stream
+      .filter(
+        (value): value is number => value !== undefined && value % 2 === 0,
+      )
+      .map((value) => `#${value}`)
+      .take(3)) {
+      values.push(value);
+    }
+    expect(values).toEqual(["#2", "#4", "#6"]);
+    expect(onReturnCalled).toBe(true);
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should batch values by size and time", async () => {
+    const stream = new AsyncStream<number>();
+    void stream.callback(null, 1);
+    void stream.callback(null, 2);
+    void stream.callback(null, 3);
+    setTimeout(() => {
+      void stream.callback(null, 4);
+    }, 100);
+
+    const batches: (number | undefined)[][] = [];
+    for await (const batch of stream.batch(2, 50)) {
+      batches.push(batch);
+      if (batches.length === 3) {
+        break;
+      }
+    }
+    expect(batches).toEqual([[1, 2], [3], [4]]);
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should end the stream when a batch iterator is returned", async () => {
+    const stream = new AsyncStream<number>();
+    void stream.callback(null, 1);
+
+    // the batch times out while the stream is waiting for a value
+    for await (const batch of stream.batch(2, 10)) {
+      expect(batch).toEqual([1]);
+      break;
+    }
+    expect(stream.isDone).toBe(true);
+  });
 });
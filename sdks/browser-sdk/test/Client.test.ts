@@ -1,14 +1,18 @@
+import { ContentTypeId } from "@xmtp/content-type-primitives";
 import { v4 } from "uuid";
 import { describe, expect, it } from "vitest";
 import { Client } from "@/Client";
+import type { Dm } from "@/Dm";
 import { SignerUnavailableError } from "@/utils/errors";
 import {
   buildClient,
+  ContentTypeTest,
   createClient,
   createIdentifier,
   createRegisteredClient,
   createSigner,
   createUser,
+  TestCodec,
 } from "@test/helpers";
 
 describe.concurrent("Client", () => {
@@ -262,4 +266,65 @@ describe.concurrent("Client", () => {
       client.changeRecoveryIdentifier(await signer2.getIdentifier()),
     ).rejects.toThrow(new SignerUnavailableError());
   });
+
+  it("should export and import an archive", async () => {
+    const user = createUser();
+    const user2 = createUser();
+    const signer = createSigner(user);
+    const signer2 = createSigner(user2);
+    const client = await createRegisteredClient(signer);
+    const client2 = await createRegisteredClient(signer2);
+    const group = await client.conversations.newGroup([client2.inboxId!]);
+    await group.send("gm");
+    await group.send("gn");
+    const dm = await client.conversations.newDm(client2.inboxId!);
+
+    const archive = await client.exportArchive({
+      password: "hunter2",
+      conversationIds: [group.id, dm.id],
+    });
+
+    const client3 = await createRegisteredClient(signer, {
+      dbPath: `./test-${v4()}.db3`,
+    });
+    const result = await client3.importArchive(archive, {
+      password: "hunter2",
+    });
+    expect(result.missingConversationIds).toEqual([group.id]);
+    // archived DMs are created when they aren't on the new installation
+    expect(result.conversations.length).toBe(1);
+    expect(await (result.conversations[0] as Dm).peerInboxId()).toBe(
+      client2.inboxId,
+    );
+    expect(
+      result.messages
+        .filter((message) => message.kind === "application")
+        .map((message) => message.content as string),
+    ).toEqual(["gm", "gn"]);
+    // imported messages are stored with the local DB
+    const imported = result.messages[result.messages.length - 1];
+    expect(
+      (await client3.conversations.getMessageById(imported.id))?.content,
+    ).toBe("gn");
+  });
+
+  it("should only use codecs for content of their major version", async () => {
+    const user = createUser();
+    const signer = createSigner(user);
+    const client = await createClient(signer, {
+      codecs: [new TestCodec()],
+    });
+    const contentTypeId = (versionMajor: number, versionMinor: number) =>
+      new ContentTypeId({
+        authorityId: ContentTypeTest.authorityId,
+        typeId: ContentTypeTest.typeId,
+        versionMajor,
+        versionMinor,
+      });
+
+    expect(client.codecFor(contentTypeId(1, 0))).toBeInstanceOf(TestCodec);
+    expect(client.codecFor(contentTypeId(1, 2))).toBeInstanceOf(TestCodec);
+    expect(client.codecFor(contentTypeId(0, 1))).toBeUndefined();
+    expect(client.codecFor(contentTypeId(2, 0))).toBeUndefined();
+  });
 });
@@ -1,17 +1,43 @@
+import { ContentTypeDelete } from "@xmtp/content-type-delete";
+import { ContentTypeEdit } from "@xmtp/content-type-edit";
+import {
+  ContentTypeEphemeral,
+  type Ephemeral,
+} from "@xmtp/content-type-ephemeral";
+import { ContentTypePoll } from "@xmtp/content-type-poll";
+import { ContentTypePollVote } from "@xmtp/content-type-poll-vote";
+import { decodeMentions } from "@xmtp/content-type-primitives";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { ContentTypeTypingIndicator } from "@xmtp/content-type-typing-indicator";
 import {
   ConsentState,
   GroupPermissionsOptions,
   MetadataField,
   PermissionPolicy,
   PermissionUpdateType,
+  SortDirection,
 } from "@xmtp/wasm-bindings";
 import { describe, expect, it } from "vitest";
 import type { SafeMessageDisappearingSettings } from "@/utils/conversions";
 import {
+  CodecNotFoundError,
+  EphemeralMessageNotFoundError,
+  InviteUsedUpError,
+  PollNotFoundError,
+  SendCancelledError,
+  ThreadNotFoundError,
+} from "@/utils/errors";
+import type { ScheduledMessageStatus } from "@/WorkerScheduler";
+import {
+  ContentTypeReaction,
+  ContentTypeReply,
   ContentTypeTest,
   createRegisteredClient,
   createSigner,
   createUser,
+  ReactionTestCodec,
+  ReadReceiptTestCodec,
+  ReplyTestCodec,
   sleep,
   TestCodec,
 } from "@test/helpers";
@@ -771,4 +797,578 @@ describe("Conversation", () => {
       expect(hmacKey.epoch).toBeDefined();
     }
   });
+  it("should run middleware when sending and decoding messages", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const sentIds: string[] = [];
+    const client1 = await createRegisteredClient(signer1, {
+      middleware: [
+        {
+          beforeSend: (content) =>
+            content === "cancel"
+              ? false
+              : { content: `${content}!`, contentType: ContentTypeText },
+          afterSend: (messageId) => {
+            sentIds.push(messageId);
+          },
+          onDecode: (message) => {
+            if (message.contentType.sameAs(ContentTypeText)) {
+              message.content = (message.content as string).toUpperCase();
+            }
+          },
+        },
+      ],
+    });
+    const client2 = await createRegisteredClient(signer2);
+    const conversation = await client1.conversations.newGroup([
+      client2.inboxId!,
+    ]);
+
+    const messageId = await conversation.send("gm");
+    expect(sentIds).toEqual([messageId]);
+    await expect(conversation.send("cancel")).rejects.toThrow(
+      SendCancelledError,
+    );
+    await expect(conversation.sendOptimistic("cancel")).rejects.toThrow(
+      SendCancelledError,
+    );
+    await conversation.sendOptimistic("gm again");
+
+    const messages = await conversation.messages();
+    expect(messages.length).toBe(3);
+    expect(messages[1].content).toBe("GM!");
+    expect(messages[2].content).toBe("GM AGAIN!");
+
+    await client2.conversations.sync();
+    const conversation2 = (await client2.conversations.listGroups())[0];
+    await conversation2.sync();
+    const messages2 = await conversation2.messages();
+    expect(messages2[0].content).toBe("gm!");
+  });
+
+  it("should attach decode errors in fallback mode", async () => {
+    class FallbackTestCodec extends TestCodec {
+      fallback() {
+        return "test content not supported";
+      }
+    }
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1, {
+      codecs: [new FallbackTestCodec()],
+    });
+    const client2 = await createRegisteredClient(signer2, {
+      decodeErrorMode: "fallback",
+    });
+    const conversation = await client1.conversations.newGroup([
+      client2.inboxId!,
+    ]);
+
+    await conversation.send({ foo: "bar" }, ContentTypeTest);
+    await conversation.send("gm");
+
+    await client2.conversations.sync();
+    const conversation2 = (await client2.conversations.listGroups())[0];
+    await conversation2.sync();
+    const messages = await conversation2.messages();
+    expect(messages.length).toBe(2);
+    expect(messages[0].content).toBeUndefined();
+    expect(messages[0].contentType.sameAs(ContentTypeTest)).toBe(true);
+    expect(messages[0].decodeError).toBeInstanceOf(CodecNotFoundError);
+    expect(messages[0].fallback).toBe("test content not supported");
+    expect(messages[1].content).toBe("gm");
+    expect(messages[1].decodeError).toBeUndefined();
+  });
+
+  it("should reconcile edits and deletes", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1);
+    const client2 = await createRegisteredClient(signer2);
+    const conversation = await client1.conversations.newGroup([
+      client2.inboxId!,
+    ]);
+
+    const gmId = await conversation.send("gm");
+    const helloId = await conversation.send("hello");
+    await conversation.send(
+      { reference: gmId, content: "gm!", contentType: ContentTypeText },
+      ContentTypeEdit,
+    );
+    await conversation.send({ reference: helloId }, ContentTypeDelete);
+
+    await client2.conversations.sync();
+    const conversation2 = (await client2.conversations.listGroups())[0];
+    await conversation2.sync();
+    // only the original sender can edit a message
+    await conversation2.send(
+      { reference: gmId, content: "gn", contentType: ContentTypeText },
+      ContentTypeEdit,
+    );
+
+    const messages = await conversation2.messages({
+      reconcile: true,
+      includeOriginal: true,
+      direction: SortDirection.Ascending,
+    });
+    const gm = messages.find((message) => message.id === gmId);
+    const hello = messages.find((message) => message.id === helloId);
+    expect(messages.length).toBe(2);
+    expect(gm?.content).toBe("gm!");
+    expect(gm?.originalContent).toBe("gm");
+    expect(gm?.editedAt).toBeInstanceOf(Date);
+    expect(hello?.content).toBeUndefined();
+    expect(hello?.deletedAt).toBeInstanceOf(Date);
+
+    const unreconciled = await conversation2.messages();
+    expect(unreconciled.length).toBe(5);
+  });
+
+  it("should aggregate reactions to a message", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1, {
+      codecs: [new ReactionTestCodec()],
+    });
+    const client2 = await createRegisteredClient(signer2, {
+      codecs: [new ReactionTestCodec()],
+    });
+    const conversation = await client1.conversations.newGroup([
+      client2.inboxId!,
+    ]);
+    await client2.conversations.sync();
+    const conversation2 = (await client2.conversations.listGroups())[0];
+
+    const stream = await conversation.streamReactionSummaries();
+    const messageId = await conversation.send("gm");
+    const react = (action: string, content: string) => ({
+      reference: messageId,
+      action,
+      content,
+      schema: "unicode",
+    });
+    await conversation.send(react("added", "👍"), ContentTypeReaction);
+    await conversation2.sync();
+    await conversation2.send(react("added", "👍"), ContentTypeReaction);
+    await conversation2.send(react("added", "🔥"), ContentTypeReaction);
+    await conversation2.send(react("removed", "🔥"), ContentTypeReaction);
+    await conversation.sync();
+
+    const summary = await conversation.reactionsFor(messageId);
+    expect(summary.messageId).toBe(messageId);
+    expect(summary.reactions.length).toBe(1);
+    expect(summary.reactions[0].content).toBe("👍");
+    expect(summary.reactions[0].count).toBe(2);
+    expect(summary.reactions[0].inboxIds).toEqual(
+      new Set([client1.inboxId, client2.inboxId]),
+    );
+
+    const first = await stream.next();
+    expect(first.value?.messageId).toBe(messageId);
+    expect(first.value?.reactions[0].content).toBe("👍");
+    await stream.return(undefined);
+  });
+
+  it("should track read receipts and unread messages", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1, {
+      codecs: [new ReadReceiptTestCodec()],
+    });
+    const client2 = await createRegisteredClient(signer2, {
+      codecs: [new ReadReceiptTestCodec()],
+    });
+    const conversation = await client1.conversations.newGroup([
+      client2.inboxId!,
+    ]);
+    await conversation.send("gm");
+    await conversation.send("hello");
+
+    await client2.conversations.sync();
+    const conversation2 = (await client2.conversations.listGroups())[0];
+    await conversation2.sync();
+    expect(await conversation2.unreadCount()).toBe(2);
+    expect(await client2.conversations.unreadCounts()).toEqual({
+      [conversation2.id]: 2,
+    });
+    expect(await conversation2.readStateFor(client2.inboxId!)).toBeUndefined();
+
+    const receiptId = await conversation2.markRead();
+    expect(receiptId).toBeDefined();
+    expect(await conversation2.unreadCount()).toBe(0);
+    // no new messages since the last receipt
+    expect(await conversation2.markRead()).toBeUndefined();
+
+    await conversation.sync();
+    const readState = await conversation.readStateFor(client2.inboxId!);
+    expect(readState?.inboxId).toBe(client2.inboxId);
+    expect(readState?.readAt).toBeInstanceOf(Date);
+    expect(await conversation.unreadCount()).toBe(0);
+  });
+
+  it("should stream typing indicators and leave them out of messages", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1);
+    const client2 = await createRegisteredClient(signer2);
+    const conversation = await client1.conversations.newGroup([
+      client2.inboxId!,
+    ]);
+    await client2.conversations.sync();
+    const conversation2 = (await client2.conversations.listGroups())[0];
+
+    const stream = await conversation.streamTyping();
+    await conversation2.send({ state: "started" }, ContentTypeTypingIndicator);
+    await conversation2.send("gm");
+
+    const started = await stream.next();
+    expect(started.value?.inboxId).toBe(client2.inboxId);
+    expect(started.value?.typing).toBe(true);
+    expect(started.value?.expiresAt).toBeInstanceOf(Date);
+    const stopped = await stream.next();
+    expect(stopped.value?.inboxId).toBe(client2.inboxId);
+    expect(stopped.value?.typing).toBe(false);
+    await stream.return(undefined);
+
+    await conversation.sync();
+    const messages = await conversation.messages();
+    expect(
+      messages.some((message) =>
+        message.contentType.sameAs(ContentTypeTypingIndicator),
+      ),
+    ).toBe(false);
+  });
+
+  it("should resolve mentions of group members", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1);
+    const client2 = await createRegisteredClient(signer2);
+    const group = await client1.conversations.newGroup([client2.inboxId!]);
+
+    const text = `gm @${user2.account.address}, @bo and @nobody`;
+    const resolved = await group.resolveMentions(text, {
+      [client2.inboxId!]: "bo",
+    });
+    expect(resolved.text).toBe(text);
+    expect(resolved.mentions).toEqual([
+      { inboxId: client2.inboxId, offset: 3, length: 43 },
+      { inboxId: client2.inboxId, offset: 48, length: 3 },
+    ]);
+
+    await group.send(text, undefined, { mentions: resolved.mentions });
+    await client2.conversations.sync();
+    const group2 = await client2.conversations.getConversationById(group.id);
+    await group2!.sync();
+    const messages = await group2!.messages();
+    const message = messages.find((m) => m.content === text);
+    expect(decodeMentions(message?.parameters)).toEqual(resolved.mentions);
+  });
+
+  it("should tally poll votes", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const user3 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const signer3 = createSigner(user3);
+    const client1 = await createRegisteredClient(signer1);
+    const client2 = await createRegisteredClient(signer2);
+    const client3 = await createRegisteredClient(signer3);
+    const group = await client1.conversations.newGroup([client2.inboxId!]);
+
+    const pollId = await group.send(
+      { question: "gm or gn?", options: ["gm", "gn"] },
+      ContentTypePoll,
+    );
+    await group.send({ reference: pollId, options: [1] }, ContentTypePollVote);
+    await group.send({ reference: pollId, options: [0] }, ContentTypePollVote);
+
+    await client2.conversations.sync();
+    const groups2 = await client2.conversations.listGroups();
+    await groups2[0].sync();
+    await groups2[0].send(
+      { reference: pollId, options: [0] },
+      ContentTypePollVote,
+    );
+    await group.sync();
+
+    const results = await group.pollResults(pollId);
+    expect(results.question).toBe("gm or gn?");
+    expect(results.options.map((option) => option.count)).toEqual([2, 0]);
+    expect(results.voters).toBe(2);
+    expect(results.closed).toBe(false);
+
+    const dm = await client1.conversations.newDm(client3.inboxId!);
+    await expect(dm.pollResults(pollId)).rejects.toThrow(PollNotFoundError);
+  });
+
+  it("should group replies into threads", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1, {
+      codecs: [new ReplyTestCodec()],
+    });
+    const client2 = await createRegisteredClient(signer2, {
+      codecs: [new ReplyTestCodec()],
+    });
+    const group = await client1.conversations.newGroup([client2.inboxId!]);
+
+    const rootId = await group.send("gm");
+    const stream = await group.streamThread(rootId);
+    const replyId = await group.send(
+      { reference: rootId, content: "gm!" },
+      ContentTypeReply,
+    );
+    await client2.conversations.sync();
+    const group2 = (await client2.conversations.listGroups())[0];
+    await group2.sync();
+    const nestedReplyId = await group2.send(
+      { reference: replyId, content: "gm!!" },
+      ContentTypeReply,
+    );
+    const otherId = await group.send("gn");
+    await group.send({ reference: otherId, content: "gn!" }, ContentTypeReply);
+    await group.sync();
+
+    const thread = await group.thread(rootId);
+    expect(thread.root.id).toBe(rootId);
+    expect(thread.replies.map((reply) => reply.id)).toEqual([
+      replyId,
+      nestedReplyId,
+    ]);
+    expect(thread.replyCount).toBe(2);
+    expect(thread.lastReplyAtNs).toBe(thread.replies[1].sentAtNs);
+
+    const summaries = await group.threadSummaries();
+    expect(summaries.get(rootId)?.replyCount).toBe(2);
+    expect(summaries.get(otherId)?.replyCount).toBe(1);
+
+    const first = await stream.next();
+    expect(first.value?.id).toBe(replyId);
+    const second = await stream.next();
+    expect(second.value?.id).toBe(nestedReplyId);
+    await stream.return(undefined);
+
+    const dm = await client1.conversations.newDm(client2.inboxId!);
+    await expect(dm.thread(rootId)).rejects.toThrow(ThreadNotFoundError);
+  });
+
+  it("should send scheduled messages", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1, {
+      codecs: [new TestCodec()],
+    });
+    const client2 = await createRegisteredClient(signer2);
+    const group = await client1.conversations.newGroup([client2.inboxId!]);
+
+    const later = await group.schedule(
+      "later",
+      undefined,
+      new Date(Date.now() + 60_000),
+    );
+    const soon = await group.schedule(
+      { foo: "bar" },
+      ContentTypeTest,
+      new Date(Date.now() + 100),
+    );
+    expect(soon.status).toBe("scheduled");
+    expect(soon.content).toEqual({ foo: "bar" });
+    expect(
+      (await client1.scheduler.list()).map((message) => message.id),
+    ).toEqual([soon.id, later.id]);
+
+    await sleep(1000);
+    expect(await client1.scheduler.get(soon.id)).toBeUndefined();
+    const contents = (await group.messages()).map(
+      (message) => message.content as unknown,
+    );
+    expect(contents).toContainEqual({ foo: "bar" });
+
+    await client1.scheduler.reschedule(later.id, new Date());
+    await client1.scheduler.flush();
+    expect(await client1.scheduler.list()).toEqual([]);
+    const sent = (await group.messages()).map(
+      (message) => message.content as unknown,
+    );
+    expect(sent).toContain("later");
+
+    const cancelled = await group.schedule(
+      "cancelled",
+      undefined,
+      new Date(Date.now() + 60_000),
+    );
+    await client1.scheduler.cancel(cancelled.id);
+    expect(await client1.scheduler.list()).toEqual([]);
+  });
+
+  it("should run middleware and report statuses of scheduled messages", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const sentIds: string[] = [];
+    const client1 = await createRegisteredClient(signer1, {
+      middleware: [
+        {
+          beforeSend: (content) =>
+            content === "cancel"
+              ? false
+              : { content: `${content}!`, contentType: ContentTypeText },
+          afterSend: (messageId) => {
+            sentIds.push(messageId);
+          },
+        },
+      ],
+    });
+    const client2 = await createRegisteredClient(signer2);
+    const group = await client1.conversations.newGroup([client2.inboxId!]);
+    const statuses: ScheduledMessageStatus[] = [];
+    client1.scheduler.onStatusChange((message) => {
+      statuses.push(message.status);
+    });
+
+    await expect(
+      group.schedule("cancel", undefined, new Date()),
+    ).rejects.toThrow(SendCancelledError);
+    const scheduled = await group.schedule("gm", undefined, new Date());
+    expect(scheduled.content).toBe("gm!");
+    await client1.scheduler.flush();
+    await sleep(100);
+
+    const messages = await group.messages();
+    expect(sentIds).toEqual([messages[1].id]);
+    expect(messages[1].content).toBe("gm!");
+    expect(statuses).toEqual(["scheduled", "sending", "sent"]);
+  });
+
+  it("should purge ephemeral messages after viewing or expiry", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1);
+    const client2 = await createRegisteredClient(signer2);
+    const group = await client1.conversations.newGroup([client2.inboxId!]);
+
+    const viewOnceId = await group.send(
+      { content: "gm", contentType: ContentTypeText, viewOnce: true },
+      ContentTypeEphemeral,
+    );
+    const expiringId = await group.send(
+      {
+        content: "gn",
+        contentType: ContentTypeText,
+        expiresAt: new Date(Date.now() + 500),
+      },
+      ContentTypeEphemeral,
+    );
+    const textId = await group.send("hello");
+
+    await client2.conversations.sync();
+    const group2 = (await client2.conversations.listGroups())[0];
+    await group2.sync();
+
+    const messages = await group2.messages();
+    const viewOnce = messages.find((message) => message.id === viewOnceId);
+    expect(viewOnce?.content).toEqual({
+      content: "gm",
+      contentType: ContentTypeText,
+      viewOnce: true,
+    });
+    expect(viewOnce?.fallback).toBe("Sent a view-once message");
+
+    const viewed = await group2.viewMessage(viewOnceId);
+    expect((viewed.content as Ephemeral).content).toBe("gm");
+    const purged = await group2.viewMessage(viewOnceId);
+    expect(purged.content).toBeUndefined();
+    expect(purged.purged).toBe("viewed");
+    expect(purged.encodedContent.content).toHaveLength(0);
+
+    await sleep(500);
+    const purgedMessages = await group2.messages();
+    expect(
+      purgedMessages.find((message) => message.id === viewOnceId)?.purged,
+    ).toBe("viewed");
+    const expired = purgedMessages.find((message) => message.id === expiringId);
+    expect(expired?.content).toBeUndefined();
+    expect(expired?.purged).toBe("expired");
+
+    // view-once messages are only purged by the client that viewed them
+    const sent = await group.viewMessage(viewOnceId);
+    expect((sent.content as Ephemeral).content).toBe("gm");
+
+    await expect(group2.viewMessage(textId)).rejects.toThrow(
+      EphemeralMessageNotFoundError,
+    );
+  });
+
+  it("should add members who send an invite token", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const user3 = createUser();
+    const user4 = createUser();
+    const client1 = await createRegisteredClient(createSigner(user1));
+    const client2 = await createRegisteredClient(createSigner(user2));
+    const client3 = await createRegisteredClient(createSigner(user3));
+    const client4 = await createRegisteredClient(createSigner(user4));
+    const group = await client1.conversations.newGroup([client2.inboxId!]);
+
+    const invite = await group.createInvite({
+      expiresAt: new Date(Date.now() + 60_000),
+      maxUses: 1,
+    });
+    expect(await client1.invites.list(group.id)).toEqual([invite]);
+
+    const dm = await client3.invites.join(invite.token);
+    expect(await dm.peerInboxId()).toBe(client1.inboxId);
+
+    const receiveToken = async (inboxId: string) => {
+      await client1.conversations.sync();
+      const dm1 = await client1.conversations.getDmByInboxId(inboxId);
+      await dm1!.sync();
+      const messages = await dm1!.messages();
+      return messages.find((message) => message.senderInboxId === inboxId)!;
+    };
+
+    const redemption = await client1.invites.handleMessage(
+      await receiveToken(client3.inboxId!),
+    );
+    expect(redemption?.added).toBe(true);
+    expect(redemption?.invite.uses).toBe(1);
+    const members = await group.members();
+    expect(members.map((member) => member.inboxId)).toContain(client3.inboxId);
+
+    // members who already joined don't use the invite again
+    const again = await client1.invites.redeem(invite.token, client3.inboxId!);
+    expect(again.added).toBe(false);
+
+    await client4.invites.join(invite.token);
+    await expect(
+      client1.invites.handleMessage(await receiveToken(client4.inboxId!)),
+    ).rejects.toThrow(InviteUsedUpError);
+
+    // other messages are ignored
+    const [groupMessage] = await group.messages();
+    expect(await client1.invites.handleMessage(groupMessage)).toBeUndefined();
+  });
 });
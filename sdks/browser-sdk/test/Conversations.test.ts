@@ -766,4 +766,82 @@ describe("Streaming", () => {
     }
     expect(count).toBe(1);
   });
+
+  it("should search messages", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const client1 = await createRegisteredClient(signer1);
+    const client2 = await createRegisteredClient(signer2);
+    const group = await client1.conversations.newGroup([client2.inboxId!]);
+    const dm = await client1.conversations.newDm(client2.inboxId!);
+
+    await group.send("dinner at eight?");
+    await dm.send("lunch tomorrow");
+
+    const results = await client1.conversations.searchMessages("din");
+    expect(results.length).toBe(1);
+    expect(results[0].message.content).toBe("dinner at eight?");
+    expect(results[0].highlights).toEqual([{ start: 0, end: 6 }]);
+
+    // new messages are indexed by later searches
+    await dm.send("dinner works too");
+    const results2 = await client1.conversations.searchMessages("dinner");
+    expect(results2.length).toBe(2);
+    const results3 = await client1.conversations.searchMessages("dinner", {
+      conversationIds: [dm.id],
+    });
+    expect(results3.map((result) => result.message.content as string)).toEqual([
+      "dinner works too",
+    ]);
+    const results4 = await client1.conversations.searchMessages("dinner", {
+      senders: [client2.inboxId!],
+    });
+    expect(results4.length).toBe(0);
+  });
+
+  it("should stream mentions", async () => {
+    const user1 = createUser();
+    const user2 = createUser();
+    const user3 = createUser();
+    const signer1 = createSigner(user1);
+    const signer2 = createSigner(user2);
+    const signer3 = createSigner(user3);
+    const client1 = await createRegisteredClient(signer1);
+    const client2 = await createRegisteredClient(signer2);
+    const client3 = await createRegisteredClient(signer3);
+    await client1.conversations.newGroup([client2.inboxId!, client3.inboxId!]);
+
+    const stream = await client1.conversations.streamMentions();
+
+    await client2.conversations.sync();
+    const groups2 = await client2.conversations.listGroups();
+    await groups2[0].send("gm everyone");
+    const { text, mentions } = await groups2[0].resolveMentions(
+      `gm @${user1.account.address}`,
+    );
+    await groups2[0].send(text, undefined, { mentions });
+    const mentioned = await groups2[0].resolveMentions(
+      `gm @${user3.account.address}`,
+    );
+    await groups2[0].send(mentioned.text, undefined, {
+      mentions: mentioned.mentions,
+    });
+
+    setTimeout(() => {
+      void stream.callback(null, undefined);
+    }, 2000);
+
+    const messages = [];
+    for await (const message of stream) {
+      if (message === undefined) {
+        break;
+      }
+      messages.push(message);
+    }
+    expect(messages.length).toBe(1);
+    expect(messages[0].content).toBe(`gm @${user1.account.address}`);
+    expect(messages[0].senderInboxId).toBe(client2.inboxId);
+  });
 });
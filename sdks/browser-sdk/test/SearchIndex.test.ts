@@ -0,0 +1,211 @@
+import { ContentTypeDelete } from "@xmtp/content-type-delete";
+import { ContentTypeEdit } from "@xmtp/content-type-edit";
+import { ContentTypeEphemeral } from "@xmtp/content-type-ephemeral";
+import { ContentTypeId } from "@xmtp/content-type-primitives";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { describe, expect, it } from "vitest";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { extractSearchText, SearchIndex, tokenize } from "@/SearchIndex";
+import { ContentTypeTest, createMessage } from "@test/helpers";
+
+const ContentTypeReply = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "reply",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+const ContentTypeAttachment = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "attachment",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+let sentAtNs = 0n;
+
+// each message is sent after the previous one
+const createNextMessage = (
+  content: unknown,
+  contentType: ContentTypeId = ContentTypeText,
+  overrides?: Partial<DecodedMessage>,
+) => {
+  sentAtNs++;
+  return createMessage({
+    id: `message-${sentAtNs}`,
+    sentAtNs,
+    content,
+    contentType,
+    ...overrides,
+  });
+};
+
+describe("SearchIndex", () => {
+  it("should tokenize text with positions", () => {
+    expect(tokenize("Héllo, wörld! 42")).toEqual([
+      { term: "hello", start: 0, end: 5 },
+      { term: "world", start: 7, end: 12 },
+      { term: "42", start: 14, end: 16 },
+    ]);
+  });
+
+  it("should extract searchable text", () => {
+    expect(extractSearchText(createNextMessage("gm"))).toBe("gm");
+    expect(
+      extractSearchText(
+        createNextMessage(
+          { content: "reply text", contentType: ContentTypeText },
+          ContentTypeReply,
+        ),
+      ),
+    ).toBe("reply text");
+    expect(
+      extractSearchText(
+        createNextMessage(
+          { filename: "photo.png", mimeType: "image/png" },
+          ContentTypeAttachment,
+        ),
+      ),
+    ).toBe("photo.png");
+    expect(
+      extractSearchText(createNextMessage({ foo: "bar" }, ContentTypeTest)),
+    ).toBeUndefined();
+  });
+
+  it("should match prefixes and highlight matches", () => {
+    const index = new SearchIndex();
+    const message = createNextMessage("Let's grab dinner tonight");
+    index.add(message);
+    index.add(createNextMessage("Nothing to see here"));
+
+    const results = index.search("din TON");
+    expect(results.length).toBe(1);
+    expect(results[0].message).toBe(message);
+    expect(results[0].highlights).toEqual([
+      { start: 11, end: 17 },
+      { start: 18, end: 25 },
+    ]);
+    expect(index.search("dinner pizza")).toEqual([]);
+    expect(index.search("  ")).toEqual([]);
+  });
+
+  it("should rank exact matches and recent messages higher", () => {
+    const index = new SearchIndex();
+    const prefix = createNextMessage("meetings all day");
+    const older = createNextMessage("meet me there");
+    const newer = createNextMessage("let's meet");
+    [prefix, older, newer].forEach((message) => {
+      index.add(message);
+    });
+
+    const results = index.search("meet");
+    expect(results.map((result) => result.message)).toEqual([
+      newer,
+      older,
+      prefix,
+    ]);
+    expect(index.search("meet", { limit: 1 }).length).toBe(1);
+  });
+
+  it("should filter results", () => {
+    const index = new SearchIndex();
+    const first = createNextMessage("gm everyone");
+    const second = createNextMessage("gm", ContentTypeText, {
+      conversationId: "other",
+      senderInboxId: "bob",
+      sentAtNs: 2_000_000_000n,
+    });
+    const third = createNextMessage(
+      { content: "gm to you", contentType: ContentTypeText },
+      ContentTypeReply,
+    );
+    [first, second, third].forEach((message) => {
+      index.add(message);
+    });
+
+    const search = (options: Parameters<SearchIndex["search"]>[1]) =>
+      index.search("gm", options).map((result) => result.message.id);
+
+    expect(search({ conversationIds: ["other"] })).toEqual([second.id]);
+    expect(search({ senders: ["alice"] }).sort()).toEqual(
+      [first.id, third.id].sort(),
+    );
+    expect(search({ contentTypes: [ContentTypeReply] })).toEqual([third.id]);
+    expect(search({ from: new Date(1000) })).toEqual([second.id]);
+    expect(search({ to: new Date(1000) }).sort()).toEqual(
+      [first.id, third.id].sort(),
+    );
+  });
+
+  it("should track the latest indexed message of each conversation", () => {
+    const index = new SearchIndex();
+    const message = createNextMessage("gm");
+    index.add(message);
+    index.add(message);
+    index.add(createNextMessage({ foo: "bar" }, ContentTypeTest));
+
+    expect(index.size).toBe(1);
+    expect(index.cursor("conversation")).toBe(message.sentAtNs + 1n);
+    expect(index.cursor("other")).toBeUndefined();
+  });
+  it("should apply edits and deletes to indexed messages", () => {
+    const index = new SearchIndex();
+    const edited = createNextMessage("meet at noon");
+    const deleted = createNextMessage("secret plans");
+    const other = createNextMessage("meet later");
+    [edited, deleted, other].forEach((message) => {
+      index.add(message);
+    });
+
+    index.add(
+      createNextMessage(
+        {
+          reference: edited.id,
+          content: "lunch at one",
+          contentType: ContentTypeText,
+        },
+        ContentTypeEdit,
+      ),
+    );
+    index.add(createNextMessage({ reference: deleted.id }, ContentTypeDelete));
+    // updates from other senders are ignored
+    index.add(
+      createNextMessage({ reference: other.id }, ContentTypeDelete, {
+        senderInboxId: "bob",
+      }),
+    );
+
+    expect(index.search("noon")).toEqual([]);
+    expect(index.search("secret")).toEqual([]);
+    expect(index.search("lunch").map((result) => result.message)).toEqual([
+      edited,
+    ]);
+    expect(index.search("lunch")[0].text).toBe("lunch at one");
+    expect(edited.editedAtNs).toBeDefined();
+    expect(index.search("meet").map((result) => result.message)).toEqual([
+      other,
+    ]);
+    expect(index.size).toBe(2);
+
+    // messages fetched again at the cursor stay deleted
+    index.add(deleted);
+    expect(index.search("secret")).toEqual([]);
+  });
+
+  it("should not index ephemeral messages", () => {
+    const index = new SearchIndex();
+    index.add(
+      createNextMessage(
+        {
+          content: "self-destructing",
+          contentType: ContentTypeText,
+          viewOnce: true,
+        },
+        ContentTypeEphemeral,
+      ),
+    );
+
+    expect(index.size).toBe(0);
+    expect(index.search("self")).toEqual([]);
+  });
+});
@@ -0,0 +1,88 @@
+import {
+  ContentTypeEphemeral,
+  type Ephemeral,
+} from "@xmtp/content-type-ephemeral";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { v4 } from "uuid";
+import { describe, expect, it } from "vitest";
+import {
+  isEphemeral,
+  purgeReason,
+  ViewedMessages,
+  viewedStoreNameFor,
+} from "@/utils/ephemeral";
+
+describe("isEphemeral", () => {
+  it("checks if a content type is ephemeral", () => {
+    expect(isEphemeral(ContentTypeEphemeral)).toBe(true);
+    expect(isEphemeral(ContentTypeText)).toBe(false);
+    expect(isEphemeral(undefined)).toBe(false);
+  });
+});
+
+describe("ViewedMessages", () => {
+  it("should keep viewed messages after a restart", async () => {
+    const storeName = viewedStoreNameFor(`test-${v4()}.db3`);
+    const viewed = new ViewedMessages();
+    await viewed.load(storeName);
+    expect(viewed.has("message-1")).toBe(false);
+
+    await viewed.add("message-1");
+    await viewed.add("message-2");
+    expect(viewed.has("message-1")).toBe(true);
+
+    const restored = new ViewedMessages();
+    await restored.load(storeName);
+    expect(restored.has("message-1")).toBe(true);
+    expect(restored.has("message-2")).toBe(true);
+    expect(restored.has("message-3")).toBe(false);
+  });
+
+  it("should only keep viewed messages in memory without a local DB", async () => {
+    const viewed = new ViewedMessages();
+    await viewed.load(null);
+    await viewed.add("message-1");
+    expect(viewed.has("message-1")).toBe(true);
+  });
+});
+
+describe("purgeReason", () => {
+  it("purges view-once content after it has been viewed", async () => {
+    const viewed = new ViewedMessages();
+    await viewed.load(null);
+    const content: Ephemeral = {
+      content: "gm",
+      contentType: ContentTypeText,
+      viewOnce: true,
+    };
+    expect(purgeReason("message-1", content, viewed)).toBeUndefined();
+
+    await viewed.add("message-1");
+    expect(purgeReason("message-1", content, viewed)).toBe("viewed");
+    expect(purgeReason("message-2", content, viewed)).toBeUndefined();
+  });
+
+  it("purges content after it has expired", async () => {
+    const viewed = new ViewedMessages();
+    await viewed.load(null);
+    const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+    const content: Ephemeral = {
+      content: "gm",
+      contentType: ContentTypeText,
+      viewOnce: true,
+      expiresAt,
+    };
+    expect(
+      purgeReason("message-1", content, viewed, new Date("2029-12-31")),
+    ).toBeUndefined();
+    expect(purgeReason("message-1", content, viewed, expiresAt)).toBe(
+      "expired",
+    );
+
+    // expired content is purged whether it has been viewed or not
+    await viewed.add("message-1");
+    expect(purgeReason("message-1", content, viewed, expiresAt)).toBe(
+      "expired",
+    );
+  });
+});
@@ -3,18 +3,62 @@ import {
   type ContentCodec,
   type EncodedContent,
 } from "@xmtp/content-type-primitives";
-import type { Identifier } from "@xmtp/wasm-bindings";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import {
+  DeliveryStatus,
+  GroupMessageKind,
+  type Identifier,
+} from "@xmtp/wasm-bindings";
 import { v4 } from "uuid";
 import { createWalletClient, http, toBytes } from "viem";
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { sepolia } from "viem/chains";
 import { Client } from "@/Client";
+import type { DecodedMessage } from "@/DecodedMessage";
 import type { ClientOptions } from "@/types";
+import type { SafeMessage } from "@/utils/conversions";
 import type { Signer } from "@/utils/signer";
 
 export const sleep = (ms: number) =>
   new Promise((resolve) => setTimeout(resolve, ms));
 
+// a text message as returned by the worker, for tests without a client
+export const createBindingsMessage = (overrides?: Partial<SafeMessage>) =>
+  ({
+    id: "message",
+    sentAtNs: 1n,
+    convoId: "conversation",
+    senderInboxId: "alice",
+    kind: GroupMessageKind.Application,
+    deliveryStatus: DeliveryStatus.Published,
+    content: {
+      type: {
+        authorityId: "xmtp.org",
+        typeId: "text",
+        versionMajor: 1,
+        versionMinor: 0,
+      },
+      parameters: {},
+      content: new TextEncoder().encode("gm"),
+    },
+    ...overrides,
+  }) as SafeMessage;
+
+// a decoded text message, for tests of code that only reads its fields
+export const createMessage = (overrides?: Partial<DecodedMessage>) =>
+  ({
+    id: "message",
+    conversationId: "conversation",
+    senderInboxId: "alice",
+    sentAtNs: 1n,
+    kind: "application",
+    deliveryStatus: "published",
+    contentType: ContentTypeText,
+    content: "gm",
+    parameters: new Map(),
+    ...overrides,
+  }) as DecodedMessage;
+
 export const createUser = () => {
   const key = generatePrivateKey();
   const account = privateKeyToAccount(key);
@@ -119,7 +163,7 @@ export class TestCodec implements ContentCodec {
     return JSON.parse(decoded);
   }
 
-  fallback() {
+  fallback(): string | undefined {
     return undefined;
   }
 
@@ -127,3 +171,45 @@ export class TestCodec implements ContentCodec {
     return false;
   }
 }
+
+// encodes reactions the same way as `ReactionCodec`
+export const ContentTypeReaction = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "reaction",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export class ReactionTestCodec extends TestCodec {
+  get contentType(): ContentTypeId {
+    return ContentTypeReaction;
+  }
+}
+
+// encodes read receipts the same way as `ReadReceiptCodec`
+export const ContentTypeReadReceipt = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "readReceipt",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export class ReadReceiptTestCodec extends TestCodec {
+  get contentType(): ContentTypeId {
+    return ContentTypeReadReceipt;
+  }
+}
+
+// encodes replies the same way as `ReplyCodec`
+export const ContentTypeReply = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "reply",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export class ReplyTestCodec extends TestCodec {
+  get contentType(): ContentTypeId {
+    return ContentTypeReply;
+  }
+}
@@ -0,0 +1,197 @@
+import { PermissionPolicy } from "@xmtp/wasm-bindings";
+import { v4 } from "uuid";
+import { describe, expect, it } from "vitest";
+import type { Client } from "@/Client";
+import type { Group } from "@/Group";
+import { Invites, invitesStoreNameFor } from "@/Invites";
+import {
+  ClientNotInitializedError,
+  InvalidInviteError,
+  InvalidInviteMaxUsesError,
+  InviteExpiredError,
+  InviteNotFoundError,
+} from "@/utils/errors";
+import {
+  canAddMembers,
+  decodeInviteToken,
+  encodeInvitePayload,
+  encodeInviteToken,
+  INVITE_TOKEN_VERSION,
+  inviteSignatureText,
+  type InvitePayload,
+} from "@/utils/invites";
+
+// signatures are the signed text prefixed with the installation ID
+const createClient = (installationId = "installation") =>
+  ({
+    inboxId: "inviter",
+    signWithInstallationKey: async (text: string) =>
+      Promise.resolve(new TextEncoder().encode(`${installationId}:${text}`)),
+    verifySignedWithInstallationKey: async (
+      text: string,
+      signature: Uint8Array,
+    ) =>
+      Promise.resolve(
+        new TextDecoder().decode(signature) === `${installationId}:${text}`,
+      ),
+  }) as unknown as Client;
+
+const createInvites = async (
+  client = createClient(),
+  storeName: string | null = null,
+) => {
+  const invites = new Invites(client);
+  await invites.load(storeName);
+  return invites;
+};
+
+const group = { id: "group" } as Group;
+
+describe("decodeInviteToken", () => {
+  it("decodes invite tokens and join links", () => {
+    const payload = {
+      version: INVITE_TOKEN_VERSION,
+      id: "invite",
+      groupId: "group",
+      inviterInboxId: "inviter",
+      maxUses: 2,
+    };
+    const encodedPayload = encodeInvitePayload(payload);
+    const token = encodeInviteToken(encodedPayload, new Uint8Array([1, 2, 3]));
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+
+    const decoded = decodeInviteToken(token);
+    expect(decoded?.payload).toEqual(payload);
+    expect(decoded?.signatureText).toBe(inviteSignatureText(encodedPayload));
+    expect(decoded?.signature).toEqual(new Uint8Array([1, 2, 3]));
+    expect(
+      decodeInviteToken(` https://xmtp.chat/join/${token}\n`)?.payload,
+    ).toEqual(payload);
+  });
+
+  it("ignores text that isn't an invite token", () => {
+    expect(decodeInviteToken("gm")).toBeUndefined();
+    expect(decodeInviteToken("hello.world")).toBeUndefined();
+    expect(
+      decodeInviteToken(
+        encodeInviteToken(
+          encodeInvitePayload({
+            version: 2,
+            id: "invite",
+            groupId: "group",
+            inviterInboxId: "inviter",
+          }),
+          new Uint8Array([1]),
+        ),
+      ),
+    ).toBeUndefined();
+    expect(
+      decodeInviteToken(
+        encodeInviteToken(
+          encodeInvitePayload({
+            version: INVITE_TOKEN_VERSION,
+            id: "invite",
+            groupId: "group",
+            inviterInboxId: "inviter",
+            maxUses: "2",
+          } as unknown as InvitePayload),
+          new Uint8Array([1]),
+        ),
+      ),
+    ).toBeUndefined();
+    expect(
+      decodeInviteToken(
+        encodeInviteToken(
+          encodeInvitePayload("gm" as unknown as InvitePayload),
+          new Uint8Array([1]),
+        ),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("canAddMembers", () => {
+  it("checks the add member policy", () => {
+    expect(canAddMembers(PermissionPolicy.Allow, false, false)).toBe(true);
+    expect(canAddMembers(PermissionPolicy.Admin, false, false)).toBe(false);
+    expect(canAddMembers(PermissionPolicy.Admin, true, false)).toBe(true);
+    expect(canAddMembers(PermissionPolicy.Admin, false, true)).toBe(true);
+    expect(canAddMembers(PermissionPolicy.SuperAdmin, true, false)).toBe(false);
+    expect(canAddMembers(PermissionPolicy.SuperAdmin, false, true)).toBe(true);
+    expect(canAddMembers(PermissionPolicy.Deny, true, true)).toBe(false);
+  });
+});
+
+describe("Invites", () => {
+  it("should create signed invites", async () => {
+    const invites = await createInvites();
+    const expiresAt = new Date(Date.now() + 60_000);
+    const invite = await invites.create(group, { expiresAt, maxUses: 3 });
+    expect(invite.groupId).toBe("group");
+    expect(invite.uses).toBe(0);
+
+    const decoded = decodeInviteToken(invite.token);
+    expect(decoded?.payload).toEqual({
+      version: INVITE_TOKEN_VERSION,
+      id: invite.id,
+      groupId: "group",
+      inviterInboxId: "inviter",
+      expiresAt: expiresAt.toISOString(),
+      maxUses: 3,
+    });
+
+    await expect(invites.create(group, { maxUses: 0 })).rejects.toThrow(
+      InvalidInviteMaxUsesError,
+    );
+    await expect(new Invites(createClient()).list()).rejects.toThrow(
+      ClientNotInitializedError,
+    );
+  });
+
+  it("should keep invites after a restart", async () => {
+    const storeName = invitesStoreNameFor(`test-${v4()}.db3`);
+    const invite = await (
+      await createInvites(createClient(), storeName)
+    ).create(group, {
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const invites = await createInvites(createClient(), storeName);
+    expect(await invites.get(invite.id)).toEqual(invite);
+    expect(await invites.list("group")).toEqual([invite]);
+    expect(await invites.list("other")).toEqual([]);
+
+    await invites.revoke(invite.id);
+    expect(
+      await (await createInvites(createClient(), storeName)).list(),
+    ).toEqual([]);
+    await expect(invites.revoke(invite.id)).rejects.toThrow(
+      InviteNotFoundError,
+    );
+  });
+
+  it("should reject invalid, revoked and expired invites", async () => {
+    const invites = await createInvites();
+
+    await expect(invites.redeem("gm", "member")).rejects.toThrow(
+      InvalidInviteError,
+    );
+    const other = await (
+      await createInvites(createClient("other"))
+    ).create(group);
+    await expect(invites.redeem(other.token, "member")).rejects.toThrow(
+      InvalidInviteError,
+    );
+
+    const revoked = await invites.create(group);
+    await invites.revoke(revoked.id);
+    await expect(invites.redeem(revoked.token, "member")).rejects.toThrow(
+      InviteNotFoundError,
+    );
+
+    const expired = await invites.create(group, { expiresAt: new Date() });
+    await expect(invites.redeem(expired.token, "member")).rejects.toThrow(
+      InviteExpiredError,
+    );
+  });
+});
@@ -0,0 +1,89 @@
+import { ContentTypePoll, type Poll } from "@xmtp/content-type-poll";
+import {
+  ContentTypePollVote,
+  type PollVote,
+} from "@xmtp/content-type-poll-vote";
+import { describe, expect, it } from "vitest";
+import { tallyPoll } from "@/utils/polls";
+import { createMessage } from "@test/helpers";
+
+const deadline = new Date("2030-01-01T00:00:00.000Z");
+
+const createPoll = (content: Partial<Poll> = {}) =>
+  createMessage({
+    id: "poll",
+    senderInboxId: "alice",
+    sentAtNs: 1n,
+    contentType: ContentTypePoll,
+    content: {
+      question: "Where should we meet?",
+      options: ["Online", "Berlin", "Lisbon"],
+      ...content,
+    },
+  });
+
+const createVote = (
+  senderInboxId: string,
+  sentAtNs: bigint,
+  options: number[],
+  reference = "poll",
+) =>
+  createMessage({
+    id: `${senderInboxId}-${sentAtNs}`,
+    senderInboxId,
+    sentAtNs,
+    contentType: ContentTypePollVote,
+    content: { reference, options } satisfies PollVote,
+  });
+
+describe("tallyPoll", () => {
+  it("counts the latest vote of each inbox", () => {
+    const results = tallyPoll(createPoll(), [
+      createVote("bob", 3n, [1]),
+      createVote("bob", 2n, [0]),
+      createVote("carol", 4n, [1]),
+      createVote("dave", 5n, [2]),
+      createVote("dave", 6n, []),
+      createVote("erin", 7n, [0], "other-poll"),
+      createMessage({ id: "text", senderInboxId: "erin", sentAtNs: 8n }),
+    ]);
+    expect(results.options.map((option) => option.count)).toEqual([0, 2, 0]);
+    expect(results.options[1].inboxIds).toEqual(new Set(["bob", "carol"]));
+    expect(results.voters).toBe(2);
+    expect(results.closed).toBe(false);
+  });
+
+  it("ignores votes after the deadline and from non-members", () => {
+    const deadlineNs = BigInt(deadline.getTime()) * 1_000_000n;
+    const results = tallyPoll(
+      createPoll({ deadline }),
+      [
+        createVote("bob", deadlineNs, [0]),
+        createVote("bob", deadlineNs + 1n, [1]),
+        createVote("carol", deadlineNs - 1n, [2]),
+        createVote("mallory", 2n, [2]),
+      ],
+      ["alice", "bob", "carol"],
+      new Date("2031-01-01T00:00:00.000Z"),
+    );
+    expect(results.options.map((option) => option.count)).toEqual([1, 0, 1]);
+    expect(results.voters).toBe(2);
+    expect(results.closed).toBe(true);
+  });
+
+  it("ignores votes with options the poll doesn't allow", () => {
+    const votes = [
+      createVote("bob", 2n, [0]),
+      createVote("bob", 3n, [0, 1]),
+      createVote("carol", 4n, [3]),
+    ];
+    expect(
+      tallyPoll(createPoll(), votes).options.map((option) => option.count),
+    ).toEqual([1, 0, 0]);
+    expect(
+      tallyPoll(createPoll({ multiSelect: true }), votes).options.map(
+        (option) => option.count,
+      ),
+    ).toEqual([1, 1, 0]);
+  });
+});
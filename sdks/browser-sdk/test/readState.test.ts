@@ -0,0 +1,76 @@
+import { GroupMessageKind } from "@xmtp/wasm-bindings";
+import { describe, expect, it } from "vitest";
+import { isUnread, readStates } from "@/utils/readState";
+import { createBindingsMessage } from "@test/helpers";
+
+const createMessageOfType = (
+  senderInboxId: string,
+  sentAtNs: bigint,
+  typeId: string,
+  kind = GroupMessageKind.Application,
+) =>
+  createBindingsMessage({
+    id: `${senderInboxId}-${sentAtNs}`,
+    senderInboxId,
+    sentAtNs,
+    kind,
+    content: {
+      type: {
+        authorityId: "xmtp.org",
+        typeId,
+        versionMajor: 1,
+        versionMinor: 0,
+      },
+      parameters: {},
+      content: new Uint8Array(),
+    },
+  });
+
+describe("readStates", () => {
+  it("gets the latest read receipt of each inbox", () => {
+    const states = readStates([
+      createMessageOfType("alice", 3n, "readReceipt"),
+      createMessageOfType("alice", 1n, "readReceipt"),
+      createMessageOfType("bob", 2n, "readReceipt"),
+      createMessageOfType("carol", 4n, "text"),
+    ]);
+    expect(states.size).toBe(2);
+    expect(states.get("alice")?.readAtNs).toBe(3n);
+    expect(states.get("bob")?.readAtNs).toBe(2n);
+    expect(states.get("bob")?.readAt).toBeInstanceOf(Date);
+    expect(states.get("carol")).toBeUndefined();
+  });
+});
+
+describe("isUnread", () => {
+  it("counts messages from other inboxes", () => {
+    expect(isUnread(createMessageOfType("bob", 1n, "text"), "alice")).toBe(
+      true,
+    );
+    expect(isUnread(createMessageOfType("alice", 1n, "text"), "alice")).toBe(
+      false,
+    );
+  });
+
+  it("ignores read receipts, reactions, edits and deletes", () => {
+    for (const typeId of ["readReceipt", "reaction", "edit", "delete"]) {
+      expect(isUnread(createMessageOfType("bob", 1n, typeId), "alice")).toBe(
+        false,
+      );
+    }
+  });
+
+  it("ignores membership changes", () => {
+    expect(
+      isUnread(
+        createMessageOfType(
+          "bob",
+          1n,
+          "group_updated",
+          GroupMessageKind.MembershipChange,
+        ),
+        "alice",
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,132 @@
+import { ContentTypeDelete } from "@xmtp/content-type-delete";
+import { ContentTypeEdit } from "@xmtp/content-type-edit";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { describe, expect, it } from "vitest";
+import { reconcileMessages } from "@/utils/reconcile";
+import { createMessage } from "@test/helpers";
+
+const createEdit = (
+  id: string,
+  senderInboxId: string,
+  sentAtNs: bigint,
+  reference: string,
+  content: string,
+) =>
+  createMessage({
+    id,
+    senderInboxId,
+    sentAtNs,
+    content: { reference, content, contentType: ContentTypeText },
+    contentType: ContentTypeEdit,
+  });
+
+const createDelete = (
+  id: string,
+  senderInboxId: string,
+  sentAtNs: bigint,
+  reference: string,
+) =>
+  createMessage({
+    id,
+    senderInboxId,
+    sentAtNs,
+    content: { reference },
+    contentType: ContentTypeDelete,
+  });
+
+describe("reconcileMessages", () => {
+  it("applies the latest edit and leaves out updates", () => {
+    const edits = [
+      createEdit("e2", "alice", 3n, "m1", "gm!!"),
+      createEdit("e1", "alice", 2n, "m1", "gm!"),
+    ];
+    const results = reconcileMessages(
+      [createMessage({ id: "m1" }), ...edits],
+      edits,
+      true,
+    );
+    expect(results.length).toBe(1);
+    expect(results[0].content).toBe("gm!!");
+    expect(results[0].editedAtNs).toBe(3n);
+    expect(results[0].editedAt).toBeInstanceOf(Date);
+    expect(results[0].originalContent).toBe("gm");
+    expect(results[0].originalContentType?.sameAs(ContentTypeText)).toBe(true);
+  });
+
+  it("only keeps the original content when requested", () => {
+    const results = reconcileMessages(
+      [createMessage({ id: "m1" })],
+      [createEdit("e1", "alice", 2n, "m1", "gm!")],
+    );
+    expect(results[0].content).toBe("gm!");
+    expect(results[0].originalContent).toBeUndefined();
+  });
+
+  it("ignores updates from other senders", () => {
+    const results = reconcileMessages(
+      [createMessage({ id: "m1" })],
+      [
+        createEdit("e1", "bob", 2n, "m1", "gn"),
+        createDelete("d1", "bob", 3n, "m1"),
+      ],
+    );
+    expect(results[0].content).toBe("gm");
+    expect(results[0].editedAt).toBeUndefined();
+    expect(results[0].deletedAt).toBeUndefined();
+  });
+
+  it("keeps deleted messages as tombstones", () => {
+    const results = reconcileMessages(
+      [
+        createMessage({ id: "m1" }),
+        createMessage({ id: "m2", senderInboxId: "bob", sentAtNs: 2n }),
+      ],
+      [
+        createEdit("e1", "alice", 3n, "m1", "gm!"),
+        createDelete("d1", "alice", 4n, "m1"),
+        // edits after a delete are ignored
+        createEdit("e2", "alice", 5n, "m1", "gm!!"),
+      ],
+      true,
+    );
+    expect(results.length).toBe(2);
+    expect(results[0].content).toBeUndefined();
+    expect(results[0].originalContent).toBeUndefined();
+    expect(results[0].deletedAtNs).toBe(4n);
+    expect(results[0].deletedAt).toBeInstanceOf(Date);
+    expect(results[1].content).toBe("gm");
+  });
+
+  it("ignores updates to messages that aren't listed", () => {
+    const results = reconcileMessages(
+      [createMessage({ id: "m1" })],
+      [createDelete("d1", "alice", 2n, "m2")],
+    );
+    expect(results[0].content).toBe("gm");
+    expect(results[0].deletedAt).toBeUndefined();
+  });
+
+  it("applies edits without a codec for their content", () => {
+    const results = reconcileMessages(
+      [createMessage({ id: "m1" })],
+      [
+        createMessage({
+          id: "e1",
+          senderInboxId: "alice",
+          sentAtNs: 2n,
+          content: {
+            reference: "m1",
+            content: undefined,
+            contentType: ContentTypeText,
+            encodedContent: {},
+            fallback: "gm!",
+          },
+          contentType: ContentTypeEdit,
+        }),
+      ],
+    );
+    expect(results[0].content).toBeUndefined();
+    expect(results[0].fallback).toBe("gm!");
+    expect(results[0].editedAtNs).toBe(2n);
+  });
+});
@@ -0,0 +1,94 @@
+import {
+  ContentTypeTypingIndicator,
+  type TypingIndicator,
+} from "@xmtp/content-type-typing-indicator";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { TypingTracker, type TypingEvent } from "@/utils/typing";
+import { createMessage } from "@test/helpers";
+
+const createIndicator = (
+  senderInboxId: string,
+  sentAt: number,
+  content: TypingIndicator,
+) =>
+  createMessage({
+    senderInboxId,
+    sentAtNs: BigInt(sentAt) * 1_000_000n,
+    contentType: ContentTypeTypingIndicator,
+    content,
+  });
+
+describe("TypingTracker", () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it("tracks when members start and stop typing", () => {
+    const events: TypingEvent[] = [];
+    const tracker = new TypingTracker((event) => events.push(event));
+    const now = Date.now();
+    tracker.add(createIndicator("alice", now, { state: "started", ttl: 5000 }));
+    tracker.add(createIndicator("alice", now + 1, { state: "stopped" }));
+    expect(events).toEqual([
+      { inboxId: "alice", typing: true, expiresAt: new Date(now + 5000) },
+      { inboxId: "alice", typing: false },
+    ]);
+  });
+
+  it("expires stale indicators", () => {
+    const events: TypingEvent[] = [];
+    const tracker = new TypingTracker((event) => events.push(event));
+    const now = Date.now();
+    tracker.add(createIndicator("alice", now, { state: "started", ttl: 5000 }));
+    vi.advanceTimersByTime(4999);
+    expect(events.length).toBe(1);
+    vi.advanceTimersByTime(1);
+    expect(events[1]).toEqual({ inboxId: "alice", typing: false });
+
+    // indicators that already expired are ignored
+    tracker.add(
+      createIndicator("bob", now - 6000, { state: "started", ttl: 5000 }),
+    );
+    expect(events.length).toBe(2);
+  });
+
+  it("extends indicators that are refreshed", () => {
+    const events: TypingEvent[] = [];
+    const tracker = new TypingTracker((event) => events.push(event));
+    const now = Date.now();
+    tracker.add(createIndicator("alice", now, { state: "started", ttl: 5000 }));
+    vi.advanceTimersByTime(3000);
+    tracker.add(
+      createIndicator("alice", now + 3000, { state: "started", ttl: 5000 }),
+    );
+    vi.advanceTimersByTime(3000);
+    expect(events.length).toBe(2);
+    expect(events[1].expiresAt).toEqual(new Date(now + 8000));
+  });
+
+  it("stops typing when a member sends a message", () => {
+    const events: TypingEvent[] = [];
+    const tracker = new TypingTracker((event) => events.push(event));
+    const now = Date.now();
+    tracker.add(createIndicator("alice", now, { state: "started" }));
+    tracker.add(createMessage({ sentAtNs: BigInt(now + 1) * 1_000_000n }));
+    expect(events[1]).toEqual({ inboxId: "alice", typing: false });
+
+    // indicators sent before the message are ignored
+    tracker.add(createIndicator("alice", now, { state: "started" }));
+    expect(events.length).toBe(2);
+  });
+
+  it("stops tracking members when cleared", () => {
+    const events: TypingEvent[] = [];
+    const tracker = new TypingTracker((event) => events.push(event));
+    tracker.add(createIndicator("alice", Date.now(), { state: "started" }));
+    tracker.clear();
+    vi.runAllTimers();
+    expect(events.length).toBe(1);
+  });
+});
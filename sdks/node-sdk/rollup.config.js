@@ -6,11 +6,18 @@ import filesize from "rollup-plugin-filesize";
 import tsConfigPaths from "rollup-plugin-tsconfig-paths";
 
 const external = [
+  "node:crypto",
   "node:path",
   "node:process",
+  "@xmtp/content-type-delete",
+  "@xmtp/content-type-edit",
+  "@xmtp/content-type-ephemeral",
   "@xmtp/content-type-group-updated",
+  "@xmtp/content-type-poll",
+  "@xmtp/content-type-poll-vote",
   "@xmtp/content-type-primitives",
   "@xmtp/content-type-text",
+  "@xmtp/content-type-typing-indicator",
   "@xmtp/node-bindings",
   "@xmtp/node-bindings/version.json",
   "@xmtp/proto",
@@ -0,0 +1,600 @@
+import {
+  AESKeySize,
+  Ciphertext,
+  ContentTypeId,
+  decrypt,
+  encrypt,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+import {
+  ConsentState,
+  ContentType,
+  DeliveryStatus,
+  GroupMessageKind,
+  PermissionLevel,
+  SortDirection,
+  type GroupMember,
+  type ListMessagesOptions,
+  type Message,
+} from "@xmtp/node-bindings";
+import type { Conversation } from "@/Conversation";
+import type { DecodedMessage, MessageKind } from "@/DecodedMessage";
+import { Dm } from "@/Dm";
+import { Group } from "@/Group";
+import { dateToNs } from "@/utils/date";
+import {
+  ArchiveDecryptionError,
+  InvalidArchiveError,
+  InvalidArchiveKeyError,
+  UnsupportedArchiveVersionError,
+} from "@/utils/errors";
+import { paginateMessages } from "@/utils/pagination";
+import { isObject, readStore, StoreWriter } from "@/utils/store";
+
+export const ARCHIVE_VERSION = 1;
+
+/**
+ * Secret used to encrypt an archive, either a password or a 32 byte key
+ */
+export type ArchiveSecret =
+  | { password: string; key?: undefined }
+  | { key: Uint8Array; password?: undefined };
+
+export type ExportArchiveOptions = ArchiveSecret & {
+  /**
+   * Only export these conversations
+   */
+  conversationIds?: string[];
+  /**
+   * Only export messages sent at or after this date
+   */
+  since?: Date;
+  /**
+   * Only export messages with these content types
+   */
+  contentTypes?: ContentTypeId[];
+};
+
+export type ArchivedConsentState = "unknown" | "allowed" | "denied";
+
+export type ArchivedMember = {
+  inboxId: string;
+  permissionLevel: "member" | "admin" | "super_admin";
+  consentState: ArchivedConsentState;
+};
+
+export type ArchivedConversation = {
+  id: string;
+  type: "group" | "dm";
+  createdAtNs: string;
+  consentState: ArchivedConsentState;
+  /**
+   * Inbox ID of the other member of a DM
+   */
+  peerInboxId?: string;
+  name?: string;
+  imageUrl?: string;
+  description?: string;
+  members: ArchivedMember[];
+};
+
+export type ArchivedMessage = {
+  id: string;
+  conversationId: string;
+  senderInboxId: string;
+  sentAtNs: string;
+  kind: MessageKind;
+  content: EncodedContent;
+};
+
+export type ArchiveContents = {
+  version: number;
+  inboxId: string;
+  exportedAt: Date;
+  conversations: ArchivedConversation[];
+  messages: ArchivedMessage[];
+};
+
+export type ImportArchiveResult = {
+  /**
+   * Archived conversations that were found in the local database, or
+   * created for archived DMs that weren't found
+   */
+  conversations: Conversation[];
+  /**
+   * IDs of archived groups that this installation isn't a member of
+   */
+  missingConversationIds: string[];
+  /**
+   * Archived messages, oldest first
+   *
+   * Messages are stored with the imported messages and listed with the
+   * messages of their conversation, see `ImportedMessages`.
+   */
+  messages: DecodedMessage[];
+};
+
+// content bytes are base64 encoded in the archive
+type SerializedMessage = Omit<ArchivedMessage, "content"> & {
+  content: Omit<EncodedContent, "content"> & { content: string };
+};
+
+type SerializedContents = Omit<ArchiveContents, "exportedAt" | "messages"> & {
+  exportedAt: string;
+  messages: SerializedMessage[];
+};
+
+// "XARC"
+const MAGIC = new Uint8Array([0x58, 0x41, 0x52, 0x43]);
+const SECRET_KEY = 0;
+const SECRET_PASSWORD = 1;
+const PASSWORD_SALT_SIZE = 16;
+const PASSWORD_ITERATIONS = 600_000;
+// the iteration count is read from the header before it can be authenticated,
+// so it is bounded to reject weak keys and excessive work
+const MIN_PASSWORD_ITERATIONS = 100_000;
+const MAX_PASSWORD_ITERATIONS = 10_000_000;
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(""));
+
+const fromBase64 = (base64: string) =>
+  Uint8Array.from(atob(base64), (char) => char.charCodeAt(0));
+
+const toSerializedMessage = (message: ArchivedMessage): SerializedMessage => ({
+  ...message,
+  content: {
+    ...message.content,
+    content: toBase64(message.content.content),
+  },
+});
+
+const fromSerializedMessage = (
+  message: SerializedMessage,
+): ArchivedMessage => ({
+  ...message,
+  content: {
+    ...message.content,
+    type: new ContentTypeId(message.content.type),
+    content: fromBase64(message.content.content),
+  },
+});
+
+const toArchivedConsentState = (state: ConsentState): ArchivedConsentState => {
+  switch (state) {
+    case ConsentState.Allowed:
+      return "allowed";
+    case ConsentState.Denied:
+      return "denied";
+    default:
+      return "unknown";
+  }
+};
+
+export const fromArchivedConsentState = (state: ArchivedConsentState) => {
+  switch (state) {
+    case "allowed":
+      return ConsentState.Allowed;
+    case "denied":
+      return ConsentState.Denied;
+    default:
+      return ConsentState.Unknown;
+  }
+};
+
+const toArchivedMember = (member: GroupMember): ArchivedMember => ({
+  inboxId: member.inboxId,
+  permissionLevel:
+    member.permissionLevel === PermissionLevel.SuperAdmin
+      ? "super_admin"
+      : member.permissionLevel === PermissionLevel.Admin
+        ? "admin"
+        : "member",
+  consentState: toArchivedConsentState(member.consentState),
+});
+
+const toArchivedMessage = (message: Message): ArchivedMessage => ({
+  id: message.id,
+  conversationId: message.convoId,
+  senderInboxId: message.senderInboxId,
+  sentAtNs: message.sentAtNs.toString(),
+  kind:
+    message.kind === GroupMessageKind.MembershipChange
+      ? "membership_change"
+      : "application",
+  content: {
+    type: new ContentTypeId(
+      message.content.type ?? {
+        authorityId: "",
+        typeId: "",
+        versionMajor: 0,
+        versionMinor: 0,
+      },
+    ),
+    parameters: message.content.parameters,
+    fallback: message.content.fallback,
+    compression: message.content.compression,
+    content: message.content.content,
+  },
+});
+
+/**
+ * Converts an archived message to a message that can be decoded
+ */
+export const fromArchivedMessage = (
+  message: ArchivedMessage,
+  conversationId = message.conversationId,
+): Message => ({
+  id: message.id,
+  convoId: conversationId,
+  senderInboxId: message.senderInboxId,
+  sentAtNs: Number(message.sentAtNs),
+  kind:
+    message.kind === "membership_change"
+      ? GroupMessageKind.MembershipChange
+      : GroupMessageKind.Application,
+  deliveryStatus: DeliveryStatus.Published,
+  content: message.content,
+});
+
+/**
+ * Gets the metadata, members and messages of a conversation for an archive
+ */
+export const archiveConversation = async (
+  conversation: Conversation,
+  options?: Omit<ExportArchiveOptions, keyof ArchiveSecret>,
+) => {
+  const archived: ArchivedConversation = {
+    id: conversation.id,
+    type: conversation instanceof Dm ? "dm" : "group",
+    createdAtNs: conversation.createdAtNs.toString(),
+    consentState: toArchivedConsentState(conversation.consentState),
+    members: (await conversation.members()).map(toArchivedMember),
+  };
+  if (conversation instanceof Dm) {
+    archived.peerInboxId = conversation.peerInboxId;
+  }
+  if (conversation instanceof Group) {
+    archived.name = conversation.name;
+    archived.imageUrl = conversation.imageUrl;
+    archived.description = conversation.description;
+  }
+
+  const contentTypes = options?.contentTypes;
+  const pages = paginateMessages(
+    (listOptions) => conversation.encodedMessages(listOptions),
+    {
+      pageSize: 100,
+      direction: SortDirection.Ascending,
+      sentAfterNs: options?.since ? dateToNs(options.since) - 1 : undefined,
+      filter: (message) => {
+        const type = message.content.type;
+        return (
+          !contentTypes ||
+          (type !== undefined &&
+            contentTypes.some((contentType) =>
+              contentType.sameAs(new ContentTypeId(type)),
+            ))
+        );
+      },
+    },
+  );
+
+  const messages: ArchivedMessage[] = [];
+  for await (const page of pages) {
+    messages.push(...page.map(toArchivedMessage));
+  }
+
+  return { conversation: archived, messages };
+};
+
+const deriveSecret = async (
+  secret: ArchiveSecret,
+  salt: Uint8Array,
+  iterations: number,
+) => {
+  if (secret.key !== undefined) {
+    if (secret.key.length !== AESKeySize) {
+      throw new InvalidArchiveKeyError(AESKeySize);
+    }
+    return secret.key;
+  }
+  const password = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(secret.password),
+    "PBKDF2",
+    false,
+    ["deriveBits"],
+  );
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt, iterations },
+    password,
+    AESKeySize * 8,
+  );
+  return new Uint8Array(bits);
+};
+
+/**
+ * Encrypts the contents of an archive
+ *
+ * The archive starts with an unencrypted header that describes how the
+ * secret is derived, followed by the AES-GCM encrypted contents. The header
+ * is authenticated as additional data.
+ */
+export const encryptArchive = async (
+  contents: ArchiveContents,
+  secret: ArchiveSecret,
+) => {
+  const usePassword = secret.key === undefined;
+  const header = new Uint8Array(
+    MAGIC.length + 2 + (usePassword ? PASSWORD_SALT_SIZE + 4 : 0),
+  );
+  header.set(MAGIC);
+  header[MAGIC.length] = ARCHIVE_VERSION;
+  header[MAGIC.length + 1] = usePassword ? SECRET_PASSWORD : SECRET_KEY;
+  const salt = crypto.getRandomValues(new Uint8Array(PASSWORD_SALT_SIZE));
+  if (usePassword) {
+    header.set(salt, MAGIC.length + 2);
+    new DataView(header.buffer).setUint32(
+      MAGIC.length + 2 + PASSWORD_SALT_SIZE,
+      PASSWORD_ITERATIONS,
+    );
+  }
+
+  const serialized: SerializedContents = {
+    ...contents,
+    exportedAt: contents.exportedAt.toISOString(),
+    messages: contents.messages.map(toSerializedMessage),
+  };
+  const ciphertext = await encrypt(
+    new TextEncoder().encode(JSON.stringify(serialized)),
+    await deriveSecret(secret, salt, PASSWORD_ITERATIONS),
+    header,
+  );
+  const payload = ciphertext.toBytes();
+
+  const archive = new Uint8Array(header.length + payload.length);
+  archive.set(header);
+  archive.set(payload, header.length);
+  return archive;
+};
+
+/**
+ * Decrypts an archive created by `encryptArchive`
+ *
+ * @throws {InvalidArchiveError} When the archive is malformed
+ * @throws {UnsupportedArchiveVersionError} When the archive was created by a
+ * newer version
+ * @throws {ArchiveDecryptionError} When the password or key is incorrect
+ */
+export const decryptArchive = async (
+  archive: Uint8Array,
+  secret: ArchiveSecret,
+): Promise<ArchiveContents> => {
+  if (
+    archive.length < MAGIC.length + 2 ||
+    MAGIC.some((byte, index) => archive[index] !== byte)
+  ) {
+    throw new InvalidArchiveError();
+  }
+  const version = archive[MAGIC.length];
+  if (version !== ARCHIVE_VERSION) {
+    throw new UnsupportedArchiveVersionError(version);
+  }
+  const usePassword = archive[MAGIC.length + 1] === SECRET_PASSWORD;
+  if (usePassword !== (secret.key === undefined)) {
+    throw new ArchiveDecryptionError();
+  }
+
+  let headerLength = MAGIC.length + 2;
+  let salt = new Uint8Array();
+  let iterations = 0;
+  if (usePassword) {
+    if (archive.length < headerLength + PASSWORD_SALT_SIZE + 4) {
+      throw new InvalidArchiveError();
+    }
+    salt = archive.slice(headerLength, headerLength + PASSWORD_SALT_SIZE);
+    iterations = new DataView(
+      archive.buffer,
+      archive.byteOffset,
+      archive.byteLength,
+    ).getUint32(headerLength + PASSWORD_SALT_SIZE);
+    headerLength += PASSWORD_SALT_SIZE + 4;
+    if (
+      iterations < MIN_PASSWORD_ITERATIONS ||
+      iterations > MAX_PASSWORD_ITERATIONS
+    ) {
+      throw new InvalidArchiveError();
+    }
+  }
+
+  let ciphertext: Ciphertext;
+  try {
+    ciphertext = Ciphertext.fromBytes(archive.slice(headerLength));
+  } catch {
+    throw new InvalidArchiveError();
+  }
+
+  let plain: Uint8Array;
+  try {
+    plain = await decrypt(
+      ciphertext,
+      await deriveSecret(secret, salt, iterations),
+      archive.slice(0, headerLength),
+    );
+  } catch (error) {
+    if (error instanceof InvalidArchiveKeyError) {
+      throw error;
+    }
+    throw new ArchiveDecryptionError();
+  }
+
+  let serialized: SerializedContents;
+  try {
+    serialized = JSON.parse(
+      new TextDecoder().decode(plain),
+    ) as SerializedContents;
+  } catch {
+    throw new InvalidArchiveError();
+  }
+
+  return {
+    ...serialized,
+    exportedAt: new Date(serialized.exportedAt),
+    messages: serialized.messages.map(fromSerializedMessage),
+  };
+};
+
+type StoredImportedMessages = {
+  version: number;
+  messages: SerializedMessage[];
+};
+
+const STORE_VERSION = 1;
+
+// type IDs of the content types that messages can be listed by
+const LISTED_TYPE_IDS: Partial<Record<ContentType, string>> = {
+  [ContentType.Text]: "text",
+  [ContentType.GroupMembershipChange]: "group_membership_change",
+  [ContentType.GroupUpdated]: "group_updated",
+  [ContentType.Reaction]: "reaction",
+  [ContentType.ReadReceipt]: "readReceipt",
+  [ContentType.Reply]: "reply",
+  [ContentType.Attachment]: "attachment",
+  [ContentType.RemoteAttachment]: "remoteStaticAttachment",
+  [ContentType.TransactionReference]: "transactionReference",
+};
+
+const isSerializedMessage = (value: unknown): value is SerializedMessage =>
+  isObject(value) &&
+  typeof value.id === "string" &&
+  typeof value.conversationId === "string" &&
+  typeof value.senderInboxId === "string" &&
+  typeof value.sentAtNs === "string" &&
+  (value.kind === "application" || value.kind === "membership_change") &&
+  isObject(value.content) &&
+  isObject(value.content.type) &&
+  typeof value.content.content === "string" &&
+  isObject(value.content.parameters);
+
+const isStoredImportedMessages = (
+  value: unknown,
+): value is StoredImportedMessages =>
+  isObject(value) &&
+  Array.isArray(value.messages) &&
+  value.messages.every(isSerializedMessage);
+
+/**
+ * Gets the path of the imported messages store of a local DB
+ */
+export const importedPathFor = (dbPath: string) => `${dbPath}.imported.json`;
+
+// orders messages as they would be listed by `findMessages`, leaving out
+// imported messages that are also in the local DB
+const mergeMessages = (
+  messages: Message[],
+  imported: Message[],
+  options?: ListMessagesOptions,
+) => {
+  if (imported.length === 0) {
+    return messages;
+  }
+  const ids = new Set(messages.map((message) => message.id));
+  const direction = options?.direction === SortDirection.Descending ? -1 : 1;
+  const merged = messages
+    .concat(imported.filter((message) => !ids.has(message.id)))
+    .sort((a, b) => (a.sentAtNs - b.sentAtNs) * direction);
+  return options?.limit ? merged.slice(0, options.limit) : merged;
+};
+
+/**
+ * Keeps the messages imported with `Client.importArchive`
+ *
+ * Messages can only be written to the local DB when they're received from
+ * the network, so imported messages are stored in a file next to it and
+ * listed with the messages of their conversation. A store that can't be
+ * parsed is moved to a `.corrupt` file next to it.
+ */
+export class ImportedMessages {
+  #path: string;
+  #messages = new Map<string, ArchivedMessage>();
+  #loading: Promise<void> | undefined;
+  #writer: StoreWriter;
+
+  constructor(path: string) {
+    this.#path = path;
+    this.#writer = new StoreWriter(path);
+  }
+
+  load() {
+    this.#loading ??= (async () => {
+      const stored = await readStore(this.#path, isStoredImportedMessages);
+      for (const message of stored?.messages ?? []) {
+        this.#messages.set(message.id, fromSerializedMessage(message));
+      }
+    })().catch((error: unknown) => {
+      // failed loads are retried the next time the store is used
+      this.#loading = undefined;
+      throw error;
+    });
+    return this.#loading;
+  }
+
+  /**
+   * Gets an imported message
+   */
+  get(id: string) {
+    const message = this.#messages.get(id);
+    return message ? fromArchivedMessage(message) : undefined;
+  }
+
+  /**
+   * Adds the imported messages of a conversation to messages listed from the
+   * local DB with `findMessages`, using the same options
+   */
+  merge(
+    conversationId: string,
+    messages: Message[],
+    options?: ListMessagesOptions,
+  ) {
+    const typeIds = options?.contentTypes?.map(
+      (contentType) => LISTED_TYPE_IDS[contentType],
+    );
+    const imported: Message[] = [];
+    for (const archived of this.#messages.values()) {
+      const message = fromArchivedMessage(archived);
+      const type = archived.content.type;
+      if (
+        message.convoId !== conversationId ||
+        (options?.sentBeforeNs !== undefined &&
+          message.sentAtNs >= options.sentBeforeNs) ||
+        (options?.sentAfterNs !== undefined &&
+          message.sentAtNs <= options.sentAfterNs) ||
+        // imported messages have been published
+        (options?.deliveryStatus !== undefined &&
+          options.deliveryStatus !== DeliveryStatus.Published) ||
+        (typeIds &&
+          (type.authorityId !== "xmtp.org" || !typeIds.includes(type.typeId)))
+      ) {
+        continue;
+      }
+      imported.push(message);
+    }
+    return mergeMessages(messages, imported, options);
+  }
+
+  /**
+   * Stores imported messages, replacing messages with the same ID
+   */
+  async add(messages: ArchivedMessage[]) {
+    await this.load();
+    for (const message of messages) {
+      this.#messages.set(message.id, message);
+    }
+    const stored: StoredImportedMessages = {
+      version: STORE_VERSION,
+      messages: Array.from(this.#messages.values()).map(toSerializedMessage),
+    };
+    return this.#writer.write(stored);
+  }
+}
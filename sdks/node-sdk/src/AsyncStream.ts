@@ -1,3 +1,11 @@
+import { StreamIterator } from "@/StreamIterator";
+import { StreamOverflowError } from "@/utils/errors";
+import {
+  defaultRetryOptions,
+  retryDelay,
+  type RetryOptions,
+} from "@/utils/retry";
+
 type ResolveValue<T> = {
   value: T | undefined;
   done: boolean;
@@ -10,28 +18,264 @@ export type StreamCallback<T> = (
   value: T | undefined,
 ) => void;
 
+/**
+ * Options for reconnecting a stream when it fails
+ */
+export type StreamRetryOptions = RetryOptions;
+
+export type StreamOverflowStrategy =
+  | "drop-oldest"
+  | "drop-newest"
+  | "error"
+  | "pause";
+
+export type StreamOptions = {
+  /**
+   * Maximum number of values to buffer while waiting for the consumer
+   * (default: unbounded)
+   */
+  highWaterMark?: number;
+  /**
+   * What to do when the buffer is full (default: `"drop-oldest"`)
+   *
+   * - `drop-oldest`: discard the oldest buffered value
+   * - `drop-newest`: discard the incoming value
+   * - `error`: end the underlying stream, buffered values are delivered
+   *   before a `StreamOverflowError`
+   * - `pause`: pause the underlying stream until the buffer is half empty
+   */
+  overflow?: StreamOverflowStrategy;
+  /**
+   * Reconnect the stream when it fails instead of ending it. Pass `true` to
+   * use the default retry policy.
+   */
+  retry?: StreamRetryOptions | boolean;
+};
+
+export type StreamMetrics = {
+  /**
+   * Number of values waiting for the consumer
+   */
+  queued: number;
+  /**
+   * Number of values discarded because the buffer was full
+   */
+  dropped: number;
+};
+
+export type StreamEvent =
+  | {
+      type: "reconnecting";
+      attempt: number;
+      delay: number;
+      error: Error;
+    }
+  | {
+      type: "reconnected";
+      attempt: number;
+    }
+  | {
+      type: "gave_up";
+      attempts: number;
+      error: Error;
+    };
+
+const resolveRetryOptions = (retry: StreamOptions["retry"]) => {
+  if (!retry) {
+    return null;
+  }
+  return {
+    ...defaultRetryOptions,
+    ...(retry === true ? {} : retry),
+  };
+};
+
 export class AsyncStream<T> {
   #done = false;
   #resolveNext: ResolveNext<T> | null;
   #rejectNext: ((error: Error) => void) | null;
   #queue: (T | undefined)[];
   #error: Error | null;
+  #retry: Required<StreamRetryOptions> | null;
+  #reconnecting = false;
+  #cancelRetryDelay: (() => void) | null = null;
+  #highWaterMark: number;
+  #overflow: StreamOverflowStrategy;
+  #dropped = 0;
+  #paused = false;
+  #errorReported = false;
   onReturn: (() => void) | undefined = undefined;
   onError: ((error: Error) => void) | undefined = undefined;
+  /**
+   * Restarts the underlying stream, called when the stream fails and
+   * retries are enabled
+   */
+  onReconnect: (() => Promise<void>) | undefined = undefined;
+  /**
+   * Receives lifecycle events while the stream is reconnecting
+   */
+  onEvent: ((event: StreamEvent) => void) | undefined = undefined;
+  /**
+   * Pauses the underlying stream, called when the buffer is full and the
+   * overflow strategy is `pause`
+   */
+  onPause: (() => void) | undefined = undefined;
+  /**
+   * Resumes the underlying stream, called when a paused stream's buffer is
+   * half empty
+   */
+  onResume: (() => Promise<void>) | undefined = undefined;
 
-  constructor() {
+  constructor(options?: StreamOptions) {
     this.#queue = [];
     this.#resolveNext = null;
     this.#rejectNext = null;
     this.#error = null;
     this.#done = false;
+    this.#retry = resolveRetryOptions(options?.retry);
+    this.#highWaterMark = options?.highWaterMark ?? Infinity;
+    this.#overflow = options?.overflow ?? "drop-oldest";
   }
 
   #endStream() {
+    // settle a pending `next` call so that consumers waiting on it can finish
+    this.#resolveNext?.({
+      done: true,
+      value: undefined,
+    });
     this.#queue = [];
     this.#resolveNext = null;
     this.#rejectNext = null;
     this.#done = true;
+    this.#paused = false;
+    this.#cancelRetryDelay?.();
+  }
+
+  #fail(error: Error) {
+    this.#error = error;
+    if (this.#rejectNext) {
+      this.#rejectNext(error);
+      this.#endStream();
+      this.#reportError(error);
+    }
+  }
+
+  #reportError(error: Error) {
+    if (!this.#errorReported) {
+      this.#errorReported = true;
+      this.onError?.(error);
+    }
+  }
+
+  // the buffer is only full when no `next` call is pending, so the error is
+  // delivered once the consumer has read the buffered values
+  #overflowed() {
+    const error = new StreamOverflowError(this.#highWaterMark);
+    this.#error = error;
+    this.onReturn?.();
+    this.#reportError(error);
+  }
+
+  #enqueue(value: T | undefined) {
+    if (this.#queue.length >= this.#highWaterMark) {
+      switch (this.#overflow) {
+        case "drop-oldest":
+          this.#queue.shift();
+          this.#dropped++;
+          break;
+        case "drop-newest":
+          this.#dropped++;
+          return;
+        case "error":
+          this.#overflowed();
+          return;
+        case "pause":
+          // values already in flight are buffered while the stream pauses
+          break;
+      }
+    }
+
+    this.#queue.push(value);
+
+    if (
+      this.#overflow === "pause" &&
+      !this.#paused &&
+      this.#queue.length >= this.#highWaterMark
+    ) {
+      this.#paused = true;
+      this.onPause?.();
+    }
+  }
+
+  #resumeIfDrained() {
+    if (
+      !this.#paused ||
+      this.#queue.length > Math.floor(this.#highWaterMark / 2)
+    ) {
+      return;
+    }
+
+    this.#paused = false;
+    this.onResume?.().catch((error: unknown) => {
+      this.callback(error as Error, undefined);
+    });
+  }
+
+  #waitForRetry(delay: number) {
+    return new Promise<void>((resolve) => {
+      const timeout = setTimeout(() => {
+        this.#cancelRetryDelay = null;
+        resolve();
+      }, delay);
+      this.#cancelRetryDelay = () => {
+        clearTimeout(timeout);
+        this.#cancelRetryDelay = null;
+        resolve();
+      };
+    });
+  }
+
+  async #reconnect(
+    retry: Required<StreamRetryOptions>,
+    onReconnect: () => Promise<void>,
+    error: Error,
+  ) {
+    this.#reconnecting = true;
+    let lastError = error;
+
+    for (let attempt = 1; attempt <= retry.maxAttempts; attempt++) {
+      const delay = retryDelay(retry, attempt);
+      this.onEvent?.({
+        type: "reconnecting",
+        attempt,
+        delay,
+        error: lastError,
+      });
+      await this.#waitForRetry(delay);
+
+      // the stream was ended while waiting to reconnect
+      if (this.#done) {
+        this.#reconnecting = false;
+        return;
+      }
+
+      try {
+        await onReconnect();
+        this.#reconnecting = false;
+        this.onEvent?.({ type: "reconnected", attempt });
+        return;
+      } catch (error) {
+        lastError = error as Error;
+      }
+    }
+
+    this.#reconnecting = false;
+    this.onEvent?.({
+      type: "gave_up",
+      attempts: retry.maxAttempts,
+      error: lastError,
+    });
+    this.#fail(lastError);
   }
 
   get error() {
@@ -42,18 +286,41 @@ export class AsyncStream<T> {
     return this.#done;
   }
 
+  get isReconnecting() {
+    return this.#reconnecting;
+  }
+
+  get isPaused() {
+    return this.#paused;
+  }
+
+  get metrics(): StreamMetrics {
+    return {
+      queued: this.#queue.length,
+      dropped: this.#dropped,
+    };
+  }
+
   callback: StreamCallback<T> = (error, value) => {
     if (error) {
-      this.#error = error;
-      if (this.#rejectNext) {
-        this.#rejectNext(error);
-        this.#endStream();
-        this.onError?.(error);
+      // the stream already failed, e.g. the underlying stream was ended
+      // because the buffer overflowed
+      if (this.#error) {
+        return;
+      }
+      if (this.#retry && this.onReconnect && !this.#done) {
+        // errors from the previous stream are ignored while reconnecting
+        if (!this.#reconnecting) {
+          void this.#reconnect(this.#retry, this.onReconnect, error);
+        }
+        return;
       }
+      this.#fail(error);
       return;
     }
 
-    if (this.#done) {
+    // values received after the stream failed are discarded
+    if (this.#done || this.#error) {
       return;
     }
 
@@ -65,24 +332,27 @@ export class AsyncStream<T> {
       this.#resolveNext = null;
       this.#rejectNext = null;
     } else {
-      this.#queue.push(value);
+      this.#enqueue(value);
     }
   };
 
   next = (): Promise<ResolveValue<T>> => {
-    if (this.#error) {
-      this.#endStream();
-      this.onError?.(this.#error);
-      return Promise.reject(this.#error);
-    }
-
+    // values received before an error are delivered first
     if (this.#queue.length > 0) {
+      const value = this.#queue.shift();
+      this.#resumeIfDrained();
       return Promise.resolve({
         done: false,
-        value: this.#queue.shift(),
+        value,
       });
     }
 
+    if (this.#error) {
+      this.#endStream();
+      this.#reportError(this.#error);
+      return Promise.reject(this.#error);
+    }
+
     if (this.#done) {
       return Promise.resolve({
         done: true,
@@ -108,4 +378,59 @@ export class AsyncStream<T> {
   [Symbol.asyncIterator]() {
     return this;
   }
+
+  async *#values() {
+    try {
+      let result = await this.next();
+      while (!result.done) {
+        yield result.value;
+        result = await this.next();
+      }
+    } finally {
+      if (!this.#done) {
+        await this.return(undefined);
+      }
+    }
+  }
+
+  #iterator() {
+    return new StreamIterator(this.#values(), () => {
+      void this.return(undefined);
+    });
+  }
+
+  /**
+   * Transforms each value of the stream
+   */
+  map<U>(fn: (value: T | undefined) => U | Promise<U>) {
+    return this.#iterator().map(fn);
+  }
+
+  /**
+   * Skips values of the stream that don't match the predicate
+   */
+  filter<S extends T | undefined>(
+    predicate: (value: T | undefined) => value is S,
+  ): StreamIterator<S>;
+  filter(
+    predicate: (value: T | undefined) => boolean | Promise<boolean>,
+  ): StreamIterator<T | undefined>;
+  filter(predicate: (value: T | undefined) => boolean | Promise<boolean>) {
+    return this.#iterator().filter(predicate);
+  }
+
+  /**
+   * Ends the stream after `count` values
+   */
+  take(count: number) {
+    return this.#iterator().take(count);
+  }
+
+  /**
+   * Groups values of the stream into arrays of up to `size` values, emitting
+   * a partial batch when `ms` milliseconds have passed since its first value
+   */
+  batch(size: number, ms: number) {
+    return this.#iterator().batch(size, ms);
+  }
 }
@@ -1,14 +1,21 @@
+import { DeleteCodec } from "@xmtp/content-type-delete";
+import { EditCodec } from "@xmtp/content-type-edit";
+import { EphemeralCodec } from "@xmtp/content-type-ephemeral";
 import {
   ContentTypeGroupUpdated,
   GroupUpdatedCodec,
 } from "@xmtp/content-type-group-updated";
+import { PollCodec } from "@xmtp/content-type-poll";
+import { PollVoteCodec } from "@xmtp/content-type-poll-vote";
 import type {
   ContentCodec,
   ContentTypeId,
   EncodedContent,
 } from "@xmtp/content-type-primitives";
 import { TextCodec } from "@xmtp/content-type-text";
+import { TypingIndicatorCodec } from "@xmtp/content-type-typing-indicator";
 import {
+  ConsentState,
   GroupMessageKind,
   isAddressAuthorized as isAddressAuthorizedBinding,
   isInstallationAuthorized as isInstallationAuthorizedBinding,
@@ -18,16 +25,42 @@ import {
   type Message,
   type Client as NodeClient,
 } from "@xmtp/node-bindings";
+import {
+  ARCHIVE_VERSION,
+  archiveConversation,
+  decryptArchive,
+  encryptArchive,
+  fromArchivedConsentState,
+  fromArchivedMessage,
+  ImportedMessages,
+  importedPathFor,
+  type ArchiveContents,
+  type ArchiveSecret,
+  type ExportArchiveOptions,
+  type ImportArchiveResult,
+} from "@/Archive";
 import { ApiUrls } from "@/constants";
 import { Conversations } from "@/Conversations";
+import { DecodedMessage } from "@/DecodedMessage";
+import { Invites, invitesPathFor } from "@/Invites";
+import { MiddlewarePipeline } from "@/Middleware";
+import { Outbox } from "@/Outbox";
 import { Preferences } from "@/Preferences";
-import type { ClientOptions, NetworkOptions, XmtpEnv } from "@/types";
-import { createClient } from "@/utils/createClient";
+import { schedulePathFor, Scheduler } from "@/Scheduler";
+import type {
+  ClientOptions,
+  DecodeErrorMode,
+  NetworkOptions,
+  XmtpEnv,
+} from "@/types";
+import { createClient, getDbPath } from "@/utils/createClient";
+import { ViewedMessages, viewedPathFor } from "@/utils/ephemeral";
 import {
   AccountAlreadyAssociatedError,
   CodecNotFoundError,
   GenerateSignatureError,
   InboxReassignError,
+  InvalidContentError,
   InvalidGroupMembershipChangeError,
 } from "@/utils/errors";
 import { getInboxIdForIdentifier } from "@/utils/inboxId";
@@ -40,8 +73,20 @@ export class Client {
   #preferences: Preferences;
   #signer: Signer;
   #codecs: Map<string, ContentCodec>;
-
-  constructor(client: NodeClient, signer: Signer, codecs: ContentCodec[]) {
+  #middleware: MiddlewarePipeline;
+  #outbox: Outbox;
+  #scheduler: Scheduler;
+  #viewedMessages: ViewedMessages;
+  #importedMessages: ImportedMessages;
+  #invites: Invites;
+  #decodeErrorMode: DecodeErrorMode;
+
+  constructor(
+    client: NodeClient,
+    signer: Signer,
+    codecs: ContentCodec[],
+    options?: ClientOptions,
+  ) {
     this.#innerClient = client;
     const conversations = client.conversations();
     this.#conversations = new Conversations(this, conversations);
@@ -50,6 +95,18 @@ export class Client {
     this.#codecs = new Map(
       codecs.map((codec) => [codec.contentType.toString(), codec]),
     );
+    this.#middleware = new MiddlewarePipeline(options?.middleware);
+    this.#outbox = new Outbox(options?.outbox, this.#middleware);
+    const dbPath = getDbPath(
+      options?.env || "dev",
+      client.inboxId(),
+      options?.dbPath,
+    );
+    this.#scheduler = new Scheduler(this, schedulePathFor(dbPath));
+    this.#viewedMessages = new ViewedMessages(viewedPathFor(dbPath));
+    this.#importedMessages = new ImportedMessages(importedPathFor(dbPath));
+    this.#invites = new Invites(this, invitesPathFor(dbPath));
+    this.#decodeErrorMode = options?.decodeErrorMode ?? "throw";
   }
 
   static async create(
@@ -60,16 +117,41 @@ export class Client {
     const identifier = await signer.getIdentifier();
     const client = await createClient(identifier, encryptionKey, options);
 
-    const clientInstance = new Client(client, signer, [
-      new GroupUpdatedCodec(),
-      new TextCodec(),
-      ...(options?.codecs ?? []),
-    ]);
+    const clientInstance = new Client(
+      client,
+      signer,
+      [
+        new GroupUpdatedCodec(),
+        new TextCodec(),
+        new EditCodec(),
+        new DeleteCodec(),
+        new TypingIndicatorCodec(),
+        new PollCodec(),
+        new PollVoteCodec(),
+        new EphemeralCodec(),
+        ...(options?.codecs ?? []),
+      ],
+      options,
+    );
 
     if (!options?.disableAutoRegister) {
       await clientInstance.register();
     }
 
+    // view-once messages must be known before messages are decoded
+    await clientInstance.viewedMessages.load();
+    await clientInstance.importedMessages.load();
+
+    // send scheduled messages that became due while the client wasn't running
+    await clientInstance.scheduler.start();
+
+    // publish messages that were stored but not published before a restart
+    if (clientInstance.isRegistered) {
+      await clientInstance.outbox.resume(
+        await clientInstance.conversations.list(),
+      );
+    }
+
     return clientInstance;
   }
 
@@ -101,6 +183,43 @@ export class Client {
     return this.#preferences;
   }
 
+  get middleware() {
+    return this.#middleware;
+  }
+
+  get outbox() {
+    return this.#outbox;
+  }
+
+  get scheduler() {
+    return this.#scheduler;
+  }
+
+  /**
+   * View-once messages that have been viewed, see `Conversation.viewMessage`
+   */
+  get viewedMessages() {
+    return this.#viewedMessages;
+  }
+
+  /**
+   * Messages imported with `importArchive`
+   */
+  get importedMessages() {
+    return this.#importedMessages;
+  }
+
+  /**
+   * Invites to groups, see `Group.createInvite`
+   */
+  get invites() {
+    return this.#invites;
+  }
+
+  get decodeErrorMode() {
+    return this.#decodeErrorMode;
+  }
+
   /**
    * WARNING: This function should be used with caution. It is only provided
    * for use in special cases where the provided workflows do not meet the
@@ -414,7 +533,16 @@ export class Client {
   }
 
   codecFor(contentType: ContentTypeId) {
-    return this.#codecs.get(contentType.toString());
+    // codecs decode other minor versions of their major version, content of
+    // other major versions isn't compatible
+    return (
+      this.#codecs.get(contentType.toString()) ??
+      [...this.#codecs.values()].find(
+        (codec) =>
+          codec.contentType.sameAs(contentType) &&
+          codec.contentType.versionMajor === contentType.versionMajor,
+      )
+    );
   }
 
   encodeContent(content: any, contentType: ContentTypeId) {
@@ -422,6 +550,11 @@ export class Client {
     if (!codec) {
       throw new CodecNotFoundError(contentType);
     }
+    try {
+      codec.validate?.(content);
+    } catch (error) {
+      throw new InvalidContentError(contentType, error);
+    }
     const encoded = codec.encode(content, this);
     const fallback = codec.fallback(content);
     if (fallback) {
@@ -444,14 +577,122 @@ export class Client {
       throw new InvalidGroupMembershipChangeError(message.id);
     }
 
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-return
-    return codec.decode(message.content as EncodedContent, this);
+    // malformed payloads are reported as invalid content
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      const content = codec.decode(message.content as EncodedContent, this);
+      codec.validate?.(content);
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-return
+      return content;
+    } catch (error) {
+      throw new InvalidContentError(contentType, error);
+    }
   }
 
   async requestHistorySync() {
     return this.#innerClient.sendHistorySyncRequest();
   }
 
+  /**
+   * Exports conversations, their members and messages to an encrypted
+   * archive that can be imported by another installation
+   */
+  async exportArchive(options: ExportArchiveOptions) {
+    const { conversationIds } = options;
+    const conversations = (await this.#conversations.list()).filter(
+      (conversation) =>
+        !conversationIds || conversationIds.includes(conversation.id),
+    );
+
+    const contents: ArchiveContents = {
+      version: ARCHIVE_VERSION,
+      inboxId: this.inboxId,
+      exportedAt: new Date(),
+      conversations: [],
+      messages: [],
+    };
+    for (const conversation of conversations) {
+      const archived = await archiveConversation(conversation, options);
+      contents.conversations.push(archived.conversation);
+      contents.messages.push(...archived.messages);
+    }
+
+    return encryptArchive(contents, options);
+  }
+
+  /**
+   * Imports an archive created by `exportArchive`
+   *
+   * Archived conversations are matched with the conversations of this
+   * installation and their consent state is restored, unless it was already
+   * set. Archived DMs that aren't found are created with the same peer,
+   * archived groups can only be joined when a member adds this installation
+   * and are reported as missing.
+   *
+   * The local database only stores messages received from the network, so
+   * archived messages are stored with the imported messages next to it and
+   * listed with the messages of their conversation, including the messages
+   * of missing groups once this installation is added to them. They are
+   * decoded with the codecs of this client and returned, messages that can't
+   * be decoded are left out of the result unless `decodeErrorMode` is
+   * `"fallback"`.
+   */
+  async importArchive(
+    archive: Uint8Array,
+    secret: ArchiveSecret,
+  ): Promise<ImportArchiveResult> {
+    const contents = await decryptArchive(archive, secret);
+    await this.#conversations.sync();
+
+    const result: ImportArchiveResult = {
+      conversations: [],
+      missingConversationIds: [],
+      messages: [],
+    };
+    // archived conversation ID -> local conversation ID
+    const conversationIds = new Map<string, string>();
+    for (const archived of contents.conversations) {
+      // DMs with the same peer may have a different ID on this installation
+      let conversation =
+        archived.type === "dm" && archived.peerInboxId
+          ? this.#conversations.getDmByInboxId(archived.peerInboxId)
+          : await this.#conversations.getConversationById(archived.id);
+      if (!conversation && archived.type === "dm" && archived.peerInboxId) {
+        conversation = await this.#conversations.newDm(archived.peerInboxId);
+      }
+      if (!conversation) {
+        result.missingConversationIds.push(archived.id);
+        continue;
+      }
+      if (conversation.consentState === ConsentState.Unknown) {
+        conversation.updateConsentState(
+          fromArchivedConsentState(archived.consentState),
+        );
+      }
+      conversationIds.set(archived.id, conversation.id);
+      result.conversations.push(conversation);
+    }
+
+    const messages = contents.messages.map((message) => ({
+      ...message,
+      conversationId:
+        conversationIds.get(message.conversationId) ?? message.conversationId,
+    }));
+    await this.#importedMessages.add(messages);
+
+    for (const message of messages) {
+      try {
+        result.messages.push(
+          new DecodedMessage(this, fromArchivedMessage(message)),
+        );
+      } catch {
+        // messages that can't be decoded are left out
+      }
+    }
+
+    return result;
+  }
+
   async getInboxIdByIdentifier(identifier: Identifier) {
     return this.#innerClient.findInboxIdByIdentifier(identifier);
   }
@@ -1,16 +1,113 @@
-import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import type { Ephemeral } from "@xmtp/content-type-ephemeral";
+import type { Poll } from "@xmtp/content-type-poll";
+import { ContentTypeId } from "@xmtp/content-type-primitives";
 import { ContentTypeText } from "@xmtp/content-type-text";
-import type {
-  ConsentState,
-  ListMessagesOptions,
-  Message,
-  Conversation as XmtpConversation,
+import {
+  ContentType,
+  SortDirection,
+  type ConsentState,
+  type ListMessagesOptions,
+  type Message,
+  type Conversation as XmtpConversation,
 } from "@xmtp/node-bindings";
-import { AsyncStream, type StreamCallback } from "@/AsyncStream";
+import {
+  AsyncStream,
+  type StreamCallback,
+  type StreamOptions,
+} from "@/AsyncStream";
 import type { Client } from "@/Client";
 import { DecodedMessage } from "@/DecodedMessage";
-import { nsToDate } from "@/utils/date";
-import { MissingContentTypeError } from "@/utils/errors";
+import type { SendContent } from "@/Middleware";
+import { dateToNs, nsToDate } from "@/utils/date";
+import { isEphemeral } from "@/utils/ephemeral";
+import {
+  EphemeralMessageNotFoundError,
+  MissingContentTypeError,
+  PollNotFoundError,
+  ThreadNotFoundError,
+} from "@/utils/errors";
+import { withMentions, type SendOptions } from "@/utils/mentions";
+import { paginateMessages } from "@/utils/pagination";
+import { isPoll, isPollVote, tallyPoll, type PollResults } from "@/utils/polls";
+import {
+  isReaction,
+  ReactionAggregator,
+  type ReactionSummary,
+} from "@/utils/reactions";
+import {
+  ContentTypeReadReceipt,
+  isUnread,
+  READ_RECEIPT_INTERVAL_MS,
+  readStates,
+  type ReadState,
+} from "@/utils/readState";
+import {
+  isMessageUpdate,
+  reconcileMessages,
+  type ReconcileOptions,
+} from "@/utils/reconcile";
+import { StreamCursor } from "@/utils/streams";
+import {
+  isReply,
+  ThreadIndex,
+  type Thread,
+  type ThreadSummary,
+} from "@/utils/threads";
+import {
+  isTypingIndicator,
+  TypingTracker,
+  type TypingEvent,
+} from "@/utils/typing";
+
+export type MessagesIteratorOptions = {
+  /**
+   * Maximum number of messages in each page (default: `50`)
+   */
+  pageSize?: number;
+  /**
+   * Order of the messages (default: `SortDirection.Descending`)
+   */
+  direction?: SortDirection;
+  /**
+   * Only include messages with these content types
+   */
+  contentTypes?: ContentTypeId[];
+  /**
+   * Only include messages from these senders
+   */
+  senderInboxIds?: string[];
+  /**
+   * Only include messages sent before this date
+   */
+  before?: Date;
+  /**
+   * Only include messages sent after this date
+   */
+  after?: Date;
+};
+
+/**
+ * A message that couldn't be decoded because its codec is missing or
+ * decoding it threw an error
+ */
+export type UndecodableMessage = {
+  id: string;
+  conversationId: string;
+  senderInboxId: string;
+  sentAt: Date;
+  sentAtNs: number;
+  contentType: ContentTypeId | undefined;
+  fallback?: string;
+  error: Error;
+};
+
+export type MessagesPage<T = any> = {
+  messages: DecodedMessage<T>[];
+  /**
+   * Messages in this page that couldn't be decoded
+   */
+  undecodable: UndecodableMessage[];
+};
 
 export class Conversation {
   #client: Client;
@@ -65,18 +162,88 @@ export class Conversation {
     return this.#conversation.sync();
   }
 
-  stream(callback?: StreamCallback<DecodedMessage>) {
-    const asyncStream = new AsyncStream<DecodedMessage>();
+  /**
+   * Streams new messages in this conversation
+   *
+   * With `reconcile`, edits and deletes are streamed as the updated message
+   * they reference instead of as separate messages.
+   */
+  stream(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions & ReconcileOptions,
+  ) {
+    const asyncStream = new AsyncStream<DecodedMessage>(options);
+    const cursor = new StreamCursor();
+
+    const deliver = (error: Error | null, message?: DecodedMessage) => {
+      asyncStream.callback(error, message);
+      callback?.(error, message);
+    };
+
+    // messages are reconciled in order so that updates don't overtake the
+    // messages that were streamed before them
+    let reconciling = Promise.resolve();
 
-    const stream = this.#conversation.stream((error, value) => {
+    const onMessage: StreamCallback<Message> = (error, value) => {
+      // skip messages that were already delivered before reconnecting
+      if (value && !cursor.track(value)) {
+        return;
+      }
       const message = value
         ? new DecodedMessage(this.#client, value)
         : undefined;
-      asyncStream.callback(error, message);
-      callback?.(error, message);
-    });
+      if (!options?.reconcile) {
+        deliver(error, message);
+        return;
+      }
+      reconciling = reconciling.then(async () => {
+        if (!message || !isMessageUpdate(message.contentType)) {
+          deliver(error, message);
+          return;
+        }
+        try {
+          const updated = await this.#reconcileUpdate(
+            message,
+            options.includeOriginal,
+          );
+          if (updated) {
+            deliver(null, updated);
+          }
+        } catch (reconcileError) {
+          deliver(reconcileError as Error);
+        }
+      });
+    };
+
+    let stream = this.#conversation.stream(onMessage);
+
+    asyncStream.onReturn = () => {
+      stream.end();
+    };
+
+    asyncStream.onPause = () => {
+      stream.end();
+    };
+
+    // restarts the stream and catches up on messages that were missed
+    const restart = async () => {
+      stream.end();
+      // start streaming before catching up so that no messages are missed
+      stream = this.#conversation.stream(onMessage);
+      await stream.waitForReady();
+      await this.sync();
+      // replay messages sent after the last delivered message
+      const messages = await this.#conversation.findMessages({
+        sentAfterNs: cursor.after(this.id),
+        direction: SortDirection.Ascending,
+      });
+      messages.forEach((message) => {
+        onMessage(null, message);
+      });
+    };
 
-    asyncStream.onReturn = stream.end.bind(stream);
+    asyncStream.onReconnect = restart;
+    asyncStream.onResume = restart;
 
     return asyncStream;
   }
@@ -85,45 +252,664 @@ export class Conversation {
     return this.#conversation.publishMessages();
   }
 
-  sendOptimistic(content: any, contentType?: ContentTypeId) {
+  /**
+   * Stores a message locally without publishing it, see `publishMessages`
+   *
+   * The `beforeSend` and `onSendError` middleware hooks run before the
+   * message is stored.
+   */
+  async sendOptimistic(
+    content: any,
+    contentType?: ContentTypeId,
+    options?: SendOptions,
+  ) {
     if (typeof content !== "string" && !contentType) {
       throw new MissingContentTypeError();
     }
 
-    const encodedContent =
-      typeof content === "string"
-        ? this.#client.encodeContent(content, contentType ?? ContentTypeText)
-        : // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          this.#client.encodeContent(content, contentType!);
+    const middleware = this.#client.middleware;
+    let sendContent: SendContent = {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      content,
+      contentType: contentType ?? ContentTypeText,
+    };
 
-    return this.#conversation.sendOptimistic(encodedContent);
+    try {
+      sendContent = await middleware.beforeSend(
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      const encodedContent = withMentions(
+        this.#client.encodeContent(
+          sendContent.content,
+          sendContent.contentType,
+        ),
+        sendContent.content,
+        options?.mentions,
+      );
+      return this.#conversation.sendOptimistic(encodedContent);
+    } catch (error) {
+      await middleware.sendError(
+        error as Error,
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      throw error;
+    }
   }
 
-  async send(content: any, contentType?: ContentTypeId) {
+  /**
+   * Sends a message
+   *
+   * Mentions of inboxes in text content are sent with the message as an
+   * encoded content parameter, so any text-like content type can have
+   * mentions.
+   */
+  async send(content: any, contentType?: ContentTypeId, options?: SendOptions) {
     if (typeof content !== "string" && !contentType) {
       throw new MissingContentTypeError();
     }
 
-    const encodedContent =
-      typeof content === "string"
-        ? this.#client.encodeContent(content, contentType ?? ContentTypeText)
-        : // eslint-disable-next-line @typescript-eslint/no-non-null-assertion
-          this.#client.encodeContent(content, contentType!);
+    const middleware = this.#client.middleware;
+    let sendContent: SendContent = {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      content,
+      contentType: contentType ?? ContentTypeText,
+    };
+    let messageId: string;
+
+    try {
+      sendContent = await middleware.beforeSend(
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      const encodedContent = withMentions(
+        this.#client.encodeContent(
+          sendContent.content,
+          sendContent.contentType,
+        ),
+        sendContent.content,
+        options?.mentions,
+      );
+      messageId = await this.#conversation.send(encodedContent);
+    } catch (error) {
+      await middleware.sendError(
+        error as Error,
+        sendContent.content,
+        sendContent.contentType,
+        this,
+      );
+      throw error;
+    }
 
-    return this.#conversation.send(encodedContent);
+    await middleware.afterSend(messageId, this);
+
+    return messageId;
+  }
+
+  /**
+   * Schedules a message to be sent at a later time
+   *
+   * The message is sent with `send` when it's due, see `Client.scheduler`
+   * for listing, rescheduling and cancelling scheduled messages.
+   */
+  async schedule(
+    content: any,
+    contentType: ContentTypeId | undefined,
+    sendAt: Date,
+  ) {
+    return this.#client.scheduler.schedule(this, content, contentType, sendAt);
+  }
+
+  /**
+   * Views an ephemeral message in this conversation
+   *
+   * The message is returned with its content, after which the content of a
+   * view-once message is purged: the message is decoded without content and
+   * with `purged` set from then on, including in streams and `messages`.
+   * Messages that were already purged are returned without content.
+   */
+  async viewMessage(messageId: string) {
+    const message = this.#client.conversations.getMessageById<
+      Ephemeral | undefined
+    >(messageId);
+    if (
+      !message ||
+      message.conversationId !== this.id ||
+      !isEphemeral(message.contentType)
+    ) {
+      throw new EphemeralMessageNotFoundError(messageId);
+    }
+    if (message.content?.viewOnce) {
+      await this.#client.viewedMessages.add(messageId);
+    }
+    return message;
   }
 
-  async messages(options?: ListMessagesOptions): Promise<DecodedMessage[]> {
-    const messages = await this.#conversation.findMessages(options);
-    return (
-      messages
-        .map((message) => new DecodedMessage(this.#client, message))
-        // filter out messages without content
-        .filter((message) => message.content !== undefined)
+  /**
+   * Lists messages in this conversation
+   *
+   * Typing indicators are ephemeral and left out of the results. With
+   * `reconcile`, edits and deletes are applied to the messages they
+   * reference and left out of the results too, so fewer than `limit`
+   * messages may be returned. Ephemeral messages that have been viewed or
+   * have expired are listed without content, see `viewMessage`.
+   */
+  async messages(
+    options?: ListMessagesOptions & ReconcileOptions,
+  ): Promise<DecodedMessage[]> {
+    const { reconcile, includeOriginal, ...listOptions } = options ?? {};
+    const messages = (await this.#findMessages(listOptions))
+      .map((message) => new DecodedMessage(this.#client, message))
+      // filter out messages without content, unless it couldn't be decoded
+      // or was purged
+      .filter(
+        (message) =>
+          (message.content !== undefined ||
+            message.decodeError !== undefined ||
+            message.purged !== undefined) &&
+          !isTypingIndicator(message.contentType),
+      );
+
+    if (!reconcile || messages.length === 0) {
+      return messages;
+    }
+
+    // updates are always sent after the messages they reference
+    const oldestNs = Math.min(...messages.map((message) => message.sentAtNs));
+    return reconcileMessages(
+      messages,
+      await this.#findUpdates(oldestNs),
+      includeOriginal,
     );
   }
 
+  // lists messages of the local DB together with imported messages
+  async #findMessages(options?: ListMessagesOptions) {
+    return this.#client.importedMessages.merge(
+      this.id,
+      await this.#conversation.findMessages(options),
+      options,
+    );
+  }
+
+  // finds edits and deletes sent after a timestamp
+  async #findUpdates(sentAfterNs: number) {
+    const messages = await this.#findMessages({
+      sentAfterNs,
+      direction: SortDirection.Ascending,
+    });
+    const updates: DecodedMessage[] = [];
+    for (const message of messages) {
+      const type = message.content.type;
+      if (!type || !isMessageUpdate(new ContentTypeId(type))) {
+        continue;
+      }
+      try {
+        updates.push(new DecodedMessage(this.#client, message));
+      } catch {
+        // updates that can't be decoded are ignored
+      }
+    }
+    return updates;
+  }
+
+  // gets the message referenced by an update with all of its updates applied
+  async #reconcileUpdate(update: DecodedMessage, includeOriginal?: boolean) {
+    if (update.content === undefined) {
+      return undefined;
+    }
+    const { reference } = update.content as { reference: string };
+    const target = this.#client.conversations.getMessageById(reference);
+    if (
+      !target ||
+      target.conversationId !== this.id ||
+      target.senderInboxId !== update.senderInboxId
+    ) {
+      return undefined;
+    }
+    const updates = await this.#findUpdates(target.sentAtNs);
+    if (!updates.some((message) => message.id === update.id)) {
+      updates.push(update);
+    }
+    return reconcileMessages([target], updates, includeOriginal)[0];
+  }
+
+  /**
+   * Lists messages without decoding their content
+   */
+  async encodedMessages(options?: ListMessagesOptions) {
+    return this.#findMessages(options);
+  }
+
+  /**
+   * Iterates over pages of messages, fetching each page when it's requested
+   *
+   * Unlike `messages`, messages that can't be decoded are reported in each
+   * page instead of being dropped.
+   */
+  async *messagesIterator<T = any>(
+    options?: MessagesIteratorOptions,
+  ): AsyncGenerator<MessagesPage<T>, void, undefined> {
+    const { contentTypes, senderInboxIds } = options ?? {};
+    const pages = paginateMessages(
+      (listOptions) => this.#findMessages(listOptions),
+      {
+        pageSize: options?.pageSize ?? 50,
+        direction: options?.direction ?? SortDirection.Descending,
+        sentBeforeNs: options?.before ? dateToNs(options.before) : undefined,
+        sentAfterNs: options?.after ? dateToNs(options.after) : undefined,
+        filter: (message) => {
+          if (
+            senderInboxIds &&
+            !senderInboxIds.includes(message.senderInboxId)
+          ) {
+            return false;
+          }
+          const type = message.content.type;
+          if (contentTypes) {
+            return (
+              type !== undefined &&
+              contentTypes.some((contentType) =>
+                contentType.sameAs(new ContentTypeId(type)),
+              )
+            );
+          }
+          // typing indicators are only listed when asked for
+          return !type || !isTypingIndicator(new ContentTypeId(type));
+        },
+      },
+    );
+
+    for await (const page of pages) {
+      const result: MessagesPage<T> = { messages: [], undecodable: [] };
+      for (const message of page) {
+        let decodeError: Error | undefined;
+        try {
+          const decoded = new DecodedMessage<T>(this.#client, message);
+          decodeError = decoded.decodeError;
+          if (!decodeError) {
+            result.messages.push(decoded);
+          }
+        } catch (error) {
+          decodeError = error as Error;
+        }
+        if (decodeError) {
+          const type = message.content.type;
+          result.undecodable.push({
+            id: message.id,
+            conversationId: message.convoId,
+            senderInboxId: message.senderInboxId,
+            sentAt: nsToDate(message.sentAtNs),
+            sentAtNs: message.sentAtNs,
+            contentType: type ? new ContentTypeId(type) : undefined,
+            fallback: message.content.fallback,
+            error: decodeError,
+          });
+        }
+      }
+      yield result;
+    }
+  }
+
+  /**
+   * Tallies the votes of a poll in this conversation
+   *
+   * Only the latest vote of each member is counted. Votes sent after the
+   * deadline of the poll and votes from inboxes that aren't members of this
+   * conversation are ignored.
+   */
+  async pollResults(pollId: string): Promise<PollResults> {
+    const poll = this.#client.conversations.getMessageById(pollId);
+    if (
+      !poll ||
+      poll.conversationId !== this.id ||
+      !isPoll(poll.contentType) ||
+      poll.content === undefined
+    ) {
+      throw new PollNotFoundError(pollId);
+    }
+    const messages = await this.#findMessages({
+      // votes are always sent after the polls they reference
+      sentAfterNs: poll.sentAtNs,
+    });
+    const votes: DecodedMessage[] = [];
+    for (const message of messages) {
+      try {
+        const decoded = new DecodedMessage(this.#client, message);
+        if (isPollVote(decoded.contentType)) {
+          votes.push(decoded);
+        }
+      } catch {
+        // votes that can't be decoded are ignored
+      }
+    }
+    const members = await this.members();
+    return tallyPoll(
+      poll as DecodedMessage<Poll>,
+      votes,
+      members.map((member) => member.inboxId),
+    );
+  }
+
+  /**
+   * Gets the reaction tallies of a message in this conversation
+   *
+   * Reactions are decoded with the client's codecs, so the `ReactionCodec`
+   * must be registered.
+   */
+  async reactionsFor(messageId: string): Promise<ReactionSummary> {
+    const aggregator = new ReactionAggregator();
+    await this.#loadReactions(aggregator, messageId);
+    return aggregator.summary(messageId);
+  }
+
+  async #loadReactions(aggregator: ReactionAggregator, messageId: string) {
+    const target = this.#client.conversations.getMessageById(messageId);
+    const messages = await this.#findMessages({
+      contentTypes: [ContentType.Reaction],
+      // reactions are always sent after the messages they reference
+      sentAfterNs: target?.sentAtNs,
+    });
+    for (const message of messages) {
+      let decoded: DecodedMessage;
+      try {
+        decoded = new DecodedMessage(this.#client, message);
+      } catch {
+        // reactions that can't be decoded are ignored
+        continue;
+      }
+      const content = decoded.content as { reference: string } | undefined;
+      if (content?.reference === messageId) {
+        aggregator.add(decoded);
+      }
+    }
+  }
+
+  /**
+   * Streams the reaction tallies of messages in this conversation
+   *
+   * A summary is emitted whenever the reactions to a message change. The
+   * first summary of a message includes the reactions it had before the
+   * stream started.
+   */
+  streamReactionSummaries(
+    callback?: StreamCallback<ReactionSummary>,
+    options?: StreamOptions,
+  ) {
+    const asyncStream = new AsyncStream<ReactionSummary>(options);
+    const aggregator = new ReactionAggregator();
+    const loaded = new Set<string>();
+
+    const deliver = (error: Error | null, summary?: ReactionSummary) => {
+      asyncStream.callback(error, summary);
+      callback?.(error, summary);
+    };
+
+    // reactions are aggregated in order so that summaries aren't emitted
+    // out of order while existing reactions are loaded
+    let aggregating = Promise.resolve();
+
+    const stream = this.stream(
+      (error, message) => {
+        if (error) {
+          deliver(error);
+          return;
+        }
+        if (
+          !message ||
+          !isReaction(message.contentType) ||
+          message.content === undefined
+        ) {
+          return;
+        }
+        aggregating = aggregating.then(async () => {
+          const { reference } = message.content as { reference: string };
+          try {
+            if (!loaded.has(reference)) {
+              loaded.add(reference);
+              // the streamed reaction is included in the loaded reactions
+              await this.#loadReactions(aggregator, reference);
+              aggregator.add(message);
+              deliver(null, aggregator.summary(reference));
+              return;
+            }
+            if (aggregator.add(message)) {
+              deliver(null, aggregator.summary(reference));
+            }
+          } catch (loadError) {
+            deliver(loadError as Error);
+          }
+        });
+      },
+      // messages are only handled in the callback, so they aren't buffered
+      { retry: options?.retry, highWaterMark: 0, overflow: "drop-newest" },
+    );
+
+    asyncStream.onReturn = () => {
+      void stream.return(undefined);
+    };
+
+    return asyncStream;
+  }
+
+  // adds the replies sent after a timestamp to a thread index
+  async #loadReplies(index: ThreadIndex, sentAfterNs?: number) {
+    const messages = await this.#findMessages({
+      contentTypes: [ContentType.Reply],
+      sentAfterNs,
+    });
+    for (const message of messages) {
+      try {
+        index.add(new DecodedMessage(this.#client, message));
+      } catch {
+        // replies that can't be decoded are ignored
+      }
+    }
+  }
+
+  // gets a message of this conversation that can start a thread
+  #threadRoot(rootId: string) {
+    const root = this.#client.conversations.getMessageById(rootId);
+    if (!root || root.conversationId !== this.id) {
+      throw new ThreadNotFoundError(rootId);
+    }
+    return root;
+  }
+
+  /**
+   * Gets a message in this conversation and its replies, including replies
+   * to replies
+   *
+   * Replies are decoded with the client's codecs, so the `ReplyCodec` must
+   * be registered.
+   */
+  async thread<T = any>(rootMessageId: string): Promise<Thread<T>> {
+    const root = this.#threadRoot(rootMessageId) as DecodedMessage<T>;
+    const index = new ThreadIndex();
+    // replies are always sent after the messages they reference
+    await this.#loadReplies(index, root.sentAtNs);
+    return {
+      ...index.summary(root.id),
+      root,
+      replies: index.repliesTo(root.id),
+    };
+  }
+
+  /**
+   * Gets the reply counts and last reply times of the threads in this
+   * conversation, keyed by the ID of the message that started each thread
+   */
+  async threadSummaries(): Promise<Map<string, ThreadSummary>> {
+    const index = new ThreadIndex();
+    await this.#loadReplies(index);
+    return index.summaries();
+  }
+
+  /**
+   * Streams new replies in the thread of a message in this conversation,
+   * including replies to replies
+   */
+  streamThread(
+    rootMessageId: string,
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
+    const root = this.#threadRoot(rootMessageId);
+    const asyncStream = new AsyncStream<DecodedMessage>(options);
+    const index = new ThreadIndex();
+
+    const deliver = (error: Error | null, message?: DecodedMessage) => {
+      asyncStream.callback(error, message);
+      callback?.(error, message);
+    };
+
+    // existing replies are loaded first so that replies to them are
+    // recognized as part of the thread
+    let indexing = this.#loadReplies(index, root.sentAtNs).catch(
+      (error: unknown) => {
+        deliver(error as Error);
+      },
+    );
+
+    const stream = this.stream(
+      (error, message) => {
+        if (error) {
+          deliver(error);
+          return;
+        }
+        if (!message || !isReply(message.contentType)) {
+          return;
+        }
+        indexing = indexing.then(() => {
+          if (index.add(message) && index.inThread(message.id, root.id)) {
+            deliver(null, message);
+          }
+        });
+      },
+      // messages are only handled in the callback, so they aren't buffered
+      { retry: options?.retry, highWaterMark: 0, overflow: "drop-newest" },
+    );
+
+    asyncStream.onReturn = () => {
+      void stream.return(undefined);
+    };
+
+    return asyncStream;
+  }
+
+  /**
+   * Streams when other members start and stop typing in this conversation
+   *
+   * Members are considered to have stopped typing when they send a message
+   * or when their last typing indicator expires.
+   */
+  streamTyping(
+    callback?: StreamCallback<TypingEvent>,
+    options?: StreamOptions,
+  ) {
+    const asyncStream = new AsyncStream<TypingEvent>(options);
+
+    const deliver = (error: Error | null, event?: TypingEvent) => {
+      asyncStream.callback(error, event);
+      callback?.(error, event);
+    };
+
+    const tracker = new TypingTracker((event) => {
+      deliver(null, event);
+    });
+
+    const stream = this.stream(
+      (error, message) => {
+        if (error) {
+          deliver(error);
+          return;
+        }
+        if (message && message.senderInboxId !== this.#client.inboxId) {
+          tracker.add(message);
+        }
+      },
+      // messages are only handled in the callback, so they aren't buffered
+      { retry: options?.retry, highWaterMark: 0, overflow: "drop-newest" },
+    );
+
+    asyncStream.onReturn = () => {
+      tracker.clear();
+      void stream.return(undefined);
+    };
+
+    return asyncStream;
+  }
+
+  // gets the latest read receipt of each member
+  async #readStates() {
+    const messages = await this.#findMessages({
+      contentTypes: [ContentType.ReadReceipt],
+    });
+    return readStates(messages);
+  }
+
+  /**
+   * Sends a read receipt to this conversation
+   *
+   * Read receipts are encoded with the client's codecs, so the
+   * `ReadReceiptCodec` must be registered. No receipt is sent when there are
+   * no messages from other members since the last receipt, or when the last
+   * receipt was sent less than 5 seconds ago, in which case `undefined` is
+   * returned instead of the message ID.
+   */
+  async markRead(): Promise<string | undefined> {
+    const inboxId = this.#client.inboxId;
+    const readState = (await this.#readStates()).get(inboxId);
+    if (readState) {
+      if (Date.now() - readState.readAt.getTime() < READ_RECEIPT_INTERVAL_MS) {
+        return undefined;
+      }
+      const messages = await this.#findMessages({
+        sentAfterNs: readState.readAtNs,
+      });
+      if (!messages.some((message) => isUnread(message, inboxId))) {
+        return undefined;
+      }
+    }
+    return this.send({}, ContentTypeReadReceipt);
+  }
+
+  /**
+   * Gets when a member last sent a read receipt to this conversation, or
+   * `undefined` if they haven't sent one
+   */
+  async readStateFor(inboxId: string): Promise<ReadState | undefined> {
+    return (await this.#readStates()).get(inboxId);
+  }
+
+  /**
+   * Counts the messages from other members that were sent after the last
+   * read receipt of the client
+   */
+  async unreadCount() {
+    const inboxId = this.#client.inboxId;
+    const readState = (await this.#readStates()).get(inboxId);
+    const messages = await this.#findMessages({
+      sentAfterNs: readState?.readAtNs,
+    });
+    return messages.filter((message) => isUnread(message, inboxId)).length;
+  }
+
   async lastMessage() {
+    // ephemeral content may have been purged since it was decoded
+    if (
+      this.#lastMessage &&
+      isEphemeral(this.#lastMessage.contentType) &&
+      !this.#lastMessage.purged
+    ) {
+      this.#lastMessage = this.#client.conversations.getMessageById(
+        this.#lastMessage.id,
+      );
+    }
     return this.#lastMessage ?? (await this.messages({ limit: 1 }))[0];
   }
 
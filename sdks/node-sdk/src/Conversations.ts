@@ -1,20 +1,34 @@
-import type {
-  ConsentState,
-  CreateDmOptions,
-  CreateGroupOptions,
-  Identifier,
-  ListConversationsOptions,
-  Conversations as XmtpConversations,
+import {
+  SortDirection,
+  type ConsentState,
+  type ConversationListItem,
+  type CreateDmOptions,
+  type CreateGroupOptions,
+  type Identifier,
+  type ListConversationsOptions,
+  type Message,
+  type StreamCloser,
+  type Conversations as XmtpConversations,
 } from "@xmtp/node-bindings";
-import { AsyncStream, type StreamCallback } from "@/AsyncStream";
+import {
+  AsyncStream,
+  type StreamCallback,
+  type StreamOptions,
+} from "@/AsyncStream";
 import type { Client } from "@/Client";
+import type { Conversation } from "@/Conversation";
 import { DecodedMessage } from "@/DecodedMessage";
 import { Dm } from "@/Dm";
 import { Group } from "@/Group";
+import { SearchIndex, type SearchMessagesOptions } from "@/SearchIndex";
+import { nsToDate } from "@/utils/date";
+import { mentionsInbox } from "@/utils/mentions";
+import { StreamCursor } from "@/utils/streams";
 
 export class Conversations {
   #client: Client;
   #conversations: XmtpConversations;
+  #searchIndex = new SearchIndex();
 
   constructor(client: Client, conversations: XmtpConversations) {
     this.#client = client;
@@ -45,10 +59,16 @@ export class Conversations {
   }
 
   getMessageById<T = any>(id: string) {
+    let message: Message | undefined;
     try {
       // findMessageById will throw if message is not found
-      const message = this.#conversations.findMessageById(id);
-      return new DecodedMessage<T>(this.#client, message);
+      message = this.#conversations.findMessageById(id);
+    } catch {
+      // messages imported from an archive aren't in the local DB
+      message = this.#client.importedMessages.get(id);
+    }
+    try {
+      return message ? new DecodedMessage<T>(this.#client, message) : undefined;
     } catch {
       return undefined;
     }
@@ -96,6 +116,23 @@ export class Conversations {
     );
   }
 
+  /**
+   * Counts the unread messages of each conversation by conversation ID
+   *
+   * Messages are unread when they were sent by other members after the last
+   * read receipt of the client.
+   */
+  async unreadCounts(options?: ListConversationsOptions) {
+    const conversations = await this.list(options);
+    const counts = await Promise.all(
+      conversations.map(
+        async (conversation) =>
+          [conversation.id, await conversation.unreadCount()] as const,
+      ),
+    );
+    return Object.fromEntries(counts) as Record<string, number>;
+  }
+
   listGroups(options?: Omit<ListConversationsOptions, "conversationType">) {
     const groups = this.#conversations.listGroups(options);
     return groups.map((item) => {
@@ -199,81 +236,204 @@ export class Conversations {
     return asyncStream;
   }
 
-  async streamAllMessages(callback?: StreamCallback<DecodedMessage>) {
-    // sync conversations first
-    await this.sync();
+  #streamAllMessages(
+    startStream: (callback: StreamCallback<Message>) => StreamCloser,
+    listConversations: () => ConversationListItem[],
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
+    const asyncStream = new AsyncStream<DecodedMessage>(options);
+    const cursor = new StreamCursor();
 
-    const asyncStream = new AsyncStream<DecodedMessage>();
+    const deliver = (message: Message) => {
+      // skip messages that were already delivered before reconnecting
+      if (!cursor.track(message)) {
+        return;
+      }
+      const decodedMessage = new DecodedMessage(this.#client, message);
+      asyncStream.callback(null, decodedMessage);
+      callback?.(null, decodedMessage);
+    };
 
-    const stream = this.#conversations.streamAllMessages((err, value) => {
+    const onMessage: StreamCallback<Message> = (err, value) => {
       if (err) {
         asyncStream.callback(err, undefined);
         callback?.(err, undefined);
         return;
       }
 
-      const decodedMessage = value
-        ? new DecodedMessage(this.#client, value)
-        : undefined;
-      asyncStream.callback(null, decodedMessage);
-      callback?.(null, decodedMessage);
-    });
+      if (value) {
+        deliver(value);
+        return;
+      }
 
-    asyncStream.onReturn = stream.end.bind(stream);
+      asyncStream.callback(null, undefined);
+      callback?.(null, undefined);
+    };
+
+    let stream = startStream(onMessage);
+
+    asyncStream.onReturn = () => {
+      stream.end();
+    };
+
+    asyncStream.onPause = () => {
+      stream.end();
+    };
+
+    // restarts the stream and catches up on messages that were missed
+    const restart = async () => {
+      stream.end();
+      // start streaming before catching up so that no messages are missed
+      stream = startStream(onMessage);
+      await stream.waitForReady();
+      await this.#conversations.syncAllConversations();
+      // replay messages sent after the last delivered message
+      for (const item of listConversations()) {
+        const after = cursor.after(item.conversation.id());
+        if (item.lastMessage && item.lastMessage.sentAtNs < after) {
+          continue;
+        }
+        const messages = await item.conversation.findMessages({
+          sentAfterNs: after,
+          direction: SortDirection.Ascending,
+        });
+        messages.forEach(deliver);
+      }
+    };
+
+    asyncStream.onReconnect = restart;
+    asyncStream.onResume = restart;
 
     return asyncStream;
   }
 
-  async streamAllGroupMessages(callback?: StreamCallback<DecodedMessage>) {
+  async streamAllMessages(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
     // sync conversations first
     await this.sync();
 
-    const asyncStream = new AsyncStream<DecodedMessage>();
-
-    const stream = this.#conversations.streamAllGroupMessages((err, value) => {
-      if (err) {
-        asyncStream.callback(err, undefined);
-        callback?.(err, undefined);
-        return;
-      }
-
-      const decodedMessage = value
-        ? new DecodedMessage(this.#client, value)
-        : undefined;
-      asyncStream.callback(null, decodedMessage);
-      callback?.(null, decodedMessage);
-    });
+    return this.#streamAllMessages(
+      (onMessage) => this.#conversations.streamAllMessages(onMessage),
+      () => this.#conversations.list(),
+      callback,
+      options,
+    );
+  }
 
-    asyncStream.onReturn = stream.end.bind(stream);
+  async streamAllGroupMessages(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
+    // sync conversations first
+    await this.sync();
 
-    return asyncStream;
+    return this.#streamAllMessages(
+      (onMessage) => this.#conversations.streamAllGroupMessages(onMessage),
+      () => this.#conversations.listGroups(),
+      callback,
+      options,
+    );
   }
 
-  async streamAllDmMessages(callback?: StreamCallback<DecodedMessage>) {
+  async streamAllDmMessages(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
     // sync conversations first
     await this.sync();
 
-    const asyncStream = new AsyncStream<DecodedMessage>();
-
-    const stream = this.#conversations.streamAllDmMessages((err, value) => {
-      if (err) {
-        asyncStream.callback(err, undefined);
-        callback?.(err, undefined);
-        return;
-      }
+    return this.#streamAllMessages(
+      (onMessage) => this.#conversations.streamAllDmMessages(onMessage),
+      () => this.#conversations.listDms(),
+      callback,
+      options,
+    );
+  }
 
-      const decodedMessage = value
-        ? new DecodedMessage(this.#client, value)
-        : undefined;
-      asyncStream.callback(null, decodedMessage);
-      callback?.(null, decodedMessage);
-    });
+  /**
+   * Streams new messages from all conversations that mention this client's
+   * inbox
+   */
+  async streamMentions(
+    callback?: StreamCallback<DecodedMessage>,
+    options?: StreamOptions,
+  ) {
+    const asyncStream = new AsyncStream<DecodedMessage>(options);
+
+    const deliver = (error: Error | null, message?: DecodedMessage) => {
+      asyncStream.callback(error, message);
+      callback?.(error, message);
+    };
+
+    const stream = await this.streamAllMessages(
+      (error, message) => {
+        if (error) {
+          deliver(error);
+          return;
+        }
+        if (message && mentionsInbox(message, this.#client.inboxId)) {
+          deliver(null, message);
+        }
+      },
+      // messages are only handled in the callback, so they aren't buffered
+      { retry: options?.retry, highWaterMark: 0, overflow: "drop-newest" },
+    );
 
-    asyncStream.onReturn = stream.end.bind(stream);
+    asyncStream.onReturn = () => {
+      void stream.return(undefined);
+    };
 
     return asyncStream;
   }
 
+  /**
+   * Searches the text of local messages
+   *
+   * Messages are added to a local index when they're first searched, later
+   * searches only index new messages. Edits and deletes are applied to the
+   * messages they reference. Sync conversations first to include messages
+   * from the network.
+   */
+  async searchMessages<T = any>(
+    query: string,
+    options?: SearchMessagesOptions,
+  ) {
+    const conversations = options?.conversationIds
+      ? (
+          await Promise.all(
+            options.conversationIds.map((id) => this.getConversationById(id)),
+          )
+        ).filter((conversation) => conversation !== undefined)
+      : await this.list();
+
+    for (const conversation of conversations) {
+      await this.#indexMessages(conversation);
+    }
+
+    return this.#searchIndex.search<T>(query, options);
+  }
+
+  async #indexMessages(conversation: Conversation) {
+    const cursor = this.#searchIndex.cursor(conversation.id);
+    const pages = conversation.messagesIterator({
+      pageSize: 100,
+      direction: SortDirection.Ascending,
+      // messages at the cursor are fetched again, but only indexed once
+      after: cursor !== undefined ? nsToDate(cursor) : undefined,
+    });
+    for await (const page of pages) {
+      page.messages.forEach((message) => {
+        this.#searchIndex.add(message);
+      });
+      page.undecodable.forEach((message) => {
+        this.#searchIndex.advance(conversation.id, message.sentAtNs);
+      });
+    }
+  }
+
   hmacKeys() {
     return this.#conversations.getHmacKeys();
   }
@@ -1,3 +1,4 @@
+import type { Ephemeral } from "@xmtp/content-type-ephemeral";
 import { ContentTypeId } from "@xmtp/content-type-primitives";
 import {
   DeliveryStatus,
@@ -6,6 +7,7 @@ import {
 } from "@xmtp/node-bindings";
 import type { Client } from "@/Client";
 import { nsToDate } from "@/utils/date";
+import { isEphemeral, purgeReason, type PurgeReason } from "@/utils/ephemeral";
 
 export type MessageKind = "application" | "membership_change";
 export type MessageDeliveryStatus = "unpublished" | "published" | "failed";
@@ -15,12 +17,42 @@ export class DecodedMessage<T = any> {
   content: T;
   contentType: ContentTypeId | undefined;
   conversationId: string;
+  /**
+   * Error thrown while decoding the content, only set when the client's
+   * `decodeErrorMode` is `"fallback"`
+   */
+  decodeError?: Error;
+  /**
+   * When the message was deleted, only set when messages are reconciled
+   *
+   * Deleted messages have no content.
+   */
+  deletedAt?: Date;
+  deletedAtNs?: number;
   deliveryStatus: MessageDeliveryStatus;
+  /**
+   * When the message was last edited, only set when messages are reconciled
+   */
+  editedAt?: Date;
+  editedAtNs?: number;
   fallback?: string;
   compression?: number;
   id: string;
   kind: MessageKind;
+  /**
+   * Content of an edited message before its first edit, only set when
+   * messages are reconciled with `includeOriginal`
+   */
+  originalContent?: T;
+  originalContentType?: ContentTypeId;
   parameters: Record<string, string>;
+  /**
+   * Why the content of an ephemeral message was purged, only set when it
+   * has been viewed or has expired
+   *
+   * Purged messages have no content.
+   */
+  purged?: PurgeReason;
   senderInboxId: string;
   sentAt: Date;
   sentAtNs: number;
@@ -62,9 +94,31 @@ export class DecodedMessage<T = any> {
     this.parameters = message.content.parameters;
     this.fallback = message.content.fallback;
     this.compression = message.content.compression;
-    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
-    this.content = this.contentType
-      ? this.#client.decodeContent(message, this.contentType)
-      : undefined;
+    try {
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      this.content = this.contentType
+        ? this.#client.decodeContent(message, this.contentType)
+        : undefined;
+    } catch (error) {
+      this.#client.middleware.decodeError(error as Error, this);
+      if (this.#client.decodeErrorMode === "throw") {
+        throw error;
+      }
+      this.content = undefined as T;
+      this.decodeError = error as Error;
+      return;
+    }
+    // purged content is dropped before it reaches the decode middleware
+    if (isEphemeral(this.contentType) && this.content !== undefined) {
+      this.purged = purgeReason(
+        this.id,
+        this.content as Ephemeral,
+        this.#client.viewedMessages,
+      );
+      if (this.purged) {
+        this.content = undefined as T;
+      }
+    }
+    this.#client.middleware.decode(this);
   }
 }
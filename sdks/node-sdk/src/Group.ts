@@ -8,8 +8,15 @@ import type {
 } from "@xmtp/node-bindings";
 import type { Client } from "@/Client";
 import { Conversation } from "@/Conversation";
+import type { CreateInviteOptions } from "@/Invites";
+import {
+  findMentions,
+  type MentionCandidate,
+  type ResolvedMentions,
+} from "@/utils/mentions";
 
 export class Group extends Conversation {
+  #client: Client;
   #conversation: XmtpConversation;
 
   constructor(
@@ -18,6 +25,7 @@ export class Group extends Conversation {
     lastMessage?: Message | null,
   ) {
     super(client, conversation, lastMessage);
+    this.#client = client;
     this.#conversation = conversation;
   }
 
@@ -112,4 +120,48 @@ export class Group extends Conversation {
   async removeSuperAdmin(inboxId: string) {
     return this.#conversation.removeSuperAdmin(inboxId);
   }
+
+  /**
+   * Creates an invite link to this group
+   *
+   * The returned token can be shared with prospective members, who send it
+   * to this client in a DM to join, see `Client.invites`.
+   */
+  async createInvite(options?: CreateInviteOptions) {
+    return this.#client.invites.create(this, options);
+  }
+
+  /**
+   * Resolves `@name` tokens in a text to mentions of the members of this
+   * group
+   *
+   * Members are mentioned by their inbox ID or any of their identifiers,
+   * e.g. `@0x1234…`, or by the names in `names`, keyed by inbox ID. Names
+   * that match more than one member aren't resolved.
+   */
+  async resolveMentions(
+    text: string,
+    names?: Record<string, string>,
+  ): Promise<ResolvedMentions> {
+    const members = await this.members();
+    const inboxStates = await this.#client.preferences.inboxStateFromInboxIds(
+      members.map((member) => member.inboxId),
+    );
+    const identifiers = new Map(
+      inboxStates.map((state) => [
+        state.inboxId,
+        state.identifiers.map(({ identifier }) => identifier),
+      ]),
+    );
+    const candidates: MentionCandidate[] = members.map((member) => ({
+      inboxId: member.inboxId,
+      names: [
+        member.inboxId,
+        ...member.accountIdentifiers.map(({ identifier }) => identifier),
+        ...(identifiers.get(member.inboxId) ?? []),
+        ...(names?.[member.inboxId] ? [names[member.inboxId]] : []),
+      ],
+    }));
+    return { text, mentions: findMentions(text, candidates) };
+  }
 }
@@ -0,0 +1,350 @@
+import { randomUUID } from "node:crypto";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import type { Client } from "@/Client";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { Dm } from "@/Dm";
+import { Group } from "@/Group";
+import {
+  ConversationNotFoundError,
+  InvalidInviteError,
+  InvalidInviteMaxUsesError,
+  InviteExpiredError,
+  InviteNotFoundError,
+  InvitePermissionError,
+  InviteUsedUpError,
+} from "@/utils/errors";
+import {
+  canAddMembers,
+  decodeInviteToken,
+  encodeInvitePayload,
+  encodeInviteToken,
+  INVITE_TOKEN_VERSION,
+  inviteSignatureText,
+} from "@/utils/invites";
+import { isObject, readStore, StoreWriter } from "@/utils/store";
+
+export type CreateInviteOptions = {
+  /**
+   * When the invite can no longer be redeemed
+   */
+  expiresAt?: Date;
+  /**
+   * How many members can join with the invite
+   */
+  maxUses?: number;
+};
+
+export type GroupInvite = {
+  /**
+   * Local ID of the invite
+   */
+  id: string;
+  groupId: string;
+  /**
+   * Signed token that prospective members send to redeem the invite
+   */
+  token: string;
+  expiresAt?: Date;
+  maxUses?: number;
+  /**
+   * How many members joined with the invite
+   */
+  uses: number;
+  createdAt: Date;
+};
+
+export type InviteRedemption = {
+  invite: GroupInvite;
+  group: Group;
+  /**
+   * Whether the inbox was added, `false` when it already was a member
+   */
+  added: boolean;
+};
+
+type StoredInvite = Omit<GroupInvite, "expiresAt" | "createdAt"> & {
+  expiresAt?: string;
+  createdAt: string;
+};
+
+type StoredInvites = {
+  version: number;
+  invites: StoredInvite[];
+};
+
+const STORE_VERSION = 1;
+
+const isOptional = (value: unknown, type: "string" | "number") =>
+  value === undefined || typeof value === type;
+
+const isStoredInvite = (value: unknown): value is StoredInvite =>
+  isObject(value) &&
+  typeof value.id === "string" &&
+  typeof value.groupId === "string" &&
+  typeof value.token === "string" &&
+  typeof value.uses === "number" &&
+  typeof value.createdAt === "string" &&
+  isOptional(value.expiresAt, "string") &&
+  isOptional(value.maxUses, "number");
+
+const isStoredInvites = (value: unknown): value is StoredInvites =>
+  isObject(value) &&
+  Array.isArray(value.invites) &&
+  value.invites.every(isStoredInvite);
+
+/**
+ * Gets the path of the invites store of a local DB
+ */
+export const invitesPathFor = (dbPath: string) => `${dbPath}.invites.json`;
+
+/**
+ * Manages invite links to groups
+ *
+ * Invites are created with `Group.createInvite` and stored in a file next to
+ * the local DB. Their tokens are signed with the installation key, so they
+ * can only be redeemed by the installation that created them. Prospective
+ * members send a token in a DM with `join`, and the inviter redeems it with
+ * `handleMessage` or `redeem`.
+ *
+ * A store that can't be parsed is moved to a `.corrupt` file next to it, and
+ * the invites in it can no longer be redeemed.
+ */
+export class Invites {
+  #client: Client;
+  #path: string;
+  #invites = new Map<string, GroupInvite>();
+  #loading: Promise<void> | undefined;
+  #writer: StoreWriter;
+
+  constructor(client: Client, path: string) {
+    this.#client = client;
+    this.#path = path;
+    this.#writer = new StoreWriter(path);
+  }
+
+  /**
+   * Creates an invite to a group
+   *
+   * Members are only added with the invite while the group's permission
+   * policy allows this inbox to add members.
+   */
+  async create(group: Group, options?: CreateInviteOptions) {
+    if (
+      options?.maxUses !== undefined &&
+      (!Number.isInteger(options.maxUses) || options.maxUses < 1)
+    ) {
+      throw new InvalidInviteMaxUsesError(options.maxUses);
+    }
+
+    await this.#load();
+    const id = randomUUID();
+    const encodedPayload = encodeInvitePayload({
+      version: INVITE_TOKEN_VERSION,
+      id,
+      groupId: group.id,
+      inviterInboxId: this.#client.inboxId,
+      expiresAt: options?.expiresAt?.toISOString(),
+      maxUses: options?.maxUses,
+    });
+    const signature = this.#client.signWithInstallationKey(
+      inviteSignatureText(encodedPayload),
+    );
+    const invite: GroupInvite = {
+      id,
+      groupId: group.id,
+      token: encodeInviteToken(encodedPayload, signature),
+      expiresAt: options?.expiresAt,
+      maxUses: options?.maxUses,
+      uses: 0,
+      createdAt: new Date(),
+    };
+    this.#invites.set(id, invite);
+    await this.#save();
+
+    return { ...invite };
+  }
+
+  /**
+   * Gets an invite
+   */
+  async get(id: string) {
+    await this.#load();
+    const invite = this.#invites.get(id);
+    return invite ? { ...invite } : undefined;
+  }
+
+  /**
+   * Lists invites, optionally only the invites to a group
+   */
+  async list(groupId?: string) {
+    await this.#load();
+    return Array.from(this.#invites.values())
+      .filter((invite) => groupId === undefined || invite.groupId === groupId)
+      .sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+      .map((invite) => ({ ...invite }));
+  }
+
+  /**
+   * Revokes an invite, its token can no longer be redeemed
+   */
+  async revoke(id: string) {
+    await this.#load();
+    if (!this.#invites.delete(id)) {
+      throw new InviteNotFoundError(id);
+    }
+    await this.#save();
+  }
+
+  /**
+   * Sends an invite token to the inviter in a DM, asking to join the group
+   *
+   * @returns The DM with the inviter
+   */
+  async join(token: string) {
+    const decoded = decodeInviteToken(token);
+    if (!decoded) {
+      throw new InvalidInviteError();
+    }
+    const dm = await this.#client.conversations.newDm(
+      decoded.payload.inviterInboxId,
+    );
+    await dm.send(token.trim());
+    return dm;
+  }
+
+  /**
+   * Redeems an invite token, adding an inbox to the group
+   *
+   * @throws {InvalidInviteError} When the token wasn't signed by this
+   * installation
+   * @throws {InviteNotFoundError} When the invite was revoked
+   * @throws {InviteExpiredError} When the invite has expired
+   * @throws {InviteUsedUpError} When the invite has no uses left
+   * @throws {InvitePermissionError} When the group's permission policy
+   * doesn't allow this inbox to add members
+   */
+  async redeem(token: string, inboxId: string): Promise<InviteRedemption> {
+    const decoded = decodeInviteToken(token);
+    if (
+      !decoded ||
+      !this.#client.verifySignedWithInstallationKey(
+        decoded.signatureText,
+        decoded.signature,
+      )
+    ) {
+      throw new InvalidInviteError();
+    }
+
+    await this.#load();
+    const { id } = decoded.payload;
+    const invite = this.#invites.get(id);
+    if (!invite) {
+      throw new InviteNotFoundError(id);
+    }
+    if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+      throw new InviteExpiredError(id);
+    }
+
+    const group = await this.#client.conversations.getConversationById(
+      invite.groupId,
+    );
+    if (!(group instanceof Group)) {
+      throw new ConversationNotFoundError(invite.groupId);
+    }
+    await group.sync();
+
+    const members = await group.members();
+    if (members.some((member) => member.inboxId === inboxId)) {
+      return { invite: { ...invite }, group, added: false };
+    }
+
+    const self = this.#client.inboxId;
+    if (
+      !canAddMembers(
+        group.permissions.policySet.addMemberPolicy,
+        group.isAdmin(self),
+        group.isSuperAdmin(self),
+      )
+    ) {
+      throw new InvitePermissionError(group.id);
+    }
+
+    // the use is counted before adding the member so that concurrent
+    // redemptions can't exceed the maximum
+    if (invite.maxUses !== undefined && invite.uses >= invite.maxUses) {
+      throw new InviteUsedUpError(id);
+    }
+    invite.uses += 1;
+    try {
+      await this.#save();
+    } catch (error) {
+      invite.uses -= 1;
+      throw error;
+    }
+    try {
+      await group.addMembers([inboxId]);
+    } catch (error) {
+      invite.uses -= 1;
+      await this.#save();
+      throw error;
+    }
+
+    return { invite: { ...invite }, group, added: true };
+  }
+
+  /**
+   * Redeems an invite token sent by another inbox in a DM
+   *
+   * @returns The redemption, or `undefined` when the message isn't an
+   * invite token sent in a DM
+   */
+  async handleMessage(
+    message: DecodedMessage,
+  ): Promise<InviteRedemption | undefined> {
+    if (
+      message.senderInboxId === this.#client.inboxId ||
+      !message.contentType?.sameAs(ContentTypeText) ||
+      typeof message.content !== "string" ||
+      !decodeInviteToken(message.content)
+    ) {
+      return undefined;
+    }
+    const conversation = await this.#client.conversations.getConversationById(
+      message.conversationId,
+    );
+    if (!(conversation instanceof Dm)) {
+      return undefined;
+    }
+    return this.redeem(message.content, message.senderInboxId);
+  }
+
+  #load() {
+    this.#loading ??= (async () => {
+      const stored = await readStore(this.#path, isStoredInvites);
+      for (const invite of stored?.invites ?? []) {
+        this.#invites.set(invite.id, {
+          ...invite,
+          expiresAt: invite.expiresAt ? new Date(invite.expiresAt) : undefined,
+          createdAt: new Date(invite.createdAt),
+        });
+      }
+    })().catch((error: unknown) => {
+      // failed loads are retried the next time the invites are used
+      this.#loading = undefined;
+      throw error;
+    });
+    return this.#loading;
+  }
+
+  #save() {
+    const stored: StoredInvites = {
+      version: STORE_VERSION,
+      invites: Array.from(this.#invites.values()).map((invite) => ({
+        ...invite,
+        expiresAt: invite.expiresAt?.toISOString(),
+        createdAt: invite.createdAt.toISOString(),
+      })),
+    };
+    return this.#writer.write(stored);
+  }
+}
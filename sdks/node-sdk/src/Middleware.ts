@@ -0,0 +1,153 @@
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import type { Conversation } from "@/Conversation";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { SendCancelledError } from "@/utils/errors";
+
+export type SendContent = {
+  content: any;
+  contentType: ContentTypeId;
+};
+
+/**
+ * Result of a `beforeSend` hook
+ *
+ * - `undefined`: send the content unchanged
+ * - `SendContent`: send the returned content instead
+ * - `false`: cancel the send, skipping the remaining middleware
+ */
+export type BeforeSendResult = SendContent | false | undefined;
+
+/**
+ * Hooks that run around sending and decoding messages
+ *
+ * Middleware runs in the order it was registered. The `beforeSend` and
+ * `onSendError` hooks run for messages sent with `Conversation.send` and
+ * stored with `Conversation.sendOptimistic`, including messages sent with the
+ * outbox. The `afterSend` hooks run once a message was published by
+ * `Conversation.send` or the outbox, not when messages stored with
+ * `Conversation.sendOptimistic` are published with `publishMessages`.
+ */
+export type Middleware = {
+  /**
+   * Called before content is encoded and sent, can rewrite the content or
+   * cancel the send
+   */
+  beforeSend?: (
+    content: any,
+    contentType: ContentTypeId,
+    conversation: Conversation,
+    // eslint-disable-next-line @typescript-eslint/no-invalid-void-type
+  ) => BeforeSendResult | void | Promise<BeforeSendResult | void>;
+  /**
+   * Called after a message was sent, errors don't fail the send and are
+   * passed to the `onAfterSendError` hooks
+   */
+  afterSend?: (
+    messageId: string,
+    conversation: Conversation,
+  ) => void | Promise<void>;
+  /**
+   * Called when an `afterSend` hook fails
+   */
+  onAfterSendError?: (
+    error: Error,
+    messageId: string,
+    conversation: Conversation,
+  ) => void;
+  /**
+   * Called when sending fails, including when the send was cancelled
+   */
+  onSendError?: (
+    error: Error,
+    content: any,
+    contentType: ContentTypeId,
+    conversation: Conversation,
+  ) => void | Promise<void>;
+  /**
+   * Called after a message was decoded, can modify the message
+   */
+  onDecode?: (message: DecodedMessage) => void;
+  /**
+   * Called when decoding a message fails, before its content is set
+   */
+  onDecodeError?: (error: Error, message: DecodedMessage) => void;
+};
+
+export class MiddlewarePipeline {
+  #middleware: Middleware[];
+
+  constructor(middleware: Middleware[] = []) {
+    this.#middleware = middleware;
+  }
+
+  async beforeSend(
+    content: any,
+    contentType: ContentTypeId,
+    conversation: Conversation,
+  ): Promise<SendContent> {
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    let result: SendContent = { content, contentType };
+    for (const middleware of this.#middleware) {
+      if (!middleware.beforeSend) {
+        continue;
+      }
+      const next = await middleware.beforeSend(
+        result.content,
+        result.contentType,
+        conversation,
+      );
+      if (next === false) {
+        throw new SendCancelledError();
+      }
+      if (next) {
+        result = next;
+      }
+    }
+    return result;
+  }
+
+  async afterSend(messageId: string, conversation: Conversation) {
+    for (const middleware of this.#middleware) {
+      try {
+        await middleware.afterSend?.(messageId, conversation);
+      } catch (error) {
+        // the message was already sent, failing the send would invite
+        // sending it again
+        this.#afterSendError(error as Error, messageId, conversation);
+      }
+    }
+  }
+
+  async sendError(
+    error: Error,
+    content: any,
+    contentType: ContentTypeId,
+    conversation: Conversation,
+  ) {
+    for (const middleware of this.#middleware) {
+      await middleware.onSendError?.(error, content, contentType, conversation);
+    }
+  }
+
+  decode(message: DecodedMessage) {
+    for (const middleware of this.#middleware) {
+      middleware.onDecode?.(message);
+    }
+  }
+
+  decodeError(error: Error, message: DecodedMessage) {
+    for (const middleware of this.#middleware) {
+      middleware.onDecodeError?.(error, message);
+    }
+  }
+
+  #afterSendError(error: Error, messageId: string, conversation: Conversation) {
+    for (const middleware of this.#middleware) {
+      try {
+        middleware.onAfterSendError?.(error, messageId, conversation);
+      } catch {
+        // ignore
+      }
+    }
+  }
+}
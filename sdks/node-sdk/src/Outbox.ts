@@ -0,0 +1,493 @@
+import { randomUUID } from "node:crypto";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { DeliveryStatus } from "@xmtp/node-bindings";
+import type { Conversation } from "@/Conversation";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { MiddlewarePipeline } from "@/Middleware";
+import {
+  MissingContentTypeError,
+  OutboxItemLockedError,
+  OutboxItemNotFoundError,
+  SendCancelledError,
+} from "@/utils/errors";
+import {
+  defaultRetryOptions,
+  retryDelay,
+  type RetryOptions,
+} from "@/utils/retry";
+
+/**
+ * Status of a message in the outbox
+ *
+ * - `queued`: waiting to be sent, can be edited or cancelled
+ * - `sending`: stored locally and being published
+ * - `retrying`: publishing failed, waiting for the next attempt
+ * - `sent`: published to the network
+ * - `failed`: publishing failed too many times or the content couldn't be
+ *   encoded
+ * - `cancelled`: removed from the outbox before it was sent, or cancelled by
+ *   a `beforeSend` middleware hook
+ */
+export type OutboxItemStatus =
+  | "queued"
+  | "sending"
+  | "retrying"
+  | "sent"
+  | "failed"
+  | "cancelled";
+
+export type OutboxItem = {
+  /**
+   * Local ID of the item, this is not the message ID
+   */
+  id: string;
+  conversationId: string;
+  content: any;
+  contentType: ContentTypeId;
+  status: OutboxItemStatus;
+  /**
+   * ID of the message, available once it has been stored locally
+   */
+  messageId?: string;
+  /**
+   * Number of failed attempts to publish the message
+   */
+  attempts: number;
+  /**
+   * Error of the last failed attempt
+   */
+  error?: Error;
+  createdAt: Date;
+  /**
+   * When the message will be published again after a failed attempt
+   */
+  nextAttemptAt?: Date;
+};
+
+export type OutboxOptions = {
+  /**
+   * Backoff policy for publishing messages that failed to publish
+   */
+  retry?: RetryOptions;
+  /**
+   * Time to wait before a queued message is sent, in milliseconds, allowing
+   * it to be edited or cancelled (default: `0`)
+   */
+  sendDelay?: number;
+};
+
+export type OutboxStatusListener = (item: OutboxItem) => void;
+
+type Entry = {
+  item: OutboxItem;
+  conversation: Conversation;
+  // when the item should be sent or published next, in milliseconds
+  dueAt: number;
+};
+
+const isPending = (item: OutboxItem) =>
+  item.status !== "sent" && item.status !== "cancelled";
+
+/**
+ * Queue of messages that are sent in the background
+ *
+ * Messages are published again with backoff when publishing fails. Waiting
+ * for the next attempt doesn't keep the process running, messages that
+ * weren't published are picked up again by `resume`.
+ */
+export class Outbox {
+  #entries = new Map<string, Entry>();
+  #listeners = new Set<OutboxStatusListener>();
+  #middleware: MiddlewarePipeline;
+  #retry: Required<RetryOptions>;
+  #sendDelay: number;
+  #timeout: ReturnType<typeof setTimeout> | undefined;
+  #running: Promise<void> | undefined;
+  #rerun = false;
+  #closed = false;
+
+  constructor(
+    options?: OutboxOptions,
+    middleware: MiddlewarePipeline = new MiddlewarePipeline(),
+  ) {
+    this.#middleware = middleware;
+    this.#retry = { ...defaultRetryOptions, ...options?.retry };
+    this.#sendDelay = options?.sendDelay ?? 0;
+  }
+
+  /**
+   * Adds a message to the outbox
+   *
+   * The message is stored and published in the background. While other
+   * messages are waiting to be published again, new messages stay queued
+   * until publishing succeeds.
+   */
+  add(conversation: Conversation, content: any, contentType?: ContentTypeId) {
+    if (typeof content !== "string" && !contentType) {
+      throw new MissingContentTypeError();
+    }
+
+    const createdAt = new Date();
+    const entry: Entry = {
+      item: {
+        id: randomUUID(),
+        conversationId: conversation.id,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        content,
+        contentType: contentType ?? ContentTypeText,
+        status: "queued",
+        attempts: 0,
+        createdAt,
+      },
+      conversation,
+      dueAt: createdAt.getTime() + this.#sendDelay,
+    };
+    this.#entries.set(entry.item.id, entry);
+    this.#emit(entry);
+    this.#schedule();
+
+    return { ...entry.item };
+  }
+
+  /**
+   * Adds messages of conversations that were stored but not published, for
+   * example because the process exited before they were published
+   *
+   * Messages that are already in the outbox are skipped. The messages are
+   * published in the background.
+   */
+  async resume(conversations: Conversation[]) {
+    const messageIds = new Set(
+      Array.from(this.#entries.values(), (entry) => entry.item.messageId),
+    );
+    const now = Date.now();
+    for (const conversation of conversations) {
+      let messages: DecodedMessage[];
+      try {
+        messages = [
+          ...(await conversation.messages({
+            deliveryStatus: DeliveryStatus.Unpublished,
+          })),
+          ...(await conversation.messages({
+            deliveryStatus: DeliveryStatus.Failed,
+          })),
+        ];
+      } catch {
+        // messages of this conversation are picked up on the next resume
+        continue;
+      }
+      for (const message of messages) {
+        if (
+          messageIds.has(message.id) ||
+          message.kind !== "application" ||
+          !message.contentType
+        ) {
+          continue;
+        }
+        const entry: Entry = {
+          item: {
+            id: randomUUID(),
+            conversationId: conversation.id,
+            // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+            content: message.content,
+            contentType: message.contentType,
+            status: "retrying",
+            messageId: message.id,
+            attempts: 0,
+            createdAt: message.sentAt,
+          },
+          conversation,
+          dueAt: now,
+        };
+        this.#entries.set(entry.item.id, entry);
+        this.#emit(entry);
+      }
+    }
+    this.#schedule();
+  }
+
+  /**
+   * Gets a message in the outbox
+   */
+  get(id: string) {
+    const entry = this.#entries.get(id);
+    return entry ? { ...entry.item } : undefined;
+  }
+
+  /**
+   * Lists messages that haven't been sent and haven't failed, in the order
+   * they were added
+   */
+  pending() {
+    return this.#list((item) => item.status !== "failed");
+  }
+
+  /**
+   * Lists messages that failed, in the order they were added
+   *
+   * Failed messages stay in the outbox until they are retried or cancelled.
+   */
+  failed() {
+    return this.#list((item) => item.status === "failed");
+  }
+
+  /**
+   * Replaces the content of a queued message
+   *
+   * @throws {OutboxItemLockedError} When the message is no longer queued
+   */
+  edit(id: string, content: any, contentType?: ContentTypeId) {
+    if (typeof content !== "string" && !contentType) {
+      throw new MissingContentTypeError();
+    }
+
+    const entry = this.#getQueued(id);
+    // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+    entry.item.content = content;
+    entry.item.contentType = contentType ?? ContentTypeText;
+
+    return { ...entry.item };
+  }
+
+  /**
+   * Removes a queued or failed message from the outbox
+   *
+   * Failed messages that were stored locally remain unpublished.
+   *
+   * @throws {OutboxItemLockedError} When the message is no longer queued and
+   * hasn't failed
+   */
+  cancel(id: string) {
+    const entry = this.#entries.get(id);
+    if (entry?.item.status === "failed") {
+      this.#setStatus(entry, "cancelled");
+      return;
+    }
+    this.#setStatus(this.#getQueued(id), "cancelled");
+  }
+
+  /**
+   * Publishes a failed message again, resetting its attempts
+   */
+  async retry(id: string) {
+    const entry = this.#entries.get(id);
+    if (!entry) {
+      throw new OutboxItemNotFoundError(id);
+    }
+    if (entry.item.status !== "failed") {
+      throw new OutboxItemLockedError(id, entry.item.status);
+    }
+
+    entry.item.attempts = 0;
+    entry.dueAt = Date.now();
+    // messages that couldn't be stored are queued again
+    this.#setStatus(entry, entry.item.messageId ? "retrying" : "queued");
+    await this.#run();
+  }
+
+  /**
+   * Sends queued messages and publishes messages waiting to be published
+   * again without waiting for their delay
+   */
+  async flush() {
+    const now = Date.now();
+    for (const entry of this.#entries.values()) {
+      if (entry.item.status === "queued" || entry.item.status === "retrying") {
+        entry.dueAt = now;
+      }
+    }
+    await this.#run();
+  }
+
+  /**
+   * Registers a listener that is called whenever the status of a message
+   * changes
+   *
+   * @returns A function that removes the listener
+   */
+  onStatusChange(listener: OutboxStatusListener) {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Stops sending messages in the background
+   */
+  close() {
+    this.#closed = true;
+    clearTimeout(this.#timeout);
+    this.#timeout = undefined;
+  }
+
+  #list(predicate: (item: OutboxItem) => boolean) {
+    return Array.from(this.#entries.values())
+      .filter((entry) => predicate(entry.item))
+      .map((entry) => ({ ...entry.item }));
+  }
+
+  #getQueued(id: string) {
+    const entry = this.#entries.get(id);
+    if (!entry) {
+      throw new OutboxItemNotFoundError(id);
+    }
+    if (entry.item.status !== "queued") {
+      throw new OutboxItemLockedError(id, entry.item.status);
+    }
+    return entry;
+  }
+
+  #emit(entry: Entry) {
+    const item = { ...entry.item };
+    for (const listener of this.#listeners) {
+      // errors thrown by listeners don't affect sending
+      try {
+        listener(item);
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  #setStatus(entry: Entry, status: OutboxItemStatus, error?: Error) {
+    entry.item.status = status;
+    entry.item.error = error;
+    entry.item.nextAttemptAt =
+      status === "retrying" ? new Date(entry.dueAt) : undefined;
+    if (!isPending(entry.item)) {
+      this.#entries.delete(entry.item.id);
+    }
+    this.#emit(entry);
+  }
+
+  #withStatus(status: OutboxItemStatus, dueBy = Infinity) {
+    return Array.from(this.#entries.values()).filter(
+      (entry) => entry.item.status === status && entry.dueAt <= dueBy,
+    );
+  }
+
+  #schedule() {
+    clearTimeout(this.#timeout);
+    this.#timeout = undefined;
+
+    if (this.#closed) {
+      return;
+    }
+
+    const retrying = this.#withStatus("retrying");
+    // queued messages wait for messages being published again
+    const waiting = retrying.length > 0 ? retrying : this.#withStatus("queued");
+    if (waiting.length === 0) {
+      return;
+    }
+
+    const dueAt = Math.min(...waiting.map((entry) => entry.dueAt));
+    this.#timeout = setTimeout(
+      () => {
+        void this.#run();
+      },
+      Math.max(dueAt - Date.now(), 0),
+    );
+    this.#timeout.unref();
+  }
+
+  async #run() {
+    // runs requested while processing are handled by the running loop
+    this.#rerun = true;
+    if (this.#running) {
+      return this.#running;
+    }
+
+    clearTimeout(this.#timeout);
+    this.#running = (async () => {
+      while (this.#rerun) {
+        this.#rerun = false;
+        await this.#process();
+      }
+    })().finally(() => {
+      this.#running = undefined;
+      this.#schedule();
+    });
+
+    return this.#running;
+  }
+
+  async #process() {
+    const now = Date.now();
+
+    await this.#publish(this.#withStatus("retrying", now));
+    if (this.#withStatus("retrying").length > 0) {
+      return;
+    }
+
+    for (const entry of this.#withStatus("queued", now)) {
+      this.#setStatus(entry, "sending");
+      try {
+        entry.item.messageId = await entry.conversation.sendOptimistic(
+          entry.item.content,
+          entry.item.contentType,
+        );
+      } catch (error) {
+        // cancelled sends and encoding errors won't be fixed by retrying
+        this.#setStatus(
+          entry,
+          error instanceof SendCancelledError ? "cancelled" : "failed",
+          error as Error,
+        );
+      }
+    }
+
+    await this.#publish(
+      this.#withStatus("sending").filter((entry) => entry.item.messageId),
+    );
+  }
+
+  async #publish(entries: Entry[]) {
+    const conversations = new Map<string, Entry[]>();
+    for (const entry of entries) {
+      const group = conversations.get(entry.item.conversationId) ?? [];
+      group.push(entry);
+      conversations.set(entry.item.conversationId, group);
+    }
+
+    for (const group of conversations.values()) {
+      try {
+        // publishes all unpublished messages of the conversation
+        await group[0].conversation.publishMessages();
+      } catch (error) {
+        for (const entry of group) {
+          entry.item.attempts++;
+          if (entry.item.attempts >= this.#retry.maxAttempts) {
+            this.#setStatus(entry, "failed", error as Error);
+            await this.#middleware
+              .sendError(
+                error as Error,
+                entry.item.content,
+                entry.item.contentType,
+                entry.conversation,
+              )
+              // errors thrown by middleware don't affect sending
+              .catch(() => undefined);
+            continue;
+          }
+          entry.dueAt =
+            Date.now() + retryDelay(this.#retry, entry.item.attempts);
+          this.#setStatus(entry, "retrying", error as Error);
+        }
+        continue;
+      }
+
+      for (const entry of group) {
+        this.#setStatus(entry, "sent");
+        if (entry.item.messageId) {
+          await this.#middleware.afterSend(
+            entry.item.messageId,
+            entry.conversation,
+          );
+        }
+      }
+    }
+  }
+}
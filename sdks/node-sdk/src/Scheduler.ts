@@ -0,0 +1,497 @@
+import { randomUUID } from "node:crypto";
+import {
+  ContentTypeId,
+  type EncodedContent,
+} from "@xmtp/content-type-primitives";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import type { Client } from "@/Client";
+import type { Conversation } from "@/Conversation";
+import {
+  CodecNotFoundError,
+  ConversationNotFoundError,
+  MissingContentTypeError,
+  ScheduledMessageInterruptedError,
+  ScheduledMessageLockedError,
+  ScheduledMessageNotFoundError,
+} from "@/utils/errors";
+import { isObject, readStore, StoreWriter } from "@/utils/store";
+
+/**
+ * Status of a scheduled message
+ *
+ * - `scheduled`: waiting to be sent, can be rescheduled or cancelled
+ * - `sending`: being sent with `Conversation.send`
+ * - `sent`: sent to the conversation
+ * - `failed`: sending failed, can be rescheduled or cancelled
+ * - `cancelled`: removed from the schedule before it was sent
+ */
+export type ScheduledMessageStatus =
+  | "scheduled"
+  | "sending"
+  | "sent"
+  | "failed"
+  | "cancelled";
+
+export type ScheduledMessage = {
+  /**
+   * Local ID of the scheduled message, this is not the message ID
+   */
+  id: string;
+  conversationId: string;
+  content: any;
+  contentType: ContentTypeId;
+  sendAt: Date;
+  status: ScheduledMessageStatus;
+  /**
+   * ID of the message, available once it has been sent
+   */
+  messageId?: string;
+  /**
+   * Error of the failed send
+   */
+  error?: Error;
+  createdAt: Date;
+};
+
+export type ScheduledMessageStatusListener = (
+  message: ScheduledMessage,
+) => void;
+
+// content is stored encoded so that it can be decoded after a restart,
+// content bytes are base64 encoded in the store
+type StoredMessage = {
+  id: string;
+  conversationId: string;
+  content: Omit<EncodedContent, "type" | "content"> & {
+    type: string;
+    content: string;
+  };
+  sendAt: string;
+  status: ScheduledMessageStatus;
+  error?: string;
+  createdAt: string;
+};
+
+type StoredSchedule = {
+  version: number;
+  messages: StoredMessage[];
+};
+
+type Entry = {
+  message: ScheduledMessage;
+  encodedContent: EncodedContent;
+};
+
+const STORE_VERSION = 1;
+
+// longer timeouts fire immediately, so long delays are waited in steps
+const MAX_TIMEOUT = 2 ** 31 - 1;
+
+const toBase64 = (bytes: Uint8Array) => Buffer.from(bytes).toString("base64");
+
+const fromBase64 = (base64: string) =>
+  new Uint8Array(Buffer.from(base64, "base64"));
+
+/**
+ * Gets the path of the scheduled messages store of a local DB
+ */
+export const schedulePathFor = (dbPath: string) => `${dbPath}.schedule.json`;
+
+const STATUSES: ScheduledMessageStatus[] = [
+  "scheduled",
+  "sending",
+  "sent",
+  "failed",
+  "cancelled",
+];
+
+const isStoredMessage = (value: unknown): value is StoredMessage =>
+  isObject(value) &&
+  typeof value.id === "string" &&
+  typeof value.conversationId === "string" &&
+  isObject(value.content) &&
+  typeof value.content.type === "string" &&
+  typeof value.content.content === "string" &&
+  isObject(value.content.parameters) &&
+  typeof value.sendAt === "string" &&
+  STATUSES.includes(value.status as ScheduledMessageStatus) &&
+  (value.error === undefined || typeof value.error === "string") &&
+  typeof value.createdAt === "string";
+
+const isStoredSchedule = (value: unknown): value is StoredSchedule =>
+  isObject(value) &&
+  Array.isArray(value.messages) &&
+  value.messages.every(isStoredMessage);
+
+/**
+ * Sends messages at a later time
+ *
+ * Scheduled messages are stored in a file next to the local DB, so they are
+ * sent after a restart, including messages that became due while the client
+ * wasn't running. Waiting for a scheduled message doesn't keep the process
+ * running.
+ *
+ * A store that can't be parsed is moved to a `.corrupt` file next to it and
+ * the schedule starts empty. Messages whose content can't be decoded are
+ * marked as failed.
+ */
+export class Scheduler {
+  #client: Client;
+  #path: string;
+  #entries = new Map<string, Entry>();
+  #listeners = new Set<ScheduledMessageStatusListener>();
+  #loading: Promise<void> | undefined;
+  #writer: StoreWriter;
+  #timeout: ReturnType<typeof setTimeout> | undefined;
+  #running: Promise<void> | undefined;
+  #rerun = false;
+  #stopped = false;
+
+  constructor(client: Client, path: string) {
+    this.#client = client;
+    this.#path = path;
+    this.#writer = new StoreWriter(path);
+  }
+
+  /**
+   * Loads the stored scheduled messages and starts waiting for the next one
+   * that's due
+   */
+  async start() {
+    this.#stopped = false;
+    await this.#load();
+    this.#schedule();
+  }
+
+  /**
+   * Stops sending scheduled messages until `start` is called again
+   *
+   * Messages can still be scheduled while stopped.
+   */
+  stop() {
+    this.#stopped = true;
+    clearTimeout(this.#timeout);
+    this.#timeout = undefined;
+  }
+
+  /**
+   * Schedules a message to be sent to a conversation
+   *
+   * The content is encoded when it's scheduled, so invalid content is
+   * rejected right away. Messages scheduled in the past are sent as soon as
+   * possible.
+   */
+  async schedule(
+    conversation: Conversation,
+    content: any,
+    contentType: ContentTypeId | undefined,
+    sendAt: Date,
+  ) {
+    if (typeof content !== "string" && !contentType) {
+      throw new MissingContentTypeError();
+    }
+
+    await this.#load();
+    const type = contentType ?? ContentTypeText;
+    const entry: Entry = {
+      message: {
+        id: randomUUID(),
+        conversationId: conversation.id,
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        content,
+        contentType: type,
+        sendAt,
+        status: "scheduled",
+        createdAt: new Date(),
+      },
+      encodedContent: this.#client.encodeContent(content, type),
+    };
+    this.#entries.set(entry.message.id, entry);
+    await this.#save();
+    this.#emit(entry);
+    this.#schedule();
+
+    return { ...entry.message };
+  }
+
+  /**
+   * Gets a scheduled message
+   */
+  async get(id: string) {
+    await this.#load();
+    const entry = this.#entries.get(id);
+    return entry ? { ...entry.message } : undefined;
+  }
+
+  /**
+   * Lists messages that haven't been sent, in the order they will be sent
+   */
+  async list() {
+    await this.#load();
+    return this.#sorted().map((entry) => ({ ...entry.message }));
+  }
+
+  /**
+   * Changes when a scheduled or failed message is sent
+   *
+   * @throws {ScheduledMessageLockedError} When the message is being sent
+   */
+  async reschedule(id: string, sendAt: Date) {
+    const entry = await this.#getUnlocked(id);
+    entry.message.sendAt = sendAt;
+    this.#setStatus(entry, "scheduled");
+    await this.#save();
+    this.#schedule();
+
+    return { ...entry.message };
+  }
+
+  /**
+   * Removes a scheduled or failed message from the schedule
+   *
+   * @throws {ScheduledMessageLockedError} When the message is being sent
+   */
+  async cancel(id: string) {
+    const entry = await this.#getUnlocked(id);
+    this.#setStatus(entry, "cancelled");
+    await this.#save();
+    this.#schedule();
+  }
+
+  /**
+   * Sends scheduled messages that are due
+   */
+  async flush() {
+    await this.#load();
+    await this.#run();
+  }
+
+  /**
+   * Registers a listener that is called whenever the status of a scheduled
+   * message changes
+   *
+   * @returns A function that removes the listener
+   */
+  onStatusChange(listener: ScheduledMessageStatusListener) {
+    this.#listeners.add(listener);
+    return () => {
+      this.#listeners.delete(listener);
+    };
+  }
+
+  async #getUnlocked(id: string) {
+    await this.#load();
+    const entry = this.#entries.get(id);
+    if (!entry) {
+      throw new ScheduledMessageNotFoundError(id);
+    }
+    if (entry.message.status === "sending") {
+      throw new ScheduledMessageLockedError(id, entry.message.status);
+    }
+    return entry;
+  }
+
+  #emit(entry: Entry) {
+    const message = { ...entry.message };
+    for (const listener of this.#listeners) {
+      // errors thrown by listeners don't affect sending
+      try {
+        listener(message);
+      } catch {
+        // ignore
+      }
+    }
+  }
+
+  #setStatus(entry: Entry, status: ScheduledMessageStatus, error?: Error) {
+    entry.message.status = status;
+    entry.message.error = error;
+    // sent and cancelled messages are removed from the schedule
+    if (status === "sent" || status === "cancelled") {
+      this.#entries.delete(entry.message.id);
+    }
+    this.#emit(entry);
+  }
+
+  #sorted() {
+    return Array.from(this.#entries.values()).sort(
+      (a, b) => a.message.sendAt.getTime() - b.message.sendAt.getTime(),
+    );
+  }
+
+  #load() {
+    this.#loading ??= this.#read().catch((error: unknown) => {
+      // failed loads are retried the next time the schedule is used
+      this.#loading = undefined;
+      throw error;
+    });
+    return this.#loading;
+  }
+
+  async #read() {
+    const stored = await readStore(this.#path, isStoredSchedule);
+    for (const message of stored?.messages ?? []) {
+      const entry = this.#fromStored(message);
+      this.#entries.set(entry.message.id, entry);
+    }
+  }
+
+  #fromStored(stored: StoredMessage): Entry {
+    const contentType = ContentTypeId.fromString(stored.content.type);
+    const encodedContent: EncodedContent = {
+      ...stored.content,
+      type: contentType,
+      content: fromBase64(stored.content.content),
+    };
+    const message: ScheduledMessage = {
+      id: stored.id,
+      conversationId: stored.conversationId,
+      content: undefined,
+      contentType,
+      sendAt: new Date(stored.sendAt),
+      status: stored.status,
+      error: stored.error ? new Error(stored.error) : undefined,
+      createdAt: new Date(stored.createdAt),
+    };
+
+    // the message may have been sent before the process stopped, so it's
+    // not sent again automatically
+    if (message.status === "sending") {
+      message.status = "failed";
+      message.error = new ScheduledMessageInterruptedError(message.id);
+    }
+
+    const codec = this.#client.codecFor(contentType);
+    if (!codec) {
+      message.status = "failed";
+      message.error = new CodecNotFoundError(contentType);
+    } else {
+      try {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        message.content = codec.decode(encodedContent, this.#client);
+      } catch (error) {
+        message.status = "failed";
+        message.error = error as Error;
+      }
+    }
+
+    return { message, encodedContent };
+  }
+
+  #toStored({ message, encodedContent }: Entry): StoredMessage {
+    return {
+      id: message.id,
+      conversationId: message.conversationId,
+      content: {
+        ...encodedContent,
+        type: encodedContent.type.toString(),
+        content: toBase64(encodedContent.content),
+      },
+      sendAt: message.sendAt.toISOString(),
+      status: message.status,
+      error: message.error?.message,
+      createdAt: message.createdAt.toISOString(),
+    };
+  }
+
+  #save() {
+    const stored: StoredSchedule = {
+      version: STORE_VERSION,
+      messages: this.#sorted().map((entry) => this.#toStored(entry)),
+    };
+    return this.#writer.write(stored);
+  }
+
+  #schedule() {
+    clearTimeout(this.#timeout);
+    this.#timeout = undefined;
+
+    const next = this.#sorted().find(
+      (entry) => entry.message.status === "scheduled",
+    );
+    if (!next || this.#stopped) {
+      return;
+    }
+
+    const delay = next.message.sendAt.getTime() - Date.now();
+    this.#timeout = setTimeout(
+      () => {
+        void this.#run();
+      },
+      Math.min(Math.max(delay, 0), MAX_TIMEOUT),
+    );
+    this.#timeout.unref();
+  }
+
+  async #run() {
+    // runs requested while sending are handled by the running loop
+    this.#rerun = true;
+    if (this.#running) {
+      return this.#running;
+    }
+
+    clearTimeout(this.#timeout);
+    this.#running = (async () => {
+      while (this.#rerun) {
+        this.#rerun = false;
+        // sending errors are recorded on the messages, so runs never reject
+        // and the timer can't leave a rejection unhandled
+        await this.#process().catch(() => undefined);
+      }
+    })().finally(() => {
+      this.#running = undefined;
+      this.#schedule();
+    });
+
+    return this.#running;
+  }
+
+  async #process() {
+    const now = Date.now();
+    const due = this.#sorted().filter(
+      (entry) =>
+        entry.message.status === "scheduled" &&
+        entry.message.sendAt.getTime() <= now,
+    );
+
+    for (const entry of due) {
+      const { message } = entry;
+      // the message may have been rescheduled or cancelled while sending
+      // the messages before it
+      if (
+        message.status !== "scheduled" ||
+        message.sendAt.getTime() > Date.now()
+      ) {
+        continue;
+      }
+      this.#setStatus(entry, "sending");
+      try {
+        await this.#save();
+      } catch (error) {
+        // the message isn't sent when it can't be locked, as it would be
+        // sent again after a restart
+        this.#setStatus(entry, "failed", error as Error);
+        continue;
+      }
+      try {
+        const conversation =
+          await this.#client.conversations.getConversationById(
+            message.conversationId,
+          );
+        if (!conversation) {
+          throw new ConversationNotFoundError(message.conversationId);
+        }
+        message.messageId = await conversation.send(
+          message.content,
+          message.contentType,
+        );
+        this.#setStatus(entry, "sent");
+      } catch (error) {
+        this.#setStatus(entry, "failed", error as Error);
+      }
+      // the whole schedule is written with every save, so a failed save is
+      // made up for by the next one
+      await this.#save().catch(() => undefined);
+    }
+  }
+}
@@ -0,0 +1,159 @@
+type Source<T> = AsyncGenerator<T, void, undefined>;
+
+async function* mapValues<T, U>(
+  source: Source<T>,
+  fn: (value: T) => U | Promise<U>,
+): Source<U> {
+  for await (const value of source) {
+    yield await fn(value);
+  }
+}
+
+async function* filterValues<T>(
+  source: Source<T>,
+  predicate: (value: T) => boolean | Promise<boolean>,
+): Source<T> {
+  for await (const value of source) {
+    if (await predicate(value)) {
+      yield value;
+    }
+  }
+}
+
+async function* takeValues<T>(source: Source<T>, count: number): Source<T> {
+  if (count <= 0) {
+    await source.return();
+    return;
+  }
+  let taken = 0;
+  for await (const value of source) {
+    yield value;
+    taken++;
+    if (taken >= count) {
+      return;
+    }
+  }
+}
+
+async function* batchValues<T>(
+  source: Source<T>,
+  size: number,
+  ms: number,
+  close: () => void,
+): Source<T[]> {
+  let pending: Promise<IteratorResult<T, void>> | undefined;
+  let exhausted = false;
+
+  try {
+    while (!exhausted) {
+      const batch: T[] = [];
+      let timeout: ReturnType<typeof setTimeout> | undefined;
+      let deadline: Promise<"timeout"> | undefined;
+
+      try {
+        while (batch.length < size) {
+          // a pending value is carried over to the next batch on timeout
+          pending ??= source.next();
+          const result = deadline
+            ? await Promise.race([pending, deadline])
+            : await pending;
+          if (result === "timeout") {
+            break;
+          }
+          pending = undefined;
+          if (result.done) {
+            exhausted = true;
+            break;
+          }
+          batch.push(result.value);
+          // the time limit starts with the first value of the batch
+          deadline ??= new Promise((resolve) => {
+            timeout = setTimeout(() => {
+              resolve("timeout");
+            }, ms);
+          });
+        }
+      } finally {
+        clearTimeout(timeout);
+      }
+
+      if (batch.length > 0) {
+        yield batch;
+      }
+    }
+  } finally {
+    if (!exhausted) {
+      // a source waiting for a value can't be returned until it's ended
+      close();
+      await source.return();
+    }
+  }
+}
+
+/**
+ * Async iterator returned by the `AsyncStream` helpers
+ *
+ * Values are pulled from the stream only when requested, so the stream's
+ * buffering limits also apply to its helpers. Returning from the iterator
+ * ends the stream.
+ */
+export class StreamIterator<T> implements AsyncIterableIterator<T> {
+  #source: Source<T>;
+  #close: () => void;
+
+  constructor(source: Source<T>, close: () => void) {
+    this.#source = source;
+    this.#close = close;
+  }
+
+  next() {
+    return this.#source.next();
+  }
+
+  return() {
+    return this.#source.return();
+  }
+
+  [Symbol.asyncIterator]() {
+    return this;
+  }
+
+  /**
+   * Transforms each value of the stream
+   */
+  map<U>(fn: (value: T) => U | Promise<U>) {
+    return new StreamIterator(mapValues(this.#source, fn), this.#close);
+  }
+
+  /**
+   * Skips values of the stream that don't match the predicate
+   */
+  filter<S extends T>(predicate: (value: T) => value is S): StreamIterator<S>;
+  filter(
+    predicate: (value: T) => boolean | Promise<boolean>,
+  ): StreamIterator<T>;
+  filter(predicate: (value: T) => boolean | Promise<boolean>) {
+    return new StreamIterator(
+      filterValues(this.#source, predicate),
+      this.#close,
+    );
+  }
+
+  /**
+   * Ends the stream after `count` values
+   */
+  take(count: number) {
+    return new StreamIterator(takeValues(this.#source, count), this.#close);
+  }
+
+  /**
+   * Groups values of the stream into arrays of up to `size` values, emitting
+   * a partial batch when `ms` milliseconds have passed since its first value
+   */
+  batch(size: number, ms: number) {
+    return new StreamIterator(
+      batchValues(this.#source, size, ms, this.#close),
+      this.#close,
+    );
+  }
+}
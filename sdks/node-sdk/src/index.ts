@@ -1,5 +1,7 @@
 export type {
   ClientOptions,
+  DecodeErrorMode,
+  MiddlewareOptions,
   OtherOptions,
   NetworkOptions,
   StorageOptions,
@@ -8,12 +10,70 @@ export type {
 export { ApiUrls, HistorySyncUrls } from "./constants";
 export { Client } from "./Client";
 export { Conversation } from "./Conversation";
+export type {
+  MessagesIteratorOptions,
+  MessagesPage,
+  UndecodableMessage,
+} from "./Conversation";
 export { Conversations } from "./Conversations";
+export type {
+  ArchiveSecret,
+  ExportArchiveOptions,
+  ImportArchiveResult,
+} from "./Archive";
 export { Dm } from "./Dm";
 export { Group } from "./Group";
 export type { PreferenceUpdate } from "./Preferences";
+export type { BeforeSendResult, Middleware, SendContent } from "./Middleware";
 export { DecodedMessage } from "./DecodedMessage";
-export type { StreamCallback } from "./AsyncStream";
+export type {
+  SearchHighlight,
+  SearchMessagesOptions,
+  SearchResult,
+} from "./SearchIndex";
+export type {
+  StreamCallback,
+  StreamEvent,
+  StreamMetrics,
+  StreamOptions,
+  StreamOverflowStrategy,
+  StreamRetryOptions,
+} from "./AsyncStream";
+export type { StreamIterator } from "./StreamIterator";
+export type {
+  Outbox,
+  OutboxItem,
+  OutboxItemStatus,
+  OutboxOptions,
+  OutboxStatusListener,
+} from "./Outbox";
+export type {
+  CreateInviteOptions,
+  GroupInvite,
+  InviteRedemption,
+  Invites,
+} from "./Invites";
+export type {
+  ScheduledMessage,
+  ScheduledMessageStatus,
+  ScheduledMessageStatusListener,
+  Scheduler,
+} from "./Scheduler";
+export type { PurgeReason } from "./utils/ephemeral";
+export { decodeInviteToken } from "./utils/invites";
+export type { DecodedInviteToken, InvitePayload } from "./utils/invites";
+export type { ResolvedMentions, SendOptions } from "./utils/mentions";
+export type { PollOptionResult, PollResults } from "./utils/polls";
+export type { ReadState } from "./utils/readState";
+export type {
+  ReactionSchema,
+  ReactionSummary,
+  ReactionTally,
+} from "./utils/reactions";
+export type { ReconcileOptions } from "./utils/reconcile";
+export type { RetryOptions } from "./utils/retry";
+export type { Thread, ThreadSummary } from "./utils/threads";
+export type { TypingEvent } from "./utils/typing";
 export type {
   Consent,
   ContentType,
@@ -1,6 +1,8 @@
 import type { ContentCodec } from "@xmtp/content-type-primitives";
 import type { LogLevel } from "@xmtp/node-bindings";
 import type { ApiUrls } from "@/constants";
+import type { Middleware } from "@/Middleware";
+import type { OutboxOptions } from "@/Outbox";
 
 /**
  * XMTP environment
@@ -37,11 +39,31 @@ export type StorageOptions = {
   dbPath?: string;
 };
 
+/**
+ * How to handle messages that can't be decoded
+ *
+ * - `throw`: throw the error when the message is created
+ * - `fallback`: leave the content undefined and set `decodeError`, so that
+ *   the `fallback` text provided by the sender can be shown instead
+ */
+export type DecodeErrorMode = "throw" | "fallback";
+
 export type ContentOptions = {
   /**
    * Allow configuring codecs for additional content types
    */
   codecs?: ContentCodec[];
+  /**
+   * How to handle messages that can't be decoded (default: `"throw"`)
+   */
+  decodeErrorMode?: DecodeErrorMode;
+};
+
+export type MiddlewareOptions = {
+  /**
+   * Middleware that runs around sending and decoding messages
+   */
+  middleware?: Middleware[];
 };
 
 export type OtherOptions = {
@@ -57,9 +79,14 @@ export type OtherOptions = {
    * Disable automatic registration when creating a client
    */
   disableAutoRegister?: boolean;
+  /**
+   * Configure how the outbox sends and retries messages
+   */
+  outbox?: OutboxOptions;
 };
 
 export type ClientOptions = NetworkOptions &
   StorageOptions &
   ContentOptions &
+  MiddlewareOptions &
   OtherOptions;
@@ -7,9 +7,15 @@ import {
   type LogOptions,
 } from "@xmtp/node-bindings";
 import { ApiUrls, HistorySyncUrls } from "@/constants";
-import type { ClientOptions } from "@/types";
+import type { ClientOptions, XmtpEnv } from "@/types";
 import { generateInboxId, getInboxIdForIdentifier } from "@/utils/inboxId";
 
+/**
+ * Gets the path of the local DB of an inbox
+ */
+export const getDbPath = (env: XmtpEnv, inboxId: string, dbPath?: string) =>
+  dbPath || join(process.cwd(), `xmtp-${env}-${inboxId}.db3`);
+
 export const createClient = async (
   identifier: Identifier,
   encryptionKey?: Uint8Array,
@@ -21,8 +27,7 @@ export const createClient = async (
   const inboxId =
     (await getInboxIdForIdentifier(identifier, env)) ||
     generateInboxId(identifier);
-  const dbPath =
-    options?.dbPath || join(process.cwd(), `xmtp-${env}-${inboxId}.db3`);
+  const dbPath = getDbPath(env, inboxId, options?.dbPath);
   const logOptions: LogOptions = {
     structured: options?.structuredLogging ?? false,
     level: options?.loggingLevel ?? LogLevel.off,
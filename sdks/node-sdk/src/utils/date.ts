@@ -1,3 +1,7 @@
 export function nsToDate(ns: number): Date {
   return new Date(ns / 1_000_000);
 }
+
+export function dateToNs(date: Date): number {
+  return date.getTime() * 1_000_000;
+}
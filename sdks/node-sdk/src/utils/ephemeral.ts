@@ -0,0 +1,109 @@
+import {
+  ContentTypeEphemeral,
+  isExpired,
+  type Ephemeral,
+} from "@xmtp/content-type-ephemeral";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import { isObject, readStore, StoreWriter } from "@/utils/store";
+
+/**
+ * Why the content of an ephemeral message was purged
+ *
+ * - `viewed`: the message is view-once and has been viewed
+ * - `expired`: the message has expired
+ */
+export type PurgeReason = "viewed" | "expired";
+
+type StoredViewedMessages = {
+  version: number;
+  messageIds: string[];
+};
+
+const STORE_VERSION = 1;
+
+const isStoredViewedMessages = (
+  value: unknown,
+): value is StoredViewedMessages =>
+  isObject(value) &&
+  Array.isArray(value.messageIds) &&
+  value.messageIds.every((messageId) => typeof messageId === "string");
+
+/**
+ * Checks if a content type is ephemeral
+ */
+export const isEphemeral = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypeEphemeral);
+
+/**
+ * Gets the path of the viewed messages store of a local DB
+ */
+export const viewedPathFor = (dbPath: string) => `${dbPath}.viewed.json`;
+
+/**
+ * Keeps track of the view-once messages that have been viewed
+ *
+ * Viewed messages are stored in a file next to the local DB, so their content
+ * stays purged after a restart. A store that can't be parsed is moved to a
+ * `.corrupt` file next to it.
+ */
+export class ViewedMessages {
+  #path: string;
+  #messageIds = new Set<string>();
+  #loading: Promise<void> | undefined;
+  #writer: StoreWriter;
+
+  constructor(path: string) {
+    this.#path = path;
+    this.#writer = new StoreWriter(path);
+  }
+
+  load() {
+    this.#loading ??= (async () => {
+      const stored = await readStore(this.#path, isStoredViewedMessages);
+      for (const messageId of stored?.messageIds ?? []) {
+        this.#messageIds.add(messageId);
+      }
+    })().catch((error: unknown) => {
+      // failed loads are retried the next time the store is used
+      this.#loading = undefined;
+      throw error;
+    });
+    return this.#loading;
+  }
+
+  has(messageId: string) {
+    return this.#messageIds.has(messageId);
+  }
+
+  async add(messageId: string) {
+    await this.load();
+    if (this.#messageIds.has(messageId)) {
+      return;
+    }
+    this.#messageIds.add(messageId);
+
+    const stored: StoredViewedMessages = {
+      version: STORE_VERSION,
+      messageIds: Array.from(this.#messageIds),
+    };
+    return this.#writer.write(stored);
+  }
+}
+
+/**
+ * Gets why the content of an ephemeral message is purged, if it is
+ */
+export const purgeReason = (
+  messageId: string,
+  content: Ephemeral,
+  viewed: ViewedMessages,
+  now = new Date(),
+): PurgeReason | undefined => {
+  if (isExpired(content, now)) {
+    return "expired";
+  }
+  if (content.viewOnce && viewed.has(messageId)) {
+    return "viewed";
+  }
+  return undefined;
+};
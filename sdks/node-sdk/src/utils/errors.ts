@@ -58,3 +58,148 @@ export class MissingContentTypeError extends Error {
     super("Content type is required when sending content other than text");
   }
 }
+
+export class StreamOverflowError extends Error {
+  constructor(highWaterMark: number) {
+    super(`Stream buffer exceeded its high water mark of ${highWaterMark}`);
+  }
+}
+
+export class SendCancelledError extends Error {
+  constructor() {
+    super("Send cancelled by middleware");
+  }
+}
+
+export class OutboxItemNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Outbox item "${id}" not found`);
+  }
+}
+
+export class OutboxItemLockedError extends Error {
+  constructor(id: string, status: string) {
+    super(`Outbox item "${id}" can't be changed while it's ${status}`);
+  }
+}
+
+export class InvalidArchiveError extends Error {
+  constructor() {
+    super("Invalid archive");
+  }
+}
+
+export class UnsupportedArchiveVersionError extends Error {
+  constructor(version: number) {
+    super(`Unsupported archive version ${version}`);
+  }
+}
+
+export class InvalidArchiveKeyError extends Error {
+  constructor(size: number) {
+    super(`Archive key must be ${size} bytes`);
+  }
+}
+
+export class ArchiveDecryptionError extends Error {
+  constructor() {
+    super("Unable to decrypt archive, the password or key may be incorrect");
+  }
+}
+
+export class MentionsRequireTextError extends Error {
+  constructor() {
+    super("Mentions can only be sent with text content");
+  }
+}
+
+export class PollNotFoundError extends Error {
+  constructor(messageId: string) {
+    super(`Poll "${messageId}" not found`);
+  }
+}
+
+export class ThreadNotFoundError extends Error {
+  constructor(messageId: string) {
+    super(`Thread "${messageId}" not found`);
+  }
+}
+
+export class InvalidContentError extends Error {
+  constructor(contentType: ContentTypeId, cause: unknown) {
+    super(
+      `Invalid content for "${contentType.toString()}" content type: ${cause instanceof Error ? cause.message : String(cause)}`,
+      { cause },
+    );
+  }
+}
+
+export class ConversationNotFoundError extends Error {
+  constructor(conversationId: string) {
+    super(`Conversation "${conversationId}" not found`);
+  }
+}
+
+export class ScheduledMessageNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Scheduled message "${id}" not found`);
+  }
+}
+
+export class ScheduledMessageLockedError extends Error {
+  constructor(id: string, status: string) {
+    super(`Scheduled message "${id}" can't be changed while it's ${status}`);
+  }
+}
+
+export class ScheduledMessageInterruptedError extends Error {
+  constructor(id: string) {
+    super(
+      `Sending scheduled message "${id}" was interrupted, it may have been sent`,
+    );
+  }
+}
+
+export class EphemeralMessageNotFoundError extends Error {
+  constructor(messageId: string) {
+    super(`Ephemeral message "${messageId}" not found`);
+  }
+}
+
+export class InvalidInviteError extends Error {
+  constructor() {
+    super("Invite token is invalid");
+  }
+}
+
+export class InvalidInviteMaxUsesError extends Error {
+  constructor(maxUses: number) {
+    super(`Invite max uses must be a positive integer, got ${maxUses}`);
+  }
+}
+
+export class InviteNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Invite "${id}" not found`);
+  }
+}
+
+export class InviteExpiredError extends Error {
+  constructor(id: string) {
+    super(`Invite "${id}" has expired`);
+  }
+}
+
+export class InviteUsedUpError extends Error {
+  constructor(id: string) {
+    super(`Invite "${id}" has no uses left`);
+  }
+}
+
+export class InvitePermissionError extends Error {
+  constructor(groupId: string) {
+    super(
+      `Adding members to group "${groupId}" isn't allowed by its permission policy`,
+    );
+  }
+}
@@ -0,0 +1,120 @@
+import { PermissionPolicy } from "@xmtp/node-bindings";
+
+export type InvitePayload = {
+  version: number;
+  /**
+   * Local ID of the invite on the installation that created it
+   */
+  id: string;
+  groupId: string;
+  inviterInboxId: string;
+  expiresAt?: string;
+  maxUses?: number;
+};
+
+export type DecodedInviteToken = {
+  payload: InvitePayload;
+  /**
+   * The text that was signed with the installation key of the inviter
+   */
+  signatureText: string;
+  signature: Uint8Array;
+};
+
+export const INVITE_TOKEN_VERSION = 1;
+
+// tokens are shared on their own or at the end of a join link
+const INVITE_TOKEN_PATTERN = /^(?:\S*\/join\/)?([\w-]+)\.([\w-]+)$/;
+
+/**
+ * Gets the text that is signed to create an invite token
+ */
+export const inviteSignatureText = (encodedPayload: string) =>
+  `XMTP group invite: ${encodedPayload}`;
+
+/**
+ * Encodes a signed invite payload as a URL-safe token
+ */
+export const encodeInviteToken = (
+  encodedPayload: string,
+  signature: Uint8Array,
+) => `${encodedPayload}.${Buffer.from(signature).toString("base64url")}`;
+
+/**
+ * Encodes an invite payload to be signed
+ */
+export const encodeInvitePayload = (payload: InvitePayload) =>
+  Buffer.from(JSON.stringify(payload)).toString("base64url");
+
+/**
+ * Checks if a parsed value has the shape of an invite payload
+ */
+const isInvitePayload = (value: unknown): value is InvitePayload => {
+  if (typeof value !== "object" || value === null) {
+    return false;
+  }
+  const payload = value as Record<string, unknown>;
+  return (
+    payload.version === INVITE_TOKEN_VERSION &&
+    typeof payload.id === "string" &&
+    typeof payload.groupId === "string" &&
+    typeof payload.inviterInboxId === "string" &&
+    (payload.expiresAt === undefined ||
+      typeof payload.expiresAt === "string") &&
+    (payload.maxUses === undefined || typeof payload.maxUses === "number")
+  );
+};
+
+/**
+ * Decodes an invite token, or a join link that ends with one, without
+ * verifying its signature
+ *
+ * Returns `undefined` when the text isn't an invite token.
+ */
+export const decodeInviteToken = (
+  text: string,
+): DecodedInviteToken | undefined => {
+  const match = INVITE_TOKEN_PATTERN.exec(text.trim());
+  if (!match) {
+    return undefined;
+  }
+  const [, encodedPayload, encodedSignature] = match;
+
+  let payload: unknown;
+  try {
+    payload = JSON.parse(
+      Buffer.from(encodedPayload, "base64url").toString("utf8"),
+    ) as unknown;
+  } catch {
+    return undefined;
+  }
+  if (!isInvitePayload(payload)) {
+    return undefined;
+  }
+
+  return {
+    payload,
+    signatureText: inviteSignatureText(encodedPayload),
+    signature: new Uint8Array(Buffer.from(encodedSignature, "base64url")),
+  };
+};
+
+/**
+ * Checks if an inbox can add members to a group with its add member policy
+ */
+export const canAddMembers = (
+  policy: PermissionPolicy,
+  isAdmin: boolean,
+  isSuperAdmin: boolean,
+) => {
+  switch (policy) {
+    case PermissionPolicy.Allow:
+      return true;
+    case PermissionPolicy.Admin:
+      return isAdmin || isSuperAdmin;
+    case PermissionPolicy.SuperAdmin:
+      return isSuperAdmin;
+    default:
+      return false;
+  }
+};
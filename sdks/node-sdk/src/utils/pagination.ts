@@ -0,0 +1,91 @@
+import {
+  SortDirection,
+  type ListMessagesOptions,
+  type Message,
+} from "@xmtp/node-bindings";
+
+export type PaginateMessagesOptions = {
+  pageSize: number;
+  direction: SortDirection;
+  sentBeforeNs?: number;
+  sentAfterNs?: number;
+  filter?: (message: Message) => boolean;
+};
+
+/**
+ * Yields pages of up to `pageSize` messages that match the filter, fetching
+ * more messages only when the next page is requested
+ */
+export async function* paginateMessages(
+  findMessages: (options: ListMessagesOptions) => Promise<Message[]>,
+  options: PaginateMessagesOptions,
+): AsyncGenerator<Message[], void, undefined> {
+  const { pageSize, direction, filter } = options;
+  const ascending = direction === SortDirection.Ascending;
+  let sentBeforeNs = options.sentBeforeNs;
+  let sentAfterNs = options.sentAfterNs;
+  // messages at the page boundary that were already seen, they're fetched
+  // again so that messages sent at the same time aren't skipped
+  let boundaryIds = new Set<string>();
+  let exhausted = false;
+  let page: Message[] = [];
+
+  while (!exhausted) {
+    const messages = await findMessages({
+      limit: pageSize,
+      direction,
+      sentBeforeNs,
+      sentAfterNs,
+    });
+    exhausted = messages.length < pageSize;
+
+    const unseen = messages.filter((message) => !boundaryIds.has(message.id));
+    const last = messages.at(-1);
+    if (last) {
+      const cursorNs = last.sentAtNs;
+      if (unseen.length === 0) {
+        // every message at the boundary was seen, move past it
+        if (ascending) {
+          sentAfterNs = cursorNs;
+        } else {
+          sentBeforeNs = cursorNs;
+        }
+        boundaryIds = new Set();
+        continue;
+      }
+      // the cursor is exclusive and can't be moved by a nanosecond, adjacent
+      // float timestamps are hundreds of nanoseconds apart, so the next fetch
+      // starts at the last message sent before the boundary
+      const previous = messages
+        .filter((message) => message.sentAtNs !== cursorNs)
+        .at(-1);
+      if (previous) {
+        if (ascending) {
+          sentAfterNs = previous.sentAtNs;
+        } else {
+          sentBeforeNs = previous.sentAtNs;
+        }
+      }
+      boundaryIds = new Set(
+        messages
+          .filter((message) => message.sentAtNs === cursorNs)
+          .map((message) => message.id),
+      );
+    }
+
+    for (const message of unseen) {
+      if (filter && !filter(message)) {
+        continue;
+      }
+      page.push(message);
+      if (page.length === pageSize) {
+        yield page;
+        page = [];
+      }
+    }
+  }
+
+  if (page.length > 0) {
+    yield page;
+  }
+}
@@ -0,0 +1,81 @@
+import { ContentTypeId } from "@xmtp/content-type-primitives";
+import { GroupMessageKind, type Message } from "@xmtp/node-bindings";
+import { nsToDate } from "@/utils/date";
+import { isReaction } from "@/utils/reactions";
+import { isMessageUpdate } from "@/utils/reconcile";
+
+// the SDK can't depend on the read receipt content type package, read
+// receipts are encoded with the `ReadReceiptCodec` registered with the client
+export const ContentTypeReadReceipt = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "readReceipt",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+/**
+ * Minimum time between read receipts sent to a conversation
+ */
+export const READ_RECEIPT_INTERVAL_MS = 5000;
+
+export type ReadState = {
+  inboxId: string;
+  /**
+   * When the inbox last sent a read receipt
+   */
+  readAt: Date;
+  readAtNs: number;
+};
+
+/**
+ * Checks if a content type is a read receipt
+ */
+export const isReadReceipt = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypeReadReceipt);
+
+/**
+ * Gets the latest read receipt of each inbox
+ */
+export const readStates = (messages: Message[]) => {
+  const states = new Map<string, ReadState>();
+  for (const message of messages) {
+    const type = message.content.type;
+    if (!type || !isReadReceipt(new ContentTypeId(type))) {
+      continue;
+    }
+    const current = states.get(message.senderInboxId);
+    if (!current || current.readAtNs < message.sentAtNs) {
+      states.set(message.senderInboxId, {
+        inboxId: message.senderInboxId,
+        readAt: nsToDate(message.sentAtNs),
+        readAtNs: message.sentAtNs,
+      });
+    }
+  }
+  return states;
+};
+
+/**
+ * Checks if a message counts towards the unread messages of an inbox
+ *
+ * Only application messages sent by other inboxes count, except for read
+ * receipts, reactions, edits and deletes.
+ */
+export const isUnread = (message: Message, inboxId: string) => {
+  if (
+    message.kind !== GroupMessageKind.Application ||
+    message.senderInboxId === inboxId
+  ) {
+    return false;
+  }
+  const type = message.content.type;
+  if (!type) {
+    return true;
+  }
+  const contentType = new ContentTypeId(type);
+  return !(
+    isReadReceipt(contentType) ||
+    isReaction(contentType) ||
+    isMessageUpdate(contentType)
+  );
+};
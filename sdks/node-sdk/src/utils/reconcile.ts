@@ -0,0 +1,87 @@
+import { ContentTypeDelete, type Delete } from "@xmtp/content-type-delete";
+import { ContentTypeEdit, type Edit } from "@xmtp/content-type-edit";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import type { DecodedMessage } from "@/DecodedMessage";
+import { nsToDate } from "@/utils/date";
+
+export type ReconcileOptions = {
+  /**
+   * Applies edits and deletes to the messages they reference, edit and
+   * delete messages are left out of the results (default: `false`)
+   */
+  reconcile?: boolean;
+  /**
+   * Keeps the content of edited messages from before their first edit in
+   * `originalContent` (default: `false`)
+   */
+  includeOriginal?: boolean;
+};
+
+/**
+ * Checks if a content type is an edit or delete of another message
+ */
+export const isMessageUpdate = (contentType?: ContentTypeId) =>
+  !!contentType &&
+  (contentType.sameAs(ContentTypeEdit) ||
+    contentType.sameAs(ContentTypeDelete));
+
+/**
+ * Applies edits and deletes to the messages they reference
+ *
+ * Updates are applied in the order they were sent and only when they were
+ * sent by the sender of the referenced message. Deleted messages are kept
+ * as tombstones without content.
+ */
+export const reconcileMessages = <T extends DecodedMessage>(
+  messages: T[],
+  updates: DecodedMessage[],
+  includeOriginal = false,
+) => {
+  const results = messages.filter(
+    (message) => !isMessageUpdate(message.contentType),
+  );
+  const byId = new Map(results.map((message) => [message.id, message]));
+
+  const sorted = [...updates].sort((a, b) => a.sentAtNs - b.sentAtNs);
+  for (const update of sorted) {
+    if (update.content === undefined) {
+      continue;
+    }
+    const { reference } = update.content as Edit | Delete;
+    const target = byId.get(reference);
+    // only the original sender can edit or delete a message
+    if (
+      !target ||
+      target.senderInboxId !== update.senderInboxId ||
+      target.deletedAtNs !== undefined
+    ) {
+      continue;
+    }
+
+    if (update.contentType?.sameAs(ContentTypeEdit)) {
+      const edit = update.content as Edit;
+      if (includeOriginal && target.editedAtNs === undefined) {
+        // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+        target.originalContent = target.content;
+        target.originalContentType = target.contentType;
+      }
+      // eslint-disable-next-line @typescript-eslint/no-unsafe-assignment
+      target.content = edit.content;
+      target.contentType = edit.contentType;
+      // edits without a codec for their content only have its fallback text
+      if (edit.encodedContent) {
+        target.fallback = edit.fallback;
+      }
+      target.editedAtNs = update.sentAtNs;
+      target.editedAt = nsToDate(update.sentAtNs);
+    } else {
+      target.content = undefined;
+      target.originalContent = undefined;
+      target.originalContentType = undefined;
+      target.deletedAtNs = update.sentAtNs;
+      target.deletedAt = nsToDate(update.sentAtNs);
+    }
+  }
+
+  return results;
+};
@@ -0,0 +1,45 @@
+export type RetryOptions = {
+  /**
+   * Maximum number of consecutive attempts before giving up (default: `10`)
+   */
+  maxAttempts?: number;
+  /**
+   * Delay before the first retry, in milliseconds (default: `1000`)
+   */
+  initialDelay?: number;
+  /**
+   * Upper bound for the delay between attempts, in milliseconds
+   * (default: `30000`)
+   */
+  maxDelay?: number;
+  /**
+   * Factor applied to the delay after each failed attempt (default: `2`)
+   */
+  multiplier?: number;
+  /**
+   * Fraction of the delay that is randomized, between `0` and `1`
+   * (default: `0.2`)
+   */
+  jitter?: number;
+};
+
+export const defaultRetryOptions: Required<RetryOptions> = {
+  maxAttempts: 10,
+  initialDelay: 1000,
+  maxDelay: 30000,
+  multiplier: 2,
+  jitter: 0.2,
+};
+
+/**
+ * Calculates the delay before the next attempt using exponential backoff
+ * with jitter
+ */
+export const retryDelay = (retry: Required<RetryOptions>, attempt: number) => {
+  const delay = Math.min(
+    retry.maxDelay,
+    retry.initialDelay * retry.multiplier ** (attempt - 1),
+  );
+  const jitter = Math.min(Math.max(retry.jitter, 0), 1);
+  return Math.round(delay * (1 - jitter + Math.random() * jitter * 2));
+};
@@ -0,0 +1,69 @@
+import { readFile, rename, writeFile } from "node:fs/promises";
+
+/**
+ * Reads a JSON store that's kept in a file next to the local DB
+ *
+ * Returns `undefined` when the store doesn't exist. A store that can't be
+ * parsed or doesn't have the expected shape is moved to a `.corrupt` file
+ * next to it, so that it can be recovered manually, and is treated as if it
+ * didn't exist.
+ */
+export const readStore = async <T>(
+  path: string,
+  isValid: (value: unknown) => value is T,
+): Promise<T | undefined> => {
+  let data: string;
+  try {
+    data = await readFile(path, "utf8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") {
+      return undefined;
+    }
+    throw error;
+  }
+
+  let stored: unknown;
+  try {
+    stored = JSON.parse(data) as unknown;
+  } catch {
+    stored = undefined;
+  }
+  if (!isValid(stored)) {
+    await rename(path, `${path}.corrupt`);
+    return undefined;
+  }
+  return stored;
+};
+
+/**
+ * Writes a JSON store that's kept in a file next to the local DB
+ *
+ * Writes are queued so that an older store never overwrites a newer one, and
+ * replace the store so that it's never partially written. A failed write
+ * only rejects its own promise, later writes are still made.
+ */
+export class StoreWriter {
+  #path: string;
+  #writing = Promise.resolve();
+
+  constructor(path: string) {
+    this.#path = path;
+  }
+
+  write(stored: unknown) {
+    const data = JSON.stringify(stored);
+    const writing = this.#writing.then(async () => {
+      const tempPath = `${this.#path}.tmp`;
+      await writeFile(tempPath, data);
+      await rename(tempPath, this.#path);
+    });
+    this.#writing = writing.catch(() => undefined);
+    return writing;
+  }
+}
+
+/**
+ * Checks if a value is a plain object, e.g. a parsed JSON object
+ */
+export const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === "object" && value !== null && !Array.isArray(value);
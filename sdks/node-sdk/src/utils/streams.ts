@@ -0,0 +1,51 @@
+import type { Message } from "@xmtp/node-bindings";
+
+// number of recently delivered message IDs to remember for de-duplication
+const SEEN_MESSAGES_LIMIT = 1000;
+
+/**
+ * Tracks the messages delivered by a stream so that it can resume from where
+ * it left off after reconnecting
+ */
+export class StreamCursor {
+  #startedAtNs: number;
+  #cursors = new Map<string, number>();
+  #seen = new Set<string>();
+
+  constructor() {
+    this.#startedAtNs = Date.now() * 1_000_000;
+  }
+
+  /**
+   * Records a message as delivered
+   *
+   * @returns `false` if the message was already delivered
+   */
+  track(message: Message) {
+    if (this.#seen.has(message.id)) {
+      return false;
+    }
+
+    this.#seen.add(message.id);
+    if (this.#seen.size > SEEN_MESSAGES_LIMIT) {
+      // sets iterate in insertion order, drop the oldest ID
+      const [oldest] = this.#seen;
+      this.#seen.delete(oldest);
+    }
+
+    const cursor = this.#cursors.get(message.convoId);
+    if (cursor === undefined || message.sentAtNs > cursor) {
+      this.#cursors.set(message.convoId, message.sentAtNs);
+    }
+
+    return true;
+  }
+
+  /**
+   * Gets the timestamp of the last delivered message in a conversation, or
+   * when the stream started if no messages were delivered
+   */
+  after(conversationId: string) {
+    return this.#cursors.get(conversationId) ?? this.#startedAtNs;
+  }
+}
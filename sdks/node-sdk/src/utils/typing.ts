@@ -0,0 +1,112 @@
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import {
+  ContentTypeTypingIndicator,
+  DEFAULT_TYPING_TTL_MS,
+  type TypingIndicator,
+} from "@xmtp/content-type-typing-indicator";
+import type { DecodedMessage } from "@/DecodedMessage";
+
+export type TypingEvent = {
+  inboxId: string;
+  /**
+   * Whether the member is typing
+   */
+  typing: boolean;
+  /**
+   * When the member is considered to have stopped typing if no other
+   * indicator is received, only set when `typing` is `true`
+   */
+  expiresAt?: Date;
+};
+
+type TypingState = {
+  sentAtNs: number;
+  typing: boolean;
+  timer?: ReturnType<typeof setTimeout>;
+};
+
+/**
+ * Checks if a content type is a typing indicator
+ */
+export const isTypingIndicator = (contentType?: ContentTypeId) =>
+  !!contentType && contentType.sameAs(ContentTypeTypingIndicator);
+
+/**
+ * Tracks which members are typing from their messages
+ *
+ * An event is emitted for every `started` indicator that hasn't expired, so
+ * that `expiresAt` is extended, and when a member stops typing.
+ *
+ * Members stop typing when they send a `stopped` indicator, when they send
+ * any other message, or when their last `started` indicator expires.
+ * Indicators that are older than the latest message of a member are ignored.
+ */
+export class TypingTracker {
+  #onChange: (event: TypingEvent) => void;
+  #states = new Map<string, TypingState>();
+
+  constructor(onChange: (event: TypingEvent) => void) {
+    this.#onChange = onChange;
+  }
+
+  /**
+   * Updates the typing state of the sender of a message
+   */
+  add(message: DecodedMessage) {
+    const inboxId = message.senderInboxId;
+    const current = this.#states.get(inboxId);
+    if (current && current.sentAtNs > message.sentAtNs) {
+      return;
+    }
+
+    if (!isTypingIndicator(message.contentType)) {
+      // members stop typing when they send a message
+      this.#stop(inboxId, message.sentAtNs);
+      return;
+    }
+    const indicator = message.content as TypingIndicator | undefined;
+    if (!indicator) {
+      return;
+    }
+    if (indicator.state === "stopped") {
+      this.#stop(inboxId, message.sentAtNs);
+      return;
+    }
+
+    const { ttl } = indicator;
+    const expiresAt = message.sentAt.getTime() + (ttl ?? DEFAULT_TYPING_TTL_MS);
+    const remaining = expiresAt - Date.now();
+    if (remaining <= 0) {
+      return;
+    }
+
+    clearTimeout(current?.timer);
+    this.#states.set(inboxId, {
+      sentAtNs: message.sentAtNs,
+      typing: true,
+      timer: setTimeout(() => {
+        this.#stop(inboxId, message.sentAtNs);
+      }, remaining),
+    });
+    this.#onChange({ inboxId, typing: true, expiresAt: new Date(expiresAt) });
+  }
+
+  #stop(inboxId: string, sentAtNs: number) {
+    const current = this.#states.get(inboxId);
+    clearTimeout(current?.timer);
+    this.#states.set(inboxId, { sentAtNs, typing: false });
+    if (current?.typing) {
+      this.#onChange({ inboxId, typing: false });
+    }
+  }
+
+  /**
+   * Stops tracking all members without emitting events
+   */
+  clear() {
+    for (const state of this.#states.values()) {
+      clearTimeout(state.timer);
+    }
+    this.#states.clear();
+  }
+}
@@ -1,5 +1,6 @@
 import { describe, expect, it } from "vitest";
-import { AsyncStream } from "@/AsyncStream";
+import { AsyncStream, type StreamEvent } from "@/AsyncStream";
+import { StreamOverflowError } from "@/utils/errors";
 
 const testError = new Error("test");
 
@@ -92,4 +93,292 @@ describe("AsyncStream", () => {
     expect(stream.isDone).toBe(true);
     expect(stream.error).toBe(testError);
   });
+
+  it("should reconnect after an error when retry is enabled", async () => {
+    const stream = new AsyncStream<number>({
+      retry: { initialDelay: 10, jitter: 0 },
+    });
+    const events: StreamEvent[] = [];
+    let reconnectCount = 0;
+    stream.onEvent = (event) => {
+      events.push(event);
+    };
+    stream.onReconnect = () => {
+      reconnectCount++;
+      stream.callback(null, 2);
+      return Promise.resolve();
+    };
+    stream.callback(null, 1);
+    stream.callback(testError, undefined);
+
+    const values: (number | undefined)[] = [];
+    for await (const value of stream) {
+      values.push(value);
+      if (values.length === 2) {
+        break;
+      }
+    }
+    expect(values).toEqual([1, 2]);
+    expect(reconnectCount).toBe(1);
+    expect(events).toEqual([
+      { type: "reconnecting", attempt: 1, delay: 10, error: testError },
+      { type: "reconnected", attempt: 1 },
+    ]);
+    expect(stream.error).toBeNull();
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should back off between failed reconnection attempts", async () => {
+    const stream = new AsyncStream<number>({
+      retry: { initialDelay: 10, multiplier: 2, maxDelay: 30, jitter: 0 },
+    });
+    const events: StreamEvent[] = [];
+    let reconnectCount = 0;
+    stream.onEvent = (event) => {
+      events.push(event);
+    };
+    stream.onReconnect = () => {
+      reconnectCount++;
+      if (reconnectCount < 4) {
+        return Promise.reject(testError);
+      }
+      stream.callback(null, 1);
+      return Promise.resolve();
+    };
+    stream.callback(testError, undefined);
+
+    for await (const value of stream) {
+      expect(value).toBe(1);
+      break;
+    }
+    expect(
+      events.map((event) => (event.type === "reconnecting" ? event.delay : 0)),
+    ).toEqual([10, 20, 30, 30, 0]);
+    expect(events.at(-1)).toEqual({ type: "reconnected", attempt: 4 });
+  });
+
+  it("should give up after the maximum number of attempts", async () => {
+    const stream = new AsyncStream<number>({
+      retry: { maxAttempts: 2, initialDelay: 10, jitter: 0 },
+    });
+    const reconnectError = new Error("reconnect");
+    const events: StreamEvent[] = [];
+    let onErrorCalled = false;
+    stream.onEvent = (event) => {
+      events.push(event);
+    };
+    stream.onError = () => {
+      onErrorCalled = true;
+    };
+    stream.onReconnect = () => Promise.reject(reconnectError);
+    stream.callback(testError, undefined);
+
+    try {
+      for await (const _value of stream) {
+        // this block should never be reached
+      }
+    } catch (error) {
+      expect(error).toBe(reconnectError);
+    }
+    expect(events.map((event) => event.type)).toEqual([
+      "reconnecting",
+      "reconnecting",
+      "gave_up",
+    ]);
+    expect(events.at(-1)).toEqual({
+      type: "gave_up",
+      attempts: 2,
+      error: reconnectError,
+    });
+    expect(onErrorCalled).toBe(true);
+    expect(stream.isDone).toBe(true);
+    expect(stream.error).toBe(reconnectError);
+  });
+
+  it("should stop reconnecting when the stream is returned", async () => {
+    const stream = new AsyncStream<number>({
+      retry: { initialDelay: 1000, jitter: 0 },
+    });
+    let reconnectCount = 0;
+    stream.onReconnect = () => {
+      reconnectCount++;
+      return Promise.resolve();
+    };
+    stream.callback(testError, undefined);
+    expect(stream.isReconnecting).toBe(true);
+    await stream.return(undefined);
+    await new Promise((resolve) => setTimeout(resolve, 10));
+    expect(reconnectCount).toBe(0);
+    expect(stream.isReconnecting).toBe(false);
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should not reconnect without retry options", async () => {
+    const stream = new AsyncStream<number>();
+    let reconnectCount = 0;
+    stream.onReconnect = () => {
+      reconnectCount++;
+      return Promise.resolve();
+    };
+    stream.callback(testError, undefined);
+    await expect(stream.next()).rejects.toBe(testError);
+    expect(reconnectCount).toBe(0);
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should drop the oldest values when the buffer is full", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 2,
+      overflow: "drop-oldest",
+    });
+    stream.callback(null, 1);
+    stream.callback(null, 2);
+    stream.callback(null, 3);
+    expect(stream.metrics).toEqual({ queued: 2, dropped: 1 });
+    expect(await stream.next()).toEqual({ done: false, value: 2 });
+    expect(await stream.next()).toEqual({ done: false, value: 3 });
+    expect(stream.metrics).toEqual({ queued: 0, dropped: 1 });
+  });
+
+  it("should drop the newest values when the buffer is full", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 2,
+      overflow: "drop-newest",
+    });
+    stream.callback(null, 1);
+    stream.callback(null, 2);
+    stream.callback(null, 3);
+    expect(stream.metrics).toEqual({ queued: 2, dropped: 1 });
+    expect(await stream.next()).toEqual({ done: false, value: 1 });
+    expect(await stream.next()).toEqual({ done: false, value: 2 });
+  });
+
+  it("should error when the buffer is full", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 1,
+      overflow: "error",
+    });
+    let returned = false;
+    let error: Error | undefined;
+    stream.onReturn = () => {
+      returned = true;
+    };
+    stream.onError = (streamError) => {
+      error = streamError;
+    };
+    stream.callback(null, 1);
+    stream.callback(null, 2);
+    // the underlying stream is ended right away
+    expect(returned).toBe(true);
+    expect(error).toBeInstanceOf(StreamOverflowError);
+    stream.callback(null, 3);
+    // buffered values are delivered before the error
+    expect(await stream.next()).toEqual({ done: false, value: 1 });
+    await expect(stream.next()).rejects.toThrow(StreamOverflowError);
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should pause and resume when the buffer is full", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 4,
+      overflow: "pause",
+    });
+    let pauseCount = 0;
+    let resumeCount = 0;
+    stream.onPause = () => {
+      pauseCount++;
+    };
+    stream.onResume = () => {
+      resumeCount++;
+      return Promise.resolve();
+    };
+    for (let i = 1; i <= 5; i++) {
+      stream.callback(null, i);
+    }
+    expect(stream.isPaused).toBe(true);
+    expect(pauseCount).toBe(1);
+    // values received while pausing are not dropped
+    expect(stream.metrics).toEqual({ queued: 5, dropped: 0 });
+
+    await stream.next();
+    await stream.next();
+    expect(resumeCount).toBe(0);
+    await stream.next();
+    expect(resumeCount).toBe(1);
+    expect(stream.isPaused).toBe(false);
+  });
+
+  it("should end the stream when resuming fails", async () => {
+    const stream = new AsyncStream<number>({
+      highWaterMark: 1,
+      overflow: "pause",
+    });
+    stream.onResume = () => Promise.reject(testError);
+    stream.callback(null, 1);
+    expect(await stream.next()).toEqual({ done: false, value: 1 });
+    await expect(stream.next()).rejects.toBe(testError);
+  });
+
+  it("should settle a pending value when the stream is returned", async () => {
+    const stream = new AsyncStream<number>();
+    const pending = stream.next();
+    await stream.return(undefined);
+    expect(await pending).toEqual({ done: true, value: undefined });
+  });
+
+  it("should map, filter, and take values", async () => {
+    const stream = new AsyncStream<number>();
+    let onReturnCalled = false;
+    stream.onReturn = () => {
+      onReturnCalled = true;
+    };
+    for (let i = 1; i <= 10; i++) {
+      stream.callback(null, i);
+    }
+
+    const values: string[] = [];
+    for await (const value of stream
+      .filter(
+        (value): value is number => value !== undefined && value % 2 === 0,
+      )
+      .map((value) => `#${value}`)
+      .take(3)) {
+      values.push(value);
+    }
+    expect(values).toEqual(["#2", "#4", "#6"]);
+    expect(onReturnCalled).toBe(true);
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should batch values by size and time", async () => {
+    const stream = new AsyncStream<number>();
+    stream.callback(null, 1);
+    stream.callback(null, 2);
+    stream.callback(null, 3);
+    setTimeout(() => {
+      stream.callback(null, 4);
+    }, 100);
+
+    const batches: (number | undefined)[][] = [];
+    for await (const batch of stream.batch(2, 50)) {
+      batches.push(batch);
+      if (batches.length === 3) {
+        break;
+      }
+    }
+    expect(batches).toEqual([[1, 2], [3], [4]]);
+    expect(stream.isDone).toBe(true);
+  });
+
+  it("should end the stream when a batch iterator is returned", async () => {
+    const stream = new AsyncStream<number>();
+    stream.callback(null, 1);
+
+    // the batch times out while the stream is waiting for a value
+    for await (const batch of stream.batch(2, 10)) {
+      expect(batch).toEqual([1]);
+      break;
+    }
+    expect(stream.isDone).toBe(true);
+  });
 });
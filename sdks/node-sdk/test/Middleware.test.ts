@@ -0,0 +1,154 @@
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { describe, expect, it } from "vitest";
+import type { Conversation } from "@/Conversation";
+import { MiddlewarePipeline } from "@/Middleware";
+import { SendCancelledError } from "@/utils/errors";
+import { ContentTypeTest, createMessage } from "@test/helpers";
+
+const conversation = {} as Conversation;
+
+describe("MiddlewarePipeline", () => {
+  it("should run send hooks in order", async () => {
+    const calls: string[] = [];
+    const pipeline = new MiddlewarePipeline([
+      {
+        beforeSend: (content: string) => {
+          calls.push("before1");
+          return { content: `${content}!`, contentType: ContentTypeText };
+        },
+        afterSend: () => {
+          calls.push("after1");
+        },
+      },
+      {
+        beforeSend: async (content: string) => {
+          calls.push("before2");
+          return Promise.resolve({
+            content: content.toUpperCase(),
+            contentType: ContentTypeTest,
+          });
+        },
+        afterSend: () => {
+          calls.push("after2");
+        },
+      },
+      {
+        beforeSend: () => {
+          calls.push("before3");
+        },
+      },
+    ]);
+
+    const result = await pipeline.beforeSend(
+      "gm",
+      ContentTypeText,
+      conversation,
+    );
+    expect(result.content).toBe("GM!");
+    expect(result.contentType).toBe(ContentTypeTest);
+
+    await pipeline.afterSend("id", conversation);
+    expect(calls).toEqual([
+      "before1",
+      "before2",
+      "before3",
+      "after1",
+      "after2",
+    ]);
+  });
+
+  it("should short-circuit a send", async () => {
+    let lastCalled = false;
+    const pipeline = new MiddlewarePipeline([
+      {
+        beforeSend: (content: string) => content !== "bad word" && undefined,
+      },
+      {
+        beforeSend: () => {
+          lastCalled = true;
+        },
+      },
+    ]);
+
+    await expect(
+      pipeline.beforeSend("bad word", ContentTypeText, conversation),
+    ).rejects.toThrow(SendCancelledError);
+    expect(lastCalled).toBe(false);
+  });
+
+  it("should report afterSend errors without failing the send", async () => {
+    const error = new Error("test");
+    const reported: [Error, string][] = [];
+    let lastCalled = false;
+    const pipeline = new MiddlewarePipeline([
+      {
+        afterSend: () => {
+          throw error;
+        },
+        onAfterSendError: (afterSendError, messageId) => {
+          reported.push([afterSendError, messageId]);
+        },
+      },
+      {
+        afterSend: () => {
+          lastCalled = true;
+        },
+        onAfterSendError: () => {
+          throw new Error("ignored");
+        },
+      },
+    ]);
+
+    await expect(pipeline.afterSend("id", conversation)).resolves.toBe(
+      undefined,
+    );
+    expect(reported).toEqual([[error, "id"]]);
+    expect(lastCalled).toBe(true);
+  });
+
+  it("should run error and decode hooks in order", async () => {
+    const calls: string[] = [];
+    const error = new Error("test");
+    const message = createMessage<string>();
+    const pipeline = new MiddlewarePipeline([
+      {
+        onSendError: (sendError) => {
+          expect(sendError).toBe(error);
+          calls.push("sendError1");
+        },
+        onDecode: (decodedMessage) => {
+          decodedMessage.content = `${decodedMessage.content as string}!`;
+          calls.push("decode1");
+        },
+        onDecodeError: () => {
+          calls.push("decodeError1");
+        },
+      },
+      {
+        onSendError: () => {
+          calls.push("sendError2");
+        },
+        onDecode: () => {
+          calls.push("decode2");
+        },
+        onDecodeError: (decodeError) => {
+          expect(decodeError).toBe(error);
+          calls.push("decodeError2");
+        },
+      },
+    ]);
+
+    await pipeline.sendError(error, "gm", ContentTypeText, conversation);
+    pipeline.decode(message);
+    pipeline.decodeError(error, message);
+    expect(message.content).toBe("gm!");
+    expect(calls).toEqual([
+      "sendError1",
+      "sendError2",
+      "decode1",
+      "decode2",
+      "decodeError1",
+      "decodeError2",
+    ]);
+  });
+});
@@ -0,0 +1,254 @@
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { DeliveryStatus } from "@xmtp/node-bindings";
+import { describe, expect, it } from "vitest";
+import type { Conversation } from "@/Conversation";
+import { MiddlewarePipeline } from "@/Middleware";
+import { Outbox, type OutboxItemStatus } from "@/Outbox";
+import {
+  MissingContentTypeError,
+  OutboxItemLockedError,
+  OutboxItemNotFoundError,
+  SendCancelledError,
+} from "@/utils/errors";
+import { ContentTypeTest, createMessage, sleep } from "@test/helpers";
+
+const retry = { initialDelay: 10, maxDelay: 10, jitter: 0 };
+
+const createConversation = (failures = 0) => {
+  const stored: unknown[] = [];
+  const published: unknown[] = [];
+  let remainingFailures = failures;
+  const conversation = {
+    id: "conversation",
+    sendOptimistic: (content: unknown) => {
+      if (content === "invalid") {
+        throw new Error("encode failed");
+      }
+      if (content === "cancel") {
+        throw new SendCancelledError();
+      }
+      stored.push(content);
+      return `message-${stored.length}`;
+    },
+    publishMessages: () => {
+      if (remainingFailures > 0) {
+        remainingFailures--;
+        return Promise.reject(new Error("offline"));
+      }
+      published.push(...stored.splice(0));
+      return Promise.resolve();
+    },
+  } as unknown as Conversation;
+  return { conversation, stored, published };
+};
+
+describe("Outbox", () => {
+  it("should send messages added to the outbox", async () => {
+    const outbox = new Outbox({ retry });
+    const { conversation, published } = createConversation();
+    const statuses: OutboxItemStatus[] = [];
+    outbox.onStatusChange((item) => {
+      statuses.push(item.status);
+    });
+
+    const item = outbox.add(conversation, "gm");
+    expect(item.status).toBe("queued");
+    expect(item.contentType).toEqual(ContentTypeText);
+    expect(outbox.pending().map((pending) => pending.id)).toEqual([item.id]);
+
+    await outbox.flush();
+    expect(published).toEqual(["gm"]);
+    expect(statuses).toEqual(["queued", "sending", "sent"]);
+    expect(outbox.pending()).toEqual([]);
+    expect(outbox.get(item.id)).toBeUndefined();
+  });
+
+  it("should keep sending when a listener throws", async () => {
+    const outbox = new Outbox({ retry });
+    const { conversation, published } = createConversation();
+    const statuses: OutboxItemStatus[] = [];
+    outbox.onStatusChange(() => {
+      throw new Error("listener failed");
+    });
+    outbox.onStatusChange((item) => {
+      statuses.push(item.status);
+    });
+
+    outbox.add(conversation, "gm");
+    await sleep(20);
+    expect(published).toEqual(["gm"]);
+    expect(statuses).toEqual(["queued", "sending", "sent"]);
+  });
+
+  it("should retry publishing with backoff and hold new messages", async () => {
+    const outbox = new Outbox({ retry });
+    const { conversation, stored, published } = createConversation(2);
+
+    const item1 = outbox.add(conversation, "first");
+    await outbox.flush();
+    expect(outbox.get(item1.id)?.status).toBe("retrying");
+    expect(outbox.get(item1.id)?.attempts).toBe(1);
+    expect(outbox.get(item1.id)?.error?.message).toBe("offline");
+    expect(outbox.get(item1.id)?.nextAttemptAt).toBeInstanceOf(Date);
+
+    // new messages are held while publishing fails
+    const item2 = outbox.add(conversation, "second");
+    await sleep(5);
+    expect(outbox.get(item2.id)?.status).toBe("queued");
+    expect(stored).toEqual(["first"]);
+
+    await sleep(100);
+    expect(published).toEqual(["first", "second"]);
+    expect(outbox.pending()).toEqual([]);
+  });
+
+  it("should fail after the maximum number of attempts", async () => {
+    const outbox = new Outbox({ retry: { ...retry, maxAttempts: 2 } });
+    const { conversation, published } = createConversation(2);
+
+    const item = outbox.add(conversation, "gm");
+    await sleep(100);
+    expect(outbox.get(item.id)?.status).toBe("failed");
+    expect(outbox.get(item.id)?.attempts).toBe(2);
+    expect(outbox.get(item.id)?.messageId).toBe("message-1");
+
+    expect(outbox.pending()).toEqual([]);
+    expect(outbox.failed().map((failed) => failed.id)).toEqual([item.id]);
+
+    await outbox.retry(item.id);
+    expect(published).toEqual(["gm"]);
+    expect(outbox.get(item.id)).toBeUndefined();
+    expect(outbox.failed()).toEqual([]);
+  });
+
+  it("should cancel failed messages", async () => {
+    const outbox = new Outbox({ retry });
+    const { conversation } = createConversation();
+
+    const item = outbox.add(conversation, "invalid");
+    await outbox.flush();
+    outbox.cancel(item.id);
+    expect(outbox.get(item.id)).toBeUndefined();
+    expect(outbox.failed()).toEqual([]);
+  });
+
+  it("should resume messages that weren't published", async () => {
+    const outbox = new Outbox({ retry });
+    const { conversation, stored, published } = createConversation();
+    stored.push("gm");
+    const message = createMessage({
+      id: "message-1",
+      deliveryStatus: "unpublished",
+    });
+    conversation.messages = (options) =>
+      Promise.resolve(
+        options?.deliveryStatus === DeliveryStatus.Unpublished &&
+          stored.length > 0
+          ? [message]
+          : [],
+      );
+
+    await outbox.resume([conversation]);
+    // messages that are already in the outbox aren't added again
+    await outbox.resume([conversation]);
+    expect(outbox.pending().map((pending) => pending.messageId)).toEqual([
+      "message-1",
+    ]);
+    expect(outbox.pending()[0].status).toBe("retrying");
+
+    await outbox.flush();
+    expect(published).toEqual(["gm"]);
+    expect(outbox.pending()).toEqual([]);
+  });
+
+  it("should stop sending messages when closed", async () => {
+    const outbox = new Outbox({ retry });
+    const { conversation, published } = createConversation();
+
+    outbox.close();
+    const item = outbox.add(conversation, "gm");
+    await sleep(20);
+    expect(published).toEqual([]);
+    expect(outbox.get(item.id)?.status).toBe("queued");
+  });
+
+  it("should fail messages that can't be stored", async () => {
+    const outbox = new Outbox({ retry });
+    const { conversation } = createConversation();
+
+    const item = outbox.add(conversation, "invalid");
+    await outbox.flush();
+    expect(outbox.get(item.id)?.status).toBe("failed");
+    expect(outbox.get(item.id)?.error?.message).toBe("encode failed");
+    expect(outbox.get(item.id)?.messageId).toBeUndefined();
+  });
+
+  it("should run send middleware hooks", async () => {
+    const sentIds: string[] = [];
+    const sendErrors: string[] = [];
+    const outbox = new Outbox(
+      { retry: { ...retry, maxAttempts: 1 } },
+      new MiddlewarePipeline([
+        {
+          afterSend: (messageId) => {
+            sentIds.push(messageId);
+          },
+          onSendError: (error) => {
+            sendErrors.push(error.message);
+          },
+        },
+      ]),
+    );
+    const { conversation } = createConversation();
+
+    const cancelled = outbox.add(conversation, "cancel");
+    await outbox.flush();
+    expect(outbox.get(cancelled.id)).toBeUndefined();
+    expect(outbox.failed()).toEqual([]);
+
+    outbox.add(conversation, "gm");
+    await outbox.flush();
+    expect(sentIds).toEqual(["message-1"]);
+
+    const failing = createConversation(1);
+    const failed = outbox.add(failing.conversation, "gm");
+    await outbox.flush();
+    expect(outbox.get(failed.id)?.status).toBe("failed");
+    expect(sendErrors).toEqual(["offline"]);
+  });
+
+  it("should edit and cancel queued messages", async () => {
+    const outbox = new Outbox({ retry, sendDelay: 1000 });
+    const { conversation, published } = createConversation();
+
+    const item1 = outbox.add(conversation, "helo");
+    const item2 = outbox.add(conversation, "oops");
+    const edited = outbox.edit(item1.id, { test: "hello" }, ContentTypeTest);
+    expect(edited.content).toEqual({ test: "hello" });
+    expect(edited.contentType).toEqual(ContentTypeTest);
+    outbox.cancel(item2.id);
+    expect(outbox.pending().map((pending) => pending.id)).toEqual([item1.id]);
+
+    await outbox.flush();
+    expect(published).toEqual([{ test: "hello" }]);
+  });
+
+  it("should not change messages that are no longer queued", async () => {
+    const outbox = new Outbox({ retry });
+    const { conversation } = createConversation(1);
+
+    const item = outbox.add(conversation, "gm");
+    await outbox.flush();
+    expect(() => outbox.edit(item.id, "hello")).toThrow(OutboxItemLockedError);
+    expect(() => {
+      outbox.cancel(item.id);
+    }).toThrow(OutboxItemLockedError);
+    await expect(outbox.retry(item.id)).rejects.toThrow(OutboxItemLockedError);
+    expect(() => {
+      outbox.cancel("unknown");
+    }).toThrow(OutboxItemNotFoundError);
+    expect(() => outbox.add(conversation, { test: "gm" })).toThrow(
+      MissingContentTypeError,
+    );
+  });
+});
@@ -0,0 +1,366 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rmdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import type { ContentTypeId } from "@xmtp/content-type-primitives";
+import { ContentTypeText, TextCodec } from "@xmtp/content-type-text";
+import { describe, expect, it } from "vitest";
+import type { Client } from "@/Client";
+import type { Conversation } from "@/Conversation";
+import { Scheduler, type ScheduledMessageStatus } from "@/Scheduler";
+import {
+  CodecNotFoundError,
+  ConversationNotFoundError,
+  MissingContentTypeError,
+  ScheduledMessageInterruptedError,
+  ScheduledMessageLockedError,
+  ScheduledMessageNotFoundError,
+} from "@/utils/errors";
+import { ContentTypeTest, sleep, TestCodec } from "@test/helpers";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// the store is removed with the test DBs
+const createStorePath = () =>
+  join(__dirname, `test-${randomUUID()}.db3.schedule.json`);
+
+const createClient = (codecs = [new TextCodec(), new TestCodec()]) => {
+  const sent: unknown[] = [];
+  let sending: Promise<void> | undefined;
+  const conversation = {
+    id: "conversation",
+    send: async (content: unknown, contentType: ContentTypeId) => {
+      await sending;
+      sent.push(content);
+      return `message-${sent.length}-${contentType.typeId}`;
+    },
+  } as unknown as Conversation;
+  const codecFor = (contentType: ContentTypeId) =>
+    codecs.find((codec) => codec.contentType.sameAs(contentType));
+  const client = {
+    codecFor,
+    encodeContent: (content: unknown, contentType: ContentTypeId) =>
+      codecFor(contentType)?.encode(content as never),
+    conversations: {
+      getConversationById: (id: string) =>
+        Promise.resolve(id === conversation.id ? conversation : undefined),
+    },
+  } as unknown as Client;
+  return {
+    client,
+    conversation,
+    sent,
+    // holds sends until the returned function is called
+    holdSends: () => {
+      let release = () => {};
+      sending = new Promise((resolve) => {
+        release = resolve;
+      });
+      return release;
+    },
+  };
+};
+
+describe("Scheduler", () => {
+  it("should send messages when they're due", async () => {
+    const { client, conversation, sent } = createClient();
+    const scheduler = new Scheduler(client, createStorePath());
+    const statuses: ScheduledMessageStatus[] = [];
+    scheduler.onStatusChange((message) => {
+      statuses.push(message.status);
+    });
+
+    const later = await scheduler.schedule(
+      conversation,
+      "later",
+      undefined,
+      new Date(Date.now() + 60_000),
+    );
+    const soon = await scheduler.schedule(
+      conversation,
+      { test: "soon" },
+      ContentTypeTest,
+      new Date(Date.now() + 20),
+    );
+    expect(soon.status).toBe("scheduled");
+    expect(later.contentType).toEqual(ContentTypeText);
+    expect((await scheduler.list()).map((message) => message.id)).toEqual([
+      soon.id,
+      later.id,
+    ]);
+
+    await sleep(100);
+    expect(sent).toEqual([{ test: "soon" }]);
+    expect(statuses).toEqual(["scheduled", "scheduled", "sending", "sent"]);
+    expect(await scheduler.get(soon.id)).toBeUndefined();
+    expect((await scheduler.list()).map((message) => message.id)).toEqual([
+      later.id,
+    ]);
+  });
+
+  it("should report the ID of sent messages", async () => {
+    const { client, conversation } = createClient();
+    const scheduler = new Scheduler(client, createStorePath());
+    const messageIds: (string | undefined)[] = [];
+    scheduler.onStatusChange((message) => {
+      if (message.status === "sent") {
+        messageIds.push(message.messageId);
+      }
+    });
+
+    await scheduler.schedule(conversation, "gm", undefined, new Date());
+    await scheduler.flush();
+    expect(messageIds).toEqual(["message-1-text"]);
+  });
+
+  it("should keep scheduled messages after a restart", async () => {
+    const path = createStorePath();
+    const first = createClient();
+    const scheduled = await new Scheduler(first.client, path).schedule(
+      first.conversation,
+      { test: "gm" },
+      ContentTypeTest,
+      new Date(Date.now() + 60_000),
+    );
+
+    const { client, sent } = createClient();
+    const scheduler = new Scheduler(client, path);
+    await scheduler.start();
+    const [restored] = await scheduler.list();
+    expect(restored).toEqual(scheduled);
+
+    await scheduler.reschedule(scheduled.id, new Date());
+    await scheduler.flush();
+    expect(sent).toEqual([{ test: "gm" }]);
+    expect(await new Scheduler(client, path).list()).toEqual([]);
+  });
+
+  it("should send messages that became due while stopped", async () => {
+    const path = createStorePath();
+    const first = createClient();
+    const stopped = new Scheduler(first.client, path);
+    await stopped.schedule(
+      first.conversation,
+      "gm",
+      undefined,
+      new Date(Date.now() + 20),
+    );
+    stopped.stop();
+
+    await sleep(50);
+    expect(first.sent).toEqual([]);
+    const { client, sent } = createClient();
+    const scheduler = new Scheduler(client, path);
+    await scheduler.start();
+    await sleep(20);
+    expect(sent).toEqual(["gm"]);
+  });
+
+  it("should fail messages that were being sent when stopped", async () => {
+    const path = createStorePath();
+    const { client, conversation } = createClient();
+    const scheduled = await new Scheduler(client, path).schedule(
+      conversation,
+      "gm",
+      undefined,
+      new Date(),
+    );
+    const stored = JSON.parse(await readFile(path, "utf8")) as {
+      messages: { status: string }[];
+    };
+    stored.messages[0].status = "sending";
+    await writeFile(path, JSON.stringify(stored));
+
+    const scheduler = new Scheduler(client, path);
+    await scheduler.flush();
+    const message = await scheduler.get(scheduled.id);
+    expect(message?.status).toBe("failed");
+    expect(message?.error).toBeInstanceOf(ScheduledMessageInterruptedError);
+  });
+
+  it("should fail messages without a codec after a restart", async () => {
+    const path = createStorePath();
+    const first = createClient();
+    const scheduled = await new Scheduler(first.client, path).schedule(
+      first.conversation,
+      { test: "gm" },
+      ContentTypeTest,
+      new Date(),
+    );
+
+    const { client, sent } = createClient([new TextCodec()]);
+    const scheduler = new Scheduler(client, path);
+    await scheduler.flush();
+    const message = await scheduler.get(scheduled.id);
+    expect(message?.status).toBe("failed");
+    expect(message?.error).toBeInstanceOf(CodecNotFoundError);
+    expect(sent).toEqual([]);
+  });
+
+  it("should fail messages that can't be decoded after a restart", async () => {
+    const path = createStorePath();
+    const first = createClient();
+    const scheduled = await new Scheduler(first.client, path).schedule(
+      first.conversation,
+      { test: "gm" },
+      ContentTypeTest,
+      new Date(),
+    );
+
+    class FailingCodec extends TestCodec {
+      decode(): Record<string, string> {
+        throw new Error("invalid content");
+      }
+    }
+    const { client, sent } = createClient([
+      new TextCodec(),
+      new FailingCodec(),
+    ]);
+    const scheduler = new Scheduler(client, path);
+    await scheduler.flush();
+    const message = await scheduler.get(scheduled.id);
+    expect(message?.status).toBe("failed");
+    expect(message?.error?.message).toBe("invalid content");
+    expect(sent).toEqual([]);
+  });
+
+  it("should move a corrupt store aside", async () => {
+    const path = createStorePath();
+    await writeFile(path, "{");
+    const { client, conversation, sent } = createClient();
+    const scheduler = new Scheduler(client, path);
+
+    await scheduler.start();
+    expect(await scheduler.list()).toEqual([]);
+    expect(await readFile(`${path}.corrupt`, "utf8")).toBe("{");
+
+    await scheduler.schedule(conversation, "gm", undefined, new Date());
+    await scheduler.flush();
+    expect(sent).toEqual(["gm"]);
+  });
+
+  it("should retry loading the store after a failure", async () => {
+    const path = createStorePath();
+    // reading a directory fails
+    await mkdir(path);
+    const { client } = createClient();
+    const scheduler = new Scheduler(client, path);
+
+    await expect(scheduler.start()).rejects.toThrow();
+    await rmdir(path);
+    await expect(scheduler.start()).resolves.toBeUndefined();
+    expect(await scheduler.list()).toEqual([]);
+  });
+
+  it("should not send messages that can't be locked", async () => {
+    const path = createStorePath();
+    const { client, conversation, sent } = createClient();
+    const scheduler = new Scheduler(client, path);
+    const message = await scheduler.schedule(
+      conversation,
+      "gm",
+      undefined,
+      new Date(Date.now() + 20),
+    );
+    // writing the store fails while its temp path is a directory
+    await mkdir(`${path}.tmp`);
+
+    await sleep(100);
+    expect(sent).toEqual([]);
+    expect((await scheduler.get(message.id))?.status).toBe("failed");
+
+    await rmdir(`${path}.tmp`);
+    await scheduler.schedule(conversation, "gn", undefined, new Date());
+    await scheduler.flush();
+    expect(sent).toEqual(["gn"]);
+  });
+
+  it("should keep sending when a listener throws", async () => {
+    const { client, conversation, sent } = createClient();
+    const scheduler = new Scheduler(client, createStorePath());
+    scheduler.onStatusChange(() => {
+      throw new Error("listener failed");
+    });
+
+    await scheduler.schedule(conversation, "gm", undefined, new Date());
+    await scheduler.flush();
+    expect(sent).toEqual(["gm"]);
+  });
+
+  it("should fail messages to unknown conversations", async () => {
+    const { client, sent } = createClient();
+    const scheduler = new Scheduler(client, createStorePath());
+
+    const scheduled = await scheduler.schedule(
+      { id: "unknown" } as unknown as Conversation,
+      "gm",
+      undefined,
+      new Date(),
+    );
+    await scheduler.flush();
+    const message = await scheduler.get(scheduled.id);
+    expect(message?.status).toBe("failed");
+    expect(message?.error).toBeInstanceOf(ConversationNotFoundError);
+    expect(sent).toEqual([]);
+  });
+
+  it("should reschedule and cancel messages", async () => {
+    const { client, conversation, sent } = createClient();
+    const scheduler = new Scheduler(client, createStorePath());
+
+    const first = await scheduler.schedule(
+      conversation,
+      "first",
+      undefined,
+      new Date(Date.now() + 60_000),
+    );
+    const second = await scheduler.schedule(
+      conversation,
+      "second",
+      undefined,
+      new Date(Date.now() + 20),
+    );
+    const rescheduled = await scheduler.reschedule(
+      first.id,
+      new Date(Date.now() + 10),
+    );
+    expect(rescheduled.status).toBe("scheduled");
+    await scheduler.cancel(second.id);
+    expect((await scheduler.list()).map((message) => message.id)).toEqual([
+      first.id,
+    ]);
+
+    await sleep(100);
+    expect(sent).toEqual(["first"]);
+  });
+
+  it("should not change messages that are being sent", async () => {
+    const { client, conversation, holdSends } = createClient();
+    const scheduler = new Scheduler(client, createStorePath());
+    const release = holdSends();
+
+    const scheduled = await scheduler.schedule(
+      conversation,
+      "gm",
+      undefined,
+      new Date(),
+    );
+    const flushing = scheduler.flush();
+    await sleep(10);
+    await expect(scheduler.cancel(scheduled.id)).rejects.toThrow(
+      ScheduledMessageLockedError,
+    );
+    await expect(
+      scheduler.reschedule(scheduled.id, new Date()),
+    ).rejects.toThrow(ScheduledMessageLockedError);
+    release();
+    await flushing;
+
+    await expect(scheduler.cancel(scheduled.id)).rejects.toThrow(
+      ScheduledMessageNotFoundError,
+    );
+    await expect(
+      scheduler.schedule(conversation, { test: "gm" }, undefined, new Date()),
+    ).rejects.toThrow(MissingContentTypeError);
+  });
+});
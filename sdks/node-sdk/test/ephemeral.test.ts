@@ -0,0 +1,112 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rmdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import {
+  ContentTypeEphemeral,
+  type Ephemeral,
+} from "@xmtp/content-type-ephemeral";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import { describe, expect, it } from "vitest";
+import { isEphemeral, purgeReason, ViewedMessages } from "@/utils/ephemeral";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// the store is removed with the test DBs
+const createStorePath = () =>
+  join(__dirname, `test-${randomUUID()}.db3.viewed.json`);
+
+describe("isEphemeral", () => {
+  it("checks if a content type is ephemeral", () => {
+    expect(isEphemeral(ContentTypeEphemeral)).toBe(true);
+    expect(isEphemeral(ContentTypeText)).toBe(false);
+    expect(isEphemeral(undefined)).toBe(false);
+  });
+});
+
+describe("ViewedMessages", () => {
+  it("should keep viewed messages after a restart", async () => {
+    const path = createStorePath();
+    const viewed = new ViewedMessages(path);
+    await viewed.load();
+    expect(viewed.has("message-1")).toBe(false);
+
+    await viewed.add("message-1");
+    await viewed.add("message-2");
+    await viewed.add("message-1");
+    expect(viewed.has("message-1")).toBe(true);
+
+    const restored = new ViewedMessages(path);
+    expect(restored.has("message-1")).toBe(false);
+    await restored.load();
+    expect(restored.has("message-1")).toBe(true);
+    expect(restored.has("message-2")).toBe(true);
+    expect(restored.has("message-3")).toBe(false);
+  });
+
+  it("should move a store with an unexpected shape aside", async () => {
+    const path = createStorePath();
+    await writeFile(path, JSON.stringify({ version: 1, messageIds: [1] }));
+    const viewed = new ViewedMessages(path);
+
+    await viewed.load();
+    expect(viewed.has("message-1")).toBe(false);
+    expect(await readFile(`${path}.corrupt`, "utf8")).toBe(
+      JSON.stringify({ version: 1, messageIds: [1] }),
+    );
+  });
+
+  it("should keep saving after a failed write", async () => {
+    const path = createStorePath();
+    const viewed = new ViewedMessages(path);
+    // writing the store fails while its temp path is a directory
+    await mkdir(`${path}.tmp`);
+    await expect(viewed.add("message-1")).rejects.toThrow();
+    await rmdir(`${path}.tmp`);
+    await viewed.add("message-2");
+
+    const restored = new ViewedMessages(path);
+    await restored.load();
+    expect(restored.has("message-1")).toBe(true);
+    expect(restored.has("message-2")).toBe(true);
+  });
+});
+
+describe("purgeReason", () => {
+  it("purges view-once content after it has been viewed", async () => {
+    const viewed = new ViewedMessages(createStorePath());
+    const content: Ephemeral = {
+      content: "gm",
+      contentType: ContentTypeText,
+      viewOnce: true,
+    };
+    expect(purgeReason("message-1", content, viewed)).toBeUndefined();
+
+    await viewed.add("message-1");
+    expect(purgeReason("message-1", content, viewed)).toBe("viewed");
+    expect(purgeReason("message-2", content, viewed)).toBeUndefined();
+  });
+
+  it("purges content after it has expired", async () => {
+    const viewed = new ViewedMessages(createStorePath());
+    const expiresAt = new Date("2030-01-01T00:00:00.000Z");
+    const content: Ephemeral = {
+      content: "gm",
+      contentType: ContentTypeText,
+      viewOnce: true,
+      expiresAt,
+    };
+    expect(
+      purgeReason("message-1", content, viewed, new Date("2029-12-31")),
+    ).toBeUndefined();
+    expect(purgeReason("message-1", content, viewed, expiresAt)).toBe(
+      "expired",
+    );
+
+    // expired content is purged whether it has been viewed or not
+    await viewed.add("message-1");
+    expect(purgeReason("message-1", content, viewed, expiresAt)).toBe(
+      "expired",
+    );
+  });
+});
@@ -6,13 +6,22 @@ import {
   type ContentCodec,
   type EncodedContent,
 } from "@xmtp/content-type-primitives";
-import { generateInboxId, IdentifierKind } from "@xmtp/node-bindings";
+import { ContentTypeText } from "@xmtp/content-type-text";
+import {
+  DeliveryStatus,
+  generateInboxId,
+  GroupMessageKind,
+  IdentifierKind,
+  type Message,
+} from "@xmtp/node-bindings";
 import { createWalletClient, http, toBytes } from "viem";
 import { generatePrivateKey, privateKeyToAccount } from "viem/accounts";
 import { sepolia } from "viem/chains";
 import { Client } from "@/Client";
 import { HistorySyncUrls } from "@/constants";
+import type { DecodedMessage } from "@/DecodedMessage";
 import type { ClientOptions } from "@/types";
+import { nsToDate } from "@/utils/date";
 import type { Signer } from "@/utils/signer";
 
 const __dirname = dirname(fileURLToPath(import.meta.url));
@@ -21,6 +30,48 @@ const testEncryptionKey = getRandomValues(new Uint8Array(32));
 export const sleep = (ms: number) =>
   new Promise((resolve) => setTimeout(resolve, ms));
 
+// a text message as returned by the bindings, for tests without a client
+export const createBindingsMessage = (overrides?: Partial<Message>) =>
+  ({
+    id: "message",
+    sentAtNs: 1,
+    convoId: "conversation",
+    senderInboxId: "alice",
+    kind: GroupMessageKind.Application,
+    deliveryStatus: DeliveryStatus.Published,
+    content: {
+      type: {
+        authorityId: "xmtp.org",
+        typeId: "text",
+        versionMajor: 1,
+        versionMinor: 0,
+      },
+      parameters: {},
+      content: new TextEncoder().encode("gm"),
+    },
+    ...overrides,
+  }) as Message;
+
+// a decoded text message, for tests of code that only reads its fields
+export const createMessage = <T = any>(
+  overrides?: Partial<DecodedMessage<T>>,
+) => {
+  const sentAtNs = overrides?.sentAtNs ?? 1;
+  return {
+    id: "message",
+    conversationId: "conversation",
+    senderInboxId: "alice",
+    sentAtNs,
+    sentAt: nsToDate(sentAtNs),
+    kind: "application",
+    deliveryStatus: "published",
+    contentType: ContentTypeText,
+    content: "gm",
+    parameters: {},
+    ...overrides,
+  } as DecodedMessage<T>;
+};
+
 export const createUser = (key?: `0x${string}`) => {
   const accountKey = key ?? generatePrivateKey();
   const account = privateKeyToAccount(accountKey);
@@ -109,7 +160,7 @@ export class TestCodec implements ContentCodec<Record<string, string>> {
     return JSON.parse(decoded);
   }
 
-  fallback() {
+  fallback(): string | undefined {
     return undefined;
   }
 
@@ -117,3 +168,45 @@ export class TestCodec implements ContentCodec<Record<string, string>> {
     return false;
   }
 }
+
+// encodes reactions the same way as `ReactionCodec`
+export const ContentTypeReaction = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "reaction",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export class ReactionTestCodec extends TestCodec {
+  get contentType() {
+    return ContentTypeReaction;
+  }
+}
+
+// encodes read receipts the same way as `ReadReceiptCodec`
+export const ContentTypeReadReceipt = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "readReceipt",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export class ReadReceiptTestCodec extends TestCodec {
+  get contentType() {
+    return ContentTypeReadReceipt;
+  }
+}
+
+// encodes replies the same way as `ReplyCodec`
+export const ContentTypeReply = new ContentTypeId({
+  authorityId: "xmtp.org",
+  typeId: "reply",
+  versionMajor: 1,
+  versionMinor: 0,
+});
+
+export class ReplyTestCodec extends TestCodec {
+  get contentType() {
+    return ContentTypeReply;
+  }
+}
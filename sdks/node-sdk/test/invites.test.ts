@@ -0,0 +1,224 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rmdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { PermissionPolicy } from "@xmtp/node-bindings";
+import { describe, expect, it } from "vitest";
+import type { Client } from "@/Client";
+import type { Group } from "@/Group";
+import { Invites } from "@/Invites";
+import {
+  InvalidInviteError,
+  InvalidInviteMaxUsesError,
+  InviteExpiredError,
+  InviteNotFoundError,
+} from "@/utils/errors";
+import {
+  canAddMembers,
+  decodeInviteToken,
+  encodeInvitePayload,
+  encodeInviteToken,
+  INVITE_TOKEN_VERSION,
+  inviteSignatureText,
+  type InvitePayload,
+} from "@/utils/invites";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// the store is removed with the test DBs
+const createStorePath = () =>
+  join(__dirname, `test-${randomUUID()}.db3.invites.json`);
+
+// signatures are the signed text prefixed with the installation ID
+const createClient = (installationId = "installation") =>
+  ({
+    inboxId: "inviter",
+    signWithInstallationKey: (text: string) =>
+      new TextEncoder().encode(`${installationId}:${text}`),
+    verifySignedWithInstallationKey: (text: string, signature: Uint8Array) =>
+      new TextDecoder().decode(signature) === `${installationId}:${text}`,
+  }) as unknown as Client;
+
+const group = { id: "group" } as Group;
+
+describe("decodeInviteToken", () => {
+  it("decodes invite tokens and join links", () => {
+    const payload = {
+      version: INVITE_TOKEN_VERSION,
+      id: "invite",
+      groupId: "group",
+      inviterInboxId: "inviter",
+      maxUses: 2,
+    };
+    const encodedPayload = encodeInvitePayload(payload);
+    const token = encodeInviteToken(encodedPayload, new Uint8Array([1, 2, 3]));
+    expect(token).toMatch(/^[\w-]+\.[\w-]+$/);
+
+    const decoded = decodeInviteToken(token);
+    expect(decoded?.payload).toEqual(payload);
+    expect(decoded?.signatureText).toBe(inviteSignatureText(encodedPayload));
+    expect(decoded?.signature).toEqual(new Uint8Array([1, 2, 3]));
+    expect(
+      decodeInviteToken(` https://xmtp.chat/join/${token}\n`)?.payload,
+    ).toEqual(payload);
+  });
+
+  it("ignores text that isn't an invite token", () => {
+    expect(decodeInviteToken("gm")).toBeUndefined();
+    expect(decodeInviteToken("hello.world")).toBeUndefined();
+    expect(
+      decodeInviteToken(
+        encodeInviteToken(
+          encodeInvitePayload({
+            version: 2,
+            id: "invite",
+            groupId: "group",
+            inviterInboxId: "inviter",
+          }),
+          new Uint8Array([1]),
+        ),
+      ),
+    ).toBeUndefined();
+    expect(
+      decodeInviteToken(
+        encodeInviteToken(
+          encodeInvitePayload({
+            version: INVITE_TOKEN_VERSION,
+            id: "invite",
+            groupId: "group",
+            inviterInboxId: "inviter",
+            maxUses: "2",
+          } as unknown as InvitePayload),
+          new Uint8Array([1]),
+        ),
+      ),
+    ).toBeUndefined();
+    expect(
+      decodeInviteToken(
+        encodeInviteToken(
+          encodeInvitePayload("gm" as unknown as InvitePayload),
+          new Uint8Array([1]),
+        ),
+      ),
+    ).toBeUndefined();
+  });
+});
+
+describe("canAddMembers", () => {
+  it("checks the add member policy", () => {
+    expect(canAddMembers(PermissionPolicy.Allow, false, false)).toBe(true);
+    expect(canAddMembers(PermissionPolicy.Admin, false, false)).toBe(false);
+    expect(canAddMembers(PermissionPolicy.Admin, true, false)).toBe(true);
+    expect(canAddMembers(PermissionPolicy.Admin, false, true)).toBe(true);
+    expect(canAddMembers(PermissionPolicy.SuperAdmin, true, false)).toBe(false);
+    expect(canAddMembers(PermissionPolicy.SuperAdmin, false, true)).toBe(true);
+    expect(canAddMembers(PermissionPolicy.Deny, true, true)).toBe(false);
+  });
+});
+
+describe("Invites", () => {
+  it("should create signed invites", async () => {
+    const invites = new Invites(createClient(), createStorePath());
+    const expiresAt = new Date(Date.now() + 60_000);
+    const invite = await invites.create(group, { expiresAt, maxUses: 3 });
+    expect(invite.groupId).toBe("group");
+    expect(invite.uses).toBe(0);
+
+    const decoded = decodeInviteToken(invite.token);
+    expect(decoded?.payload).toEqual({
+      version: INVITE_TOKEN_VERSION,
+      id: invite.id,
+      groupId: "group",
+      inviterInboxId: "inviter",
+      expiresAt: expiresAt.toISOString(),
+      maxUses: 3,
+    });
+
+    await expect(invites.create(group, { maxUses: 0 })).rejects.toThrow(
+      InvalidInviteMaxUsesError,
+    );
+  });
+
+  it("should keep invites after a restart", async () => {
+    const path = createStorePath();
+    const invite = await new Invites(createClient(), path).create(group, {
+      expiresAt: new Date(Date.now() + 60_000),
+    });
+
+    const invites = new Invites(createClient(), path);
+    expect(await invites.get(invite.id)).toEqual(invite);
+    expect(await invites.list("group")).toEqual([invite]);
+    expect(await invites.list("other")).toEqual([]);
+
+    await invites.revoke(invite.id);
+    expect(await new Invites(createClient(), path).list()).toEqual([]);
+    await expect(invites.revoke(invite.id)).rejects.toThrow(
+      InviteNotFoundError,
+    );
+  });
+
+  it("should move a corrupt store aside", async () => {
+    const path = createStorePath();
+    await writeFile(path, JSON.stringify({ version: 1, invites: [{}] }));
+    const invites = new Invites(createClient(), path);
+
+    expect(await invites.list()).toEqual([]);
+    expect(await readFile(`${path}.corrupt`, "utf8")).toBe(
+      JSON.stringify({ version: 1, invites: [{}] }),
+    );
+    const invite = await invites.create(group);
+    expect(await new Invites(createClient(), path).list()).toEqual([invite]);
+  });
+
+  it("should retry loading the store after a failure", async () => {
+    const path = createStorePath();
+    // reading a directory fails
+    await mkdir(path);
+    const invites = new Invites(createClient(), path);
+
+    await expect(invites.list()).rejects.toThrow();
+    await rmdir(path);
+    expect(await invites.list()).toEqual([]);
+  });
+
+  it("should keep saving after a failed write", async () => {
+    const path = createStorePath();
+    const invites = new Invites(createClient(), path);
+    // writing the store fails while its temp path is a directory
+    await mkdir(`${path}.tmp`);
+    await expect(invites.create(group)).rejects.toThrow();
+    await rmdir(`${path}.tmp`);
+
+    const invite = await invites.create(group);
+    expect(
+      (await new Invites(createClient(), path).list()).map(({ id }) => id),
+    ).toContain(invite.id);
+  });
+
+  it("should reject invalid, revoked and expired invites", async () => {
+    const client = createClient();
+    const invites = new Invites(client, createStorePath());
+
+    await expect(invites.redeem("gm", "member")).rejects.toThrow(
+      InvalidInviteError,
+    );
+    const other = await new Invites(
+      createClient("other"),
+      createStorePath(),
+    ).create(group);
+    await expect(invites.redeem(other.token, "member")).rejects.toThrow(
+      InvalidInviteError,
+    );
+
+    const revoked = await invites.create(group);
+    await invites.revoke(revoked.id);
+    await expect(invites.redeem(revoked.token, "member")).rejects.toThrow(
+      InviteNotFoundError,
+    );
+
+    const expired = await invites.create(group, { expiresAt: new Date() });
+    await expect(invites.redeem(expired.token, "member")).rejects.toThrow(
+      InviteExpiredError,
+    );
+  });
+});
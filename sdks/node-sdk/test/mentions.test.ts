@@ -0,0 +1,71 @@
+import { MENTIONS_PARAMETER } from "@xmtp/content-type-primitives";
+import { describe, expect, it } from "vitest";
+import { MentionsRequireTextError } from "@/utils/errors";
+import { findMentions, mentionsInbox, withMentions } from "@/utils/mentions";
+import { createMessage } from "@test/helpers";
+
+const alice = "a".repeat(64);
+const bob = "b".repeat(64);
+const aliceAddress = "0x1111111111111111111111111111111111111111";
+
+const candidates = [
+  { inboxId: alice, names: [alice, aliceAddress, "alice"] },
+  { inboxId: bob, names: [bob, "bob", "builders"] },
+];
+
+describe("findMentions", () => {
+  it("finds mentions by name, inbox ID and identifier", () => {
+    const text = `gm @Alice, @${bob} and @${aliceAddress.toUpperCase()}.`;
+    expect(findMentions(text, candidates)).toEqual([
+      { inboxId: alice, offset: 3, length: 6 },
+      { inboxId: bob, offset: 11, length: 65 },
+      { inboxId: alice, offset: 81, length: 43 },
+    ]);
+  });
+
+  it("ignores unknown, ambiguous and intraword names", () => {
+    const ambiguous = [
+      ...candidates,
+      { inboxId: "c".repeat(64), names: ["bob"] },
+    ];
+    expect(findMentions("gm @bob", ambiguous)).toEqual([]);
+    expect(findMentions("gm @carol", candidates)).toEqual([]);
+    expect(findMentions("gm alice@bob", candidates)).toEqual([]);
+  });
+});
+
+describe("mentions", () => {
+  it("checks if a message mentions an inbox", () => {
+    const encodedContent = withMentions({ parameters: {} }, "gm @alice", [
+      { inboxId: alice, offset: 3, length: 6 },
+    ]);
+    const message = createMessage({
+      content: "gm @alice",
+      parameters: encodedContent.parameters,
+    });
+    expect(mentionsInbox(message, alice.toUpperCase())).toBe(true);
+    expect(mentionsInbox(message, bob)).toBe(false);
+    expect(mentionsInbox(createMessage(), alice)).toBe(false);
+  });
+
+  it("only adds mentions to text content", () => {
+    expect(withMentions({ parameters: {} }, "gm", [])).toEqual({
+      parameters: {},
+    });
+    expect(() =>
+      withMentions({ parameters: {} }, { text: "gm @alice" }, [
+        { inboxId: alice, offset: 3, length: 6 },
+      ]),
+    ).toThrow(MentionsRequireTextError);
+    expect(() =>
+      withMentions({ parameters: {} }, "gm", [
+        { inboxId: alice, offset: 3, length: 6 },
+      ]),
+    ).toThrow("mention at offset 3 is outside of the text");
+    expect(
+      withMentions({ parameters: {} }, "gm @alice", [
+        { inboxId: alice, offset: 3, length: 6 },
+      ]).parameters,
+    ).toHaveProperty(MENTIONS_PARAMETER);
+  });
+});
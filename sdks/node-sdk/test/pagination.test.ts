@@ -0,0 +1,147 @@
+import { SortDirection, type Message } from "@xmtp/node-bindings";
+import { describe, expect, it } from "vitest";
+import { paginateMessages } from "@/utils/pagination";
+import { createBindingsMessage } from "@test/helpers";
+
+// a message store with the same filtering as `findMessages`
+const createStore = (messages: Message[]) => {
+  const calls: number[] = [];
+  const findMessages = ({
+    limit,
+    direction,
+    sentBeforeNs,
+    sentAfterNs,
+  }: {
+    limit?: number;
+    direction?: SortDirection;
+    sentBeforeNs?: number;
+    sentAfterNs?: number;
+  }) => {
+    calls.push(limit ?? 0);
+    const sorted = messages
+      .filter(
+        (message) =>
+          (sentBeforeNs === undefined || message.sentAtNs < sentBeforeNs) &&
+          (sentAfterNs === undefined || message.sentAtNs > sentAfterNs),
+      )
+      .sort((a, b) =>
+        direction === SortDirection.Ascending
+          ? a.sentAtNs - b.sentAtNs
+          : b.sentAtNs - a.sentAtNs,
+      );
+    return Promise.resolve(sorted.slice(0, limit));
+  };
+  return { findMessages, calls };
+};
+
+const collect = async (pages: AsyncGenerator<Message[]>) => {
+  const result: string[][] = [];
+  for await (const page of pages) {
+    result.push(page.map((message) => message.id));
+  }
+  return result;
+};
+
+describe("paginateMessages", () => {
+  const messages = [
+    createBindingsMessage({ id: "a1", sentAtNs: 1 }),
+    createBindingsMessage({ id: "b2", sentAtNs: 2, senderInboxId: "bob" }),
+    createBindingsMessage({ id: "a3", sentAtNs: 3 }),
+    createBindingsMessage({ id: "a4", sentAtNs: 4 }),
+    createBindingsMessage({ id: "b5", sentAtNs: 5, senderInboxId: "bob" }),
+  ];
+
+  it("should yield pages in descending order", async () => {
+    const { findMessages } = createStore(messages);
+    const pages = await collect(
+      paginateMessages(findMessages, {
+        pageSize: 2,
+        direction: SortDirection.Descending,
+      }),
+    );
+    expect(pages).toEqual([["b5", "a4"], ["a3", "b2"], ["a1"]]);
+  });
+
+  it("should yield pages in ascending order within bounds", async () => {
+    const { findMessages } = createStore(messages);
+    const pages = await collect(
+      paginateMessages(findMessages, {
+        pageSize: 2,
+        direction: SortDirection.Ascending,
+        sentAfterNs: 1,
+        sentBeforeNs: 5,
+      }),
+    );
+    expect(pages).toEqual([["b2", "a3"], ["a4"]]);
+  });
+
+  it("should fill pages with filtered messages", async () => {
+    const { findMessages } = createStore(messages);
+    const pages = await collect(
+      paginateMessages(findMessages, {
+        pageSize: 2,
+        direction: SortDirection.Ascending,
+        filter: (message) => message.senderInboxId === "alice",
+      }),
+    );
+    expect(pages).toEqual([["a1", "a3"], ["a4"]]);
+  });
+
+  it("should not skip messages sent at the same time", async () => {
+    const { findMessages } = createStore([
+      createBindingsMessage({ id: "a1", sentAtNs: 1 }),
+      createBindingsMessage({ id: "a2", sentAtNs: 2 }),
+      createBindingsMessage({ id: "b2", sentAtNs: 2, senderInboxId: "bob" }),
+      createBindingsMessage({ id: "a3", sentAtNs: 3 }),
+    ]);
+    const pages = await collect(
+      paginateMessages(findMessages, {
+        pageSize: 2,
+        direction: SortDirection.Ascending,
+      }),
+    );
+    expect(pages.flat()).toEqual(["a1", "a2", "b2", "a3"]);
+  });
+
+  it("should not skip messages sent at the same time with large timestamps", async () => {
+    // adjacent float values of current timestamps in nanoseconds are 256 apart
+    const sentAtNs = 1_700_000_000_000_000_000;
+    const { findMessages } = createStore([
+      createBindingsMessage({ id: "a1", sentAtNs }),
+      createBindingsMessage({ id: "a2", sentAtNs: sentAtNs + 256 }),
+      createBindingsMessage({
+        id: "b2",
+        sentAtNs: sentAtNs + 256,
+        senderInboxId: "bob",
+      }),
+      createBindingsMessage({ id: "a3", sentAtNs: sentAtNs + 512 }),
+    ]);
+    const ascending = await collect(
+      paginateMessages(findMessages, {
+        pageSize: 2,
+        direction: SortDirection.Ascending,
+      }),
+    );
+    expect(ascending.flat()).toEqual(["a1", "a2", "b2", "a3"]);
+    const descending = await collect(
+      paginateMessages(findMessages, {
+        pageSize: 2,
+        direction: SortDirection.Descending,
+      }),
+    );
+    expect(descending.flat()).toEqual(["a3", "a2", "b2", "a1"]);
+  });
+
+  it("should only fetch messages when a page is requested", async () => {
+    const { findMessages, calls } = createStore(messages);
+    const pages = paginateMessages(findMessages, {
+      pageSize: 2,
+      direction: SortDirection.Descending,
+    });
+    expect(calls.length).toBe(0);
+    await pages.next();
+    expect(calls.length).toBe(1);
+    await pages.return();
+    expect(calls.length).toBe(1);
+  });
+});
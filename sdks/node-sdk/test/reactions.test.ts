@@ -0,0 +1,90 @@
+import { describe, expect, it } from "vitest";
+import { ReactionAggregator } from "@/utils/reactions";
+import { ContentTypeReaction, createMessage } from "@test/helpers";
+
+const createReaction = (
+  senderInboxId: string,
+  sentAtNs: number,
+  action: "added" | "removed",
+  content: string,
+  reference = "m1",
+) =>
+  createMessage({
+    id: `${senderInboxId}-${sentAtNs}`,
+    senderInboxId,
+    sentAtNs,
+    contentType: ContentTypeReaction,
+    content: { reference, action, content, schema: "unicode" },
+  });
+
+describe("ReactionAggregator", () => {
+  it("tallies reactions by content", () => {
+    const aggregator = new ReactionAggregator();
+    aggregator.add(createReaction("alice", 1, "added", "👍"));
+    aggregator.add(createReaction("bob", 2, "added", "🔥"));
+    aggregator.add(createReaction("bob", 3, "added", "👍"));
+    aggregator.add(createReaction("carol", 4, "added", "👍", "m2"));
+
+    const summary = aggregator.summary("m1");
+    expect(summary.messageId).toBe("m1");
+    expect(summary.reactions).toEqual([
+      {
+        content: "👍",
+        schema: "unicode",
+        count: 2,
+        inboxIds: new Set(["alice", "bob"]),
+      },
+      {
+        content: "🔥",
+        schema: "unicode",
+        count: 1,
+        inboxIds: new Set(["bob"]),
+      },
+    ]);
+  });
+
+  it("applies the latest reaction of each inbox", () => {
+    const aggregator = new ReactionAggregator();
+    aggregator.add(createReaction("alice", 1, "added", "👍"));
+    aggregator.add(createReaction("alice", 2, "removed", "👍"));
+    expect(aggregator.summary("m1").reactions).toEqual([]);
+
+    aggregator.add(createReaction("alice", 3, "added", "👍"));
+    expect(aggregator.summary("m1").reactions[0].count).toBe(1);
+  });
+
+  it("handles reactions that arrive out of order", () => {
+    const aggregator = new ReactionAggregator();
+    expect(aggregator.add(createReaction("alice", 2, "removed", "👍"))).toBe(
+      undefined,
+    );
+    expect(aggregator.add(createReaction("alice", 1, "added", "👍"))).toBe(
+      undefined,
+    );
+    expect(aggregator.summary("m1").reactions).toEqual([]);
+
+    // removals win over additions sent at the same time
+    aggregator.add(createReaction("bob", 3, "removed", "🔥"));
+    aggregator.add(createReaction("bob", 3, "added", "🔥"));
+    expect(aggregator.summary("m1").reactions).toEqual([]);
+  });
+
+  it("reports when the reactions to a message change", () => {
+    const aggregator = new ReactionAggregator();
+    expect(aggregator.add(createReaction("alice", 1, "added", "👍"))).toBe(
+      "m1",
+    );
+    expect(aggregator.add(createReaction("alice", 2, "added", "👍"))).toBe(
+      undefined,
+    );
+    expect(aggregator.add(createReaction("alice", 3, "removed", "👍"))).toBe(
+      "m1",
+    );
+  });
+
+  it("ignores messages that aren't reactions", () => {
+    const aggregator = new ReactionAggregator();
+    expect(aggregator.add(createMessage())).toBe(undefined);
+    expect(aggregator.summary("m1").reactions).toEqual([]);
+  });
+});
@@ -0,0 +1,74 @@
+import { GroupMessageKind } from "@xmtp/node-bindings";
+import { describe, expect, it } from "vitest";
+import { isUnread, readStates } from "@/utils/readState";
+import { createBindingsMessage } from "@test/helpers";
+
+const createMessageOfType = (
+  senderInboxId: string,
+  sentAtNs: number,
+  typeId: string,
+  kind = GroupMessageKind.Application,
+) =>
+  createBindingsMessage({
+    id: `${senderInboxId}-${sentAtNs}`,
+    senderInboxId,
+    sentAtNs,
+    kind,
+    content: {
+      type: {
+        authorityId: "xmtp.org",
+        typeId,
+        versionMajor: 1,
+        versionMinor: 0,
+      },
+      parameters: {},
+      content: new Uint8Array(),
+    },
+  });
+
+describe("readStates", () => {
+  it("gets the latest read receipt of each inbox", () => {
+    const states = readStates([
+      createMessageOfType("alice", 3, "readReceipt"),
+      createMessageOfType("alice", 1, "readReceipt"),
+      createMessageOfType("bob", 2, "readReceipt"),
+      createMessageOfType("carol", 4, "text"),
+    ]);
+    expect(states.size).toBe(2);
+    expect(states.get("alice")?.readAtNs).toBe(3);
+    expect(states.get("bob")?.readAtNs).toBe(2);
+    expect(states.get("bob")?.readAt).toBeInstanceOf(Date);
+    expect(states.get("carol")).toBeUndefined();
+  });
+});
+
+describe("isUnread", () => {
+  it("counts messages from other inboxes", () => {
+    expect(isUnread(createMessageOfType("bob", 1, "text"), "alice")).toBe(true);
+    expect(isUnread(createMessageOfType("alice", 1, "text"), "alice")).toBe(
+      false,
+    );
+  });
+
+  it("ignores read receipts, reactions, edits and deletes", () => {
+    for (const typeId of ["readReceipt", "reaction", "edit", "delete"]) {
+      expect(isUnread(createMessageOfType("bob", 1, typeId), "alice")).toBe(
+        false,
+      );
+    }
+  });
+
+  it("ignores membership changes", () => {
+    expect(
+      isUnread(
+        createMessageOfType(
+          "bob",
+          1,
+          "group_updated",
+          GroupMessageKind.MembershipChange,
+        ),
+        "alice",
+      ),
+    ).toBe(false);
+  });
+});
@@ -0,0 +1,72 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rmdir, writeFile } from "node:fs/promises";
+import { dirname, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { describe, expect, it } from "vitest";
+import { isObject, readStore, StoreWriter } from "@/utils/store";
+
+const __dirname = dirname(fileURLToPath(import.meta.url));
+
+// the store is removed with the test DBs
+const createStorePath = () =>
+  join(__dirname, `test-${randomUUID()}.db3.store.json`);
+
+const isStore = (value: unknown): value is { version: 1 } =>
+  isObject(value) && value.version === 1;
+
+describe("readStore", () => {
+  it("should read a missing store as undefined", async () => {
+    expect(await readStore(createStorePath(), isStore)).toBeUndefined();
+  });
+
+  it("should read a stored value", async () => {
+    const path = createStorePath();
+    await writeFile(path, JSON.stringify({ version: 1 }));
+    expect(await readStore(path, isStore)).toEqual({ version: 1 });
+  });
+
+  it("should move a store that can't be parsed aside", async () => {
+    const path = createStorePath();
+    await writeFile(path, "{");
+    expect(await readStore(path, isStore)).toBeUndefined();
+    expect(await readFile(`${path}.corrupt`, "utf8")).toBe("{");
+    expect(await readStore(path, isStore)).toBeUndefined();
+  });
+
+  it("should move a store with an unexpected shape aside", async () => {
+    const path = createStorePath();
+    await writeFile(path, "[]");
+    expect(await readStore(path, isStore)).toBeUndefined();
+    expect(await readFile(`${path}.corrupt`, "utf8")).toBe("[]");
+  });
+
+  it("should reject when the store can't be read", async () => {
+    const path = createStorePath();
+    // reading a directory fails
+    await mkdir(path);
+    await expect(readStore(path, isStore)).rejects.toThrow();
+    await rmdir(path);
+  });
+});
+
+describe("StoreWriter", () => {
+  it("should write values in order", async () => {
+    const path = createStorePath();
+    const writer = new StoreWriter(path);
+    const writes = [1, 2, 3].map((version) => writer.write({ version }));
+    await Promise.all(writes);
+    expect(JSON.parse(await readFile(path, "utf8"))).toEqual({ version: 3 });
+  });
+
+  it("should keep writing after a failed write", async () => {
+    const path = createStorePath();
+    const writer = new StoreWriter(path);
+    // writing fails while the temp path is a directory
+    await mkdir(`${path}.tmp`);
+    await expect(writer.write({ version: 1 })).rejects.toThrow();
+    await rmdir(`${path}.tmp`);
+
+    await writer.write({ version: 2 });
+    expect(JSON.parse(await readFile(path, "utf8"))).toEqual({ version: 2 });
+  });
+});
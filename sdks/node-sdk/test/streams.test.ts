@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { StreamCursor } from "@/utils/streams";
+import { createBindingsMessage } from "@test/helpers";
+
+describe("StreamCursor", () => {
+  it("should start from when the stream was created", () => {
+    const before = Date.now() * 1_000_000;
+    const cursor = new StreamCursor();
+    const after = Date.now() * 1_000_000;
+    expect(cursor.after("convo")).toBeGreaterThanOrEqual(before);
+    expect(cursor.after("convo")).toBeLessThanOrEqual(after);
+  });
+
+  it("should track the last delivered message per conversation", () => {
+    const cursor = new StreamCursor();
+    const messages = [
+      createBindingsMessage({ id: "1", convoId: "a", sentAtNs: 100 }),
+      createBindingsMessage({ id: "2", convoId: "a", sentAtNs: 300 }),
+      createBindingsMessage({ id: "3", convoId: "a", sentAtNs: 200 }),
+      createBindingsMessage({ id: "4", convoId: "b", sentAtNs: 50 }),
+    ];
+    messages.forEach((message) => {
+      expect(cursor.track(message)).toBe(true);
+    });
+    expect(cursor.after("a")).toBe(300);
+    expect(cursor.after("b")).toBe(50);
+  });
+
+  it("should skip messages that were already delivered", () => {
+    const cursor = new StreamCursor();
+    const message = createBindingsMessage({
+      id: "1",
+      convoId: "a",
+      sentAtNs: 100,
+    });
+    expect(cursor.track(message)).toBe(true);
+    expect(cursor.track({ ...message })).toBe(false);
+  });
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from "vitest";
+import { nsToDate } from "@/utils/date";
+import { ThreadIndex } from "@/utils/threads";
+import { ContentTypeReply, createMessage } from "@test/helpers";
+
+const createReply = (id: string, sentAtNs: number, reference: string) =>
+  createMessage({
+    id,
+    senderInboxId: "alice",
+    sentAtNs,
+    contentType: ContentTypeReply,
+    content: { reference, content: id },
+  });
+
+describe("ThreadIndex", () => {
+  it("orders the replies of a thread", () => {
+    const index = new ThreadIndex();
+    index.add(createReply("r2", 2, "m1"));
+    index.add(createReply("r1", 1, "m1"));
+    index.add(createReply("r3", 3, "m2"));
+
+    expect(index.repliesTo("m1").map((reply) => reply.id)).toEqual([
+      "r1",
+      "r2",
+    ]);
+    expect(index.repliesTo("m2").map((reply) => reply.id)).toEqual(["r3"]);
+  });
+
+  it("includes replies to replies", () => {
+    const index = new ThreadIndex();
+    // nested replies can be added before the replies they reference
+    index.add(createReply("r3", 3, "r2"));
+    index.add(createReply("r2", 2, "r1"));
+    index.add(createReply("r1", 1, "m1"));
+
+    expect(index.rootOf("r3")).toBe("m1");
+    expect(index.inThread("r3", "m1")).toBe(true);
+    expect(index.inThread("r3", "r1")).toBe(true);
+    expect(index.inThread("r1", "r3")).toBe(false);
+    expect(index.repliesTo("m1").map((reply) => reply.id)).toEqual([
+      "r1",
+      "r2",
+      "r3",
+    ]);
+    expect(index.repliesTo("r2").map((reply) => reply.id)).toEqual(["r3"]);
+  });
+
+  it("ignores duplicates and messages that aren't replies", () => {
+    const index = new ThreadIndex();
+    expect(index.add(createReply("r1", 1, "m1"))).toBe(true);
+    expect(index.add(createReply("r1", 1, "m1"))).toBe(false);
+    expect(index.add(createMessage({ id: "m2", sentAtNs: 2 }))).toBe(false);
+    expect(index.repliesTo("m1").length).toBe(1);
+  });
+
+  it("summarizes threads", () => {
+    const index = new ThreadIndex();
+    index.add(createReply("r1", 1_000_000, "m1"));
+    index.add(createReply("r2", 3_000_000, "r1"));
+    index.add(createReply("r3", 2_000_000, "m2"));
+
+    expect(index.summary("m1")).toEqual({
+      rootId: "m1",
+      replyCount: 2,
+      lastReplyAt: nsToDate(3_000_000),
+      lastReplyAtNs: 3_000_000,
+    });
+    expect(index.summary("m3")).toEqual({
+      rootId: "m3",
+      replyCount: 0,
+      lastReplyAt: undefined,
+      lastReplyAtNs: undefined,
+    });
+    expect(index.summaries()).toEqual(
+      new Map([
+        [
+          "m1",
+          {
+            rootId: "m1",
+            replyCount: 2,
+            lastReplyAt: nsToDate(3_000_000),
+            lastReplyAtNs: 3_000_000,
+          },
+        ],
+        [
+          "m2",
+          {
+            rootId: "m2",
+            replyCount: 1,
+            lastReplyAt: nsToDate(2_000_000),
+            lastReplyAtNs: 2_000_000,
+          },
+        ],
+      ]),
+    );
+  });
+});